@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { cancelJob } from "@/services/job-cancellation";
+
+// Cancels a queued or running CAD job. The job is marked "cancelled" at
+// once; the pipeline stops at its next step and aborts the model, vision
+// and speech calls it has in flight.
+export async function POST(req: Request) {
+    let jobId: unknown;
+    try {
+        ({ jobId } = await req.json());
+    } catch {
+        return NextResponse.json(
+            { error: "Request body must be JSON" },
+            { status: 400 }
+        );
+    }
+
+    if (typeof jobId !== "string" || !jobId) {
+        return NextResponse.json({ error: "Job ID required" }, { status: 400 });
+    }
+
+    try {
+        const cancelled = await cancelJob(jobId);
+        if (cancelled.outcome === "not_found") {
+            return NextResponse.json(
+                { error: "Job not found" },
+                { status: 404 }
+            );
+        }
+        if (cancelled.outcome === "finished") {
+            return NextResponse.json(
+                {
+                    error: `Job already ${cancelled.job.status}`,
+                    jobId,
+                    status: cancelled.job.status,
+                },
+                { status: 409 }
+            );
+        }
+
+        console.log(`CAD job ${jobId} cancelled by request`);
+        return NextResponse.json({ jobId, status: "cancelled" });
+    } catch (error) {
+        console.error(`Error cancelling CAD job ${jobId}:`, error);
+        return NextResponse.json(
+            {
+                error: "Failed to cancel CAD job",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import {
+    CADJob,
+    FINISHED_JOB_STATUSES,
+    getJobStore,
+} from "@/services/job-store";
+import { getQueuePosition } from "@/services/job-queue";
+
+// How often the store is checked for new events; it is the only channel
+// between the instance running the job and the one serving the stream
+const STORE_POLL_MS = 500;
+// Comment lines that keep proxies from closing an idle stream
+const HEARTBEAT_MS = 15000;
+// Reconnect delay suggested to the browser
+const RETRY_MS = 2000;
+// How often a queued job's place in the queue is worked out again
+const QUEUE_POLL_MS = 2000;
+
+// Server-Sent Events stream of a CAD job: "queue" events with its place
+// while it waits, then "status", "stage", "partial" (requirements, then
+// layouts, then code) and "log" events as they are recorded, ending with a
+// "completed", "failed" or "cancelled" event. Recorded events carry ids, so
+// a reconnecting EventSource resumes after the last one it saw
+// (Last-Event-ID) instead of starting over.
+export async function GET(req: Request) {
+    const url = new URL(req.url);
+    const jobId = url.searchParams.get("jobId");
+
+    if (!jobId) {
+        return NextResponse.json({ error: "Job ID required" }, { status: 400 });
+    }
+
+    const store = getJobStore();
+    const job = await store.get(jobId);
+    if (!job) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const lastEventId =
+        Number(
+            req.headers.get("last-event-id") ??
+                url.searchParams.get("lastEventId")
+        ) || 0;
+    const encoder = new TextEncoder();
+    let closed = false;
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (chunk: string) => {
+                if (!closed) controller.enqueue(encoder.encode(chunk));
+            };
+            req.signal.addEventListener("abort", () => {
+                closed = true;
+            });
+
+            send(`retry: ${RETRY_MS}\n\n`);
+            let current: CADJob | null = job;
+            let sent = lastEventId;
+            let lastWrite = Date.now();
+            let queuePosition: number | null = null;
+            let lastQueueCheck = 0;
+
+            try {
+                while (!closed) {
+                    if (!current) {
+                        send(formatEvent("failed", { error: "Job not found" }));
+                        break;
+                    }
+
+                    // Read after the job, so a finished job's events are
+                    // all there
+                    for (const event of await store.listEvents(jobId, sent)) {
+                        send(formatEvent(event.type, event.data, event.id));
+                        sent = event.id;
+                        lastWrite = Date.now();
+                    }
+
+                    if (FINISHED_JOB_STATUSES.includes(current.status)) {
+                        send(formatEvent(current.status, finalEvent(current)));
+                        break;
+                    }
+
+                    if (
+                        current.status === "queued" &&
+                        Date.now() - lastQueueCheck >= QUEUE_POLL_MS
+                    ) {
+                        lastQueueCheck = Date.now();
+                        const position = await getQueuePosition(jobId, store);
+                        if (position !== null && position !== queuePosition) {
+                            queuePosition = position;
+                            send(formatEvent("queue", { queuePosition }));
+                            lastWrite = Date.now();
+                        }
+                    }
+
+                    if (Date.now() - lastWrite >= HEARTBEAT_MS) {
+                        send(": heartbeat\n\n");
+                        lastWrite = Date.now();
+                    }
+
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, STORE_POLL_MS)
+                    );
+                    current = await store.get(jobId);
+                }
+            } catch (error) {
+                // The browser reconnects and resumes from the last event
+                console.error(
+                    `Event stream for CAD job ${jobId} failed:`,
+                    error
+                );
+            }
+
+            if (!closed) {
+                closed = true;
+                controller.close();
+            }
+        },
+        cancel() {
+            closed = true;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
+
+function formatEvent(type: string, data: unknown, id?: number): string {
+    return `${id !== undefined ? `id: ${id}\n` : ""}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// The same fields GET /api/cad-generator returns for a finished job
+function finalEvent(job: CADJob) {
+    const { payload, ...status } = job;
+    return {
+        ...status,
+        elapsed: Math.round((Date.now() - job.startTime) / 1000),
+    };
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getJobStore } from "@/services/job-store";
+import { getClientId } from "@/services/job-queue";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Lists the requesting client's CAD jobs, most recent first, optionally
+// filtered by status. Entries leave out the inputs and the result; fetch a
+// job from /api/cad-generator?jobId=... for its result.
+export async function GET(req: Request) {
+    const url = new URL(req.url);
+    const status = url.searchParams.get("status") || undefined;
+    const limitParam = url.searchParams.get("limit");
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return NextResponse.json(
+            { error: `limit must be a whole number from 1 to ${MAX_LIMIT}` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const jobs = await getJobStore().list({
+            status,
+            clientId: getClientId(req),
+            limit,
+        });
+        return NextResponse.json({
+            jobs: jobs.map(({ result, payload, ...job }) => ({
+                ...job,
+                hasResult: result !== undefined,
+            })),
+        });
+    } catch (error) {
+        console.error("Error listing CAD jobs:", error);
+        return NextResponse.json(
+            {
+                error: "Failed to list CAD jobs",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,55 +1,218 @@
 import { NextResponse } from "next/server";
+import { DESIGN_MODES, isDesignMode } from "@/lib/layout-solver";
+import { ImageFormatError, pngFromDataURL } from "@/lib/png-decoder";
+import {
+    SketchFormatError,
+    VectorSketch,
+    isEmptySketch,
+    parseVectorSketch,
+    sketchLabelText,
+} from "@/lib/sketch-vector";
+import {
+    AGENT_CONFIG,
+    JOB_QUEUE_CONFIG,
+} from "@/services/agents/agent-config";
+import {
+    JOB_PRIORITIES,
+    JobPriority,
+    getJobStore,
+    pruneExpiredJobs,
+} from "@/services/job-store";
+import {
+    getClientId,
+    getClientLoad,
+    getQueuePosition,
+    mayQueueHighPriority,
+    startJobWorker,
+} from "@/services/job-queue";
+import {
+    describeRejection,
+    moderateInputs,
+} from "@/services/content-moderator";
 
-// Dynamic import to avoid initialization during build
-let generateCadModel: any;
-
-// Simple in-memory job store (use Redis/database in production)
-const jobs = new Map<string, { 
-    status: string; 
-    result?: any; 
-    error?: string; 
-    progress?: number;
-    startTime?: number;
-}>();
-
+// Queues a CAD generation job. Jobs run in order of priority, taking turns
+// between clients, once a worker has a free slot; the response and the
+// job's status report its place in the queue.
 export async function POST(req: Request) {
     try {
-        // Initialize service dynamically
-        if (!generateCadModel) {
-            const { generateCadModel: gcm } = await import("@/services/llm-service");
-            generateCadModel = gcm;
-        }
-
         const body = await req.json();
         const { prompt, sketchData, speechData, photoData } = body;
+        const designMode = body.designMode ?? "llm";
+        const variants = body.variants ?? 1;
+        const priority = body.priority ?? "normal";
 
-        if (!prompt && !sketchData && !speechData && !photoData) {
+        // A sketch drawn on the canvas, as primitives with its scale
+        let sketchVector: VectorSketch | undefined;
+        if (body.sketchVector != null) {
+            try {
+                sketchVector = parseVectorSketch(body.sketchVector);
+            } catch (error) {
+                if (!(error instanceof SketchFormatError)) throw error;
+                return NextResponse.json(
+                    { error: `Invalid sketchVector: ${error.message}` },
+                    { status: 400 }
+                );
+            }
+            if (isEmptySketch(sketchVector)) sketchVector = undefined;
+        }
+
+        if (
+            !prompt &&
+            !sketchData &&
+            !sketchVector &&
+            !speechData &&
+            !photoData
+        ) {
             return NextResponse.json(
                 { error: "At least one input type is required" },
                 { status: 400 }
             );
         }
 
+        if (!isDesignMode(designMode)) {
+            return NextResponse.json(
+                {
+                    error: `Unknown designMode "${designMode}", expected one of: ${DESIGN_MODES.join(", ")}`,
+                },
+                { status: 400 }
+            );
+        }
+
+        if (
+            !Number.isInteger(variants) ||
+            variants < 1 ||
+            variants > AGENT_CONFIG.maxVariants
+        ) {
+            return NextResponse.json(
+                {
+                    error: `variants must be a whole number from 1 to ${AGENT_CONFIG.maxVariants}`,
+                },
+                { status: 400 }
+            );
+        }
+
+        if (!JOB_PRIORITIES.includes(priority)) {
+            return NextResponse.json(
+                {
+                    error: `Unknown priority "${priority}", expected one of: ${JOB_PRIORITIES.join(", ")}`,
+                },
+                { status: 400 }
+            );
+        }
+
+        if (photoData) {
+            try {
+                pngFromDataURL(photoData);
+            } catch (error) {
+                if (!(error instanceof ImageFormatError)) throw error;
+                return NextResponse.json(
+                    { error: `Unsupported photoData: ${error.message}` },
+                    { status: 415 }
+                );
+            }
+        }
+
+        if (priority === "high" && !mayQueueHighPriority(req)) {
+            return NextResponse.json(
+                {
+                    error: 'Priority "high" needs a valid X-Priority-Key header',
+                },
+                { status: 403 }
+            );
+        }
+
+        // Briefs that are harmful or talk to the agents themselves are
+        // turned away before they are queued
+        const moderation = await moderateInputs([
+            { source: "prompt", text: prompt },
+            { source: "speech transcript", text: speechData },
+            {
+                source: "sketch labels",
+                text: sketchVector && sketchLabelText(sketchVector),
+            },
+        ]);
+        if (!moderation.allowed) {
+            return NextResponse.json(
+                {
+                    error: describeRejection(moderation),
+                    moderation: moderation.findings.map(
+                        ({ source, category, severity }) => ({
+                            source,
+                            category,
+                            severity,
+                        })
+                    ),
+                },
+                { status: 422 }
+            );
+        }
+
+        const clientId = getClientId(req);
+        const load = await getClientLoad(clientId);
+        if (load.queued >= JOB_QUEUE_CONFIG.maxQueuedPerClient) {
+            return NextResponse.json(
+                {
+                    error: `Too many queued jobs: ${load.queued} already waiting, at most ${JOB_QUEUE_CONFIG.maxQueuedPerClient} per client`,
+                },
+                { status: 429 }
+            );
+        }
+
         // Generate unique job ID
         const jobId = `cad_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         
         // Initialize job status
-        jobs.set(jobId, { 
-            status: "queued", 
+        const now = Date.now();
+        await getJobStore().save({
+            id: jobId,
+            status: "queued",
             progress: 0,
-            startTime: Date.now()
+            clientId,
+            priority: priority as JobPriority,
+            turn: load.queued + load.processing,
+            input: {
+                prompt,
+                designMode,
+                variants,
+                hasSketch: !!sketchData || !!sketchVector,
+                hasSpeech: !!speechData,
+                hasPhoto: !!photoData,
+            },
+            payload: {
+                prompt,
+                sketchData,
+                sketchVector,
+                speechData,
+                photoData,
+                designMode,
+                variants,
+            },
+            startTime: now,
+            updatedAt: now,
+        });
+        pruneExpiredJobs().catch((error) => {
+            console.error("Failed to clean up expired CAD jobs:", error);
         });
 
-        console.log(`Starting CAD generation job ${jobId} with inputs:
+        console.log(`Queued CAD generation job ${jobId} with inputs:
             - Text prompt: ${prompt ? "provided" : "not provided"}
             - Sketch data: ${sketchData ? "provided" : "not provided"}
+            - Sketch primitives: ${sketchVector?.primitives.length ?? "not provided"}
             - Speech data: ${speechData ? "provided" : "not provided"}
-            - Photo data: ${photoData ? "provided" : "not provided"}`);
+            - Photo data: ${photoData ? "provided" : "not provided"}
+            - Design mode: ${designMode}
+            - Variants: ${variants}
+            - Priority: ${priority}`);
 
-        // Start background processing (don't await)
-        processCADJob(jobId, { prompt, sketchData, speechData, photoData });
+        // Runs the job here once a slot is free, unless standalone
+        // workers run the jobs
+        startJobWorker()?.kick();
 
-        return NextResponse.json({ jobId, status: "queued" });
+        return NextResponse.json({
+            jobId,
+            status: "queued",
+            queuePosition: await getQueuePosition(jobId),
+        });
 
     } catch (error) {
         console.error("Error queuing CAD job:", error);
@@ -68,70 +231,19 @@ export async function GET(req: Request) {
         return NextResponse.json({ error: "Job ID required" }, { status: 400 });
     }
 
-    const job = jobs.get(jobId);
+    const job = await getJobStore().get(jobId);
     if (!job) {
         return NextResponse.json({ error: "Job not found" }, { status: 404 });
     }
 
     // Add elapsed time for better UX
+    const { payload, ...status } = job;
     const elapsed = job.startTime ? Date.now() - job.startTime : 0;
     
     return NextResponse.json({
-        ...job,
+        ...status,
+        queuePosition:
+            job.status === "queued" ? await getQueuePosition(jobId) : undefined,
         elapsed: Math.round(elapsed / 1000) // seconds
     });
 }
-
-async function processCADJob(jobId: string, data: any) {
-    try {
-        console.log(`Processing CAD job ${jobId}...`);
-        jobs.set(jobId, { 
-            status: "processing", 
-            progress: 20,
-            startTime: jobs.get(jobId)?.startTime || Date.now()
-        });
-        
-        const textPrompt = data.prompt || "Generate a CAD model based on the provided inputs";
-        
-        jobs.set(jobId, { 
-            status: "analyzing_inputs", 
-            progress: 40,
-            startTime: jobs.get(jobId)?.startTime
-        });
-        
-        jobs.set(jobId, { 
-            status: "generating_model", 
-            progress: 70,
-            startTime: jobs.get(jobId)?.startTime
-        });
-        
-        const result = await generateCadModel(
-            textPrompt, 
-            data.sketchData, 
-            data.speechData, 
-            data.photoData
-        );
-        
-        console.log(`CAD job ${jobId} completed successfully`);
-        jobs.set(jobId, { 
-            status: "completed", 
-            progress: 100, 
-            result,
-            startTime: jobs.get(jobId)?.startTime
-        });
-        
-        // Clean up after 1 hour
-        setTimeout(() => {
-            console.log(`Cleaning up CAD job ${jobId}`);
-            jobs.delete(jobId);
-        }, 3600000);
-        
-    } catch (error) {
-        console.error(`CAD job ${jobId} failed:`, error);
-        jobs.set(jobId, { 
-            status: "failed", 
-            error: error instanceof Error ? error.message : String(error),
-            startTime: jobs.get(jobId)?.startTime
-        });
-    }
-}
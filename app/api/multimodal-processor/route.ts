@@ -1,4 +1,17 @@
 import { NextResponse } from "next/server";
+import { DESIGN_MODES, isDesignMode } from "@/lib/layout-solver";
+import {
+    SketchFormatError,
+    VectorSketch,
+    parseVectorSketch,
+    sketchLabelText,
+} from "@/lib/sketch-vector";
+import { ImageFormatError, pngFromDataURL } from "@/lib/png-decoder";
+import { StructuredOutputError } from "@/services/structured-output";
+import {
+    describeRejection,
+    moderateInputs,
+} from "@/services/content-moderator";
 
 // Dynamic imports to avoid initialization during build
 let multimodalProcessor: any;
@@ -20,9 +33,24 @@ export async function POST(req: Request) {
         // Parse the request body
         const body = await req.json();
         const { text, sketch, speech, photo } = body;
+        const designMode = body.designMode ?? "llm";
+
+        // A sketch drawn on the canvas, as primitives with its scale
+        let sketchVector: VectorSketch | undefined;
+        if (body.sketchVector != null) {
+            try {
+                sketchVector = parseVectorSketch(body.sketchVector);
+            } catch (error) {
+                if (!(error instanceof SketchFormatError)) throw error;
+                return NextResponse.json(
+                    { error: `Invalid sketchVector: ${error.message}` },
+                    { status: 400 }
+                );
+            }
+        }
 
         // Validate that at least one input type is provided
-        if (!text && !sketch && !speech && !photo) {
+        if (!text && !sketch && !sketchVector && !speech && !photo) {
             return NextResponse.json(
                 {
                     error: "At least one input type (text, sketch, speech, or photo) is required",
@@ -31,6 +59,52 @@ export async function POST(req: Request) {
             );
         }
 
+        if (!isDesignMode(designMode)) {
+            return NextResponse.json(
+                {
+                    error: `Unknown designMode "${designMode}", expected one of: ${DESIGN_MODES.join(", ")}`,
+                },
+                { status: 400 }
+            );
+        }
+
+        if (photo) {
+            try {
+                pngFromDataURL(photo);
+            } catch (error) {
+                if (!(error instanceof ImageFormatError)) throw error;
+                return NextResponse.json(
+                    { error: `Unsupported photo: ${error.message}` },
+                    { status: 415 }
+                );
+            }
+        }
+
+        // Harmful input and prompt injection never reach the agents
+        const moderation = await moderateInputs([
+            { source: "text", text },
+            { source: "speech transcript", text: speech },
+            {
+                source: "sketch labels",
+                text: sketchVector && sketchLabelText(sketchVector),
+            },
+        ]);
+        if (!moderation.allowed) {
+            return NextResponse.json(
+                {
+                    error: describeRejection(moderation),
+                    moderation: moderation.findings.map(
+                        ({ source, category, severity }) => ({
+                            source,
+                            category,
+                            severity,
+                        })
+                    ),
+                },
+                { status: 422 }
+            );
+        }
+
         console.log(`Processing multimodal request with:
             - Text: ${text ? "provided" : "not provided"}
             - Sketch: ${sketch ? "provided" : "not provided"}
@@ -42,6 +116,7 @@ export async function POST(req: Request) {
             await multimodalProcessor.processMultimodalInput({
                 text,
                 sketch,
+                sketchVector,
                 speech,
                 photo,
             });
@@ -56,16 +131,21 @@ export async function POST(req: Request) {
                 // Pass the raw response as context for the agent
                 processorResult.rawResponse,
                 // Pass sketch data only if it was in the original input
-                sketch || null
+                sketch || null,
+                { designMode, sketchVector }
             );
 
         // Combine the results
         const combinedResult = {
             modelData: agentResult.modelData,
             code: agentResult.code,
+            renderError: agentResult.renderError,
+            review: agentResult.review,
+            attempts: agentResult.attempts,
             metadata: {
                 ...processorResult.metadata,
                 processingTimeMs: agentResult.processingTimeMs,
+                designMode,
             },
         };
 
@@ -73,6 +153,31 @@ export async function POST(req: Request) {
     } catch (error) {
         console.error("Error in multimodal processor API:", error);
 
+        // A PNG the decoder cannot read, e.g. an interlaced one
+        if (error instanceof ImageFormatError) {
+            return NextResponse.json(
+                { error: `Unsupported photo: ${error.message}` },
+                { status: 415 }
+            );
+        }
+
+        // The model answered, but not with anything usable
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json(
+                {
+                    error: "Model returned malformed output",
+                    details: error.message,
+                    outputError: {
+                        source: error.source,
+                        format: error.format,
+                        reason: error.reason,
+                        position: error.position,
+                    },
+                },
+                { status: 502 }
+            );
+        }
+
         // Provide detailed error message
         const errorMessage =
             error instanceof Error ? error.message : String(error);
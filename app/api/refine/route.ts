@@ -0,0 +1,199 @@
+import { NextResponse } from "next/server";
+import {
+    ModelData,
+    ModelValidationError,
+    validateModelData,
+} from "@/lib/model-schema";
+import { StructuredOutputError } from "@/services/structured-output";
+import { designHistory } from "@/services/design-history";
+import {
+    describeRejection,
+    moderateInputs,
+} from "@/services/content-moderator";
+
+// Dynamic import to avoid initialization during build
+let agentOrchestrator: any;
+
+// Refines an existing design from an instruction such as "make the kitchen
+// 20% bigger and add a pantry". The first request sends the current
+// modelData and gets a designId back; later requests send the designId and
+// continue from the latest turn (or from modelData, if the client edited
+// the model in between).
+export async function POST(req: Request) {
+    try {
+        if (!agentOrchestrator) {
+            const { AgentOrchestrator } = await import("@/services/agent-orchestrator");
+            agentOrchestrator = new AgentOrchestrator();
+        }
+
+        const body = await req.json();
+        const { designId, modelData } = body;
+        const instruction =
+            typeof body.instruction === "string" ? body.instruction.trim() : "";
+
+        if (!instruction) {
+            return NextResponse.json(
+                { error: "An instruction is required" },
+                { status: 400 }
+            );
+        }
+
+        // Read before moderation: the design may be evicted while it runs
+        const stored =
+            designId !== undefined ? designHistory.getTurns(designId) : null;
+        if (designId !== undefined && !stored) {
+            return notFound(designId);
+        }
+
+        if (designId === undefined && modelData === undefined) {
+            return NextResponse.json(
+                { error: "Either designId or modelData is required" },
+                { status: 400 }
+            );
+        }
+
+        let current: ModelData | undefined;
+        if (modelData !== undefined) {
+            const validation = validateModelData(modelData);
+            if (!validation.success) {
+                return NextResponse.json(
+                    { error: "Invalid modelData", issues: validation.issues },
+                    { status: 400 }
+                );
+            }
+            current = validation.data;
+        }
+
+        const moderation = await moderateInputs([
+            { source: "instruction", text: instruction },
+        ]);
+        if (!moderation.allowed) {
+            return NextResponse.json(
+                {
+                    error: describeRejection(moderation),
+                    moderation: moderation.findings.map(
+                        ({ source, category, severity }) => ({
+                            source,
+                            category,
+                            severity,
+                        })
+                    ),
+                },
+                { status: 422 }
+            );
+        }
+
+        let id: string = designId;
+        // Kept to put the design back if it is evicted meanwhile
+        let turns = stored;
+        if (!turns && current) {
+            id = designHistory.startDesign(current);
+            turns = designHistory.getTurns(id);
+        }
+        if (!turns) return notFound(id);
+        const model = current ?? turns[turns.length - 1].modelData;
+        const history = turns
+            .filter((turn) => turn.instruction !== null)
+            .map((turn) => ({
+                instruction: turn.instruction as string,
+                summary: turn.summary,
+            }));
+
+        console.log(`Refining design ${id}: "${instruction}"`);
+        // Stops the refinement when the client goes away
+        const result = await agentOrchestrator.processRefinementRequest(
+            model,
+            instruction,
+            history,
+            req.signal
+        );
+
+        const turn = designHistory.addTurn(
+            id,
+            {
+                instruction,
+                summary: result.summary,
+                changes: result.changes,
+                modelData: result.modelData,
+            },
+            turns
+        );
+
+        return NextResponse.json({
+            designId: id,
+            turn: turn.turn,
+            modelData: result.modelData,
+            changes: result.changes,
+            summary: result.summary,
+            rejectedEdits: result.rejectedEdits,
+            code: result.code,
+            renderError: result.renderError,
+            attempts: result.attempts,
+        });
+    } catch (error) {
+        console.error("Error in refine API:", error);
+
+        // The model answered, but not with anything usable
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json(
+                {
+                    error: "Model returned malformed output",
+                    details: error.message,
+                    outputError: {
+                        source: error.source,
+                        format: error.format,
+                        reason: error.reason,
+                        position: error.position,
+                    },
+                },
+                { status: 502 }
+            );
+        }
+
+        if (error instanceof ModelValidationError) {
+            return NextResponse.json(
+                {
+                    error: "Refinement produced an invalid model",
+                    details: error.message,
+                    issues: error.issues,
+                },
+                { status: 502 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: "Failed to refine design",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 500 }
+        );
+    }
+}
+
+function notFound(designId: string) {
+    return NextResponse.json(
+        { error: `Design "${designId}" not found` },
+        { status: 404 }
+    );
+}
+
+// Turn history of a design, oldest first, with the model after every turn
+export async function GET(req: Request) {
+    const url = new URL(req.url);
+    const designId = url.searchParams.get("designId");
+
+    if (!designId) {
+        return NextResponse.json(
+            { error: "Design ID required" },
+            { status: 400 }
+        );
+    }
+
+    const turns = designHistory.getTurns(designId);
+    if (!turns) {
+        return NextResponse.json({ error: "Design not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ designId, turns });
+}
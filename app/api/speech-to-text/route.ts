@@ -0,0 +1,154 @@
+import { NextResponse } from "next/server";
+import { SPEECH_CONFIG } from "@/services/agents/agent-config";
+import { AudioFormatError } from "@/lib/audio-decoder";
+import { isCancellation } from "@/services/cancellation";
+import {
+    SpeechRecognizerNotConfiguredError,
+    getSpeechRecognizerKind,
+    transcribeAudio,
+} from "@/services/speech-recognizer";
+
+// Multipart boundaries, headers and the language field around the audio
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+// Transcribes a voice recording. Takes multipart form data with the
+// recording in "audio" (and optionally a "language" such as "de-DE"), or
+// the recording itself as the request body with ?language=. WAV, WebM and
+// Ogg recordings are accepted whatever type they are labelled with.
+// Bodies are read only up to the size limit.
+export async function POST(req: Request) {
+    let bytes: Uint8Array;
+    let language: string | undefined;
+    try {
+        const contentType = req.headers.get("content-type") || "";
+        const isForm = contentType.startsWith("multipart/form-data");
+        const body = await readBody(
+            req,
+            SPEECH_CONFIG.maxAudioBytes + (isForm ? FORM_OVERHEAD_BYTES : 0)
+        );
+        if (!body) return tooLarge();
+
+        if (isForm) {
+            const form = await new Response(body, {
+                headers: { "Content-Type": contentType },
+            }).formData();
+            const audio = form.get("audio");
+            if (!(audio instanceof Blob)) {
+                return NextResponse.json(
+                    { error: 'Audio file required in the "audio" field' },
+                    { status: 400 }
+                );
+            }
+            bytes = new Uint8Array(await audio.arrayBuffer());
+            const field = form.get("language");
+            language = typeof field === "string" ? field : undefined;
+        } else {
+            bytes = body;
+            language =
+                new URL(req.url).searchParams.get("language") || undefined;
+        }
+    } catch {
+        return NextResponse.json(
+            { error: "Could not read the uploaded audio" },
+            { status: 400 }
+        );
+    }
+
+    if (bytes.length === 0) {
+        return NextResponse.json({ error: "Audio required" }, { status: 400 });
+    }
+    if (bytes.length > SPEECH_CONFIG.maxAudioBytes) return tooLarge();
+    if (language && !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(language)) {
+        return NextResponse.json(
+            { error: `Invalid language "${language}"` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const transcript = await transcribeAudio(bytes, {
+            language,
+            signal: req.signal,
+        });
+        if (!transcript.text) {
+            return NextResponse.json(
+                { error: "No speech was recognized in the recording" },
+                { status: 422 }
+            );
+        }
+        return NextResponse.json({
+            ...transcript,
+            recognizer: getSpeechRecognizerKind(),
+        });
+    } catch (error) {
+        if (error instanceof AudioFormatError) {
+            return NextResponse.json(
+                { error: error.message, reason: error.reason },
+                { status: error.reason === "unsupported" ? 415 : 400 }
+            );
+        }
+        if (error instanceof SpeechRecognizerNotConfiguredError) {
+            return NextResponse.json(
+                { error: "Speech recognition is not configured" },
+                { status: 503 }
+            );
+        }
+        // The client went away; nobody reads the response
+        if (isCancellation(error, req.signal)) {
+            return NextResponse.json(
+                { error: "Request cancelled" },
+                { status: 499 }
+            );
+        }
+
+        console.error("Speech recognition failed:", error);
+        return NextResponse.json(
+            {
+                error: "Speech recognition failed",
+                details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 502 }
+        );
+    }
+}
+
+// The body, or null as soon as it (or its declared length) goes over the
+// limit; the rest is never read
+async function readBody(
+    req: Request,
+    limit: number
+): Promise<Uint8Array | null> {
+    if (Number(req.headers.get("content-length")) > limit) return null;
+    if (!req.body) return new Uint8Array(0);
+
+    const reader = req.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.length;
+        if (total > limit) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+
+    const body = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return body;
+}
+
+function tooLarge() {
+    return NextResponse.json(
+        {
+            error: `Audio too large, the limit is ${SPEECH_CONFIG.maxAudioBytes} bytes`,
+        },
+        { status: 413 }
+    );
+}
@@ -39,7 +39,13 @@ import { toast } from "@/components/ui/use-toast";
 import { CadModelViewer } from "@/components/cad-model-viewer";
 import { InputPanel } from "@/components/input-panel";
 import { CADJobStatus } from "@/components/cad-job-status";
+import {
+    DesignVariant,
+    DesignVariantComparison,
+    DesignVariantPicker,
+} from "@/components/design-variants";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatModelIssues, validateModelData } from "@/lib/model-schema";
 
 export default function Home() {
     const [prompt, setPrompt] = useState("");
@@ -87,7 +93,13 @@ export default function Home() {
     const [currentJobId, setCurrentJobId] = useState<string | null>(null);
     const [showJobStatus, setShowJobStatus] = useState(false);
 
-    const handleGenerate = async (inputs: { prompt: any; sketchData: any; speechData: any; photoData: any; }) => {
+    // Candidate designs of the last job, compared until one is chosen
+    const [designVariants, setDesignVariants] = useState<DesignVariant[]>([]);
+    const [chosenVariantId, setChosenVariantId] = useState<string | null>(
+        null
+    );
+
+    const handleGenerate = async (inputs: { prompt: any; sketchData: any; sketchVector?: any; speechData: any; photoData: any; variants?: number; }) => {
         try {
             // Extract inputs from the InputPanel component
             const { prompt, sketchData, speechData, photoData } = inputs;
@@ -110,8 +122,12 @@ export default function Home() {
 
             // Add other data if available
             if (sketchData) payload.sketchData = sketchData;
+            if (inputs.sketchVector) payload.sketchVector = inputs.sketchVector;
             if (photoData) payload.photoData = photoData;
             if (speechData) payload.speechData = speechData;
+            if (inputs.variants && inputs.variants > 1) {
+                payload.variants = inputs.variants;
+            }
 
             console.log("Starting CAD generation job:", {
                 hasPrompt: !!payload.prompt,
@@ -171,6 +187,7 @@ export default function Home() {
 
             setGeneratedModel(mockResponse.modelData);
             setGeneratedCode(mockResponse.code);
+            setDesignVariants([]);
             setActiveTab("visual");
 
             toast({
@@ -197,19 +214,28 @@ export default function Home() {
             return;
         }
 
-        // Ensure the modelData has the expected structure
-        if (!Array.isArray(result.modelData.rooms) || result.modelData.rooms.length === 0) {
-            console.error("Invalid or empty rooms array from job:", result.modelData);
+        // Ensure the modelData matches the shared schema
+        const validation = validateModelData(result.modelData);
+        if (!validation.success) {
+            console.error("Invalid model data from job:", validation.issues);
             toast({
                 title: "Generation failed",
-                description: "No valid rooms found in generated model.",
+                description: `Invalid model: ${formatModelIssues(validation.issues, 3)}`,
                 variant: "destructive",
             });
             return;
         }
 
+        // Variants that fail the schema are left out of the comparison
+        const variants: DesignVariant[] = (result.variants || []).filter(
+            (variant: DesignVariant) =>
+                validateModelData(variant.modelData).success
+        );
+
         setGeneratedModel(result.modelData);
         setGeneratedCode(result.code);
+        setDesignVariants(variants.length > 1 ? variants : []);
+        setChosenVariantId(null);
         setActiveTab("visual");
         setShowJobStatus(false);
         setIsGenerating(false);
@@ -218,10 +244,19 @@ export default function Home() {
 
         toast({
             title: "Model generated successfully",
-            description: "Your CAD model has been created successfully.",
+            description:
+                variants.length > 1
+                    ? `Compare the ${variants.length} design variants and choose one.`
+                    : "Your CAD model has been created successfully.",
         });
     };
 
+    const handleChooseVariant = (variant: DesignVariant) => {
+        setGeneratedModel(variant.modelData);
+        setGeneratedCode(variant.code);
+        setChosenVariantId(variant.id);
+    };
+
     const handleJobError = (error: string) => {
         console.error("CAD generation job failed:", error);
         setShowJobStatus(false);
@@ -235,6 +270,7 @@ export default function Home() {
 
         setGeneratedModel(mockResponse.modelData);
         setGeneratedCode(mockResponse.code);
+        setDesignVariants([]);
         setActiveTab("visual");
 
         toast({
@@ -245,6 +281,16 @@ export default function Home() {
     };
 
     const handleJobCancel = () => {
+        // Stop the job on the server too, so it stops calling the models
+        if (currentJobId) {
+            fetch("/api/cad-generator/cancel", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ jobId: currentJobId }),
+            }).catch((error) => {
+                console.error("Failed to cancel CAD job:", error);
+            });
+        }
         setShowJobStatus(false);
         setCurrentJobId(null);
         setIsGenerating(false);
@@ -894,7 +940,20 @@ const renderer = new THREE.WebGLRenderer({ antialias: true });
                                                 value="visual"
                                                 className="h-full m-0 p-0"
                                             >
-                                                {generatedModel ? (
+                                                {designVariants.length > 1 &&
+                                                !chosenVariantId ? (
+                                                    <DesignVariantComparison
+                                                        variants={
+                                                            designVariants
+                                                        }
+                                                        settings={
+                                                            viewerSettings
+                                                        }
+                                                        onChoose={
+                                                            handleChooseVariant
+                                                        }
+                                                    />
+                                                ) : generatedModel ? (
                                                     <div className="relative h-full">
                                                         <CadModelViewer
                                                             modelData={
@@ -905,6 +964,27 @@ const renderer = new THREE.WebGLRenderer({ antialias: true });
                                                             }
                                                         />
 
+                                                        {chosenVariantId && (
+                                                            <div className="absolute top-2 left-2 md:top-4 md:left-4">
+                                                                <DesignVariantPicker
+                                                                    variants={
+                                                                        designVariants
+                                                                    }
+                                                                    selectedId={
+                                                                        chosenVariantId
+                                                                    }
+                                                                    onSelect={
+                                                                        handleChooseVariant
+                                                                    }
+                                                                    onCompare={() =>
+                                                                        setChosenVariantId(
+                                                                            null
+                                                                        )
+                                                                    }
+                                                                />
+                                                            </div>
+                                                        )}
+
                                                         <div className="absolute bottom-2 right-2 md:bottom-4 md:right-4 flex flex-col sm:flex-row gap-2">
                                                             <Button
                                                                 variant="secondary"
@@ -1,11 +1,12 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, Clock, AlertCircle, Loader2, Zap } from "lucide-react";
+import { CheckCircle, Clock, AlertCircle, Loader2, XCircle, Zap } from "lucide-react";
+import { useCADJobStatus } from "@/hooks/use-cad-job";
 
 interface CADJobStatusProps {
     jobId: string;
@@ -14,64 +15,52 @@ interface CADJobStatusProps {
     onCancel?: () => void;
 }
 
-interface JobStatus {
-    status: string;
-    progress?: number;
-    result?: any;
-    error?: string;
-    elapsed?: number;
-}
-
 const statusMessages = {
     queued: "Your CAD generation request is queued",
     processing: "Initializing CAD generation engine",
-    analyzing_inputs: "Analyzing your design inputs",
-    generating_model: "Generating 3D architectural model",
     completed: "CAD model generated successfully!",
-    failed: "Generation failed"
+    failed: "Generation failed",
+    cancelled: "Generation cancelled"
 };
 
 const statusIcons = {
     queued: Clock,
     processing: Loader2,
-    analyzing_inputs: Zap,
-    generating_model: Loader2,
     completed: CheckCircle,
-    failed: AlertCircle
+    failed: AlertCircle,
+    cancelled: XCircle
+};
+
+// Labels for the pipeline stages reported while a job is processing
+const stageLabels = {
+    sketch_analysis: "Analyzing sketch",
+    interpreting: "Interpreting",
+    designing: "Designing",
+    rendering: "Rendering"
+};
+
+const stageIcons = {
+    sketch_analysis: Zap,
+    interpreting: Zap,
+    designing: Loader2,
+    rendering: Loader2
 };
 
 export function CADJobStatus({ jobId, onComplete, onError, onCancel }: CADJobStatusProps) {
-    const [job, setJob] = useState<JobStatus>({ status: "queued", progress: 0 });
-    const [isPolling, setIsPolling] = useState(true);
+    const { job } = useCADJobStatus(jobId);
+    // The job whose outcome was already passed to the callbacks
+    const reportedJobRef = useRef<string | null>(null);
 
     useEffect(() => {
-        if (!isPolling || !jobId) return;
-
-        const pollInterval = setInterval(async () => {
-            try {
-                const response = await fetch(`/api/cad-generator?jobId=${jobId}`);
-                if (!response.ok) throw new Error('Failed to get job status');
-                
-                const jobStatus = await response.json();
-                setJob(jobStatus);
-                
-                if (jobStatus.status === 'completed') {
-                    setIsPolling(false);
-                    onComplete?.(jobStatus.result);
-                } else if (jobStatus.status === 'failed') {
-                    setIsPolling(false);
-                    onError?.(jobStatus.error || 'Unknown error occurred');
-                }
-                
-            } catch (error) {
-                console.error('Polling error:', error);
-                setIsPolling(false);
-                onError?.('Failed to check job status');
-            }
-        }, 2000);
-
-        return () => clearInterval(pollInterval);
-    }, [isPolling, jobId, onComplete, onError]);
+        if (reportedJobRef.current === jobId) return;
+        if (job.status === 'completed') {
+            reportedJobRef.current = jobId;
+            onComplete?.(job.result);
+        } else if (job.status === 'failed') {
+            reportedJobRef.current = jobId;
+            onError?.(job.error || 'Unknown error occurred');
+        }
+    }, [job, jobId, onComplete, onError]);
 
     const formatElapsedTime = (seconds: number) => {
         if (seconds < 60) return `${seconds}s`;
@@ -84,15 +73,14 @@ export function CADJobStatus({ jobId, onComplete, onError, onCancel }: CADJobSta
         switch (status) {
             case 'completed': return 'bg-green-500';
             case 'failed': return 'bg-red-500';
-            case 'processing':
-            case 'analyzing_inputs':
-            case 'generating_model': return 'bg-blue-500';
+            case 'processing': return 'bg-blue-500';
             default: return 'bg-gray-500';
         }
     };
 
-    const StatusIcon = statusIcons[job.status as keyof typeof statusIcons] || Clock;
-    const isProcessing = ['queued', 'processing', 'analyzing_inputs', 'generating_model'].includes(job.status);
+    const isProcessing = ['queued', 'processing'].includes(job.status);
+    const stage = isProcessing && job.stage ? job.stage as keyof typeof stageLabels : null;
+    const StatusIcon = (stage && stageIcons[stage]) || statusIcons[job.status as keyof typeof statusIcons] || Clock;
 
     return (
         <Card className="w-full max-w-md mx-auto">
@@ -108,7 +96,10 @@ export function CADJobStatus({ jobId, onComplete, onError, onCancel }: CADJobSta
                     {job.status === 'completed' ? 'Generation Complete!' : 'Generating CAD Model'}
                 </CardTitle>
                 <CardDescription>
-                    {statusMessages[job.status as keyof typeof statusMessages] || 'Processing...'}
+                    {(job.status === 'queued' && job.queuePosition && (job.queuePosition === 1 ? 'Your request is next in the queue' : `Your request is number ${job.queuePosition} in the queue`))
+                        || (isProcessing && job.message)
+                        || statusMessages[job.status as keyof typeof statusMessages]
+                        || 'Processing...'}
                 </CardDescription>
             </CardHeader>
             
@@ -131,7 +122,7 @@ export function CADJobStatus({ jobId, onComplete, onError, onCancel }: CADJobSta
                         variant={job.status === 'completed' ? 'default' : 'secondary'}
                         className={job.status === 'completed' ? 'bg-green-500' : ''}
                     >
-                        {job.status.replace('_', ' ').toUpperCase()}
+                        {(stage ? stageLabels[stage] : job.status.replace('_', ' ')).toUpperCase()}
                     </Badge>
                     
                     {job.elapsed && (
@@ -142,6 +133,24 @@ export function CADJobStatus({ jobId, onComplete, onError, onCancel }: CADJobSta
                     )}
                 </div>
 
+                {/* Partial Results and Latest Agent Log Line */}
+                {isProcessing && (job.partial || (job.logs && job.logs.length > 0)) && (
+                    <div className="space-y-1 text-xs text-muted-foreground">
+                        {job.partial && (
+                            <div className="flex gap-2">
+                                {job.partial.requirements && <Badge variant="outline">Requirements ready</Badge>}
+                                {job.partial.modelData && <Badge variant="outline">Layout ready</Badge>}
+                                {job.partial.code && <Badge variant="outline">Code ready</Badge>}
+                            </div>
+                        )}
+                        {job.logs && job.logs.length > 0 && (
+                            <p className="truncate" title={job.logs[job.logs.length - 1].message}>
+                                {job.logs[job.logs.length - 1].message}
+                            </p>
+                        )}
+                    </div>
+                )}
+
                 {/* Error Message */}
                 {job.status === 'failed' && job.error && (
                     <div className="p-3 bg-red-50 border border-red-200 rounded-md">
@@ -1,10 +1,32 @@
 "use client";
 
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useState, useMemo } from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import { TextGeometry } from "three/examples/jsm/geometries/TextGeometry.js";
 import { Font, FontLoader } from "three/examples/jsm/loaders/FontLoader.js";
+import {
+    ModelData,
+    formatModelIssues,
+    validateModelData,
+} from "@/lib/model-schema";
+import { buildLevelView, getModelLevels } from "@/lib/model-levels";
+import {
+    getLocalFootprint,
+    getRoomBounds,
+    getRoomCentroid,
+} from "@/lib/room-geometry";
+import {
+    WallOpening,
+    WallSegment,
+    buildWallPieces,
+    deriveWalls,
+    wallToWorld,
+} from "@/lib/walls";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 
 // Add these new interfaces to your existing interfaces
 interface RoomLabelStyle {
@@ -23,33 +45,6 @@ interface ArchitecturalSettings {
     showDimensions: boolean;
 }
 
-interface ModelData {
-    rooms: {
-        name: string;
-        width: number;
-        length: number;
-        height: number;
-        x: number;
-        y: number;
-        z: number;
-        connected_to: string[];
-        type?: string; // Optional type for room rendering customization
-    }[];
-    windows: {
-        room: string;
-        wall: string;
-        width: number;
-        height: number;
-        position: number;
-    }[];
-    doors: {
-        from: string;
-        to: string;
-        width: number;
-        height: number;
-    }[];
-}
-
 interface ViewerSettings {
     showGrid: boolean;
     showAxes: boolean;
@@ -79,7 +74,7 @@ interface ArchitecturalSettings {
 }
 
 export function CadModelViewer({
-    modelData,
+    modelData: sourceData,
     settings,
 }: {
     modelData: ModelData;
@@ -93,6 +88,43 @@ export function CadModelViewer({
     const [gridSize, setGridSize] = useState(20);
     const [font, setFont] = useState<Font | null>(null);
 
+    // Props are checked against the shared schema before anything is drawn
+    const validation = useMemo(
+        () => validateModelData(sourceData),
+        [sourceData]
+    );
+
+    // Per-level view controls
+    const [hiddenLevels, setHiddenLevels] = useState<string[]>([]);
+    const [isolatedLevel, setIsolatedLevel] = useState<string | null>(null);
+    const [explodeGap, setExplodeGap] = useState(0);
+
+    const levels = useMemo(
+        () => (validation.success ? getModelLevels(validation.data) : []),
+        [validation]
+    );
+
+    // What is actually drawn: the validated model minus hidden storeys,
+    // with the remaining storeys spread apart when exploded
+    const modelData = useMemo(
+        () =>
+            validation.success
+                ? buildLevelView(validation.data, {
+                      hiddenLevels,
+                      isolatedLevel,
+                      explodeGap,
+                  })
+                : sourceData,
+        [validation, sourceData, hiddenLevels, isolatedLevel, explodeGap]
+    );
+
+    // A new model starts with every storey visible
+    useEffect(() => {
+        setHiddenLevels([]);
+        setIsolatedLevel(null);
+        setExplodeGap(0);
+    }, [sourceData]);
+
     // Utility function to safely create canvas elements
     const createCanvas = () => {
         if (typeof document === "undefined") return null;
@@ -106,6 +138,15 @@ export function CadModelViewer({
             return;
         }
 
+        if (!validation.success) {
+            console.error("Invalid model data:", validation.issues);
+            setError(
+                `Invalid model data: ${formatModelIssues(validation.issues)}`
+            );
+            setIsLoading(false);
+            return;
+        }
+
         setIsLoading(true);
         setError(null);
 
@@ -240,9 +281,6 @@ export function CadModelViewer({
             addRoomLights(scene, modelData.rooms);
 
             // Create rooms
-            const roomObjects: { [key: string]: THREE.Group } = {};
-            const validatedRooms: string[] = [];
-
             modelData.rooms.forEach((room) => {
                 // Skip invalid rooms (prevents rendering errors)
                 if (room.width <= 0 || room.length <= 0 || room.height <= 0) {
@@ -252,8 +290,6 @@ export function CadModelViewer({
                     return;
                 }
 
-                validatedRooms.push(room.name);
-
                 console.log(
                     `Creating room: ${room.name} with dimensions: ${room.width}x${room.height}x${room.length} at position (${room.x}, ${room.y}, ${room.z})`
                 );
@@ -262,51 +298,24 @@ export function CadModelViewer({
                 const roomGroup = new THREE.Group();
                 roomGroup.name = room.name;
 
-                // Create room with transparent walls
-                const roomGeometry = new THREE.BoxGeometry(
-                    room.width,
-                    room.height,
-                    room.length
-                );
-
-                // Determine room color based on room type or name
-                const roomColor = getRoomColor(room);
-
-                const roomMaterial = new THREE.MeshStandardMaterial({
-                    color: roomColor,
-                    transparent: true,
-                    opacity: 0.3,
-                    wireframe: settings.wireframe,
-                    side: THREE.DoubleSide,
-                });
-
-                const roomMesh = new THREE.Mesh(roomGeometry, roomMaterial);
-                roomMesh.position.set(
-                    room.width / 2,
-                    room.height / 2,
-                    room.length / 2
-                );
-
                 // Add dimension measurements on room edges
                 if (settings.showMeasurements) {
                     addRoomDimensions(roomGroup, room);
                 }
 
-                roomGroup.add(roomMesh);
-
-                // Add room edges for better visibility
-                const edges = new THREE.EdgesGeometry(roomGeometry);
-                const lineMaterial = new THREE.LineBasicMaterial({
-                    color: 0x000000,
-                });
-                const wireframe = new THREE.LineSegments(edges, lineMaterial);
-                wireframe.position.copy(roomMesh.position);
-                roomGroup.add(wireframe);
-
-                // Add floor with appropriate material
-                const floorGeometry = new THREE.PlaneGeometry(
-                    room.width,
-                    room.length
+                // Outline the room footprint in its functional colour; the
+                // walls themselves are built from the shared wall layout
+                const outline = createFootprintOutline(room);
+                roomGroup.add(outline);
+
+                // Add floor with appropriate material; the shape is drawn in
+                // the room-local x/z frame and laid flat below
+                const floorGeometry = new THREE.ShapeGeometry(
+                    new THREE.Shape(
+                        getLocalFootprint(room).map(
+                            ([px, pz]) => new THREE.Vector2(px, pz)
+                        )
+                    )
                 );
 
                 // Get specialized floor material based on room type
@@ -314,17 +323,18 @@ export function CadModelViewer({
 
                 const floor = new THREE.Mesh(floorGeometry, floorMaterial);
                 floor.rotation.x = Math.PI / 2;
-                floor.position.set(room.width / 2, 0.01, room.length / 2);
+                floor.position.set(0, 0.01, 0);
 
                 roomGroup.add(floor);
 
                 // Add specialized room features based on room type
                 addSpecializedRoomFeatures(roomGroup, room);
 
-                // Position the room group at the room's location
+                // Position the room group at the room's location; rotation
+                // turns from +x towards +z, which is negative about y
                 roomGroup.position.set(room.x, room.y, room.z);
+                roomGroup.rotation.y = -((room.rotation || 0) * Math.PI) / 180;
                 scene.add(roomGroup);
-                roomObjects[room.name] = roomGroup;
 
                 // Add room label if enabled
                 if (settings.roomLabels) {
@@ -332,62 +342,30 @@ export function CadModelViewer({
                 }
             });
 
-            // Add windows
-            modelData.windows.forEach((window) => {
-                const roomGroup = roomObjects[window.room];
-
-                if (!roomGroup) {
-                    console.warn(`Room ${window.room} not found for window`);
-                    return;
-                }
-
-                console.log(
-                    `Creating window in ${window.room} on ${window.wall} wall`
+            // Add walls with door and window openings
+            const wallLayout = deriveWalls(modelData);
+            wallLayout.unplaced.forEach((opening) => {
+                console.warn(
+                    `Could not place ${opening.kind} ${opening.index}: ${opening.reason}`
                 );
-
-                const windowObj = createWindow(window);
-                if (windowObj) {
-                    roomGroup.add(windowObj);
-                }
             });
 
-            // Add doors
-            modelData.doors.forEach((door) => {
-                if (!door.from || !door.to) {
-                    console.warn("Door missing from/to properties");
-                    return;
-                }
-
-                const fromRoom = modelData.rooms.find(
-                    (r) => r.name === door.from
-                );
-                const toRoom = modelData.rooms.find((r) => r.name === door.to);
-
-                if (!fromRoom || !toRoom) {
-                    console.warn(
-                        `Rooms not found for door: ${door.from} -> ${door.to}`
-                    );
-                    return;
-                }
-
-                // Skip doors for invalid rooms
-                if (
-                    !validatedRooms.includes(door.from) ||
-                    !validatedRooms.includes(door.to)
-                ) {
-                    console.warn(
-                        `Skipping door between invalid rooms: ${door.from} -> ${door.to}`
-                    );
-                    return;
-                }
+            const wallsGroup = new THREE.Group();
+            wallsGroup.name = "walls";
+            wallLayout.walls.forEach((wall) => {
+                wallsGroup.add(createWall(wall));
+            });
+            scene.add(wallsGroup);
 
+            // Add stairs between levels
+            (modelData.stairs || []).forEach((stair) => {
                 console.log(
-                    `Creating door between ${door.from} and ${door.to}`
+                    `Creating stair ${stair.name} from ${stair.from_level} to ${stair.to_level}`
                 );
 
-                const doorObj = createDoor(door, fromRoom, toRoom);
-                if (doorObj) {
-                    scene.add(doorObj);
+                const stairObj = createStairs(stair);
+                if (stairObj) {
+                    scene.add(stairObj);
                 }
             });
 
@@ -470,6 +448,8 @@ export function CadModelViewer({
         }
     }, [
         modelData,
+        levels,
+        validation,
         settings.backgroundColor,
         settings.showGrid,
         settings.showAxes,
@@ -493,17 +473,15 @@ export function CadModelViewer({
             // Skip invalid rooms
             if (room.width <= 0 || room.length <= 0 || room.height <= 0) return;
 
-            const x2 = room.x + room.width;
-            const y2 = room.y + room.height;
-            const z2 = room.z + room.length;
+            const bounds = getRoomBounds(room);
 
-            minX = Math.min(minX, room.x);
+            minX = Math.min(minX, bounds.minX);
             minY = Math.min(minY, room.y);
-            minZ = Math.min(minZ, room.z);
+            minZ = Math.min(minZ, bounds.minZ);
 
-            maxX = Math.max(maxX, x2);
-            maxY = Math.max(maxY, y2);
-            maxZ = Math.max(maxZ, z2);
+            maxX = Math.max(maxX, bounds.maxX);
+            maxY = Math.max(maxY, room.y + room.height);
+            maxZ = Math.max(maxZ, bounds.maxZ);
         });
 
         // Return default values if no valid rooms
@@ -669,309 +647,150 @@ export function CadModelViewer({
             });
 
             const label = new THREE.Sprite(labelMaterial);
-            label.position.set(
-                room.x + room.width / 2,
-                room.y + room.height / 2,
-                room.z + room.length / 2
-            );
+            const [cx, cz] = getRoomCentroid(room);
+            label.position.set(cx, room.y + room.height / 2, cz);
             label.scale.set(3, 0.75, 1);
             scene.add(label);
         }
     }
 
-    // Create window with frame and glass
-    function createWindow(
-        windowData: ModelData["windows"][0]
-    ): THREE.Group | null {
-        const room = modelData.rooms.find((r) => r.name === windowData.room);
-        if (!room) return null;
-
-        const windowGroup = new THREE.Group();
-
-        const windowGeometry = new THREE.PlaneGeometry(
-            windowData.width,
-            windowData.height
+    // Outline a room's footprint just above its floor
+    function createFootprintOutline(room: ModelData["rooms"][0]) {
+        const points = getLocalFootprint(room).map(
+            ([px, pz]) => new THREE.Vector3(px, 0.02, pz)
         );
-
-        const windowMaterial = new THREE.MeshBasicMaterial({
-            color: 0x87ceeb,
-            transparent: true,
-            opacity: 0.6,
-            side: THREE.DoubleSide,
-        });
-
-        const windowMesh = new THREE.Mesh(windowGeometry, windowMaterial);
-
-        // Position window based on wall
-        switch (windowData.wall.toLowerCase()) {
-            case "north":
-                windowMesh.position.set(
-                    room.width * windowData.position,
-                    room.height / 2,
-                    0.01
-                );
-                break;
-            case "south":
-                windowMesh.position.set(
-                    room.width * windowData.position,
-                    room.height / 2,
-                    room.length - 0.01
-                );
-                windowMesh.rotation.y = Math.PI;
-                break;
-            case "east":
-                windowMesh.position.set(
-                    room.width - 0.01,
-                    room.height / 2,
-                    room.length * windowData.position
-                );
-                windowMesh.rotation.y = Math.PI / 2;
-                break;
-            case "west":
-                windowMesh.position.set(
-                    0.01,
-                    room.height / 2,
-                    room.length * windowData.position
-                );
-                windowMesh.rotation.y = -Math.PI / 2;
-                break;
-            default:
-                console.warn(`Unknown wall: ${windowData.wall}`);
-                return null;
-        }
-
-        windowGroup.add(windowMesh);
-
-        // Add window frame
-        const frameGeometry = new THREE.EdgesGeometry(windowGeometry);
-        const frameMaterial = new THREE.LineBasicMaterial({
-            color: 0x000000,
-            linewidth: 2,
+        const geometry = new THREE.BufferGeometry().setFromPoints(points);
+        const material = new THREE.LineBasicMaterial({
+            color: getRoomColor(room),
         });
-
-        const windowFrame = new THREE.LineSegments(
-            frameGeometry,
-            frameMaterial
-        );
-        windowFrame.position.copy(windowMesh.position);
-        windowFrame.rotation.copy(windowMesh.rotation);
-        windowGroup.add(windowFrame);
-
-        return windowGroup;
+        return new THREE.LineLoop(geometry, material);
     }
 
-    // Create door with proper positioning
-    function createDoor(
-        door: ModelData["doors"][0],
-        fromRoom: ModelData["rooms"][0],
-        toRoom: ModelData["rooms"][0]
-    ): THREE.Group | null {
-        const doorGroup = new THREE.Group();
-
-        // Create basic door geometry
-        const doorGeometry = new THREE.BoxGeometry(
-            door.width,
-            door.height,
-            0.1
-        );
+    // Build a wall as closed boxes around its openings so that exported
+    // GLTF/OBJ files contain solid geometry with real holes
+    function createWall(wall: WallSegment): THREE.Group {
+        const wallGroup = new THREE.Group();
+        wallGroup.name = `wall:${wall.id}`;
+        wallGroup.userData = {
+            rooms: wall.rooms,
+            exterior: wall.exterior,
+            thickness: wall.thickness,
+        };
 
-        const doorMaterial = new THREE.MeshStandardMaterial({
-            color: 0x8b4513,
+        const wallMaterial = new THREE.MeshStandardMaterial({
+            color: wall.exterior ? 0xe8e4dc : 0xf7f7f2,
+            wireframe: settings.wireframe,
         });
 
-        const doorMesh = new THREE.Mesh(doorGeometry, doorMaterial);
-
-        // Try to find the correct position for the door
-        let doorPositioned = false;
-
-        // Check if rooms are adjacent on X axis
-        if (
-            (fromRoom.x + fromRoom.width === toRoom.x ||
-                toRoom.x + toRoom.width === fromRoom.x) &&
-            fromRoom.z < toRoom.z + toRoom.length &&
-            toRoom.z < fromRoom.z + fromRoom.length
-        ) {
-            // Rooms are adjacent on X axis
-            const sharedX =
-                fromRoom.x + fromRoom.width === toRoom.x
-                    ? fromRoom.x + fromRoom.width
-                    : toRoom.x + toRoom.width;
-
-            // Find overlap on Z axis
-            const minZ = Math.max(fromRoom.z, toRoom.z);
-            const maxZ = Math.min(
-                fromRoom.z + fromRoom.length,
-                toRoom.z + toRoom.length
-            );
-            const midZ = (minZ + maxZ) / 2;
-
-            doorMesh.position.set(
-                sharedX - 0.05,
-                fromRoom.y + door.height / 2,
-                midZ
-            );
-            doorMesh.rotation.y = Math.PI / 2;
-            doorPositioned = true;
-        }
-
-        // Check if rooms are adjacent on Z axis
-        if (
-            !doorPositioned &&
-            (fromRoom.z + fromRoom.length === toRoom.z ||
-                toRoom.z + toRoom.length === fromRoom.z) &&
-            fromRoom.x < toRoom.x + toRoom.width &&
-            toRoom.x < fromRoom.x + fromRoom.width
-        ) {
-            // Rooms are adjacent on Z axis
-            const sharedZ =
-                fromRoom.z + fromRoom.length === toRoom.z
-                    ? fromRoom.z + fromRoom.length
-                    : toRoom.z + toRoom.length;
-
-            // Find overlap on X axis
-            const minX = Math.max(fromRoom.x, toRoom.x);
-            const maxX = Math.min(
-                fromRoom.x + fromRoom.width,
-                toRoom.x + toRoom.width
-            );
-            const midX = (minX + maxX) / 2;
-
-            doorMesh.position.set(
-                midX,
-                fromRoom.y + door.height / 2,
-                sharedZ - 0.05
+        buildWallPieces(wall).forEach((piece, index) => {
+            const geometry = new THREE.BoxGeometry(
+                piece.u1 - piece.u0,
+                piece.v1 - piece.v0,
+                wall.thickness
             );
-            doorPositioned = true;
-        }
-
-        // If no shared wall found, create a connecting "hallway"
-        if (!doorPositioned) {
-            const fromCenter = new THREE.Vector3(
-                fromRoom.x + fromRoom.width / 2,
-                fromRoom.y,
-                fromRoom.z + fromRoom.length / 2
+            const center = wallToWorld(
+                wall,
+                (piece.u0 + piece.u1) / 2,
+                (piece.v0 + piece.v1) / 2
             );
 
-            const toCenter = new THREE.Vector3(
-                toRoom.x + toRoom.width / 2,
-                toRoom.y,
-                toRoom.z + toRoom.length / 2
-            );
+            const mesh = new THREE.Mesh(geometry, wallMaterial);
+            mesh.name = `${wallGroup.name}:piece${index}`;
+            mesh.position.set(center.x, center.y, center.z);
+            // Wall angles turn from +x towards +z, i.e. negative about y
+            mesh.rotation.y = -wall.angle;
+            wallGroup.add(mesh);
 
-            // Place door at the midpoint
-            const midPoint = new THREE.Vector3()
-                .addVectors(fromCenter, toCenter)
-                .multiplyScalar(0.5);
-
-            // Orient the door toward the longer dimension
-            const dx = Math.abs(toCenter.x - fromCenter.x);
-            const dz = Math.abs(toCenter.z - fromCenter.z);
-
-            doorMesh.position.set(
-                midPoint.x,
-                fromRoom.y + door.height / 2,
-                midPoint.z
+            const edges = new THREE.LineSegments(
+                new THREE.EdgesGeometry(geometry),
+                new THREE.LineBasicMaterial({ color: 0x666666 })
             );
-
-            if (dx > dz) {
-                doorMesh.rotation.y = 0; // Orient along Z axis
-            } else {
-                doorMesh.rotation.y = Math.PI / 2; // Orient along X axis
-            }
-
-            // Create a visual connection (hallway) between non-adjacent rooms
-            createConnection(
-                doorGroup,
-                fromRoom,
-                toRoom,
-                door.width,
-                door.height
-            );
-        }
-
-        doorGroup.add(doorMesh);
-
-        // Add door frame
-        const frameGeometry = new THREE.EdgesGeometry(doorGeometry);
-        const frameMaterial = new THREE.LineBasicMaterial({
-            color: 0x000000,
+            edges.position.copy(mesh.position);
+            edges.rotation.copy(mesh.rotation);
+            wallGroup.add(edges);
         });
 
-        const doorFrame = new THREE.LineSegments(frameGeometry, frameMaterial);
-        doorFrame.position.copy(doorMesh.position);
-        doorFrame.rotation.copy(doorMesh.rotation);
-        doorGroup.add(doorFrame);
+        wall.openings.forEach((opening) => {
+            wallGroup.add(createOpeningFill(wall, opening));
+        });
 
-        return doorGroup;
+        return wallGroup;
     }
 
-    // Create a visual connection between non-adjacent rooms
-    function createConnection(
-        group: THREE.Group,
-        fromRoom: ModelData["rooms"][0],
-        toRoom: ModelData["rooms"][0],
-        width: number,
-        height: number
-    ) {
-        const fromCenter = new THREE.Vector3(
-            fromRoom.x + fromRoom.width / 2,
-            fromRoom.y,
-            fromRoom.z + fromRoom.length / 2
+    // Glass pane for windows, door leaf for doors, set inside the opening
+    function createOpeningFill(
+        wall: WallSegment,
+        opening: WallOpening
+    ): THREE.Mesh {
+        const width = opening.end - opening.start;
+        const height = opening.top - opening.bottom;
+        const depth = opening.kind === "door" ? 0.05 : 0.02;
+
+        const geometry = new THREE.BoxGeometry(width, height, depth);
+        const material =
+            opening.kind === "door"
+                ? new THREE.MeshStandardMaterial({ color: 0x8b4513 })
+                : new THREE.MeshStandardMaterial({
+                      color: 0x87ceeb,
+                      transparent: true,
+                      opacity: 0.6,
+                  });
+
+        const center = wallToWorld(
+            wall,
+            wall.extendStart + (opening.start + opening.end) / 2,
+            (opening.bottom + opening.top) / 2
         );
 
-        const toCenter = new THREE.Vector3(
-            toRoom.x + toRoom.width / 2,
-            toRoom.y,
-            toRoom.z + toRoom.length / 2
-        );
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.name = `${opening.kind}:${opening.index}`;
+        mesh.position.set(center.x, center.y, center.z);
+        mesh.rotation.y = -wall.angle;
+        return mesh;
+    }
 
-        // Create a path between the centers
-        const distance = fromCenter.distanceTo(toCenter);
-        const direction = new THREE.Vector3()
-            .subVectors(toCenter, fromCenter)
-            .normalize();
-
-        // Create a hall-like connection
-        const hallGeometry = new THREE.BoxGeometry(
-            direction.z !== 0 ? width : distance,
-            height,
-            direction.x !== 0 ? width : distance
+    // Create a straight flight of steps climbing towards +z
+    function createStairs(
+        stair: NonNullable<ModelData["stairs"]>[0]
+    ): THREE.Group | null {
+        // Base comes from the drawn (possibly exploded) level, the rise from
+        // the real storey heights
+        const base = modelData.levels?.find(
+            (level) => level.name === stair.from_level
         );
+        const from = levels.find((level) => level.name === stair.from_level);
+        const to = levels.find((level) => level.name === stair.to_level);
+        if (!base || !from || !to) return null;
 
-        const hallMaterial = new THREE.MeshStandardMaterial({
-            color: 0xcccccc,
-            transparent: true,
-            opacity: 0.3,
-        });
-
-        const hall = new THREE.Mesh(hallGeometry, hallMaterial);
-
-        // Position the hall
-        const midPoint = new THREE.Vector3()
-            .addVectors(fromCenter, toCenter)
-            .multiplyScalar(0.5);
+        const rise = to.elevation - from.elevation;
+        const stepCount = Math.max(2, Math.round(rise / 0.18));
+        const riser = rise / stepCount;
+        const tread = stair.length / stepCount;
 
-        hall.position.set(midPoint.x, fromRoom.y + height / 2, midPoint.z);
+        const stairGroup = new THREE.Group();
+        stairGroup.name = stair.name;
 
-        // Rotate the hall to align with the connection direction
-        if (Math.abs(direction.x) > Math.abs(direction.z)) {
-            hall.rotation.y = 0;
-        } else {
-            hall.rotation.y = Math.PI / 2;
-        }
-
-        // Add hall edges
-        const edges = new THREE.EdgesGeometry(hallGeometry);
-        const linesMaterial = new THREE.LineBasicMaterial({
-            color: 0x000000,
+        const stepMaterial = new THREE.MeshStandardMaterial({
+            color: 0xa0522d,
         });
 
-        const wireframe = new THREE.LineSegments(edges, linesMaterial);
-        wireframe.position.copy(hall.position);
-        wireframe.rotation.copy(hall.rotation);
+        for (let i = 0; i < stepCount; i++) {
+            const stepGeometry = new THREE.BoxGeometry(
+                stair.width,
+                riser * (i + 1),
+                tread
+            );
+            const step = new THREE.Mesh(stepGeometry, stepMaterial);
+            step.position.set(
+                stair.width / 2,
+                (riser * (i + 1)) / 2,
+                tread * (i + 0.5)
+            );
+            stairGroup.add(step);
+        }
 
-        group.add(hall);
-        group.add(wireframe);
+        stairGroup.position.set(stair.x, base.elevation, stair.z);
+        return stairGroup;
     }
 
     // Get room color based on room type or name
@@ -1376,10 +1195,11 @@ export function CadModelViewer({
 
             // Add a point light in the center of each room
             const light = new THREE.PointLight(0xffffff, 0.5, 0);
+            const [cx, cz] = getRoomCentroid(room);
             light.position.set(
-                room.x + room.width / 2,
+                cx,
                 room.y + room.height * 0.8, // Slightly below ceiling
-                room.z + room.length / 2
+                cz
             );
 
             scene.add(light);
@@ -1415,31 +1235,96 @@ export function CadModelViewer({
                 style={{ minHeight: "500px" }}
             />
 
+            {/* Level controls for multi-storey models */}
+            {validation.success && levels.length > 1 && (
+                <div className="absolute top-2 left-2 text-xs bg-background/80 p-2 rounded space-y-2 z-20">
+                    <p className="font-medium">Levels</p>
+                    {[...levels].reverse().map((level) => (
+                        <div
+                            key={level.name}
+                            className="flex items-center gap-2"
+                        >
+                            <Switch
+                                checked={
+                                    isolatedLevel
+                                        ? isolatedLevel === level.name
+                                        : !hiddenLevels.includes(level.name)
+                                }
+                                disabled={!!isolatedLevel}
+                                onCheckedChange={(checked) =>
+                                    setHiddenLevels((prev) =>
+                                        checked
+                                            ? prev.filter(
+                                                  (name) => name !== level.name
+                                              )
+                                            : [...prev, level.name]
+                                    )
+                                }
+                            />
+                            <span className="flex-1">
+                                {level.name} ({level.elevation}m)
+                            </span>
+                            <Button
+                                variant={
+                                    isolatedLevel === level.name
+                                        ? "default"
+                                        : "outline"
+                                }
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={() =>
+                                    setIsolatedLevel((prev) =>
+                                        prev === level.name ? null : level.name
+                                    )
+                                }
+                            >
+                                Isolate
+                            </Button>
+                        </div>
+                    ))}
+                    <div className="space-y-1">
+                        <div className="flex justify-between">
+                            <Label className="text-xs">Explode</Label>
+                            <span>{explodeGap.toFixed(1)}m</span>
+                        </div>
+                        <Slider
+                            value={[explodeGap]}
+                            min={0}
+                            max={6}
+                            step={0.5}
+                            onValueChange={(value) => setExplodeGap(value[0])}
+                        />
+                    </div>
+                </div>
+            )}
+
             {/* Enhanced debug info overlay */}
-            <div className="absolute bottom-2 left-2 text-xs bg-background/80 p-2 rounded">
-                <p>
-                    Model: {validRoomCount}/{roomCount} rooms,{" "}
-                    {modelData.windows.length} windows, {modelData.doors.length}{" "}
-                    doors
-                </p>
-                {modelData.rooms.length > 0 && (
+            {validation.success && (
+                <div className="absolute bottom-2 left-2 text-xs bg-background/80 p-2 rounded">
                     <p>
-                        First room: {modelData.rooms[0]?.name} (
-                        {modelData.rooms[0]?.width}×{modelData.rooms[0]?.length}
-                        ×{modelData.rooms[0]?.height})
+                        Model: {validRoomCount}/{roomCount} rooms,{" "}
+                        {modelData.windows.length} windows, {modelData.doors.length}{" "}
+                        doors
                     </p>
-                )}
-                {modelData.rooms.length > 1 && (
+                    {modelData.rooms.length > 0 && (
+                        <p>
+                            First room: {modelData.rooms[0]?.name} (
+                            {modelData.rooms[0]?.width}×{modelData.rooms[0]?.length}
+                            ×{modelData.rooms[0]?.height})
+                        </p>
+                    )}
+                    {modelData.rooms.length > 1 && (
+                        <p>
+                            Second room: {modelData.rooms[1]?.name} (
+                            {modelData.rooms[1]?.width}×{modelData.rooms[1]?.length}
+                            ×{modelData.rooms[1]?.height})
+                        </p>
+                    )}
                     <p>
-                        Second room: {modelData.rooms[1]?.name} (
-                        {modelData.rooms[1]?.width}×{modelData.rooms[1]?.length}
-                        ×{modelData.rooms[1]?.height})
+                        Grid size: {gridSize}×{gridSize} m
                     </p>
-                )}
-                <p>
-                    Grid size: {gridSize}×{gridSize} m
-                </p>
-            </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -10,6 +10,14 @@ import {
     useImperativeHandle,
 } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
 import {
     Eraser,
     Pencil,
@@ -18,48 +26,139 @@ import {
     RotateCw,
     Undo,
     Hand,
+    Slash,
+    BrickWall,
+    DoorOpen,
+    AppWindow,
+    Type,
 } from "lucide-react";
+import type { Point2 } from "@/lib/room-geometry";
+import {
+    Segment,
+    closestPointOnSegment,
+    distanceToSegment,
+} from "@/lib/sketch-enclosures";
+import {
+    FOOT,
+    SketchOpening,
+    SketchPrimitive,
+    SketchUnit,
+    VectorSketch,
+    distanceToPrimitive,
+    formatSketchLength,
+    openingEnds,
+    parseSketchLengths,
+    simplifyPath,
+    sketchWallSegments,
+} from "@/lib/sketch-vector";
 
 interface DesignCanvasProps {
     projectId: string;
+    // Scale of the drawing, sent with the sketch
+    pixelsPerMeter?: number;
 }
 
+type DrawingTool =
+    | "pencil"
+    | "eraser"
+    | "wall"
+    | "line"
+    | "rectangle"
+    | "circle"
+    | "door"
+    | "window"
+    | "label"
+    | "pan";
+
+const TOOLS: { tool: DrawingTool; title: string; icon: typeof Pencil }[] = [
+    { tool: "pencil", title: "Pencil", icon: Pencil },
+    { tool: "eraser", title: "Eraser", icon: Eraser },
+    { tool: "wall", title: "Wall (Shift for any angle)", icon: BrickWall },
+    { tool: "line", title: "Line", icon: Slash },
+    { tool: "rectangle", title: "Room", icon: Square },
+    { tool: "circle", title: "Circle", icon: Circle },
+    { tool: "door", title: "Door", icon: DoorOpen },
+    { tool: "window", title: "Window", icon: AppWindow },
+    { tool: "label", title: "Label", icon: Type },
+    { tool: "pan", title: "Pan", icon: Hand },
+];
+
+// Grid spacings offered for each unit, in that unit
+const GRID_SPACINGS: Record<SketchUnit, number[]> = {
+    m: [0.1, 0.25, 0.5, 1],
+    ft: [0.5, 1, 2, 5],
+};
+
+// Canvas pixels at which a drag counts as drawn rather than a click
+const MIN_SHAPE_SIZE = 3;
+// Pixels from the eraser within which primitives are removed
+const ERASER_RADIUS = 8;
+// Pencil strokes are straightened to this many pixels as they are saved
+const STROKE_TOLERANCE = 1;
+// Pixels within which points snap to wall ends and walls
+const SNAP_RADIUS = 8;
+// Stamp widths, in meters
+const DOOR_WIDTH = 0.9;
+const WINDOW_WIDTH = 1.2;
+
+/**
+ * Sketchpad for floor plans. Everything drawn is kept as vector primitives
+ * (strokes, walls, lines, rectangles, circles, door and window stamps and
+ * labels) at a fixed scale, which getVectorSketch hands to the interpreter;
+ * the pixels are only a view of them. Walls, rooms and lines snap to the
+ * grid and to each other, show their lengths, and the last one drawn can
+ * be resized by typing its dimensions. The eraser removes whole primitives.
+ */
 export const DesignCanvas = forwardRef<any, DesignCanvasProps>(
-    ({ projectId }, ref) => {
+    ({ projectId, pixelsPerMeter = 50 }, ref) => {
         const canvasRef = useRef<HTMLCanvasElement>(null);
         const [context, setContext] = useState<CanvasRenderingContext2D | null>(
             null
         );
         const [isDrawing, setIsDrawing] = useState(false);
-        const [tool, setTool] = useState<
-            "pencil" | "eraser" | "rectangle" | "circle" | "pan"
-        >("pencil");
+        const [tool, setTool] = useState<DrawingTool>("pencil");
         const [lastX, setLastX] = useState(0);
         const [lastY, setLastY] = useState(0);
-        const [history, setHistory] = useState<ImageData[]>([]);
-        const [historyIndex, setHistoryIndex] = useState(-1);
+        // Every state of the drawing, oldest first
+        const [history, setHistory] = useState<SketchPrimitive[][]>([[]]);
+        const [historyIndex, setHistoryIndex] = useState(0);
+        // The shape being drawn, and primitives the eraser has touched
+        const [draft, setDraft] = useState<SketchPrimitive | null>(null);
+        const [erased, setErased] = useState<SketchPrimitive[]>([]);
+        const [unit, setUnit] = useState<SketchUnit>("m");
+        const [gridSpacing, setGridSpacing] = useState(0.5);
+        // Text of a label being typed, and where it goes
+        const [labelDraft, setLabelDraft] = useState<{
+            x: number;
+            y: number;
+            text: string;
+        } | null>(null);
+        const [dimensions, setDimensions] = useState("");
+        const [dimensionsError, setDimensionsError] = useState(false);
+
+        const primitives = history[historyIndex];
+        const gridStep =
+            gridSpacing * (unit === "ft" ? FOOT : 1) * pixelsPerMeter;
+        const measure = (pixels: number) =>
+            formatSketchLength(pixels / pixelsPerMeter, unit);
 
         // Expose the canvas element and methods to parent components
         useImperativeHandle(ref, () => ({
             getCanvasElement: () => canvasRef.current,
+            // The drawing as primitives with its scale; null when empty
+            getVectorSketch: (): VectorSketch | null => {
+                if (!canvasRef.current || primitives.length === 0) return null;
+                return {
+                    width: canvasRef.current.width,
+                    height: canvasRef.current.height,
+                    scale: { pixelsPerMeter, unit },
+                    primitives,
+                };
+            },
             clearCanvas: () => {
-                if (context && canvasRef.current) {
-                    context.clearRect(
-                        0,
-                        0,
-                        canvasRef.current.width,
-                        canvasRef.current.height
-                    );
-                    // Reset history
-                    const initialState = context.getImageData(
-                        0,
-                        0,
-                        canvasRef.current.width,
-                        canvasRef.current.height
-                    );
-                    setHistory([initialState]);
-                    setHistoryIndex(0);
-                }
+                // Reset history
+                setHistory([[]]);
+                setHistoryIndex(0);
             },
         }));
 
@@ -69,70 +168,159 @@ export const DesignCanvas = forwardRef<any, DesignCanvasProps>(
                 const ctx = canvas.getContext("2d");
 
                 if (ctx) {
-                    setContext(ctx);
-                    ctx.strokeStyle = "#000000";
-                    ctx.lineWidth = 2;
-                    ctx.lineCap = "round";
-
                     // Set canvas size to fill container
                     canvas.width = canvas.offsetWidth;
                     canvas.height = canvas.offsetHeight;
-
-                    // Save initial canvas state
-                    const initialState = ctx.getImageData(
-                        0,
-                        0,
-                        canvas.width,
-                        canvas.height
-                    );
-                    setHistory([initialState]);
-                    setHistoryIndex(0);
+                    setContext(ctx);
                 }
             }
         }, []);
 
-        const saveState = () => {
-            if (context && canvasRef.current) {
-                const canvas = canvasRef.current;
-                const currentState = context.getImageData(
-                    0,
-                    0,
-                    canvas.width,
-                    canvas.height
+        // Redraw whenever the drawing changes
+        useEffect(() => {
+            if (!context || !canvasRef.current) return;
+            const canvas = canvasRef.current;
+            context.clearRect(0, 0, canvas.width, canvas.height);
+            context.strokeStyle = "#000000";
+            context.lineWidth = 2;
+            context.lineCap = "round";
+            context.lineJoin = "round";
+            primitives
+                .filter((primitive) => !erased.includes(primitive))
+                .forEach((primitive) =>
+                    drawPrimitive(context, primitive, measure)
                 );
+            if (draft) drawPrimitive(context, draft, measure);
+        }, [context, primitives, draft, erased, unit]);
 
-                // Remove states after current history index
-                const newHistory = history.slice(0, historyIndex + 1);
+        const saveState = (next: SketchPrimitive[]) => {
+            // Remove states after current history index
+            const newHistory = history.slice(0, historyIndex + 1);
 
-                setHistory([...newHistory, currentState]);
-                setHistoryIndex(newHistory.length);
-            }
+            setHistory([...newHistory, next]);
+            setHistoryIndex(newHistory.length);
         };
 
         const undo = () => {
-            if (historyIndex > 0 && context && canvasRef.current) {
-                const newIndex = historyIndex - 1;
-                context.putImageData(history[newIndex], 0, 0);
-                setHistoryIndex(newIndex);
+            if (historyIndex > 0) {
+                setHistoryIndex(historyIndex - 1);
             }
         };
 
-        const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-            if (!context || !canvasRef.current) return;
+        const eraseAt = (x: number, y: number) => {
+            const touched = primitives.filter(
+                (primitive) =>
+                    !erased.includes(primitive) &&
+                    distanceToPrimitive(primitive, [x, y]) <= ERASER_RADIUS
+            );
+            if (touched.length > 0) setErased([...erased, ...touched]);
+        };
 
-            setIsDrawing(true);
+        // Wall ends, then walls, then the grid
+        const snap = (point: Point2): Point2 =>
+            snapPoint(point, sketchWallSegments(primitives), gridStep);
+
+        const changeUnit = (value: SketchUnit) => {
+            setUnit(value);
+            setGridSpacing(GRID_SPACINGS[value][value === "m" ? 2 : 1]);
+        };
+
+        const commitLabel = () => {
+            if (labelDraft && labelDraft.text.trim()) {
+                saveState([
+                    ...primitives,
+                    {
+                        kind: "label",
+                        x: labelDraft.x,
+                        y: labelDraft.y,
+                        text: labelDraft.text.trim().slice(0, 80),
+                    },
+                ]);
+            }
+            setLabelDraft(null);
+        };
+
+        // Sizes the last wall, line, room or circle to the typed lengths:
+        // a length, a room's width and length, or a circle's diameter
+        const applyDimensions = () => {
+            const lengths = parseSketchLengths(dimensions, unit);
+            const index = findLastIndex(primitives, (primitive) =>
+                ["wall", "line", "rectangle", "circle"].includes(primitive.kind)
+            );
+            if (!lengths || index < 0) {
+                setDimensionsError(true);
+                return;
+            }
+            const [first, second = first] = lengths.map(
+                (meters) => meters * pixelsPerMeter
+            );
+            const primitive = primitives[index];
+            let resized: SketchPrimitive = primitive;
+            if (primitive.kind === "wall" || primitive.kind === "line") {
+                const length = Math.hypot(
+                    primitive.x2 - primitive.x1,
+                    primitive.y2 - primitive.y1
+                );
+                resized = {
+                    ...primitive,
+                    x2:
+                        primitive.x1 +
+                        ((primitive.x2 - primitive.x1) * first) / length,
+                    y2:
+                        primitive.y1 +
+                        ((primitive.y2 - primitive.y1) * first) / length,
+                };
+            } else if (primitive.kind === "rectangle") {
+                resized = { ...primitive, width: first, height: second };
+            } else if (primitive.kind === "circle") {
+                resized = { ...primitive, radius: first / 2 };
+            }
+            saveState(
+                primitives.map((entry, i) => (i === index ? resized : entry))
+            );
+            setDimensions("");
+            setDimensionsError(false);
+        };
+
+        const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+            if (!context || !canvasRef.current || tool === "pan") return;
 
             const canvas = canvasRef.current;
             const rect = canvas.getBoundingClientRect();
-            const x = e.clientX - rect.left;
-            const y = e.clientY - rect.top;
+            let x = e.clientX - rect.left;
+            let y = e.clientY - rect.top;
 
+            if (tool === "label") {
+                commitLabel();
+                setLabelDraft({ x, y, text: "" });
+                return;
+            }
+
+            setIsDrawing(true);
+
+            if (["wall", "line", "rectangle", "circle"].includes(tool)) {
+                [x, y] = snap([x, y]);
+            }
             setLastX(x);
             setLastY(y);
 
-            if (tool === "pencil" || tool === "eraser") {
-                context.beginPath();
-                context.moveTo(x, y);
+            if (tool === "pencil") {
+                setDraft({ kind: "stroke", points: [[x, y]] });
+            } else if (tool === "eraser") {
+                eraseAt(x, y);
+            } else if (tool === "door" || tool === "window") {
+                // Stamps go on the nearest wall, or nowhere
+                const width =
+                    (tool === "door" ? DOOR_WIDTH : WINDOW_WIDTH) *
+                    pixelsPerMeter;
+                setDraft(
+                    placeOpening(
+                        tool,
+                        [x, y],
+                        sketchWallSegments(primitives),
+                        width
+                    )
+                );
             }
         };
 
@@ -141,94 +329,143 @@ export const DesignCanvas = forwardRef<any, DesignCanvasProps>(
 
             const canvas = canvasRef.current;
             const rect = canvas.getBoundingClientRect();
-            const x = e.clientX - rect.left;
-            const y = e.clientY - rect.top;
+            let x = e.clientX - rect.left;
+            let y = e.clientY - rect.top;
 
-            if (tool === "pencil") {
-                context.strokeStyle = "#000000";
-                context.lineTo(x, y);
-                context.stroke();
+            if (tool === "wall" && !e.shiftKey) {
+                // Walls run across or down the page unless Shift is held
+                const across = Math.abs(x - lastX) >= Math.abs(y - lastY);
+                const [snappedX, snappedY] = snap(
+                    across ? [x, lastY] : [lastX, y]
+                );
+                [x, y] = across ? [snappedX, lastY] : [lastX, snappedY];
+            } else if (["wall", "line", "rectangle", "circle"].includes(tool)) {
+                [x, y] = snap([x, y]);
+            }
+
+            if (tool === "pencil" && draft?.kind === "stroke") {
+                setDraft({ kind: "stroke", points: [...draft.points, [x, y]] });
             } else if (tool === "eraser") {
-                context.strokeStyle = "#ffffff";
-                context.lineTo(x, y);
-                context.stroke();
+                eraseAt(x, y);
+            } else if (tool === "wall" || tool === "line") {
+                setDraft({ kind: tool, x1: lastX, y1: lastY, x2: x, y2: y });
             } else if (tool === "rectangle") {
-                // Redraw from saved state to avoid multiple overlapping shapes
-                if (historyIndex >= 0) {
-                    context.putImageData(history[historyIndex], 0, 0);
-                }
-                context.strokeStyle = "#000000";
-                context.beginPath();
-                context.rect(lastX, lastY, x - lastX, y - lastY);
-                context.stroke();
+                setDraft({
+                    kind: "rectangle",
+                    x: Math.min(lastX, x),
+                    y: Math.min(lastY, y),
+                    width: Math.abs(x - lastX),
+                    height: Math.abs(y - lastY),
+                });
             } else if (tool === "circle") {
-                if (historyIndex >= 0) {
-                    context.putImageData(history[historyIndex], 0, 0);
-                }
-                context.strokeStyle = "#000000";
-                context.beginPath();
                 const radius = Math.sqrt(
                     Math.pow(x - lastX, 2) + Math.pow(y - lastY, 2)
                 );
-                context.arc(lastX, lastY, radius, 0, 2 * Math.PI);
-                context.stroke();
+                setDraft({ kind: "circle", cx: lastX, cy: lastY, radius });
             }
         };
 
         const handleMouseUp = () => {
-            if (isDrawing) {
-                setIsDrawing(false);
-                saveState();
+            if (!isDrawing) return;
+            setIsDrawing(false);
+
+            if (erased.length > 0) {
+                saveState(
+                    primitives.filter(
+                        (primitive) => !erased.includes(primitive)
+                    )
+                );
+                setErased([]);
+            } else if (draft && isDrawn(draft)) {
+                saveState([
+                    ...primitives,
+                    draft.kind === "stroke"
+                        ? {
+                              kind: "stroke",
+                              points: simplifyPath(
+                                  draft.points,
+                                  STROKE_TOLERANCE
+                              ),
+                          }
+                        : draft,
+                ]);
             }
+            setDraft(null);
         };
 
         return (
             <div className="flex flex-col h-full">
-                <div className="flex items-center justify-between mb-3">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
                     <div className="flex space-x-1 bg-secondary rounded-md p-1">
-                        <Button
-                            variant={tool === "pencil" ? "default" : "ghost"}
-                            size="icon"
-                            className="h-8 w-8"
-                            onClick={() => setTool("pencil")}
-                        >
-                            <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button
-                            variant={tool === "eraser" ? "default" : "ghost"}
-                            size="icon"
-                            className="h-8 w-8"
-                            onClick={() => setTool("eraser")}
-                        >
-                            <Eraser className="h-4 w-4" />
-                        </Button>
-                        <Button
-                            variant={tool === "rectangle" ? "default" : "ghost"}
-                            size="icon"
-                            className="h-8 w-8"
-                            onClick={() => setTool("rectangle")}
-                        >
-                            <Square className="h-4 w-4" />
-                        </Button>
-                        <Button
-                            variant={tool === "circle" ? "default" : "ghost"}
-                            size="icon"
-                            className="h-8 w-8"
-                            onClick={() => setTool("circle")}
-                        >
-                            <Circle className="h-4 w-4" />
-                        </Button>
-                        <Button
-                            variant={tool === "pan" ? "default" : "ghost"}
-                            size="icon"
-                            className="h-8 w-8"
-                            onClick={() => setTool("pan")}
-                        >
-                            <Hand className="h-4 w-4" />
-                        </Button>
+                        {TOOLS.map(({ tool: option, title, icon: Icon }) => (
+                            <Button
+                                key={option}
+                                variant={tool === option ? "default" : "ghost"}
+                                size="icon"
+                                className="h-8 w-8"
+                                title={title}
+                                onClick={() => setTool(option)}
+                            >
+                                <Icon className="h-4 w-4" />
+                            </Button>
+                        ))}
                     </div>
 
-                    <div className="flex space-x-1">
+                    <div className="flex items-center space-x-1">
+                        <Select
+                            value={unit}
+                            onValueChange={(value) =>
+                                changeUnit(value as SketchUnit)
+                            }
+                        >
+                            <SelectTrigger className="h-8 w-16 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="m">m</SelectItem>
+                                <SelectItem value="ft">ft</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <Select
+                            value={String(gridSpacing)}
+                            onValueChange={(value) =>
+                                setGridSpacing(Number(value))
+                            }
+                        >
+                            <SelectTrigger
+                                className="h-8 w-24 text-xs"
+                                title="Grid spacing"
+                            >
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {GRID_SPACINGS[unit].map((spacing) => (
+                                    <SelectItem
+                                        key={spacing}
+                                        value={String(spacing)}
+                                    >
+                                        {spacing} {unit} grid
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Input
+                            className={`h-8 w-28 text-xs ${
+                                dimensionsError ? "border-destructive" : ""
+                            }`}
+                            placeholder={
+                                unit === "m" ? "4.5 x 3" : "12' x 10'6\""
+                            }
+                            title="Size of the last wall, room or circle"
+                            value={dimensions}
+                            onChange={(e) => {
+                                setDimensions(e.target.value);
+                                setDimensionsError(false);
+                            }}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") applyDimensions();
+                            }}
+                        />
                         <Button
                             variant="outline"
                             size="icon"
@@ -248,15 +485,49 @@ export const DesignCanvas = forwardRef<any, DesignCanvasProps>(
                     </div>
                 </div>
 
-                <div className="flex-1 border rounded-md bg-white overflow-hidden">
+                <div
+                    className="relative flex-1 border rounded-md bg-white overflow-hidden"
+                    // The grid is drawn behind the canvas, so it stays out
+                    // of the sketch image
+                    style={{
+                        backgroundImage:
+                            "linear-gradient(to right, #e5e7eb 1px, transparent 1px), linear-gradient(to bottom, #e5e7eb 1px, transparent 1px)",
+                        backgroundSize: `${gridStep}px ${gridStep}px`,
+                    }}
+                >
                     <canvas
                         ref={canvasRef}
-                        className="w-full h-full cursor-crosshair"
+                        className={`w-full h-full ${
+                            tool === "pan" ? "cursor-grab" : "cursor-crosshair"
+                        }`}
                         onMouseDown={handleMouseDown}
                         onMouseMove={handleMouseMove}
                         onMouseUp={handleMouseUp}
                         onMouseLeave={handleMouseUp}
                     />
+                    {labelDraft && (
+                        <Input
+                            autoFocus
+                            className="absolute h-7 w-40 text-xs"
+                            style={{
+                                left: labelDraft.x,
+                                top: labelDraft.y - 14,
+                            }}
+                            placeholder="Room name"
+                            maxLength={80}
+                            value={labelDraft.text}
+                            onChange={(e) =>
+                                setLabelDraft({
+                                    ...labelDraft,
+                                    text: e.target.value,
+                                })
+                            }
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") commitLabel();
+                                if (e.key === "Escape") setLabelDraft(null);
+                            }}
+                        />
+                    )}
                 </div>
             </div>
         );
@@ -264,3 +535,199 @@ export const DesignCanvas = forwardRef<any, DesignCanvasProps>(
 );
 
 DesignCanvas.displayName = "DesignCanvas";
+
+function drawPrimitive(
+    context: CanvasRenderingContext2D,
+    primitive: SketchPrimitive,
+    measure: (pixels: number) => string
+) {
+    context.save();
+    context.beginPath();
+    switch (primitive.kind) {
+        case "stroke":
+            primitive.points.forEach(([x, y], i) =>
+                i === 0 ? context.moveTo(x, y) : context.lineTo(x, y)
+            );
+            break;
+        case "wall":
+            context.lineWidth = 5;
+            context.strokeStyle = "#374151";
+        // falls through
+        case "line":
+            context.moveTo(primitive.x1, primitive.y1);
+            context.lineTo(primitive.x2, primitive.y2);
+            break;
+        case "rectangle":
+            context.rect(
+                primitive.x,
+                primitive.y,
+                primitive.width,
+                primitive.height
+            );
+            break;
+        case "circle":
+            context.arc(
+                primitive.cx,
+                primitive.cy,
+                primitive.radius,
+                0,
+                2 * Math.PI
+            );
+            break;
+        case "door": {
+            // The leaf swung open from the hinge, and its swing
+            const [hinge, latch] = openingEnds(primitive);
+            const angle = (primitive.angle * Math.PI) / 180;
+            context.strokeStyle = "#b45309";
+            context.moveTo(...hinge);
+            context.lineTo(
+                hinge[0] - Math.sin(angle) * primitive.width,
+                hinge[1] + Math.cos(angle) * primitive.width
+            );
+            context.moveTo(...latch);
+            context.arc(
+                hinge[0],
+                hinge[1],
+                primitive.width,
+                angle,
+                angle + Math.PI / 2
+            );
+            break;
+        }
+        case "window": {
+            const [from, to] = openingEnds(primitive);
+            const angle = (primitive.angle * Math.PI) / 180;
+            const [nx, ny] = [-Math.sin(angle) * 3, Math.cos(angle) * 3];
+            context.strokeStyle = "#2563eb";
+            for (const offset of [-1, 0, 1]) {
+                context.moveTo(from[0] + offset * nx, from[1] + offset * ny);
+                context.lineTo(to[0] + offset * nx, to[1] + offset * ny);
+            }
+            break;
+        }
+        case "label":
+            context.font = "bold 12px sans-serif";
+            context.textBaseline = "middle";
+            context.fillText(primitive.text, primitive.x, primitive.y);
+            break;
+    }
+    context.stroke();
+    context.restore();
+
+    // Lengths along walls and lines, and a room's width and length
+    if (primitive.kind === "wall" || primitive.kind === "line") {
+        drawDimension(
+            context,
+            [primitive.x1, primitive.y1],
+            [primitive.x2, primitive.y2],
+            measure
+        );
+    } else if (primitive.kind === "rectangle") {
+        const { x, y, width, height } = primitive;
+        drawDimension(context, [x, y], [x + width, y], measure);
+        drawDimension(
+            context,
+            [x + width, y],
+            [x + width, y + height],
+            measure
+        );
+    }
+}
+
+// The length of a segment, written beside its middle
+function drawDimension(
+    context: CanvasRenderingContext2D,
+    [x1, y1]: Point2,
+    [x2, y2]: Point2,
+    measure: (pixels: number) => string
+) {
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length < 20) return;
+    context.save();
+    context.font = "11px sans-serif";
+    context.fillStyle = "#2563eb";
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    // Above horizontal segments, to the right of vertical ones
+    const [nx, ny] = [(y1 - y2) / length, (x2 - x1) / length];
+    const side = ny > 0 || (ny === 0 && nx < 0) ? -1 : 1;
+    context.fillText(
+        measure(length),
+        (x1 + x2) / 2 + side * nx * 12,
+        (y1 + y2) / 2 + side * ny * 12
+    );
+    context.restore();
+}
+
+// Clicks without a drag leave nothing behind
+function isDrawn(primitive: SketchPrimitive): boolean {
+    switch (primitive.kind) {
+        case "stroke":
+            return primitive.points.length > 1;
+        case "line":
+        case "wall":
+            return (
+                Math.hypot(
+                    primitive.x2 - primitive.x1,
+                    primitive.y2 - primitive.y1
+                ) >= MIN_SHAPE_SIZE
+            );
+        case "rectangle":
+            return (
+                primitive.width >= MIN_SHAPE_SIZE &&
+                primitive.height >= MIN_SHAPE_SIZE
+            );
+        case "circle":
+            return primitive.radius >= MIN_SHAPE_SIZE;
+        case "door":
+        case "window":
+        case "label":
+            return true;
+    }
+}
+
+function snapPoint(point: Point2, walls: Segment[], gridStep: number): Point2 {
+    const ends = walls.flat();
+    const end = ends.find(
+        ([x, y]) => Math.hypot(x - point[0], y - point[1]) <= SNAP_RADIUS
+    );
+    if (end) return end;
+    const wall = walls.find(
+        ([a, b]) => distanceToSegment(point, a, b) <= SNAP_RADIUS
+    );
+    if (wall) return closestPointOnSegment(point, ...wall);
+    return [
+        Math.round(point[0] / gridStep) * gridStep,
+        Math.round(point[1] / gridStep) * gridStep,
+    ];
+}
+
+// A door or window centered on the wall nearest to a point, if any is near
+function placeOpening(
+    kind: SketchOpening["kind"],
+    point: Point2,
+    walls: Segment[],
+    width: number
+): SketchOpening | null {
+    let nearest: Segment | null = null;
+    let distance = SNAP_RADIUS * 2;
+    for (const wall of walls) {
+        const d = distanceToSegment(point, ...wall);
+        if (d <= distance) {
+            nearest = wall;
+            distance = d;
+        }
+    }
+    if (!nearest) return null;
+    const [[x1, y1], [x2, y2]] = nearest;
+    const [x, y] = closestPointOnSegment(point, ...nearest);
+    const angle = (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI;
+    return { kind, x, y, width, angle };
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean) {
+    for (let i = items.length - 1; i >= 0; i--) {
+        if (predicate(items[i])) return i;
+    }
+    return -1;
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import type { ComponentProps } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CadModelViewer } from "@/components/cad-model-viewer";
+import { Check, Columns2 } from "lucide-react";
+import type { ModelData } from "@/lib/model-schema";
+import type { DesignMetrics } from "@/lib/design-metrics";
+
+// Candidate layouts returned when several design variants were requested
+export interface DesignVariant {
+    id: string;
+    strategy: string;
+    modelData: ModelData;
+    code: string;
+    metrics: DesignMetrics;
+    review?: { score: number; approved: boolean };
+}
+
+type ViewerSettings = ComponentProps<typeof CadModelViewer>["settings"];
+
+function VariantMetrics({ variant }: { variant: DesignVariant }) {
+    const { metrics, review } = variant;
+    return (
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Total area</dt>
+            <dd className="text-right">{metrics.totalArea} m²</dd>
+            <dt className="text-muted-foreground">Footprint</dt>
+            <dd className="text-right">{metrics.footprintArea} m²</dd>
+            <dt className="text-muted-foreground">Rooms</dt>
+            <dd className="text-right">{metrics.roomCount}</dd>
+            <dt className="text-muted-foreground">Requirements met</dt>
+            <dd className="text-right">
+                {Math.round(metrics.requirementCoverage * 100)}%
+            </dd>
+            {review && (
+                <>
+                    <dt className="text-muted-foreground">Review score</dt>
+                    <dd className="text-right">{review.score}</dd>
+                </>
+            )}
+            {metrics.missingRooms.length > 0 && (
+                <dd className="col-span-2 text-amber-600">
+                    Missing: {metrics.missingRooms.join(", ")}
+                </dd>
+            )}
+        </dl>
+    );
+}
+
+/**
+ * All variants side by side, each in its own viewer, until one is chosen.
+ */
+export function DesignVariantComparison({
+    variants,
+    settings,
+    onChoose,
+}: {
+    variants: DesignVariant[];
+    settings: ViewerSettings;
+    onChoose: (variant: DesignVariant) => void;
+}) {
+    return (
+        <div className="h-full overflow-auto p-2 md:p-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-3">
+                {variants.map((variant, index) => (
+                    <Card key={variant.id} className="flex flex-col">
+                        <CardHeader className="p-2 md:p-3 pb-0 md:pb-0">
+                            <div className="flex items-center justify-between gap-2">
+                                <CardTitle className="text-sm font-medium">
+                                    Variant {index + 1}
+                                </CardTitle>
+                                <Badge variant="secondary" className="text-xs">
+                                    {variant.strategy}
+                                </Badge>
+                            </div>
+                        </CardHeader>
+                        <CardContent className="p-2 md:p-3 space-y-2">
+                            <div className="relative h-56 md:h-64 rounded-md overflow-hidden border">
+                                <CadModelViewer
+                                    modelData={variant.modelData}
+                                    settings={settings}
+                                />
+                            </div>
+                            <VariantMetrics variant={variant} />
+                            <Button
+                                size="sm"
+                                className="w-full gap-2"
+                                onClick={() => onChoose(variant)}
+                            >
+                                <Check className="h-4 w-4" />
+                                Use this design
+                            </Button>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Switches between variants after one was chosen, or goes back to the
+ * side-by-side comparison.
+ */
+export function DesignVariantPicker({
+    variants,
+    selectedId,
+    onSelect,
+    onCompare,
+}: {
+    variants: DesignVariant[];
+    selectedId: string;
+    onSelect: (variant: DesignVariant) => void;
+    onCompare: () => void;
+}) {
+    return (
+        <div className="flex flex-wrap items-center gap-1 md:gap-2 p-1 rounded-md bg-background/80 backdrop-blur-sm">
+            {variants.map((variant, index) => (
+                <Button
+                    key={variant.id}
+                    size="sm"
+                    variant={variant.id === selectedId ? "default" : "outline"}
+                    className="h-7 text-xs"
+                    onClick={() => onSelect(variant)}
+                >
+                    {index + 1}: {variant.strategy}
+                </Button>
+            ))}
+            <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs gap-1"
+                onClick={onCompare}
+            >
+                <Columns2 className="h-3 w-3" />
+                Compare
+            </Button>
+        </div>
+    );
+}
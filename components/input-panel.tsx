@@ -8,6 +8,13 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Wand2,
   Loader2,
@@ -26,6 +33,7 @@ import {
 } from "lucide-react";
 
 import { toast } from "@/components/ui/use-toast";
+import { AGENT_CONFIG } from "@/services/agents/agent-config";
 import {
   Collapsible,
   CollapsibleContent,
@@ -38,6 +46,7 @@ interface InputPanelProps {
     sketchData: string | null;
     speechData: string | null;
     photoData: string | null;
+    variants: number;
   }) => void;
   isGenerating: boolean;
 }
@@ -46,6 +55,8 @@ export function InputPanel({ onGenerateModel, isGenerating }: InputPanelProps) {
   // Input state
   const [textPrompt, setTextPrompt] = useState("");
   const [photoData, setPhotoData] = useState<string | null>(null);
+  // Number of alternative layouts to generate and compare
+  const [variantCount, setVariantCount] = useState(1);
 
   // Active tab state
   const [activeTab, setActiveTab] = useState<"text" | "photo">("text");
@@ -85,6 +96,7 @@ export function InputPanel({ onGenerateModel, isGenerating }: InputPanelProps) {
       sketchData: null,
       speechData: null,
       photoData,
+      variants: variantCount,
     });
   };
 
@@ -337,6 +349,32 @@ export function InputPanel({ onGenerateModel, isGenerating }: InputPanelProps) {
           </div>
         )}
 
+        {/* Design Variants */}
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="variant-count" className="text-xs md:text-sm">
+            Design variants
+          </Label>
+          <Select
+            value={String(variantCount)}
+            onValueChange={(value) => setVariantCount(Number(value))}
+            disabled={isGenerating}
+          >
+            <SelectTrigger id="variant-count" className="w-24 h-8 text-xs md:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(
+                { length: AGENT_CONFIG.maxVariants },
+                (_, index) => index + 1
+              ).map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Generate Button */}
         <Button
           className="w-full h-11 md:h-12 text-sm md:text-base"
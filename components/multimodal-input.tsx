@@ -23,11 +23,14 @@ import {
 } from "lucide-react";
 import { DesignCanvas } from "@/components/design-canvas";
 import { toast } from "@/components/ui/use-toast";
+import { VectorSketch } from "@/lib/sketch-vector";
 
 interface MultimodalInputProps {
     onGenerateModel: (inputs: {
         prompt: string;
         sketchData: string | null;
+        // What was drawn, as primitives with the canvas scale
+        sketchVector: VectorSketch | null;
         speechData: string | null;
         photoData: string | null;
     }) => void;
@@ -95,8 +98,9 @@ export function MultimodalInput({
             };
 
             mediaRecorder.onstop = async () => {
+                // MediaRecorder picks the format, usually WebM with Opus
                 const audioBlob = new Blob(audioChunksRef.current, {
-                    type: "audio/wav",
+                    type: mediaRecorder.mimeType || "audio/webm",
                 });
                 await processAudioRecording(audioBlob);
                 stream.getTracks().forEach((track) => track.stop());
@@ -152,11 +156,11 @@ export function MultimodalInput({
                 body: formData,
             });
 
+            const data = await response.json().catch(() => ({}));
             if (!response.ok) {
-                throw new Error("Failed to process speech");
+                throw new Error(data.error || "Failed to process speech");
             }
 
-            const data = await response.json();
             setSpeechTranscript(data.text);
 
             toast({
@@ -168,7 +172,9 @@ export function MultimodalInput({
             toast({
                 title: "Speech processing failed",
                 description:
-                    "Could not convert audio to text. Please try again.",
+                    error instanceof Error
+                        ? error.message
+                        : "Could not convert audio to text. Please try again.",
                 variant: "destructive",
             });
         }
@@ -278,6 +284,9 @@ export function MultimodalInput({
         }
     };
 
+    const captureSketchVector = (): VectorSketch | null =>
+        canvasRef.current?.getVectorSketch() ?? null;
+
     const clearSketch = () => {
         if (canvasRef.current) {
             canvasRef.current.clearCanvas();
@@ -286,7 +295,10 @@ export function MultimodalInput({
 
     // Form submission
     const handleSubmit = () => {
-        const sketchData = activeTab === "sketch" ? captureSketchData() : null;
+        const sketchVector =
+            activeTab === "sketch" ? captureSketchVector() : null;
+        // An empty canvas is no sketch
+        const sketchData = sketchVector ? captureSketchData() : null;
 
         // Ensure at least one input is provided
         if (!textPrompt && !sketchData && !speechTranscript && !photoData) {
@@ -303,6 +315,7 @@ export function MultimodalInput({
         onGenerateModel({
             prompt: textPrompt || speechTranscript || "", // Use speech transcript as fallback if no text
             sketchData,
+            sketchVector,
             speechData: speechTranscript || null,
             photoData,
         });
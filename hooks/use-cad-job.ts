@@ -1,28 +1,180 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import type { DesignMode } from '@/lib/layout-solver';
+import type { VectorSketch } from '@/lib/sketch-vector';
 
-interface CADJobResult {
+export type CADJobStage = 'sketch_analysis' | 'interpreting' | 'designing' | 'rendering';
+
+export interface CADJobLogLine {
+    source: string;
+    level: 'info' | 'warn';
+    message: string;
+}
+
+// What the pipeline has produced before the job finishes
+export interface CADJobPartial {
+    requirements?: any;
+    modelData?: any;
+    code?: string;
+}
+
+export interface CADJobResult {
     jobId?: string;
-    status: 'idle' | 'queued' | 'processing' | 'analyzing_inputs' | 'generating_model' | 'completed' | 'failed';
+    status: 'idle' | 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
     progress?: number;
+    queuePosition?: number; // while queued, 1 when next to start
+    stage?: CADJobStage;
+    message?: string;
+    partial?: CADJobPartial;
+    logs?: CADJobLogLine[];
     result?: any;
     error?: string;
     elapsed?: number;
 }
 
+const POLL_INTERVAL_MS = 2000;
+// Stream errors in a row before switching to polling; the browser
+// reconnects by itself until then
+const MAX_STREAM_ERRORS = 3;
+const MAX_LOG_LINES = 100;
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Follows a job until it completes, fails or is cancelled. Uses the job's event stream,
+ * which reconnects automatically and resumes where it left off, and falls
+ * back to polling when the stream keeps failing or EventSource is missing.
+ */
+export function useCADJobStatus(jobId: string | null | undefined) {
+    const [job, setJob] = useState<CADJobResult>({ status: 'queued', progress: 0 });
+    const [transport, setTransport] = useState<'stream' | 'polling' | null>(null);
+
+    useEffect(() => {
+        if (!jobId) {
+            setTransport(null);
+            return;
+        }
+
+        setJob({ jobId, status: 'queued', progress: 0 });
+        let stopped = false;
+        let source: EventSource | null = null;
+        let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+        const apply = (update: (prev: CADJobResult) => Partial<CADJobResult>) => {
+            if (!stopped) setJob(prev => ({ ...prev, ...update(prev) }));
+        };
+
+        const stop = () => {
+            stopped = true;
+            source?.close();
+            if (pollTimer) clearInterval(pollTimer);
+            setTransport(null);
+        };
+
+        const poll = async () => {
+            try {
+                const response = await fetch(`/api/cad-generator?jobId=${encodeURIComponent(jobId)}`);
+                if (!response.ok) throw new Error('Failed to get job status');
+
+                const jobStatus = await response.json();
+                apply(() => jobStatus);
+                if (FINISHED_STATUSES.includes(jobStatus.status)) {
+                    stop();
+                }
+            } catch (error) {
+                console.error('Polling error:', error);
+                apply(() => ({ status: 'failed', error: 'Failed to check job status' }));
+                stop();
+            }
+        };
+
+        const startPolling = () => {
+            source?.close();
+            source = null;
+            setTransport('polling');
+            poll();
+            pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+        };
+
+        if (typeof EventSource === 'undefined') {
+            startPolling();
+            return stop;
+        }
+
+        source = new EventSource(`/api/cad-generator/events?jobId=${encodeURIComponent(jobId)}`);
+        setTransport('stream');
+        let streamErrors = 0;
+
+        const on = (type: string, handle: (data: any) => void) => {
+            source!.addEventListener(type, (event) => {
+                streamErrors = 0;
+                handle(JSON.parse((event as MessageEvent).data));
+            });
+        };
+
+        on('queue', (data) => apply(() => data));
+        on('status', (data) => apply(() => ({ status: data.status })));
+        on('stage', (data) => apply(() => data));
+        on('partial', (data) => apply(prev => ({
+            partial: {
+                ...prev.partial,
+                ...(data.kind === 'requirements' && { requirements: data.requirements }),
+                ...(data.kind === 'layout' && { modelData: data.modelData }),
+                ...(data.kind === 'code' && { code: data.code }),
+            },
+        })));
+        on('log', (line) => apply(prev => ({
+            logs: [...(prev.logs || []), line].slice(-MAX_LOG_LINES),
+        })));
+        on('completed', (data) => {
+            apply(() => data);
+            stop();
+        });
+        on('failed', (data) => {
+            apply(() => ({ ...data, status: 'failed' }));
+            stop();
+        });
+        on('cancelled', (data) => {
+            apply(() => ({ ...data, status: 'cancelled' }));
+            stop();
+        });
+
+        source.onerror = () => {
+            if (stopped) return;
+            streamErrors++;
+            // CLOSED means the browser gave up, e.g. on an error response
+            if (source?.readyState === EventSource.CLOSED || streamErrors >= MAX_STREAM_ERRORS) {
+                console.warn('Job event stream unavailable, polling instead');
+                startPolling();
+            }
+        };
+
+        return stop;
+    }, [jobId]);
+
+    return { job, transport };
+}
+
 export function useCADJob() {
-    const [job, setJob] = useState<CADJobResult>({ status: 'idle' });
-    const [isPolling, setIsPolling] = useState(false);
-    const pollingIntervalRef = useRef<NodeJS.Timeout>();
+    const [jobId, setJobId] = useState<string | null>(null);
+    // State before the server has accepted the job
+    const [request, setRequest] = useState<CADJobResult>({ status: 'idle' });
+    const { job: followed, transport } = useCADJobStatus(jobId);
+    const job = jobId ? followed : request;
 
     const startJob = useCallback(async (data: {
         prompt?: string;
         sketchData?: string;
+        sketchVector?: VectorSketch;
         speechData?: string;
         photoData?: string;
+        designMode?: DesignMode;
+        variants?: number;
+        // "high" needs a priority key, which the browser does not have
+        priority?: 'low' | 'normal';
     }) => {
         try {
-            setJob({ status: 'queued', progress: 0 });
-            
+            setJobId(null);
+            setRequest({ status: 'queued', progress: 0 });
+
             const response = await fetch('/api/cad-generator', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
@@ -33,87 +185,51 @@ export function useCADJob() {
                 const errorData = await response.json();
                 throw new Error(errorData.error || 'Failed to start job');
             }
-            
+
             const { jobId } = await response.json();
-            setJob({ jobId, status: 'queued', progress: 0 });
-            setIsPolling(true);
-            
+            setJobId(jobId);
+
         } catch (error) {
-            setJob({ 
-                status: 'failed', 
-                error: error instanceof Error ? error.message : 'Unknown error' 
+            setRequest({
+                status: 'failed',
+                error: error instanceof Error ? error.message : 'Unknown error'
             });
         }
     }, []);
 
-    const cancelJob = useCallback(() => {
-        if (pollingIntervalRef.current) {
-            clearInterval(pollingIntervalRef.current);
-        }
-        setIsPolling(false);
-        setJob({ status: 'idle' });
-    }, []);
-
-    const resetJob = useCallback(() => {
-        if (pollingIntervalRef.current) {
-            clearInterval(pollingIntervalRef.current);
-        }
-        setIsPolling(false);
-        setJob({ status: 'idle' });
-    }, []);
-
-    // Poll for job status
-    useEffect(() => {
-        if (!isPolling || !job.jobId) return;
-
-        const pollForStatus = async () => {
+    // Asks the server to stop the job, which aborts its model calls
+    const cancelJob = useCallback(async () => {
+        if (jobId) {
             try {
-                const response = await fetch(`/api/cad-generator?jobId=${job.jobId}`);
-                if (!response.ok) throw new Error('Failed to get job status');
-                
-                const jobStatus = await response.json();
-                setJob(prev => ({ ...prev, ...jobStatus }));
-                
-                if (jobStatus.status === 'completed' || jobStatus.status === 'failed') {
-                    setIsPolling(false);
-                    if (pollingIntervalRef.current) {
-                        clearInterval(pollingIntervalRef.current);
-                    }
+                const response = await fetch('/api/cad-generator/cancel', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ jobId }),
+                });
+                // 409: the job finished before the cancellation arrived
+                if (!response.ok && response.status !== 409) {
+                    console.error('Failed to cancel job:', response.status);
                 }
-                
             } catch (error) {
-                console.error('Polling error:', error);
-                setJob(prev => ({ 
-                    ...prev, 
-                    status: 'failed', 
-                    error: 'Failed to check job status' 
-                }));
-                setIsPolling(false);
-                if (pollingIntervalRef.current) {
-                    clearInterval(pollingIntervalRef.current);
-                }
+                console.error('Failed to cancel job:', error);
             }
-        };
+        }
+        setJobId(null);
+        setRequest({ status: 'idle' });
+    }, [jobId]);
 
-        // Initial poll
-        pollForStatus();
-        
-        // Set up interval polling
-        pollingIntervalRef.current = setInterval(pollForStatus, 2000);
+    const resetJob = useCallback(() => {
+        setJobId(null);
+        setRequest({ status: 'idle' });
+    }, []);
 
-        return () => {
-            if (pollingIntervalRef.current) {
-                clearInterval(pollingIntervalRef.current);
-            }
-        };
-    }, [isPolling, job.jobId]);
-
-    return { 
-        job, 
-        startJob, 
-        cancelJob, 
-        resetJob, 
-        isPolling,
-        isProcessing: ['queued', 'processing', 'analyzing_inputs', 'generating_model'].includes(job.status)
+    return {
+        job,
+        startJob,
+        cancelJob,
+        resetJob,
+        isPolling: transport === 'polling',
+        isStreaming: transport === 'stream',
+        isProcessing: ['queued', 'processing'].includes(job.status)
     };
 }
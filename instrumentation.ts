@@ -0,0 +1,16 @@
+// Runs once when a server instance starts. Instances that run jobs pick up
+// the ones already queued in a shared store, e.g. left over from a restart
+// or queued by web instances that only queue them (JOB_WORKER_MODE), and
+// queue again the jobs a crashed instance left processing. Requests get
+// the address they came from recorded, for telling clients apart.
+// The check stays inline so the edge build drops the Node-only imports.
+export async function register() {
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        const { recordRemoteAddresses } =
+            await import("./services/remote-address");
+        recordRemoteAddresses();
+
+        const { startJobWorker } = await import("./services/job-queue");
+        startJobWorker();
+    }
+}
@@ -0,0 +1,341 @@
+import {
+    WebMParseError,
+    demuxWebMAudio,
+    isWebM,
+    opusDurationSeconds,
+    opusPreSkip,
+    webmOpusToOgg,
+} from "./webm-opus";
+
+// Decoding of uploaded speech recordings. Browsers record WebM with Opus
+// (Chrome, Firefox) or WAV from recorder polyfills; both are checked by
+// their bytes rather than their declared type, which MediaRecorder
+// uploads often get wrong. WAV is decoded to 16-bit mono PCM, the format
+// every recognizer takes; WebM Opus is remuxed into Ogg Opus.
+
+export type AudioContainer = "wav" | "webm" | "ogg";
+
+export class AudioFormatError extends Error {
+    // unsupported: a format or codec we cannot read; malformed: a file we
+    // should be able to read but cannot
+    readonly reason: "empty" | "unsupported" | "malformed";
+
+    constructor(
+        message: string,
+        reason: "empty" | "unsupported" | "malformed"
+    ) {
+        super(message);
+        this.name = "AudioFormatError";
+        this.reason = reason;
+    }
+}
+
+export interface PCMAudio {
+    sampleRate: number;
+    samples: Int16Array; // mono
+}
+
+export interface DecodedAudio {
+    container: AudioContainer;
+    codec: string; // "pcm", "opus", ...
+    mimeType: string; // of the original bytes
+    durationSeconds: number | null;
+    bytes: Uint8Array; // the original recording
+    pcm?: PCMAudio; // WAV recordings
+    oggOpus?: Uint8Array; // Opus recordings, as an Ogg stream
+}
+
+const MIME_TYPES: Record<AudioContainer, string> = {
+    wav: "audio/wav",
+    webm: "audio/webm",
+    ogg: "audio/ogg",
+};
+
+// Sample rates a WAV header may declare; anything else is a broken header
+const MIN_SAMPLE_RATE = 1000;
+const MAX_SAMPLE_RATE = 384000;
+
+/** Container of a recording from its leading bytes; null if unknown. */
+export function detectAudioContainer(bytes: Uint8Array): AudioContainer | null {
+    const tag = (offset: number) =>
+        String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+    if (tag(0) === "RIFF" && tag(8) === "WAVE") return "wav";
+    if (isWebM(bytes)) return "webm";
+    if (tag(0) === "OggS") return "ogg";
+    return null;
+}
+
+/** Reads a WAV, WebM or Ogg Opus recording. */
+export function decodeAudio(bytes: Uint8Array): DecodedAudio {
+    if (bytes.length === 0) {
+        throw new AudioFormatError("Audio is empty", "empty");
+    }
+
+    const container = detectAudioContainer(bytes);
+    switch (container) {
+        case "wav": {
+            const pcm = decodeWav(bytes);
+            return {
+                container,
+                codec: "pcm",
+                mimeType: MIME_TYPES.wav,
+                durationSeconds: pcm.samples.length / pcm.sampleRate,
+                bytes,
+                pcm,
+            };
+        }
+        case "webm":
+            return decodeWebM(bytes);
+        case "ogg":
+            return decodeOgg(bytes);
+        default:
+            throw new AudioFormatError(
+                "Unsupported audio format, expected WAV, WebM or Ogg",
+                "unsupported"
+            );
+    }
+}
+
+/** Decodes PCM or float WAV to mono 16-bit samples. */
+export function decodeWav(bytes: Uint8Array): PCMAudio {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+    const tag = (offset: number) =>
+        String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+
+    let format: {
+        encoding: number;
+        channels: number;
+        sampleRate: number;
+        bits: number;
+    } | null = null;
+    let pos = 12;
+    while (pos + 8 <= bytes.length) {
+        const id = tag(pos);
+        const declared = view.getUint32(pos + 4, true);
+        const start = pos + 8;
+        // Streaming writers leave the data size at 0 or 0xffffffff
+        const size =
+            id === "data" && (declared === 0 || start + declared > bytes.length)
+                ? bytes.length - start
+                : declared;
+
+        if (id !== "data" && start + size > bytes.length) {
+            throw new AudioFormatError(
+                `WAV "${id}" chunk runs past the end of the file`,
+                "malformed"
+            );
+        }
+
+        if (id === "fmt ") {
+            if (size < 16) {
+                throw new AudioFormatError(
+                    "WAV format chunk too short",
+                    "malformed"
+                );
+            }
+            let encoding = view.getUint16(start, true);
+            // WAVE_FORMAT_EXTENSIBLE: the real format opens the sub-format GUID
+            if (encoding === 0xfffe && size >= 40) {
+                encoding = view.getUint16(start + 24, true);
+            }
+            format = {
+                encoding,
+                channels: view.getUint16(start + 2, true),
+                sampleRate: view.getUint32(start + 4, true),
+                bits: view.getUint16(start + 14, true),
+            };
+            if (
+                format.sampleRate < MIN_SAMPLE_RATE ||
+                format.sampleRate > MAX_SAMPLE_RATE
+            ) {
+                throw new AudioFormatError(
+                    `WAV sample rate ${format.sampleRate} Hz is out of range`,
+                    "malformed"
+                );
+            }
+        } else if (id === "data") {
+            if (!format) {
+                throw new AudioFormatError(
+                    "WAV data before its format",
+                    "malformed"
+                );
+            }
+            return {
+                sampleRate: format.sampleRate,
+                samples: toInt16(readWavSamples(view, start, size, format)),
+            };
+        }
+        // Chunks are padded to an even length
+        pos = start + size + (size % 2);
+    }
+
+    throw new AudioFormatError("WAV file has no audio data", "malformed");
+}
+
+/** Resamples mono audio, averaging when going down so speech stays clean. */
+export function resamplePCM(audio: PCMAudio, sampleRate: number): PCMAudio {
+    if (audio.sampleRate === sampleRate) return audio;
+
+    const ratio = audio.sampleRate / sampleRate;
+    const length = Math.floor(audio.samples.length / ratio);
+    const samples = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+        const from = i * ratio;
+        if (ratio > 1) {
+            const end = Math.min(
+                audio.samples.length,
+                Math.floor(from + ratio)
+            );
+            let sum = 0;
+            for (let j = Math.floor(from); j < end; j++) {
+                sum += audio.samples[j];
+            }
+            samples[i] = Math.round(sum / Math.max(1, end - Math.floor(from)));
+        } else {
+            const j = Math.floor(from);
+            const next =
+                audio.samples[Math.min(j + 1, audio.samples.length - 1)];
+            const t = from - j;
+            samples[i] = Math.round(audio.samples[j] * (1 - t) + next * t);
+        }
+    }
+    return { sampleRate, samples };
+}
+
+/** Little-endian bytes of 16-bit samples, as PCM streams carry them. */
+export function pcmBytes(audio: PCMAudio): Uint8Array {
+    const bytes = new Uint8Array(audio.samples.length * 2);
+    const view = new DataView(bytes.buffer);
+    audio.samples.forEach((sample, i) => view.setInt16(i * 2, sample, true));
+    return bytes;
+}
+
+function decodeWebM(bytes: Uint8Array): DecodedAudio {
+    let audio;
+    try {
+        audio = demuxWebMAudio(bytes);
+    } catch (error) {
+        if (error instanceof WebMParseError) {
+            throw new AudioFormatError(
+                `Invalid WebM audio: ${error.message}`,
+                "malformed"
+            );
+        }
+        throw error;
+    }
+    if (audio.frames.length === 0) {
+        throw new AudioFormatError("WebM recording has no audio", "empty");
+    }
+
+    const decoded: DecodedAudio = {
+        container: "webm",
+        codec: audio.track.codec.replace(/^A_/, "").toLowerCase(),
+        mimeType: MIME_TYPES.webm,
+        durationSeconds: audio.durationSeconds,
+        bytes,
+    };
+    if (audio.track.codec === "A_OPUS") {
+        decoded.oggOpus = webmOpusToOgg(audio);
+        decoded.durationSeconds ??= opusDurationSeconds(
+            audio.frames,
+            opusPreSkip(audio.track)
+        );
+    }
+    return decoded;
+}
+
+// Ogg is passed on as it is; only the codec of its first stream is checked
+function decodeOgg(bytes: Uint8Array): DecodedAudio {
+    const segments = bytes[26];
+    const body = 27 + (segments || 0);
+    const magic = String.fromCharCode(
+        ...Array.from(bytes.subarray(body, body + 8))
+    );
+    const codec =
+        magic === "OpusHead"
+            ? "opus"
+            : magic.startsWith("\x01vorbis")
+              ? "vorbis"
+              : "unknown";
+    return {
+        container: "ogg",
+        codec,
+        mimeType: MIME_TYPES.ogg,
+        durationSeconds: null,
+        bytes,
+        oggOpus: codec === "opus" ? bytes : undefined,
+    };
+}
+
+function readWavSamples(
+    view: DataView,
+    start: number,
+    size: number,
+    format: { encoding: number; channels: number; bits: number }
+): Float32Array {
+    const { encoding, channels, bits } = format;
+    const width = bits / 8;
+    const isFloat = encoding === 3;
+    if (
+        !(encoding === 1 && [8, 16, 24, 32].includes(bits)) &&
+        !(isFloat && [32, 64].includes(bits))
+    ) {
+        throw new AudioFormatError(
+            `Unsupported WAV encoding ${encoding} with ${bits} bits`,
+            "unsupported"
+        );
+    }
+    if (channels < 1) {
+        throw new AudioFormatError("WAV file has no channels", "malformed");
+    }
+
+    const frameCount = Math.floor(size / (width * channels));
+    const samples = new Float32Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+            const at = start + (frame * channels + channel) * width;
+            sum += readSample(view, at, bits, isFloat);
+        }
+        // Channels are mixed down to mono
+        samples[frame] = sum / channels;
+    }
+    return samples;
+}
+
+function readSample(
+    view: DataView,
+    at: number,
+    bits: number,
+    isFloat: boolean
+): number {
+    if (isFloat) {
+        return bits === 32
+            ? view.getFloat32(at, true)
+            : view.getFloat64(at, true);
+    }
+    switch (bits) {
+        case 8:
+            return (view.getUint8(at) - 128) / 128;
+        case 16:
+            return view.getInt16(at, true) / 32768;
+        case 24: {
+            const value =
+                view.getUint8(at) |
+                (view.getUint8(at + 1) << 8) |
+                (view.getInt8(at + 2) << 16);
+            return value / 8388608;
+        }
+        default:
+            return view.getInt32(at, true) / 2147483648;
+    }
+}
+
+function toInt16(samples: Float32Array): Int16Array {
+    const out = new Int16Array(samples.length);
+    samples.forEach((sample, i) => {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        out[i] = Math.round(clamped < 0 ? clamped * 32768 : clamped * 32767);
+    });
+    return out;
+}
@@ -0,0 +1,345 @@
+// Local screening of user text before it reaches the agents: design
+// briefs, speech transcripts and sketch labels. Rules catch plainly
+// harmful requests and the usual ways of talking over an agent's system
+// prompt; a small weighted classifier catches reworded injection
+// attempts the rules miss. Both are tuned for architecture briefs, where
+// "bomb shelter", "shooting range" or "ignore the old layout" are
+// ordinary requests.
+
+export const MODERATION_CATEGORIES = [
+    "hate",
+    "violence",
+    "sexual",
+    "self_harm",
+    "prompt_injection",
+] as const;
+export type ModerationCategory = (typeof MODERATION_CATEGORIES)[number];
+
+export const MODERATION_SEVERITIES = ["low", "medium", "high"] as const;
+export type ModerationSeverity = (typeof MODERATION_SEVERITIES)[number];
+
+export interface ScreeningFinding {
+    category: ModerationCategory;
+    severity: ModerationSeverity;
+    score: number; // 0-1
+    evidence: string; // the matched text, shortened
+}
+
+interface ScreeningRule {
+    category: ModerationCategory;
+    severity: ModerationSeverity;
+    pattern: RegExp;
+}
+
+const GROUPS =
+    "(?:jews|muslims|christians|hindus|sikhs|blacks|whites|asians|arabs|latinos|mexicans|immigrants|refugees|gays|lesbians|trans(?:gender)? people|disabled people)";
+
+// Who a violent request would be aimed at. Followed by the end of the
+// clause, so "shoot the family portraits" is a photo studio, not a threat.
+const VICTIMS =
+    "(?:people|someone|somebody|everyone|everybody|him|her|them|children|kids|a (?:child|kid|baby)|babies|women|men|girls|boys|strangers|neighbou?rs?|guests|visitors|tenants|landlord|wife|husband|partner|boss|family|parents?|mother|father|mom|dad|brother|sister|son|daughter|classmates?|coworkers?|colleagues?|students?|teachers?)(?=\\s*(?:$|[.,;:!?]|(?:and|with|in|at|while|when|before|after|tonight|tomorrow|today|without|if|so|then|there|here|inside)\\b))";
+
+const MINORS =
+    "(?:child|children|kids?|minors?|underage|pre-?teens?|teens?|teenagers?|toddlers?|infants?)";
+
+// Sexual material, as opposed to "single-sex changing rooms" or a
+// "sexual health clinic"
+const SEXUAL =
+    "(?:porn\\w*|erotic\\w*|sexual (?:content|acts?|images?|photos?|pictures?|videos?|material|abuse material)|sex (?:acts?|videos?|tapes?|pictures?|photos?))\\b";
+
+// What an injection is aimed at: the agent's own instructions, not the
+// previous architect's or last week's layout notes
+const SYSTEM_TARGETS =
+    "(?:(?:your|the (?:system|ai|assistant|model|agent)(?:'s)?)\\s+(?:(?:previous|prior|original|initial|earlier|current|existing|hidden|real|core|safety|own)\\s+)?(?:instructions?|prompts?|rules|guidelines|programming|training)|system (?:prompts?|messages?|instructions?))";
+
+// Patterns run on normalized text: lower case, plain spaces, no
+// look-alike characters
+const RULES: ScreeningRule[] = [
+    // Talking over the system prompt
+    {
+        category: "prompt_injection",
+        severity: "high",
+        pattern: new RegExp(
+            `\\b(?:ignore|disregard|forget|override|bypass)\\b[^.\\n]{0,40}\\b${SYSTEM_TARGETS}\\b|\\b(?:ignore|disregard|forget) (?:everything|all)(?: of)? (?:what )?you(?:'ve| have) been told\\b|\\b(?:ignore|disregard|forget) (?:all (?:of )?(?:the )?|any )(?:previous|prior|above|earlier|preceding) (?:instructions?|prompts?|messages?)\\b(?! (?:about|from|for|on|regarding|concerning|of|in|given)\\b)`
+        ),
+    },
+    {
+        category: "prompt_injection",
+        severity: "high",
+        pattern:
+            /\b(?:reveal|show|print|repeat|output|leak|tell me|what (?:is|are))\b[^.\n]{0,30}\b(?:system|initial|hidden|original|secret)\s+(?:prompts?|instructions?|messages?)\b/,
+    },
+    {
+        category: "prompt_injection",
+        severity: "high",
+        // Chat markup and role headers smuggled into the brief
+        pattern:
+            /(?:<\|?\s*(?:im_start|im_end|system|endoftext)\s*\|?>|\[\/?(?:inst|system)\]|^\s*(?:system|assistant|developer)\s*:)/m,
+    },
+    {
+        category: "prompt_injection",
+        severity: "high",
+        pattern:
+            /\b(?:you are now|act as|pretend (?:to be|you are)|behave as|switch to)\b[^.\n]{0,30}\b(?:dan\b(?!'s)|jailbroken|jailbreak|developer mode|do anything now)/,
+    },
+    // Generic instruction and role-play phrasing. Briefs use it too
+    // ("forget the prior layout instructions", "from now on you will see
+    // the garden"), so on its own it is only noted; the classifier below
+    // decides when it adds up to an attack.
+    {
+        category: "prompt_injection",
+        severity: "low",
+        pattern:
+            /\b(?:ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(?:instructions?|prompts?)\b|\b(?:ignore|disregard|forget) (?:everything|all)(?: of)? (?:the )?(?:above|before|previous|prior)\b/,
+    },
+    {
+        category: "prompt_injection",
+        severity: "low",
+        pattern:
+            /\b(?:you are now|act as|pretend (?:to be|you are)|behave as)\b[^.\n]{0,30}\b(?:unrestricted|unfiltered|uncensored)\b/,
+    },
+    {
+        category: "prompt_injection",
+        severity: "low",
+        pattern:
+            /\b(?:new|updated|real) (?:system )?instructions\s*:|\bfrom now on\b[^.\n]{0,40}\b(?:you (?:will|must|are)|respond|answer|reply|only output)\b/,
+    },
+
+    // Harm
+    {
+        category: "violence",
+        severity: "high",
+        pattern: new RegExp(
+            `\\b(?:how (?:to|do i|can i)|help me|i (?:want|plan|am going) to|going to)\\b[^.\\n]{0,30}\\b(?:kill|murder|shoot|stab|poison|kidnap|torture|maim)\\s+(?:(?:my|our|the|a|an|his|her|their|all|all the|these|those|some)\\s+)?(?:\\w+\\s+)?${VICTIMS}`
+        ),
+    },
+    {
+        category: "violence",
+        severity: "high",
+        pattern:
+            /\b(?:make|build|assemble|plant|hide|detonate)\s+(?:a |an )?(?:pipe |car |nail )?(?:bomb|explosive device|ied)\b(?!\s*(?:shelter|proof|resistant|disposal|bay|room))/,
+    },
+    {
+        category: "violence",
+        severity: "high",
+        pattern:
+            /\b(?:hold|keep|lock up|imprison|confine|trap)\s+(?:people|someone|somebody|a person|women|girls|children|kids|hostages?|slaves?|victims?)\b[^.\n]{0,30}\b(?:against their will|captive|prisoners?|without (?:them|anyone) knowing)\b/,
+    },
+    {
+        category: "violence",
+        severity: "high",
+        pattern:
+            /\b(?:gas|execution|killing)\s+chambers?\b[^.\n]{0,20}\b(?:for|to kill)\s+(?:people|humans|prisoners|them)\b/,
+    },
+    {
+        category: "violence",
+        severity: "low",
+        pattern: /\btorture (?:chamber|room)s?\b/,
+    },
+    {
+        category: "self_harm",
+        severity: "high",
+        pattern:
+            /\b(?:kill|hang|hurt|harm|cut|shoot)\s+myself\b|\b(?:commit(?:ting)?|attempt(?:ing)?)\s+suicide\b|\bsuicide\s+(?:method|plan|note)s?\b|\bend (?:my|it all|my own) life\b/,
+    },
+    {
+        category: "self_harm",
+        severity: "medium",
+        pattern: /\b(?:i (?:want|wanna) to die|no reason to live)\b/,
+    },
+    {
+        category: "sexual",
+        severity: "high",
+        // "Nude" and "naked" alone are finishes and colours ("nude
+        // palette", "naked brick"), so they only count next to the minor
+        pattern: new RegExp(
+            `\\b${MINORS}\\b[^.\\n]{0,30}\\b${SEXUAL}|\\b${SEXUAL}[^.\\n]{0,30}\\b${MINORS}\\b|\\bsex with (?:a |the )?${MINORS}\\b|\\b(?:nude|naked)\\s+(?:(?:photos?|pictures?|pics|images?|videos?)\\s+of\\s+(?:a\\s+|the\\s+)?)?${MINORS}\\b(?!'?s?\\s*(?:room|bedroom|bathroom|playroom|nursery|area|zone|corner|wing|space|furniture)s?\\b)|\\b${MINORS}\\s+(?:posing\\s+|being\\s+|getting\\s+)?(?:nude|naked)\\b(?!\\s+(?:colou?rs?|palettes?|tones?|shades?|brick|walls?|concrete|plaster|wood|timber|stone|finish(?:es)?|paint|beams?|look))`
+        ),
+    },
+    {
+        category: "sexual",
+        severity: "medium",
+        pattern:
+            /\b(?:porn\w*|xxx|explicit sex(?:ual)? (?:content|scenes?|acts?))\b/,
+    },
+    {
+        category: "hate",
+        severity: "high",
+        pattern: new RegExp(
+            `\\b(?:exterminate|eradicate|wipe out|get rid of|gas|lynch|kill)\\s+(?:all\\s+)?(?:the\\s+)?${GROUPS}\\b`
+        ),
+    },
+    {
+        category: "hate",
+        severity: "high",
+        // Segregation built into the design
+        pattern: new RegExp(
+            `\\b(?:no ${GROUPS} allowed|(?:whites|blacks|colou?red) only\\b|(?:separate|segregated) (?:entrances?|toilets?|bathrooms?|areas?|floors?|wings?) for ${GROUPS})`
+        ),
+    },
+];
+
+// Injection classifier: weights of cues, each counted once, summed with a
+// negative bias and squashed to 0-1. Cues are words an architecture brief
+// rarely needs; it takes several of them together to score high.
+const INJECTION_BIAS = -6;
+const INJECTION_CUES: [RegExp, number][] = [
+    [/\bignor(?:e|ing)\b/, 1.2],
+    [/\bdisregard\b/, 1.8],
+    [/\bforget\b/, 0.8],
+    [/\boverride\b/, 1.2],
+    [/\bbypass\b/, 1.2],
+    [/\binstructions?\b/, 1.3],
+    [/\bsystem prompt\b/, 3],
+    [/\bprompts?\b/, 0.7],
+    [/\b(?:previous|prior|above|earlier)\b/, 0.7],
+    [/\b(?:rules|guidelines|policy|policies|restrictions)\b/, 0.8],
+    [/\byou (?:are|must|will|should)\b/, 0.6],
+    [/\bfrom now on\b/, 1.3],
+    [/\b(?:pretend|roleplay|role-play|act as)\b/, 1.2],
+    [/\b(?:jailbreak|jailbroken|developer mode|do anything now)\b/, 3],
+    [/\b(?:unrestricted|unfiltered|uncensored)\b/, 1.5],
+    [/\b(?:reveal|leak|confidential|secret)\b/, 1],
+    [/\b(?:respond|reply|answer) (?:only )?with\b/, 0.8],
+    [/\b(?:assistant|chatbot|language model|llm|ai model)\b/, 0.9],
+    [/\b(?:agent|interpreter|designer|critic|renderer)s?\b/, 0.3],
+    [/\bnew (?:role|task|persona|objective)\b/, 1.5],
+    [/\byour (?:new )?(?:task|job|role|purpose|instructions)\b/, 1.2],
+    [/\beverything (?:above|before|else)\b/, 1.2],
+    [
+        /\b(?:you were|you've been|you have been) (?:told|given|instructed|programmed)\b/,
+        1.5,
+    ],
+    [/\bstop following\b/, 1.5],
+    [/\bdevelopers?\b/, 0.6],
+    [/\binstead\b/, 0.4],
+    [/\bjson\b/, 0.3],
+];
+
+const MAX_EVIDENCE = 80;
+
+/** Findings for a piece of user text; empty when nothing stands out. */
+export function screenText(text: string): ScreeningFinding[] {
+    const normalized = normalizeForScreening(text);
+    if (!normalized) return [];
+
+    const findings: ScreeningFinding[] = [];
+    for (const { category, severity, pattern } of RULES) {
+        const match = pattern.exec(normalized);
+        if (!match) continue;
+        findings.push({
+            category,
+            severity,
+            score: SEVERITY_SCORES[severity],
+            evidence: shorten(match[0]),
+        });
+    }
+
+    const score = injectionScore(normalized);
+    const severity = scoreSeverity(score);
+    if (
+        severity &&
+        !findings.some(
+            (finding) =>
+                finding.category === "prompt_injection" &&
+                !isMoreSevere(severity, finding.severity)
+        )
+    ) {
+        findings.push({
+            category: "prompt_injection",
+            severity,
+            score,
+            evidence: shorten(normalized),
+        });
+    }
+    return findings;
+}
+
+/** How much a text reads like instructions to the model, 0-1. */
+export function injectionScore(text: string): number {
+    const normalized = normalizeForScreening(text);
+    const sum = INJECTION_CUES.reduce(
+        (total, [cue, weight]) =>
+            cue.test(normalized) ? total + weight : total,
+        INJECTION_BIAS
+    );
+    return Math.round((1 / (1 + Math.exp(-sum))) * 100) / 100;
+}
+
+/**
+ * Lower case with look-alike characters folded: compatibility forms,
+ * zero-width characters, digits standing in for letters ("1gn0re") and
+ * words spelled out letter by letter ("i g n o r e"). Sizes, counts and
+ * ordinals ("10x12", "3bed", "1st") keep their digits.
+ */
+export function normalizeForScreening(text: string): string {
+    return text
+        .normalize("NFKC")
+        .replace(/[\u200b-\u200f\u2060\ufeff\u00ad]/g, "")
+        .toLowerCase()
+        .replace(/[’‘`]/g, "'")
+        .replace(/[a-z0-9@$]+/g, (word) =>
+            /[a-z]/.test(word) && !DIMENSION_TOKEN.test(word)
+                ? word.replace(/[013457@$]/g, (c) => LEET[c])
+                : word
+        )
+        .replace(/\b(?:[a-z] ){3,}[a-z]\b/g, (letters) =>
+            letters.replace(/ /g, "")
+        )
+        .replace(/[ \t]+/g, " ")
+        .trim();
+}
+
+/** Whether severity a is at least severity b. */
+export function isAtLeast(
+    a: ModerationSeverity,
+    b: ModerationSeverity
+): boolean {
+    return MODERATION_SEVERITIES.indexOf(a) >= MODERATION_SEVERITIES.indexOf(b);
+}
+
+export function isModerationSeverity(
+    value: unknown
+): value is ModerationSeverity {
+    return MODERATION_SEVERITIES.includes(value as ModerationSeverity);
+}
+
+// A number with a unit, a count of rooms or an ordinal, optionally
+// multiplied out: "12ft", "2.5m" (split at the dot), "10x12", "3bhk", "2nd"
+const DIMENSION_TOKEN =
+    /^(?:\d+x)*\d+(?:x|st|nd|rd|th|s|mm|cm|m|m2|m3|km|sqm|sqft|ft|in|yd|k|kw|l|bed|beds|bath|baths|br|ba|bhk|car|cars|storey|story|stories|fl|f|d|pm|am)?$/;
+
+const LEET: Record<string, string> = {
+    "0": "o",
+    "1": "i",
+    "3": "e",
+    "4": "a",
+    "5": "s",
+    "7": "t",
+    "@": "a",
+    $: "s",
+};
+
+const SEVERITY_SCORES: Record<ModerationSeverity, number> = {
+    low: 0.4,
+    medium: 0.7,
+    high: 0.9,
+};
+
+function scoreSeverity(score: number): ModerationSeverity | null {
+    if (score >= 0.9) return "high";
+    if (score >= 0.7) return "medium";
+    if (score >= 0.4) return "low";
+    return null;
+}
+
+function isMoreSevere(a: ModerationSeverity, b: ModerationSeverity): boolean {
+    return MODERATION_SEVERITIES.indexOf(a) > MODERATION_SEVERITIES.indexOf(b);
+}
+
+function shorten(text: string): string {
+    const line = text.replace(/\s+/g, " ").trim();
+    return line.length > MAX_EVIDENCE
+        ? `${line.slice(0, MAX_EVIDENCE - 1)}…`
+        : line;
+}
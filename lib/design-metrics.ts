@@ -0,0 +1,61 @@
+import { ModelData } from "./model-schema";
+import { getModelLevels, getRoomLevel } from "./model-levels";
+import { getRoomArea, getRoomBounds } from "./room-geometry";
+import { reviewDesign } from "./design-review";
+import { RoomRequirement } from "./layout-solver";
+
+// Figures for comparing candidate designs of the same request side by side.
+
+export interface DesignMetrics {
+    totalArea: number; // sum of room floor areas, m²
+    footprintArea: number; // bounding box of the ground level, m²
+    roomCount: number;
+    levelCount: number;
+    doorCount: number;
+    windowCount: number;
+    // Share of the requested rooms the design contains, 0-1; 1 when the
+    // request listed no rooms
+    requirementCoverage: number;
+    missingRooms: string[];
+}
+
+export function computeDesignMetrics(
+    model: ModelData,
+    programme: RoomRequirement[]
+): DesignMetrics {
+    const levels = getModelLevels(model);
+    const ground = model.rooms.filter(
+        (room) => getRoomLevel(model, room).name === levels[0].name
+    );
+    const bounds = ground.map(getRoomBounds);
+    const footprintArea =
+        bounds.length > 0
+            ? (Math.max(...bounds.map((b) => b.maxX)) -
+                  Math.min(...bounds.map((b) => b.minX))) *
+              (Math.max(...bounds.map((b) => b.maxZ)) -
+                  Math.min(...bounds.map((b) => b.minZ)))
+            : 0;
+
+    const { matches } = reviewDesign(model, programme);
+    const matched = new Set(matches.map((match) => match.requirement));
+
+    return {
+        totalArea: round(
+            model.rooms.reduce((sum, room) => sum + getRoomArea(room), 0)
+        ),
+        footprintArea: round(footprintArea),
+        roomCount: model.rooms.length,
+        levelCount: levels.length,
+        doorCount: model.doors.length,
+        windowCount: model.windows.length,
+        requirementCoverage:
+            programme.length > 0 ? round(matched.size / programme.length) : 1,
+        missingRooms: programme
+            .filter((requirement) => !matched.has(requirement.name))
+            .map((requirement) => requirement.name),
+    };
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
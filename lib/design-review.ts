@@ -0,0 +1,226 @@
+import { ModelData, ModelRoom } from "./model-schema";
+import { getRoomLevel } from "./model-levels";
+import { getRoomArea } from "./room-geometry";
+import {
+    DEFAULT_DOOR_WIDTH,
+    DOOR_CLEARANCE,
+    getSharedWallLength,
+} from "./door-adjacency";
+import { RoomRequirement } from "./layout-solver";
+
+// Checks a finished design against the room programme it was made for:
+// every requested room exists, has roughly the requested size and sits
+// next to the rooms it was asked to adjoin. The findings are phrased as
+// critiques a designer can act on, and summarised as a 0-100 score.
+
+export const PASSING_SCORE = 80;
+
+// Relative area deviation that is still fine, and the one that is an error
+const AREA_TOLERANCE = 0.2;
+const AREA_ERROR = 0.5;
+// Rooms without a requested size are only flagged when wildly off
+const DEFAULT_AREA_RANGE: [number, number] = [0.5, 2];
+
+const ERROR_PENALTY = 20;
+const WARNING_PENALTY = 5;
+
+export type CritiqueKind = "missing_room" | "room_size" | "adjacency" | "other";
+export type CritiqueSeverity = "error" | "warning";
+
+export interface Critique {
+    kind: CritiqueKind;
+    severity: CritiqueSeverity;
+    rooms: string[]; // requirement or design room names involved
+    message: string;
+    suggestion: string;
+}
+
+export interface DesignReview {
+    score: number; // 0-100
+    approved: boolean; // no errors and at least PASSING_SCORE
+    critiques: Critique[];
+    matches: { requirement: string; room: string }[];
+}
+
+/**
+ * Reviews a design against a programme. Design rooms are matched to
+ * requirements by name, then type, then name prefix; rooms the programme
+ * did not ask for (hallways and the like) are not criticised.
+ */
+export function reviewDesign(
+    model: ModelData,
+    programme: RoomRequirement[],
+    extra: Critique[] = []
+): DesignReview {
+    const matched = matchRooms(model.rooms, programme);
+    const critiques: Critique[] = [];
+
+    programme.forEach((requirement) => {
+        const room = matched.get(requirement.name);
+        if (!room) {
+            critiques.push({
+                kind: "missing_room",
+                severity: "error",
+                rooms: [requirement.name],
+                message: `No room for the requested "${requirement.name}"`,
+                suggestion: `Add a ${requirement.type || requirement.name} of about ${round(requirement.area)} m²`,
+            });
+            return;
+        }
+
+        const size = checkSize(room, requirement);
+        if (size) critiques.push(size);
+    });
+
+    const reported = new Set<string>();
+    programme.forEach((requirement) => {
+        requirement.adjacentTo.forEach((other) => {
+            const key = [requirement.name, other].sort().join("|");
+            if (reported.has(key)) return;
+            reported.add(key);
+
+            const a = matched.get(requirement.name);
+            const b = matched.get(other);
+            // Missing rooms are already reported
+            if (!a || !b) return;
+            const adjacency = checkAdjacency(model, a, b);
+            if (adjacency) critiques.push(adjacency);
+        });
+    });
+
+    critiques.push(...extra);
+
+    const errors = critiques.filter((c) => c.severity === "error").length;
+    const warnings = critiques.length - errors;
+    const score = Math.max(
+        0,
+        100 - errors * ERROR_PENALTY - warnings * WARNING_PENALTY
+    );
+
+    return {
+        score,
+        approved: errors === 0 && score >= PASSING_SCORE,
+        critiques,
+        matches: [...matched].map(([requirement, room]) => ({
+            requirement,
+            room: room.name,
+        })),
+    };
+}
+
+function matchRooms(
+    rooms: ModelRoom[],
+    programme: RoomRequirement[]
+): Map<string, ModelRoom> {
+    const matched = new Map<string, ModelRoom>();
+    const used = new Set<ModelRoom>();
+    const passes: ((
+        room: ModelRoom,
+        requirement: RoomRequirement
+    ) => boolean)[] = [
+        (room, req) => lower(room.name) === lower(req.name),
+        (room, req) =>
+            !!room.type &&
+            (lower(room.type) === lower(req.type) ||
+                lower(room.type) === lower(req.name)),
+        (room, req) =>
+            lower(room.name).startsWith(lower(req.name)) ||
+            lower(req.name).startsWith(lower(room.name)) ||
+            (!!req.type && lower(room.name).includes(lower(req.type))),
+    ];
+
+    passes.forEach((matches) => {
+        programme.forEach((requirement) => {
+            if (matched.has(requirement.name)) return;
+            const room = rooms.find(
+                (candidate) =>
+                    !used.has(candidate) && matches(candidate, requirement)
+            );
+            if (room) {
+                matched.set(requirement.name, room);
+                used.add(room);
+            }
+        });
+    });
+    return matched;
+}
+
+function checkSize(
+    room: ModelRoom,
+    requirement: RoomRequirement
+): Critique | null {
+    const area = getRoomArea(room);
+    const ratio = area / requirement.area;
+
+    if (!requirement.specified) {
+        const [low, high] = DEFAULT_AREA_RANGE;
+        if (ratio >= low && ratio <= high) return null;
+        return {
+            kind: "room_size",
+            severity: "warning",
+            rooms: [room.name],
+            message: `"${room.name}" is ${round(area)} m², unusually ${ratio < 1 ? "small" : "large"} for its use`,
+            suggestion: `Resize "${room.name}" towards ${round(requirement.area)} m²`,
+        };
+    }
+
+    const deviation = Math.abs(ratio - 1);
+    if (deviation <= AREA_TOLERANCE) return null;
+    return {
+        kind: "room_size",
+        severity: deviation > AREA_ERROR ? "error" : "warning",
+        rooms: [room.name],
+        message: `"${room.name}" is ${round(area)} m² but ${round(requirement.area)} m² was requested`,
+        suggestion: `Make "${room.name}" ${ratio < 1 ? "larger" : "smaller"}, about ${round(requirement.area)} m²`,
+    };
+}
+
+function checkAdjacency(
+    model: ModelData,
+    a: ModelRoom,
+    b: ModelRoom
+): Critique | null {
+    const levelA = getRoomLevel(model, a).name;
+    const levelB = getRoomLevel(model, b).name;
+    if (levelA !== levelB) {
+        return {
+            kind: "adjacency",
+            severity: "warning",
+            rooms: [a.name, b.name],
+            message: `"${a.name}" (${levelA}) and "${b.name}" (${levelB}) should be adjacent but are on different levels`,
+            suggestion: `Move "${b.name}" to ${levelA} next to "${a.name}"`,
+        };
+    }
+
+    if (getSharedWallLength(a, b) < DEFAULT_DOOR_WIDTH + 2 * DOOR_CLEARANCE) {
+        return {
+            kind: "adjacency",
+            severity: "error",
+            rooms: [a.name, b.name],
+            message: `"${a.name}" and "${b.name}" should be adjacent but do not share a wall`,
+            suggestion: `Move "${b.name}" so it shares a wall with "${a.name}" and add a door`,
+        };
+    }
+
+    const door = model.doors.some(
+        (d) =>
+            (d.from === a.name && d.to === b.name) ||
+            (d.from === b.name && d.to === a.name)
+    );
+    if (door) return null;
+    return {
+        kind: "adjacency",
+        severity: "warning",
+        rooms: [a.name, b.name],
+        message: `"${a.name}" and "${b.name}" share a wall but have no door`,
+        suggestion: `Add a door between "${a.name}" and "${b.name}"`,
+    };
+}
+
+function lower(value: string | undefined): string {
+    return (value || "").trim().toLowerCase();
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
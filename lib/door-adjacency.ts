@@ -0,0 +1,463 @@
+import {
+    ModelData,
+    ModelDoor,
+    ModelRoom,
+    ModelValidationIssue,
+} from "./model-schema";
+import { getRoomLevel } from "./model-levels";
+import { getFacingGap } from "./layout-repair";
+import {
+    getRoomBounds,
+    getRoomPolygon,
+    isAxisAlignedRectangle,
+    polygonsOverlap,
+} from "./room-geometry";
+import { getRoomEdges } from "./walls";
+
+// Doors and `connected_to` links are only meaningful between rooms that
+// share a wall. This pass checks every link and, when the rooms are apart,
+// either slides one room against the other, bridges the gap with a real
+// hallway room, or drops the link with a diagnostic.
+
+export const DOOR_CLEARANCE = 0.1; // solid wall kept on each side of a door
+export const MIN_HALLWAY_WIDTH = 0.9;
+export const DEFAULT_DOOR_WIDTH = 0.9;
+export const DEFAULT_DOOR_HEIGHT = 2.1;
+
+const EPSILON = 0.01;
+
+export type DoorResolution = "moved" | "hallway" | "rejected";
+
+export interface DoorDiagnostic {
+    from: string;
+    to: string;
+    resolution: DoorResolution;
+    message: string;
+}
+
+export interface DoorAdjacencyResult {
+    model: ModelData;
+    diagnostics: DoorDiagnostic[];
+}
+
+export interface DoorAdjacencyOptions {
+    // Rooms that must not be moved to satisfy a link
+    fixed?: string[];
+}
+
+interface RoomLink {
+    from: string;
+    to: string;
+    width: number;
+    door: ModelDoor | null; // null for connected_to entries without a door
+}
+
+/**
+ * Length of the longest wall two rooms share, or 0 when they do not touch.
+ */
+export function getSharedWallLength(a: ModelRoom, b: ModelRoom): number {
+    let longest = 0;
+    getRoomEdges(a).forEach((edgeA) => {
+        getRoomEdges(b).forEach((edgeB) => {
+            const facing =
+                edgeA.normal[0] * edgeB.normal[0] +
+                edgeA.normal[1] * edgeB.normal[1];
+            if (
+                facing > -0.99 ||
+                Math.abs(edgeA.angle - edgeB.angle) > 1e-3 ||
+                Math.abs(edgeA.offset - edgeB.offset) > EPSILON
+            ) {
+                return;
+            }
+            const overlap =
+                Math.min(edgeA.end, edgeB.end) -
+                Math.max(edgeA.start, edgeB.start);
+            longest = Math.max(longest, overlap);
+        });
+    });
+    return longest;
+}
+
+/**
+ * Reports doors and `connected_to` entries between rooms that do not share
+ * a wall wide enough for the door.
+ */
+export function checkDoorAdjacency(model: ModelData): ModelValidationIssue[] {
+    const issues: ModelValidationIssue[] = [];
+    const byName = new Map(model.rooms.map((room) => [room.name, room]));
+
+    model.doors.forEach((door, i) => {
+        const reason = getAdjacencyProblem(
+            model,
+            byName,
+            door.from,
+            door.to,
+            door.width
+        );
+        if (reason) issues.push({ path: `doors[${i}]`, message: reason });
+    });
+    model.rooms.forEach((room, i) => {
+        room.connected_to.forEach((other, j) => {
+            const reason = getAdjacencyProblem(
+                model,
+                byName,
+                room.name,
+                other,
+                DEFAULT_DOOR_WIDTH
+            );
+            if (reason) {
+                issues.push({
+                    path: `rooms[${i}].connected_to[${j}]`,
+                    message: reason,
+                });
+            }
+        });
+    });
+
+    return issues;
+}
+
+/**
+ * Makes every door and `connected_to` link join two rooms that share a
+ * wall. A link between separated rooms is fixed by moving one of the rooms
+ * next to the other, by inserting a hallway room into the gap between them,
+ * or, failing both, by removing it.
+ */
+export function resolveDoorAdjacency(
+    model: ModelData,
+    options: DoorAdjacencyOptions = {}
+): DoorAdjacencyResult {
+    const fixed = new Set(options.fixed || []);
+    const rooms = model.rooms.map((room) => ({
+        ...room,
+        connected_to: [...room.connected_to],
+    }));
+    let doors = model.doors.map((door) => ({ ...door }));
+    const stairs = model.stairs?.map((stair) => ({ ...stair }));
+    const working: ModelData = { ...model, rooms, doors };
+    if (stairs) working.stairs = stairs;
+
+    const byName = new Map(rooms.map((room) => [room.name, room]));
+    const diagnostics: DoorDiagnostic[] = [];
+
+    const links: RoomLink[] = doors.map((door) => ({
+        from: door.from,
+        to: door.to,
+        width: door.width,
+        door,
+    }));
+    rooms.forEach((room) => {
+        room.connected_to.forEach((other) => {
+            if (!links.some((link) => isLink(link, room.name, other))) {
+                links.push({
+                    from: room.name,
+                    to: other,
+                    width: DEFAULT_DOOR_WIDTH,
+                    door: null,
+                });
+            }
+        });
+    });
+
+    const isSatisfied = (link: RoomLink) =>
+        !getAdjacencyProblem(working, byName, link.from, link.to, link.width);
+
+    links.forEach((link) => {
+        const problem = getAdjacencyProblem(
+            working,
+            byName,
+            link.from,
+            link.to,
+            link.width
+        );
+        if (!problem) return;
+
+        const from = byName.get(link.from);
+        const to = byName.get(link.to);
+        if (!from || !to) return;
+
+        // Step 1: Slide one of the rooms that may move against the other
+        // without breaking any link that already works
+        for (const [anchor, mover] of [
+            [from, to],
+            [to, from],
+        ]) {
+            if (fixed.has(mover.name)) continue;
+            const placement = findAdjacentPlacement(
+                working,
+                anchor,
+                mover,
+                link.width + 2 * DOOR_CLEARANCE,
+                links.filter(
+                    (other) =>
+                        other !== link &&
+                        (other.from === mover.name ||
+                            other.to === mover.name) &&
+                        isSatisfied(other)
+                ),
+                isSatisfied
+            );
+            if (placement) {
+                moveRoom(working, mover, placement.x, placement.z);
+                diagnostics.push({
+                    from: link.from,
+                    to: link.to,
+                    resolution: "moved",
+                    message: `Moved "${mover.name}" next to "${anchor.name}" so the door has a shared wall (${problem})`,
+                });
+                return;
+            }
+        }
+
+        // Step 2: Bridge the gap with a hallway room
+        const hallway = createHallway(working, from, to, link.width);
+        if (hallway) {
+            rooms.push(hallway);
+            byName.set(hallway.name, hallway);
+            replaceConnection(from, to.name, hallway.name);
+            replaceConnection(to, from.name, hallway.name);
+
+            const height = link.door?.height ?? DEFAULT_DOOR_HEIGHT;
+            doors = doors.filter((door) => door !== link.door);
+            doors.push(
+                {
+                    from: from.name,
+                    to: hallway.name,
+                    width: link.width,
+                    height,
+                },
+                { from: hallway.name, to: to.name, width: link.width, height }
+            );
+            working.doors = doors;
+            diagnostics.push({
+                from: link.from,
+                to: link.to,
+                resolution: "hallway",
+                message: `Added hallway "${hallway.name}" between "${from.name}" and "${to.name}" (${problem})`,
+            });
+            return;
+        }
+
+        // Step 3: Give up on the link
+        doors = doors.filter((door) => door !== link.door);
+        working.doors = doors;
+        from.connected_to = from.connected_to.filter(
+            (name) => name !== to.name
+        );
+        to.connected_to = to.connected_to.filter((name) => name !== from.name);
+        diagnostics.push({
+            from: link.from,
+            to: link.to,
+            resolution: "rejected",
+            message: `Removed the door between "${from.name}" and "${to.name}": ${problem}`,
+        });
+    });
+
+    return { model: working, diagnostics };
+}
+
+function isLink(link: RoomLink, a: string, b: string): boolean {
+    return (
+        (link.from === a && link.to === b) || (link.from === b && link.to === a)
+    );
+}
+
+function getAdjacencyProblem(
+    model: ModelData,
+    byName: Map<string, ModelRoom>,
+    fromName: string,
+    toName: string,
+    width: number
+): string | null {
+    const from = byName.get(fromName);
+    const to = byName.get(toName);
+    if (!from || !to) return null; // unknown rooms are a schema issue
+
+    if (getRoomLevel(model, from).name !== getRoomLevel(model, to).name) {
+        return `"${fromName}" and "${toName}" are on different levels`;
+    }
+
+    const shared = getSharedWallLength(from, to);
+    if (shared <= EPSILON) {
+        return `"${fromName}" and "${toName}" do not share a wall`;
+    }
+    if (shared < width + 2 * DOOR_CLEARANCE - EPSILON) {
+        return `the wall shared by "${fromName}" and "${toName}" is only ${round(
+            shared
+        )} m long`;
+    }
+    return null;
+}
+
+// Closest position of `mover` against one of the four sides of `anchor`
+// that leaves at least `need` meters of shared wall, overlaps nothing and
+// keeps the mover's working links intact
+function findAdjacentPlacement(
+    model: ModelData,
+    anchor: ModelRoom,
+    mover: ModelRoom,
+    need: number,
+    moverLinks: RoomLink[],
+    isSatisfied: (link: RoomLink) => boolean
+): { x: number; z: number } | null {
+    if (!isAxisAlignedRectangle(anchor) || !isAxisAlignedRectangle(mover)) {
+        return null;
+    }
+    const level = getRoomLevel(model, anchor).name;
+    if (getRoomLevel(model, mover).name !== level) return null;
+
+    const a = getRoomBounds(anchor);
+    const m = getRoomBounds(mover);
+    const moverWidth = m.maxX - m.minX;
+    const moverLength = m.maxZ - m.minZ;
+    // Offset between the room origin and its bounds, non-zero for rotations
+    const originX = mover.x - m.minX;
+    const originZ = mover.z - m.minZ;
+
+    const slide = (value: number, min: number, max: number) =>
+        Math.min(Math.max(value, min), max);
+    const candidates: { minX: number; minZ: number }[] = [];
+
+    if (a.maxZ - a.minZ >= need && moverLength >= need) {
+        const minZ = slide(m.minZ, a.minZ + need - moverLength, a.maxZ - need);
+        candidates.push({ minX: a.maxX, minZ }); // east of the anchor
+        candidates.push({ minX: a.minX - moverWidth, minZ }); // west
+    }
+    if (a.maxX - a.minX >= need && moverWidth >= need) {
+        const minX = slide(m.minX, a.minX + need - moverWidth, a.maxX - need);
+        candidates.push({ minX, minZ: a.maxZ }); // south
+        candidates.push({ minX, minZ: a.minZ - moverLength }); // north
+    }
+
+    const others = model.rooms.filter(
+        (room) => room !== mover && getRoomLevel(model, room).name === level
+    );
+    const ranked = candidates
+        .map((candidate) => ({
+            x: round(candidate.minX + originX),
+            z: round(candidate.minZ + originZ),
+        }))
+        .sort(
+            (p, q) =>
+                Math.hypot(p.x - mover.x, p.z - mover.z) -
+                Math.hypot(q.x - mover.x, q.z - mover.z)
+        );
+
+    for (const position of ranked) {
+        const moved = { ...mover, x: position.x, z: position.z };
+        const polygon = getRoomPolygon(moved);
+        const blocked = others.some((room) =>
+            polygonsOverlap(polygon, getRoomPolygon(room))
+        );
+        if (blocked) continue;
+
+        // Check the mover's other links against the tentative position
+        const original = { x: mover.x, z: mover.z };
+        mover.x = position.x;
+        mover.z = position.z;
+        const keepsLinks = moverLinks.every(isSatisfied);
+        mover.x = original.x;
+        mover.z = original.z;
+        if (keepsLinks) return position;
+    }
+    return null;
+}
+
+// Moves a room and the stairs that start inside it
+function moveRoom(model: ModelData, room: ModelRoom, x: number, z: number) {
+    const bounds = getRoomBounds(room);
+    const level = getRoomLevel(model, room).name;
+    (model.stairs || []).forEach((stair) => {
+        if (
+            stair.from_level === level &&
+            stair.x >= bounds.minX - EPSILON &&
+            stair.x <= bounds.maxX + EPSILON &&
+            stair.z >= bounds.minZ - EPSILON &&
+            stair.z <= bounds.maxZ + EPSILON
+        ) {
+            stair.x = round(stair.x + x - room.x);
+            stair.z = round(stair.z + z - room.z);
+        }
+    });
+    room.x = x;
+    room.z = z;
+}
+
+// Hallway filling the gap between two rooms that face each other across a
+// single axis, as long as the gap is wide enough to walk through and empty
+function createHallway(
+    model: ModelData,
+    from: ModelRoom,
+    to: ModelRoom,
+    doorWidth: number
+): ModelRoom | null {
+    if (!isAxisAlignedRectangle(from) || !isAxisAlignedRectangle(to)) {
+        return null;
+    }
+    const level = getRoomLevel(model, from);
+    if (getRoomLevel(model, to).name !== level.name) return null;
+
+    const a = getRoomBounds(from);
+    const b = getRoomBounds(to);
+    const gap = getFacingGap(a, b);
+    if (!gap || gap.distance < MIN_HALLWAY_WIDTH) return null;
+
+    const need = doorWidth + 2 * DOOR_CLEARANCE;
+    let hallway: Pick<ModelRoom, "x" | "z" | "width" | "length">;
+    if (gap.dz !== 0) {
+        const minX = Math.max(a.minX, b.minX);
+        const maxX = Math.min(a.maxX, b.maxX);
+        if (maxX - minX < need) return null;
+        hallway = {
+            x: minX,
+            z: Math.min(a.maxZ, b.maxZ),
+            width: maxX - minX,
+            length: gap.distance,
+        };
+    } else {
+        const minZ = Math.max(a.minZ, b.minZ);
+        const maxZ = Math.min(a.maxZ, b.maxZ);
+        if (maxZ - minZ < need) return null;
+        hallway = {
+            x: Math.min(a.maxX, b.maxX),
+            z: minZ,
+            width: gap.distance,
+            length: maxZ - minZ,
+        };
+    }
+
+    let name = `hallway_${from.name}_${to.name}`;
+    for (let i = 2; model.rooms.some((room) => room.name === name); i++) {
+        name = `hallway_${from.name}_${to.name}_${i}`;
+    }
+
+    const room: ModelRoom = {
+        name,
+        type: "hallway",
+        width: round(hallway.width),
+        length: round(hallway.length),
+        height: Math.min(from.height, to.height),
+        x: round(hallway.x),
+        y: from.y,
+        z: round(hallway.z),
+        connected_to: [from.name, to.name],
+    };
+    if (from.level !== undefined) room.level = from.level;
+
+    const polygon = getRoomPolygon(room);
+    const blocked = model.rooms.some(
+        (other) =>
+            getRoomLevel(model, other).name === level.name &&
+            polygonsOverlap(polygon, getRoomPolygon(other))
+    );
+    return blocked ? null : room;
+}
+
+function replaceConnection(room: ModelRoom, from: string, to: string) {
+    room.connected_to = room.connected_to.filter((name) => name !== from);
+    if (!room.connected_to.includes(to)) room.connected_to.push(to);
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
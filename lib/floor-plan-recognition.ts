@@ -0,0 +1,1011 @@
+import { WallSide } from "./model-schema";
+import { RGBAImage } from "./png-decoder";
+
+// Floor-plan recognition from a raster image. The plan is binarized, thin
+// strokes (text, furniture, door swings, dimension lines) are removed by a
+// morphological opening sized to the wall thickness, and what remains is
+// read as walls. Gaps at the free ends of walls become doors, or windows
+// when thin glazing lines cross them. Closing those gaps splits the free
+// space into rooms: every enclosed region not connected to the image
+// border. OCR'd labels, when the caller has them, name the rooms and,
+// when they carry dimensions such as 12'x14' or 3.6 x 4.2 m, fix the scale.
+//
+// Coordinates are image pixels: x grows right, y grows down, which is
+// south in the model (see lib/walls).
+
+export interface GrayImage {
+    width: number;
+    height: number;
+    data: Uint8Array; // 0 black to 255 white, row by row
+}
+
+export interface PixelBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PlanLabel {
+    text: string;
+    box: PixelBox;
+}
+
+export interface PlanWall {
+    orientation: "horizontal" | "vertical";
+    // Centerline end points
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    thickness: number;
+}
+
+export interface PlanDoor extends PixelBox {
+    id: string;
+    to: string | null; // the room on the other side; null for the outside
+}
+
+export interface PlanWindow extends PixelBox {
+    id: string;
+    wall: WallSide;
+    position: number; // 0-1 along the wall, from its west or north end
+}
+
+export interface DetectedRoom {
+    name: string;
+    type: string;
+    label: string | null; // OCR text the name came from
+    boundingBox: PixelBox; // to the wall centerlines
+    areaPixels: number; // free floor inside the walls
+    doors: PlanDoor[];
+    windows: PlanWindow[];
+    connected_to: string[];
+}
+
+export interface PlanScale {
+    estimated: true;
+    pixelsPerMeter: number;
+    confidence: number;
+    // labels: from room dimensions in the labels; walls: from the wall
+    // thickness, assuming wallThicknessMeters
+    source: "labels" | "walls";
+}
+
+export interface FloorPlanRecognition {
+    detectedRooms: DetectedRoom[];
+    walls: PlanWall[];
+    wallThickness: number; // pixels
+    scale: PlanScale;
+    dimensions: {
+        widthPixels: number;
+        heightPixels: number;
+        estimatedWidthMeters: number;
+        estimatedHeightMeters: number;
+    };
+    confidence: number;
+}
+
+export interface FloorPlanOptions {
+    labels?: PlanLabel[];
+    // Images are analyzed at most this large, for speed
+    maxWorkingSize?: number;
+    wallThicknessMeters?: number;
+}
+
+// Room types recognized in labels, first match wins
+const ROOM_LABEL_TYPES: [RegExp, string][] = [
+    [/\b(kitchen|kit)\b/i, "kitchen"],
+    [/\b(dining|din)\b/i, "dining"],
+    [/\b(living|lounge|family|great\s*room)\b/i, "living"],
+    [/\b(bed\s*(rm|room)?|bedrm|br|master)\b/i, "bedroom"],
+    [/\b(bath|bathroom|wc|toilet|powder|ensuite|en-suite)\b/i, "bathroom"],
+    [/\b(wic|closet|clo|wardrobe)\b/i, "closet"],
+    [/\b(w\/d|laundry|utility)\b/i, "utility"],
+    [/\b(stor|storage|store|pantry)\b/i, "storage"],
+    [/\b(hall|hallway|corridor|passage)\b/i, "hallway"],
+    [/\b(entry|foyer|vestibule|lobby)\b/i, "entry"],
+    [/\b(patio|terrace|deck|balcony|porch)\b/i, "patio"],
+    [/\b(garage)\b/i, "garage"],
+    [/\b(office|study|den)\b/i, "office"],
+];
+
+const FOOT = 0.3048;
+const DEFAULT_WALL_THICKNESS_METERS = 0.2;
+// Share of the ink the wall strokes are assumed to make up at least
+const WALL_INK_SHARE = 0.35;
+// Share of a gap covered by thin lines for it to be a window
+const WINDOW_INK_SHARE = 0.2;
+
+/** Grayscale of an RGBA image, with transparency over white. */
+export function toGrayscale(image: RGBAImage): GrayImage {
+    const { width, height, data } = image;
+    const gray = new Uint8Array(width * height);
+    for (let i = 0; i < gray.length; i++) {
+        const alpha = data[i * 4 + 3] / 255;
+        const luma =
+            0.299 * data[i * 4] +
+            0.587 * data[i * 4 + 1] +
+            0.114 * data[i * 4 + 2];
+        gray[i] = Math.round(luma * alpha + 255 * (1 - alpha));
+    }
+    return { width, height, data: gray };
+}
+
+/**
+ * Threshold splitting a histogram into two classes with the largest
+ * between-class variance (Otsu). Null when the image has a single tone.
+ */
+export function otsuThreshold(histogram: number[]): number | null {
+    const total = histogram.reduce((n, count) => n + count, 0);
+    const sum = histogram.reduce((n, count, value) => n + count * value, 0);
+
+    let best: { threshold: number; variance: number; gap: number } | null =
+        null;
+    let backCount = 0;
+    let backSum = 0;
+    for (let t = 0; t < 255; t++) {
+        backCount += histogram[t];
+        backSum += histogram[t] * t;
+        const foreCount = total - backCount;
+        if (backCount === 0 || foreCount === 0) continue;
+
+        const backMean = backSum / backCount;
+        const foreMean = (sum - backSum) / foreCount;
+        const variance = backCount * foreCount * (backMean - foreMean) ** 2;
+        if (!best || variance > best.variance) {
+            best = { threshold: t, variance, gap: foreMean - backMean };
+        }
+    }
+    // Classes closer than this are noise on a blank page
+    return best && best.gap >= 40 ? best.threshold : null;
+}
+
+/** Room type named by a label, e.g. "BEDRM 1" is a bedroom. */
+export function roomTypeFromLabel(text: string): string | null {
+    const match = ROOM_LABEL_TYPES.find(([pattern]) => pattern.test(text));
+    return match ? match[1] : null;
+}
+
+/**
+ * Room dimensions written in a label, in meters: 12'-6" x 10', 12 ft x 14
+ * ft, 3.6 x 4.2 m, 360 x 420 cm. Unitless numbers only count with a
+ * decimal point (meters); plain integers could be feet or meters.
+ */
+export function parseDimensionLabel(text: string): [number, number] | null {
+    const length = String.raw`(\d+(?:[.,]\d+)?)\s*('|’|ft|m\b|cm\b|mm\b)?\s*-?\s*(?:(\d+(?:\.\d+)?)\s*("|”|''|in\b))?`;
+    const match = new RegExp(`${length}\\s*[x×X*]\\s*${length}`).exec(text);
+    if (!match) return null;
+
+    // A unit written once applies to both numbers
+    const suffix = /^\s*(m|cm|mm|ft)\b/i.exec(
+        text.slice(match.index + match[0].length)
+    );
+    const shared = (match[6] || match[2] || suffix?.[1])?.toLowerCase();
+    const read = (value: string, unit?: string, inches?: string) => {
+        const number = parseFloat(value.replace(",", "."));
+        unit = unit?.toLowerCase() || shared;
+        if (unit === "'" || unit === "’" || unit === "ft" || inches) {
+            return (number + (inches ? parseFloat(inches) / 12 : 0)) * FOOT;
+        }
+        if (unit === "m") return number;
+        if (unit === "cm") return number / 100;
+        if (unit === "mm") return number / 1000;
+        return /[.,]/.test(value) ? number : null;
+    };
+    const first = read(match[1], match[2], match[3]);
+    const second = read(match[5], match[6], match[7]);
+    if (!first || !second || first > 50 || second > 50) return null;
+    return [first, second];
+}
+
+/** Finds walls, doors, windows and rooms in a floor-plan image. */
+export function recognizeFloorPlan(
+    source: GrayImage,
+    options: FloorPlanOptions = {}
+): FloorPlanRecognition {
+    const factor = Math.max(
+        1,
+        Math.ceil(
+            Math.max(source.width, source.height) /
+                (options.maxWorkingSize || 1200)
+        )
+    );
+    const image = downscale(source, factor);
+    const { width, height } = image;
+    const ink = binarize(image);
+    if (!ink) return emptyRecognition(source);
+
+    // Wall strokes are the thick ones: keep what survives an opening a bit
+    // thinner than the walls, then drop leftovers too short to be walls
+    const thickness = estimateWallThickness(ink, width, height);
+    const unit = Math.max(thickness, Math.max(width, height) / 150);
+    const opened = openMask(
+        ink,
+        width,
+        height,
+        Math.max(1, Math.round(thickness * 0.7))
+    );
+    const wallMask = removeShortComponents(
+        opened,
+        width,
+        height,
+        Math.max(4 * thickness, 0.03 * Math.min(width, height))
+    );
+
+    const minLength = Math.max(2 * thickness, 2 * unit);
+    const walls = [
+        ...findWallLines(wallMask, width, height, thickness, minLength, true),
+        ...findWallLines(wallMask, width, height, thickness, minLength, false),
+    ];
+
+    const gaps = findGaps(wallMask, ink, width, height, walls, unit);
+    const barrier = wallMask.slice();
+    gaps.forEach((gap) => fillBox(barrier, width, gap.box, 1));
+
+    // Enclosed regions of free floor are rooms; regions reaching the image
+    // border are outside
+    const regions = labelComponents(barrier, width, height, 0, false);
+    const minArea = Math.max(20 * unit * unit, 0.002 * width * height);
+    const roomRegions = regions.components.filter(
+        (region) => !region.touchesBorder && region.area >= minArea
+    );
+    const roomIndex = new Map(roomRegions.map((region, i) => [region.id, i]));
+    const regionAt = (x: number, y: number) =>
+        findRegion(regions.labels, width, height, x, y, Math.ceil(unit * 2));
+
+    // Labels: names and types, and dimensions for the scale
+    const labelsByRoom = roomRegions.map(() => [] as PlanLabel[]);
+    for (const label of options.labels || []) {
+        const region = regionAt(
+            (label.box.x + label.box.width / 2) / factor,
+            (label.box.y + label.box.height / 2) / factor
+        );
+        const index = region === null ? undefined : roomIndex.get(region);
+        if (index !== undefined) labelsByRoom[index].push(label);
+    }
+
+    const scaleEstimates: number[] = [];
+    const half = Math.ceil(thickness / 2);
+    const names = new Map<string, number>();
+    const rooms: DetectedRoom[] = roomRegions.map((region, i) => {
+        const labels = labelsByRoom[i].sort((a, b) => a.box.y - b.box.y);
+        const named =
+            labels.find((label) => roomTypeFromLabel(label.text)) ||
+            labels.find((label) => !parseDimensionLabel(label.text));
+        const type = (named && roomTypeFromLabel(named.text)) || "room";
+
+        for (const label of labels) {
+            const size = parseDimensionLabel(label.text);
+            const estimate = size && pixelsPerMeter(region, size, factor);
+            if (estimate) scaleEstimates.push(estimate);
+        }
+
+        let name = named?.text.trim() || `Room ${i + 1}`;
+        const seen = names.get(name) || 0;
+        names.set(name, seen + 1);
+        if (seen > 0) name = `${name} ${seen + 1}`;
+
+        return {
+            name,
+            type,
+            label: named?.text.trim() || null,
+            // Out to the wall centerlines, so neighbours share their wall
+            boundingBox: scaleBox(
+                clampBox(
+                    {
+                        x: region.minX - half,
+                        y: region.minY - half,
+                        width: region.maxX - region.minX + 1 + 2 * half,
+                        height: region.maxY - region.minY + 1 + 2 * half,
+                    },
+                    width,
+                    height
+                ),
+                factor
+            ),
+            areaPixels: region.area * factor * factor,
+            doors: [],
+            windows: [],
+            connected_to: [],
+        };
+    });
+
+    // Each opening joins the regions on its two sides
+    gaps.forEach((gap, i) => {
+        const sides = openingSides(gap.box, gap.horizontal, thickness).map(
+            ([x, y]) => {
+                const region = regionAt(x, y);
+                return region === null ? undefined : roomIndex.get(region);
+            }
+        );
+        const [a, b] = sides;
+        const box = scaleBox(gap.box, factor);
+        if (gap.kind === "window") {
+            // Windows belong to the room inside an outer wall
+            const index = a ?? b;
+            if (index === undefined || (a !== undefined && b !== undefined)) {
+                return;
+            }
+            const room = rooms[index];
+            room.windows.push({
+                id: `window-${i + 1}`,
+                ...box,
+                ...wallPosition(room.boundingBox, box),
+            });
+            return;
+        }
+
+        for (const [from, to] of [
+            [a, b],
+            [b, a],
+        ]) {
+            if (from === undefined) continue;
+            const other = to === undefined ? null : rooms[to].name;
+            rooms[from].doors.push({ id: `door-${i + 1}`, ...box, to: other });
+            if (other && !rooms[from].connected_to.includes(other)) {
+                rooms[from].connected_to.push(other);
+            }
+        }
+    });
+
+    const scale = estimateScale(
+        scaleEstimates,
+        thickness * factor,
+        options.wallThicknessMeters || DEFAULT_WALL_THICKNESS_METERS,
+        Math.max(source.width, source.height)
+    );
+    const extent = unionBox(rooms.map((room) => room.boundingBox));
+    const labelled = rooms.filter((room) => room.label).length;
+
+    return {
+        detectedRooms: rooms,
+        walls: walls.map((wall) => ({
+            ...wall,
+            x1: wall.x1 * factor,
+            y1: wall.y1 * factor,
+            x2: wall.x2 * factor,
+            y2: wall.y2 * factor,
+            thickness: wall.thickness * factor,
+        })),
+        wallThickness: thickness * factor,
+        scale,
+        dimensions: {
+            widthPixels: extent.width,
+            heightPixels: extent.height,
+            estimatedWidthMeters: round(extent.width / scale.pixelsPerMeter),
+            estimatedHeightMeters: round(extent.height / scale.pixelsPerMeter),
+        },
+        confidence:
+            rooms.length === 0
+                ? 0.1
+                : round(
+                      0.4 +
+                          0.3 * (labelled / rooms.length) +
+                          (scale.source === "labels" ? 0.2 : 0)
+                  ),
+    };
+}
+
+function emptyRecognition(image: GrayImage): FloorPlanRecognition {
+    return {
+        detectedRooms: [],
+        walls: [],
+        wallThickness: 0,
+        scale: {
+            estimated: true,
+            pixelsPerMeter: 25,
+            confidence: 0.1,
+            source: "walls",
+        },
+        dimensions: {
+            widthPixels: image.width,
+            heightPixels: image.height,
+            estimatedWidthMeters: 0,
+            estimatedHeightMeters: 0,
+        },
+        confidence: 0.1,
+    };
+}
+
+// Box-filtered copy, factor times smaller on each side
+function downscale(image: GrayImage, factor: number): GrayImage {
+    if (factor === 1) return image;
+    const width = Math.floor(image.width / factor);
+    const height = Math.floor(image.height / factor);
+    const data = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            for (let dy = 0; dy < factor; dy++) {
+                const row = (y * factor + dy) * image.width + x * factor;
+                for (let dx = 0; dx < factor; dx++) sum += image.data[row + dx];
+            }
+            data[y * width + x] = Math.round(sum / (factor * factor));
+        }
+    }
+    return { width, height, data };
+}
+
+// 1 for ink; plans drawn light on dark are inverted
+function binarize(image: GrayImage): Uint8Array | null {
+    const histogram = new Array(256).fill(0);
+    image.data.forEach((value) => histogram[value]++);
+    const threshold = otsuThreshold(histogram);
+    if (threshold === null) return null;
+
+    const ink = new Uint8Array(image.data.length);
+    let count = 0;
+    image.data.forEach((value, i) => {
+        if (value <= threshold) {
+            ink[i] = 1;
+            count++;
+        }
+    });
+    if (count > ink.length / 2) ink.forEach((value, i) => (ink[i] = 1 - value));
+    return ink;
+}
+
+// Stroke width at each ink pixel is the shorter of its horizontal and
+// vertical runs; walls are the thickest strokes that still make up a good
+// share of the ink
+function estimateWallThickness(
+    ink: Uint8Array,
+    width: number,
+    height: number
+): number {
+    const across = new Uint16Array(ink.length);
+    forEachRun(ink, width, height, true, (start, end, line) => {
+        for (let i = start; i <= end; i++)
+            across[line * width + i] = end - start + 1;
+    });
+    const histogram = new Array(65).fill(0);
+    let total = 0;
+    forEachRun(ink, width, height, false, (start, end, line) => {
+        for (let i = start; i <= end; i++) {
+            const stroke = Math.min(across[i * width + line], end - start + 1);
+            histogram[Math.min(stroke, 64)]++;
+            total++;
+        }
+    });
+
+    let count = 0;
+    for (let stroke = 64; stroke > 1; stroke--) {
+        count += histogram[stroke];
+        if (count >= total * WALL_INK_SHARE) return stroke;
+    }
+    return 1;
+}
+
+// Calls back with every run of 1s along rows (or columns)
+function forEachRun(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    rows: boolean,
+    callback: (start: number, end: number, line: number) => void
+) {
+    const lines = rows ? height : width;
+    const length = rows ? width : height;
+    for (let line = 0; line < lines; line++) {
+        let start = -1;
+        for (let i = 0; i <= length; i++) {
+            const set =
+                i < length &&
+                mask[rows ? line * width + i : i * width + line] === 1;
+            if (set && start < 0) start = i;
+            if (!set && start >= 0) {
+                callback(start, i - 1, line);
+                start = -1;
+            }
+        }
+    }
+}
+
+// Erosion then dilation with a size x size square, via integral images
+function openMask(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    size: number
+): Uint8Array {
+    if (size <= 1) return mask.slice();
+    const before = (size - 1) >> 1;
+    const after = size - 1 - before;
+
+    const eroded = new Uint8Array(mask.length);
+    const sums = integral(mask, width, height);
+    for (let y = before; y < height - after; y++) {
+        for (let x = before; x < width - after; x++) {
+            const sum = boxSum(
+                sums,
+                width,
+                x - before,
+                y - before,
+                x + after,
+                y + after
+            );
+            if (sum === size * size) eroded[y * width + x] = 1;
+        }
+    }
+
+    const opened = new Uint8Array(mask.length);
+    const erodedSums = integral(eroded, width, height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const sum = boxSum(
+                erodedSums,
+                width,
+                Math.max(0, x - after),
+                Math.max(0, y - after),
+                Math.min(width - 1, x + before),
+                Math.min(height - 1, y + before)
+            );
+            if (sum > 0) opened[y * width + x] = 1;
+        }
+    }
+    return opened;
+}
+
+function integral(mask: Uint8Array, width: number, height: number) {
+    const sums = new Int32Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let row = 0;
+        for (let x = 0; x < width; x++) {
+            row += mask[y * width + x];
+            sums[(y + 1) * (width + 1) + x + 1] =
+                sums[y * (width + 1) + x + 1] + row;
+        }
+    }
+    return sums;
+}
+
+// Sum over an inclusive box
+function boxSum(
+    sums: Int32Array,
+    width: number,
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number
+): number {
+    const stride = width + 1;
+    return (
+        sums[(y1 + 1) * stride + x1 + 1] -
+        sums[y0 * stride + x1 + 1] -
+        sums[(y1 + 1) * stride + x0] +
+        sums[y0 * stride + x0]
+    );
+}
+
+interface Component {
+    id: number;
+    area: number;
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    touchesBorder: boolean;
+}
+
+// Connected components of the pixels equal to value; other pixels are -1
+function labelComponents(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    value: number,
+    diagonal: boolean
+): { labels: Int32Array; components: Component[] } {
+    const labels = new Int32Array(mask.length).fill(-1);
+    const components: Component[] = [];
+    const queue = new Int32Array(mask.length);
+    const steps = diagonal
+        ? [-1, 0, 1, 0, 0, -1, 0, 1, -1, -1, 1, -1, -1, 1, 1, 1]
+        : [-1, 0, 1, 0, 0, -1, 0, 1];
+
+    for (let start = 0; start < mask.length; start++) {
+        if (mask[start] !== value || labels[start] >= 0) continue;
+        const component: Component = {
+            id: components.length,
+            area: 0,
+            minX: width,
+            minY: height,
+            maxX: 0,
+            maxY: 0,
+            touchesBorder: false,
+        };
+        components.push(component);
+
+        let head = 0;
+        let tail = 0;
+        queue[tail++] = start;
+        labels[start] = component.id;
+        while (head < tail) {
+            const pixel = queue[head++];
+            const x = pixel % width;
+            const y = (pixel - x) / width;
+            component.area++;
+            component.minX = Math.min(component.minX, x);
+            component.minY = Math.min(component.minY, y);
+            component.maxX = Math.max(component.maxX, x);
+            component.maxY = Math.max(component.maxY, y);
+            if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+                component.touchesBorder = true;
+            }
+
+            for (let s = 0; s < steps.length; s += 2) {
+                const nx = x + steps[s];
+                const ny = y + steps[s + 1];
+                if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                const next = ny * width + nx;
+                if (mask[next] === value && labels[next] < 0) {
+                    labels[next] = component.id;
+                    queue[tail++] = next;
+                }
+            }
+        }
+    }
+    return { labels, components };
+}
+
+// Drops strokes too short to be walls: bold text, fixtures, hatching
+function removeShortComponents(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    minLength: number
+): Uint8Array {
+    const { labels, components } = labelComponents(
+        mask,
+        width,
+        height,
+        1,
+        true
+    );
+    const keep = components.map(
+        (c) => Math.max(c.maxX - c.minX, c.maxY - c.minY) + 1 >= minLength
+    );
+    return mask.map((value, i) => (value && keep[labels[i]] ? 1 : 0));
+}
+
+// Straight walls: runs at least minLength long on consecutive lines,
+// grouped while they overlap; groups thicker than a wall are blobs
+function findWallLines(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    thickness: number,
+    minLength: number,
+    horizontal: boolean
+): PlanWall[] {
+    interface Group {
+        start: number;
+        end: number;
+        from: number;
+        to: number;
+    }
+    const open: Group[] = [];
+    const closed: Group[] = [];
+    const runs: [number, number][][] = [];
+    forEachRun(mask, width, height, horizontal, (start, end, line) => {
+        if (end - start + 1 < minLength) return;
+        (runs[line] ||= []).push([start, end]);
+    });
+
+    const lines = horizontal ? height : width;
+    for (let line = 0; line <= lines; line++) {
+        const extended = new Set<Group>();
+        for (const [start, end] of runs[line] || []) {
+            const group = open.find(
+                (g) =>
+                    !extended.has(g) &&
+                    Math.min(g.end, end) - Math.max(g.start, start) >=
+                        (Math.min(g.end - g.start, end - start) + 1) / 2
+            );
+            if (group) {
+                group.start = Math.min(group.start, start);
+                group.end = Math.max(group.end, end);
+                group.to = line;
+                extended.add(group);
+            } else {
+                const created = { start, end, from: line, to: line };
+                open.push(created);
+                extended.add(created);
+            }
+        }
+        for (let i = open.length - 1; i >= 0; i--) {
+            if (!extended.has(open[i])) closed.push(...open.splice(i, 1));
+        }
+    }
+
+    return closed
+        .filter((group) => group.to - group.from + 1 <= 3 * thickness)
+        .map((group) => {
+            const center = (group.from + group.to) / 2;
+            return horizontal
+                ? {
+                      orientation: "horizontal" as const,
+                      x1: group.start,
+                      y1: center,
+                      x2: group.end,
+                      y2: center,
+                      thickness: group.to - group.from + 1,
+                  }
+                : {
+                      orientation: "vertical" as const,
+                      x1: center,
+                      y1: group.start,
+                      x2: center,
+                      y2: group.end,
+                      thickness: group.to - group.from + 1,
+                  };
+        });
+}
+
+interface Gap {
+    kind: "door" | "window";
+    horizontal: boolean; // lies in a horizontal wall
+    box: PixelBox;
+}
+
+// Openings at the free ends of walls: the wall stops, then starts again
+// (or meets another wall) within a door or window width. Ends where the
+// wall turns a corner or meets another wall are not free.
+function findGaps(
+    wallMask: Uint8Array,
+    ink: Uint8Array,
+    width: number,
+    height: number,
+    walls: PlanWall[],
+    unit: number
+): Gap[] {
+    const minGap = 2 * unit;
+    const maxDoor = 10 * unit;
+    const maxWindow = 16 * unit;
+    const wallAt = (x: number, y: number) =>
+        x >= 0 && y >= 0 && x < width && y < height
+            ? wallMask[Math.round(y) * width + Math.round(x)] === 1
+            : false;
+
+    const gaps: Gap[] = [];
+    for (const wall of walls) {
+        const horizontal = wall.orientation === "horizontal";
+        const half = Math.floor(wall.thickness / 2);
+        const center = horizontal ? wall.y1 : wall.x1;
+        const ends: [number, number][] = horizontal
+            ? [
+                  [wall.x1, -1],
+                  [wall.x2, 1],
+              ]
+            : [
+                  [wall.y1, -1],
+                  [wall.y2, 1],
+              ];
+        // Point at distance `along` on the wall axis and `across` from it
+        const point = (along: number, across: number): [number, number] =>
+            horizontal ? [along, center + across] : [center + across, along];
+
+        for (const [end, direction] of ends) {
+            const inside = end - direction * half;
+            const turns = [-1, 1].some((side) =>
+                wallAt(...point(inside, side * (half + wall.thickness)))
+            );
+            if (turns) continue;
+
+            let length: number | null = null;
+            for (let step = 1; step <= maxWindow + 1; step++) {
+                const along = end + direction * step;
+                if (along < 0 || along >= (horizontal ? width : height)) break;
+                let hit = false;
+                for (let across = -half; across <= half && !hit; across++) {
+                    hit = wallAt(...point(along, across));
+                }
+                if (hit) {
+                    length = step - 1;
+                    break;
+                }
+            }
+            if (length === null || length < minGap) continue;
+
+            const from = direction > 0 ? end + 1 : end - length;
+            const box = horizontal
+                ? {
+                      x: from,
+                      y: Math.round(center - half),
+                      width: length,
+                      height: 2 * half + 1,
+                  }
+                : {
+                      x: Math.round(center - half),
+                      y: from,
+                      width: 2 * half + 1,
+                      height: length,
+                  };
+            if (gaps.some((gap) => overlap(gap.box, box) > 0.5)) continue;
+
+            // Thin lines across the gap are glazing
+            const glazed = inkShare(ink, width, box) >= WINDOW_INK_SHARE;
+            if (glazed) {
+                gaps.push({ kind: "window", horizontal, box });
+            } else if (length <= maxDoor) {
+                gaps.push({ kind: "door", horizontal, box });
+            }
+        }
+    }
+    return gaps;
+}
+
+function inkShare(ink: Uint8Array, width: number, box: PixelBox): number {
+    let count = 0;
+    for (let y = box.y; y < box.y + box.height; y++) {
+        for (let x = box.x; x < box.x + box.width; x++) {
+            count += ink[y * width + x] || 0;
+        }
+    }
+    return count / Math.max(1, box.width * box.height);
+}
+
+// Points a wall's thickness beyond each face of an opening
+function openingSides(
+    box: PixelBox,
+    horizontal: boolean,
+    thickness: number
+): [number, number][] {
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    return horizontal
+        ? [
+              [cx, box.y - thickness],
+              [cx, box.y + box.height + thickness],
+          ]
+        : [
+              [box.x - thickness, cy],
+              [box.x + box.width + thickness, cy],
+          ];
+}
+
+// Region at a point, or the nearest one within radius
+function findRegion(
+    labels: Int32Array,
+    width: number,
+    height: number,
+    x: number,
+    y: number,
+    radius: number
+): number | null {
+    const cx = Math.round(x);
+    const cy = Math.round(y);
+    for (let r = 0; r <= radius; r++) {
+        for (let dy = -r; dy <= r; dy++) {
+            for (let dx = -r; dx <= r; dx++) {
+                if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+                const px = cx + dx;
+                const py = cy + dy;
+                if (px < 0 || py < 0 || px >= width || py >= height) continue;
+                const label = labels[py * width + px];
+                if (label >= 0) return label;
+            }
+        }
+    }
+    return null;
+}
+
+// Which side of its room a window is on, and where along it
+function wallPosition(
+    room: PixelBox,
+    window: PixelBox
+): { wall: WallSide; position: number } {
+    const cx = window.x + window.width / 2;
+    const cy = window.y + window.height / 2;
+    const distances: [WallSide, number][] = [
+        ["north", Math.abs(cy - room.y)],
+        ["south", Math.abs(cy - (room.y + room.height))],
+        ["west", Math.abs(cx - room.x)],
+        ["east", Math.abs(cx - (room.x + room.width))],
+    ];
+    const [wall] = distances.sort((a, b) => a[1] - b[1])[0];
+    const position =
+        wall === "north" || wall === "south"
+            ? (cx - room.x) / room.width
+            : (cy - room.y) / room.height;
+    return { wall, position: round(Math.min(1, Math.max(0, position))) };
+}
+
+// Pixels per meter from a room's labelled size, matching its longer side
+// to the longer dimension; null when the two sides disagree
+function pixelsPerMeter(
+    region: Component,
+    size: [number, number],
+    factor: number
+): number | null {
+    const sides = [
+        (region.maxX - region.minX + 1) * factor,
+        (region.maxY - region.minY + 1) * factor,
+    ].sort((a, b) => a - b);
+    const meters = [...size].sort((a, b) => a - b);
+    const a = sides[0] / meters[0];
+    const b = sides[1] / meters[1];
+    return Math.abs(a - b) / Math.max(a, b) <= 0.3 ? (a + b) / 2 : null;
+}
+
+function estimateScale(
+    estimates: number[],
+    wallThickness: number,
+    wallThicknessMeters: number,
+    imageSize: number
+): PlanScale {
+    if (estimates.length > 0) {
+        const sorted = estimates.slice().sort((a, b) => a - b);
+        return {
+            estimated: true,
+            pixelsPerMeter: round(sorted[Math.floor(sorted.length / 2)]),
+            confidence: estimates.length > 1 ? 0.8 : 0.6,
+            source: "labels",
+        };
+    }
+    // Keep the whole image between 5 and 40 meters across
+    const fromWalls = wallThickness / wallThicknessMeters;
+    return {
+        estimated: true,
+        pixelsPerMeter: round(
+            Math.min(imageSize / 5, Math.max(imageSize / 40, fromWalls))
+        ),
+        confidence: 0.3,
+        source: "walls",
+    };
+}
+
+function fillBox(
+    mask: Uint8Array,
+    width: number,
+    box: PixelBox,
+    value: number
+) {
+    const height = mask.length / width;
+    for (let y = Math.max(0, box.y); y < box.y + box.height; y++) {
+        for (let x = Math.max(0, box.x); x < box.x + box.width; x++) {
+            if (x < width && y < height) mask[y * width + x] = value;
+        }
+    }
+}
+
+function overlap(a: PixelBox, b: PixelBox): number {
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const height =
+        Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    if (width <= 0 || height <= 0) return 0;
+    return (width * height) / Math.min(a.width * a.height, b.width * b.height);
+}
+
+function clampBox(box: PixelBox, width: number, height: number): PixelBox {
+    const x = Math.max(0, box.x);
+    const y = Math.max(0, box.y);
+    return {
+        x,
+        y,
+        width: Math.min(width, box.x + box.width) - x,
+        height: Math.min(height, box.y + box.height) - y,
+    };
+}
+
+function scaleBox(box: PixelBox, factor: number): PixelBox {
+    return {
+        x: box.x * factor,
+        y: box.y * factor,
+        width: box.width * factor,
+        height: box.height * factor,
+    };
+}
+
+function unionBox(boxes: PixelBox[]): PixelBox {
+    if (boxes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+    const minX = Math.min(...boxes.map((box) => box.x));
+    const minY = Math.min(...boxes.map((box) => box.y));
+    const maxX = Math.max(...boxes.map((box) => box.x + box.width));
+    const maxY = Math.max(...boxes.map((box) => box.y + box.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,328 @@
+import { ModelData, ModelRoom } from "./model-schema";
+import { getRoomLevel } from "./model-levels";
+import {
+    Bounds2,
+    getRoomBounds,
+    getRoomPolygon,
+    polygonsOverlap,
+} from "./room-geometry";
+
+// Geometry pass over generated layouts. Rooms on the same level must not
+// overlap, and rooms that float just short of a neighbour are pulled in so
+// they share a wall. Every move is recorded so callers can report what was
+// changed instead of silently rewriting the design.
+
+export const DEFAULT_LAYOUT_GRID = 0.25;
+export const DEFAULT_GAP_TOLERANCE = 1;
+
+const EPSILON = 0.01;
+const MAX_PASSES = 50;
+
+export type LayoutCorrectionKind = "snap" | "overlap" | "gap";
+
+export interface LayoutCorrection {
+    kind: LayoutCorrectionKind;
+    room: string;
+    level: string;
+    from: { x: number; z: number };
+    to: { x: number; z: number };
+    message: string;
+}
+
+export interface LayoutProblem {
+    kind: "overlap" | "gap";
+    rooms: [string, string];
+    level: string;
+    amount: number; // penetration depth or gap width, in meters
+}
+
+export interface LayoutRepairOptions {
+    gridSize?: number; // 0 disables snapping
+    gapTolerance?: number; // widest gap that is closed automatically
+    // Rooms that keep their position; the other room of a pair moves
+    fixed?: string[];
+}
+
+export interface LayoutRepairResult {
+    model: ModelData;
+    corrections: LayoutCorrection[];
+    unresolved: LayoutProblem[];
+}
+
+export interface LayoutOffset {
+    dx: number;
+    dz: number;
+    distance: number;
+}
+
+/**
+ * Lists overlapping rooms and small gaps between facing rooms, level by
+ * level.
+ */
+export function detectLayoutProblems(
+    model: ModelData,
+    options: LayoutRepairOptions = {}
+): LayoutProblem[] {
+    const gapTolerance = options.gapTolerance ?? DEFAULT_GAP_TOLERANCE;
+    const levelOf = getLevelMap(model);
+    const problems: LayoutProblem[] = [];
+
+    forEachPairOnLevel(model.rooms, levelOf, (a, b, level) => {
+        if (roomsOverlap(a, b)) {
+            const push = separation(getRoomBounds(a), getRoomBounds(b));
+            problems.push({
+                kind: "overlap",
+                rooms: [a.name, b.name],
+                level,
+                amount: round(push.distance),
+            });
+            return;
+        }
+
+        const gap = getFacingGap(getRoomBounds(a), getRoomBounds(b));
+        if (gap && gap.distance > EPSILON && gap.distance <= gapTolerance) {
+            problems.push({
+                kind: "gap",
+                rooms: [a.name, b.name],
+                level,
+                amount: round(gap.distance),
+            });
+        }
+    });
+
+    return problems;
+}
+
+/**
+ * Snaps room origins to a grid, pushes overlapping rooms apart and pulls
+ * detached rooms against their nearest facing neighbour. Earlier rooms in
+ * the list act as anchors; later rooms are the ones that move, unless they
+ * are fixed. Stairs move together with the room they stand in.
+ */
+export function repairLayout(
+    model: ModelData,
+    options: LayoutRepairOptions = {}
+): LayoutRepairResult {
+    const gridSize = options.gridSize ?? DEFAULT_LAYOUT_GRID;
+    const gapTolerance = options.gapTolerance ?? DEFAULT_GAP_TOLERANCE;
+    const fixed = new Set(options.fixed || []);
+    const levelOf = getLevelMap(model);
+    const rooms = model.rooms.map((room) => ({ ...room }));
+    const corrections: LayoutCorrection[] = [];
+
+    const start = new Map(
+        rooms.map((room) => [room.name, { x: room.x, z: room.z }])
+    );
+    const stairHosts = (model.stairs || []).map(
+        (stair) =>
+            rooms.find(
+                (room) =>
+                    levelOf.get(room.name) === stair.from_level &&
+                    contains(getRoomBounds(room), stair.x, stair.z)
+            )?.name
+    );
+
+    const move = (
+        room: ModelRoom,
+        dx: number,
+        dz: number,
+        kind: LayoutCorrectionKind,
+        message: string
+    ) => {
+        const from = { x: room.x, z: room.z };
+        room.x = round(room.x + dx);
+        room.z = round(room.z + dz);
+        corrections.push({
+            kind,
+            room: room.name,
+            level: levelOf.get(room.name) || "",
+            from,
+            to: { x: room.x, z: room.z },
+            message,
+        });
+    };
+
+    // Step 1: Snap room origins onto the grid
+    if (gridSize > 0) {
+        rooms.forEach((room) => {
+            if (fixed.has(room.name)) return;
+            const x = round(Math.round(room.x / gridSize) * gridSize);
+            const z = round(Math.round(room.z / gridSize) * gridSize);
+            if (Math.abs(x - room.x) > 1e-6 || Math.abs(z - room.z) > 1e-6) {
+                move(
+                    room,
+                    x - room.x,
+                    z - room.z,
+                    "snap",
+                    `Snapped "${room.name}" to the ${gridSize} m grid`
+                );
+            }
+        });
+    }
+
+    // Step 2: Push overlapping rooms apart along the shallower axis until
+    // nothing overlaps or the pass limit is hit
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+        let moved = false;
+        forEachPairOnLevel(rooms, levelOf, (first, second) => {
+            if (!roomsOverlap(first, second)) return;
+            const [a, b] = pickMover(first, second, fixed);
+            if (!b) return;
+            const push = separation(getRoomBounds(a), getRoomBounds(b));
+            move(
+                b,
+                push.dx,
+                push.dz,
+                "overlap",
+                `Moved "${b.name}" ${describeOffset(push)} to clear an overlap with "${a.name}"`
+            );
+            moved = true;
+        });
+        if (!moved) break;
+    }
+
+    // Step 3: Pull rooms that touch nothing against a facing neighbour
+    forEachPairOnLevel(rooms, levelOf, (first, second) => {
+        const [a, b] = pickMover(first, second, fixed);
+        if (!b) return;
+        const gap = getFacingGap(getRoomBounds(a), getRoomBounds(b));
+        if (!gap || gap.distance <= EPSILON || gap.distance > gapTolerance) {
+            return;
+        }
+
+        const neighbours = rooms.filter(
+            (other) =>
+                other !== b && levelOf.get(other.name) === levelOf.get(b.name)
+        );
+        if (neighbours.some((other) => roomsTouch(b, other))) return;
+
+        const candidate = { ...b, x: b.x + gap.dx, z: b.z + gap.dz };
+        if (neighbours.some((other) => roomsOverlap(candidate, other))) return;
+
+        move(
+            b,
+            gap.dx,
+            gap.dz,
+            "gap",
+            `Moved "${b.name}" ${describeOffset(gap)} to close the gap to "${a.name}"`
+        );
+    });
+
+    const stairs = model.stairs?.map((stair, index) => {
+        const host = rooms.find((room) => room.name === stairHosts[index]);
+        const origin = host && start.get(host.name);
+        if (!host || !origin) return { ...stair };
+        return {
+            ...stair,
+            x: round(stair.x + host.x - origin.x),
+            z: round(stair.z + host.z - origin.z),
+        };
+    });
+
+    const repaired: ModelData = { ...model, rooms };
+    if (stairs) repaired.stairs = stairs;
+
+    return {
+        model: repaired,
+        corrections,
+        unresolved: detectLayoutProblems(repaired, { gapTolerance }),
+    };
+}
+
+/**
+ * Move of b that closes the gap to a, when the two boxes face each other
+ * across a single axis.
+ */
+export function getFacingGap(a: Bounds2, b: Bounds2): LayoutOffset | null {
+    const overlapX = Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX);
+    const overlapZ = Math.min(a.maxZ, b.maxZ) - Math.max(a.minZ, b.minZ);
+
+    if (overlapX > EPSILON && overlapZ <= EPSILON) {
+        const dz =
+            b.minZ >= a.maxZ - EPSILON ? a.maxZ - b.minZ : a.minZ - b.maxZ;
+        return { dx: 0, dz, distance: Math.abs(dz) };
+    }
+    if (overlapZ > EPSILON && overlapX <= EPSILON) {
+        const dx =
+            b.minX >= a.maxX - EPSILON ? a.maxX - b.minX : a.minX - b.maxX;
+        return { dx, dz: 0, distance: Math.abs(dx) };
+    }
+    return null;
+}
+
+function getLevelMap(model: ModelData): Map<string, string> {
+    return new Map(
+        model.rooms.map((room) => [room.name, getRoomLevel(model, room).name])
+    );
+}
+
+function forEachPairOnLevel(
+    rooms: ModelRoom[],
+    levelOf: Map<string, string>,
+    callback: (a: ModelRoom, b: ModelRoom, level: string) => void
+) {
+    for (let i = 0; i < rooms.length; i++) {
+        for (let j = i + 1; j < rooms.length; j++) {
+            const level = levelOf.get(rooms[i].name);
+            if (level === undefined || level !== levelOf.get(rooms[j].name)) {
+                continue;
+            }
+            callback(rooms[i], rooms[j], level);
+        }
+    }
+}
+
+// Anchor and mover of a pair: normally the later room moves, but a fixed
+// room never does. No mover when both are fixed.
+function pickMover(
+    a: ModelRoom,
+    b: ModelRoom,
+    fixed: Set<string>
+): [ModelRoom, ModelRoom | null] {
+    if (!fixed.has(b.name)) return [a, b];
+    return fixed.has(a.name) ? [b, null] : [b, a];
+}
+
+function roomsOverlap(a: ModelRoom, b: ModelRoom): boolean {
+    return polygonsOverlap(getRoomPolygon(a), getRoomPolygon(b));
+}
+
+function roomsTouch(a: ModelRoom, b: ModelRoom): boolean {
+    const gap = getFacingGap(getRoomBounds(a), getRoomBounds(b));
+    return !!gap && gap.distance <= EPSILON;
+}
+
+// Smallest move of b that clears a's bounding box
+function separation(a: Bounds2, b: Bounds2): LayoutOffset {
+    const dx =
+        b.minX + b.maxX >= a.minX + a.maxX ? a.maxX - b.minX : a.minX - b.maxX;
+    const dz =
+        b.minZ + b.maxZ >= a.minZ + a.maxZ ? a.maxZ - b.minZ : a.minZ - b.maxZ;
+    return Math.abs(dx) <= Math.abs(dz)
+        ? { dx, dz: 0, distance: Math.abs(dx) }
+        : { dx: 0, dz, distance: Math.abs(dz) };
+}
+
+function contains(bounds: Bounds2, x: number, z: number): boolean {
+    return (
+        x >= bounds.minX - EPSILON &&
+        x <= bounds.maxX + EPSILON &&
+        z >= bounds.minZ - EPSILON &&
+        z <= bounds.maxZ + EPSILON
+    );
+}
+
+function describeOffset({ dx, dz }: LayoutOffset): string {
+    const parts: string[] = [];
+    if (Math.abs(dx) > 1e-6) {
+        parts.push(`${round(Math.abs(dx))} m ${dx > 0 ? "east" : "west"}`);
+    }
+    if (Math.abs(dz) > 1e-6) {
+        parts.push(`${round(Math.abs(dz))} m ${dz > 0 ? "south" : "north"}`);
+    }
+    return parts.join(" and ");
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
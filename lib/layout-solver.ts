@@ -0,0 +1,581 @@
+import { ModelData, ModelRoom } from "./model-schema";
+import {
+    DEFAULT_FLOOR_TO_FLOOR,
+    DEFAULT_LEVEL_NAME,
+    getRoomLevel,
+} from "./model-levels";
+import { getRoomArea } from "./room-geometry";
+
+// Deterministic layout solver. Takes a room programme (names, target areas,
+// required adjacencies) and packs rectangular rooms on a grid, one storey at
+// a time, so that required neighbours share a wall wide enough for a door.
+// The same programme always produces the same layout, which makes it usable
+// offline and in tests. A seed gives a different, equally repeatable layout
+// of the same programme, for generating design variants.
+
+export const DESIGN_MODES = ["llm", "solver", "llm+solver-repair"] as const;
+export type DesignMode = (typeof DESIGN_MODES)[number];
+
+export const SOLVER_GRID = 0.25;
+export const MIN_ROOM_SIDE = 1.5;
+
+const MIN_SHARED_WALL = 1.1; // door plus clearance on both sides
+const HALLWAY_WIDTH = 1.25;
+const EPSILON = 0.01;
+
+// Target floor areas in square meters, matched against room names and types
+const DEFAULT_AREAS: [string, number][] = [
+    ["master", 16],
+    ["living", 20],
+    ["lounge", 20],
+    ["family", 18],
+    ["kitchen", 12],
+    ["dining", 12],
+    ["bed", 12],
+    ["bath", 5],
+    ["toilet", 3],
+    ["wc", 3],
+    ["laundry", 5],
+    ["utility", 5],
+    ["storage", 4],
+    ["closet", 3],
+    ["hall", 6],
+    ["corridor", 6],
+    ["entry", 5],
+    ["foyer", 5],
+    ["office", 10],
+    ["study", 10],
+    ["garage", 18],
+];
+const FALLBACK_AREA = 10;
+
+const DEFAULT_PROGRAMME = ["living", "kitchen", "bedroom", "bathroom"];
+
+export interface RoomRequirement {
+    name: string;
+    type?: string;
+    area: number;
+    width?: number;
+    length?: number;
+    level?: string;
+    adjacentTo: string[];
+    specified?: boolean; // area or dimensions were given, not defaulted
+}
+
+export interface RequirementOptions {
+    // Fall back to a small default home when no rooms are listed
+    useDefaultProgramme?: boolean;
+}
+
+export interface SolverOptions {
+    gridSize?: number;
+    roomHeight?: number;
+    // Non-zero seeds vary room proportions and break placement ties
+    // differently; 0 (the default) keeps the canonical layout
+    seed?: number;
+}
+
+export interface SolverResult {
+    design: ModelData;
+    unmetAdjacencies: [string, string][];
+    notes: string[];
+}
+
+export function isDesignMode(value: unknown): value is DesignMode {
+    return DESIGN_MODES.includes(value as DesignMode);
+}
+
+/**
+ * Reads a room programme from interpreter output. The interpreter's JSON is
+ * loosely structured, so rooms may be strings, objects keyed by name or
+ * entries with a type, dimensions or a quantity; adjacencies may be listed
+ * per room or at the top level.
+ */
+export function extractRoomRequirements(
+    requirements: any,
+    options: RequirementOptions = {}
+): RoomRequirement[] {
+    const source =
+        requirements?.rooms ?? requirements?.Rooms ?? requirements?.spaces;
+    const entries: any[] = Array.isArray(source)
+        ? source
+        : source && typeof source === "object"
+        ? Object.entries(source).map(([name, value]) =>
+              value && typeof value === "object"
+                  ? { name, ...(value as object) }
+                  : { name }
+          )
+        : [];
+
+    const rooms: (RoomRequirement & { refs: string[] })[] = [];
+    const used = new Set<string>();
+    entries.forEach((entry, index) => {
+        const spec = typeof entry === "string" ? { name: entry } : entry;
+        if (!spec || typeof spec !== "object") return;
+
+        const base = String(
+            spec.name || spec.type || spec.room || `room${index + 1}`
+        ).trim();
+        const type = typeof spec.type === "string" ? spec.type : undefined;
+        const count = Math.min(
+            Math.max(1, Math.floor(Number(spec.count ?? spec.quantity) || 1)),
+            10
+        );
+        const { width, length } = readDimensions(spec);
+        const givenArea = positive(spec.area ?? spec.target_area ?? spec.size);
+        const area =
+            givenArea ||
+            (width && length ? width * length : defaultArea(`${base} ${type}`));
+
+        for (let i = 0; i < count; i++) {
+            let name = count > 1 ? `${base} ${i + 1}` : base;
+            for (let n = 2; used.has(name.toLowerCase()); n++) {
+                name = `${base} ${n}`;
+            }
+            used.add(name.toLowerCase());
+            rooms.push({
+                name,
+                type,
+                area,
+                width,
+                length,
+                level: readLevel(spec.level ?? spec.floor),
+                adjacentTo: [],
+                specified: !!givenArea || !!(width && length),
+                refs: readReferences(
+                    spec.adjacent_to ??
+                        spec.adjacentTo ??
+                        spec.connected_to ??
+                        spec.connections ??
+                        spec.adjacency ??
+                        spec.relationships
+                ),
+            });
+        }
+    });
+
+    if (rooms.length === 0) {
+        if (options.useDefaultProgramme === false) return [];
+        return DEFAULT_PROGRAMME.map((name, i) => ({
+            name,
+            area: defaultArea(name),
+            adjacentTo: i === 0 ? [] : [DEFAULT_PROGRAMME[0]],
+        }));
+    }
+
+    // Resolve references by name first, then by type or name prefix
+    const resolve = (ref: string): string | undefined => {
+        const wanted = ref.trim().toLowerCase();
+        return (
+            rooms.find((room) => room.name.toLowerCase() === wanted) ||
+            rooms.find((room) => room.type?.toLowerCase() === wanted) ||
+            rooms.find((room) => room.name.toLowerCase().startsWith(wanted))
+        )?.name;
+    };
+    const link = (a: string | undefined, b: string | undefined) => {
+        if (!a || !b || a === b) return;
+        const room = rooms.find((r) => r.name === a)!;
+        if (!room.adjacentTo.includes(b)) room.adjacentTo.push(b);
+    };
+
+    rooms.forEach((room) => {
+        room.refs.forEach((ref) => link(room.name, resolve(ref)));
+    });
+    const pairs =
+        requirements?.adjacencies ??
+        requirements?.relationships ??
+        requirements?.connections;
+    if (Array.isArray(pairs)) {
+        pairs.forEach((pair: any) => {
+            const [a, b] = Array.isArray(pair)
+                ? pair
+                : [
+                      pair?.from ?? pair?.room1 ?? pair?.a,
+                      pair?.to ?? pair?.room2 ?? pair?.b,
+                  ];
+            if (typeof a === "string" && typeof b === "string") {
+                link(resolve(a), resolve(b));
+            }
+        });
+    }
+
+    return rooms.map(({ refs, ...room }) => room);
+}
+
+/**
+ * Turns an existing model back into a programme, keeping each room's size,
+ * storey and links. Used to re-pack a layout whose geometry is unusable.
+ */
+export function getModelRequirements(model: ModelData): RoomRequirement[] {
+    return model.rooms.map((room) => ({
+        name: room.name,
+        type: room.type,
+        area: getRoomArea(room),
+        width: room.width,
+        length: room.length,
+        level: getRoomLevel(model, room).name,
+        adjacentTo: [
+            ...new Set([
+                ...room.connected_to,
+                ...model.doors
+                    .filter((door) => door.from === room.name)
+                    .map((door) => door.to),
+            ]),
+        ].filter((name) => name !== room.name),
+        specified: true,
+    }));
+}
+
+/**
+ * Packs the programme into a layout. Rooms are placed in breadth-first
+ * order over the adjacency graph, each against a side of an already placed
+ * room; candidates are scored by satisfied adjacencies first and compactness
+ * second, with ties broken by generation order so results are repeatable.
+ */
+export function solveLayout(
+    requirements: RoomRequirement[],
+    options: SolverOptions = {}
+): SolverResult {
+    const grid = options.gridSize ?? SOLVER_GRID;
+    const height = options.roomHeight ?? DEFAULT_FLOOR_TO_FLOOR;
+    const random = options.seed ? seededRandom(options.seed) : null;
+    const notes: string[] = [];
+    const unmet: [string, string][] = [];
+
+    // Adjacency is symmetric even when only one side lists it
+    const neighbours = new Map<string, Set<string>>(
+        requirements.map((room) => [room.name, new Set<string>()])
+    );
+    requirements.forEach((room) => {
+        room.adjacentTo.forEach((other) => {
+            if (!neighbours.has(other) || other === room.name) return;
+            neighbours.get(room.name)!.add(other);
+            neighbours.get(other)!.add(room.name);
+        });
+    });
+
+    const levelNames: string[] = [];
+    requirements.forEach((room) => {
+        const level = room.level || DEFAULT_LEVEL_NAME;
+        if (!levelNames.includes(level)) levelNames.push(level);
+    });
+    if (levelNames.includes(DEFAULT_LEVEL_NAME)) {
+        levelNames.splice(levelNames.indexOf(DEFAULT_LEVEL_NAME), 1);
+        levelNames.unshift(DEFAULT_LEVEL_NAME);
+    }
+
+    const rooms: ModelRoom[] = [];
+    levelNames.forEach((levelName, levelIndex) => {
+        const onLevel = requirements.filter(
+            (room) => (room.level || DEFAULT_LEVEL_NAME) === levelName
+        );
+        const placed: ModelRoom[] = [];
+
+        placementOrder(onLevel, neighbours).forEach((requirement) => {
+            const { width, length } = sizeRoom(
+                requirement,
+                grid,
+                random ? 1 + random() * 0.6 : 1.25
+            );
+            const room: ModelRoom = {
+                name: requirement.name,
+                width,
+                length,
+                height,
+                x: 0,
+                y: levelIndex * height,
+                z: 0,
+                connected_to: [],
+            };
+            if (requirement.type) room.type = requirement.type;
+            if (levelNames.length > 1) room.level = levelName;
+
+            if (placed.length > 0) {
+                const wanted = neighbours.get(room.name)!;
+                const best = bestPlacement(room, placed, wanted, grid, random);
+                room.x = best.x;
+                room.z = best.z;
+            }
+
+            // Link to every required neighbour it now shares a wall with
+            const linked = placed.filter(
+                (other) =>
+                    neighbours.get(room.name)!.has(other.name) &&
+                    sharedWall(room, other) >= MIN_SHARED_WALL - EPSILON
+            );
+            linked.forEach((other) => room.connected_to.push(other.name));
+
+            // Keep every room reachable through its longest shared wall
+            if (linked.length === 0 && placed.length > 0) {
+                const host = [...placed].sort(
+                    (a, b) => sharedWall(room, b) - sharedWall(room, a)
+                )[0];
+                if (sharedWall(room, host) >= MIN_SHARED_WALL - EPSILON) {
+                    room.connected_to.push(host.name);
+                }
+            }
+
+            placed.push(room);
+        });
+
+        rooms.push(...placed);
+    });
+
+    // Report required adjacencies the packing could not honour
+    rooms.forEach((room) => {
+        neighbours.get(room.name)!.forEach((other) => {
+            if (room.name > other) return;
+            const linked =
+                room.connected_to.includes(other) ||
+                rooms
+                    .find((r) => r.name === other)
+                    ?.connected_to.includes(room.name);
+            if (!linked) {
+                unmet.push([room.name, other]);
+                notes.push(
+                    `Solver could not place "${room.name}" next to "${other}"`
+                );
+            }
+        });
+    });
+
+    const design: ModelData = {
+        rooms,
+        windows: [],
+        doors: rooms.flatMap((room) =>
+            room.connected_to.map((other) => ({
+                from: room.name,
+                to: other,
+                width: 0.9,
+                height: 2.1,
+            }))
+        ),
+    };
+    if (levelNames.length > 1) {
+        design.levels = levelNames.map((name, index) => ({
+            name,
+            elevation: index * height,
+            height,
+        }));
+    }
+
+    return { design, unmetAdjacencies: unmet, notes };
+}
+
+// Breadth-first over the adjacency graph, starting from the best connected
+// (then largest) room; unconnected rooms follow in the same ranking
+function placementOrder(
+    rooms: RoomRequirement[],
+    neighbours: Map<string, Set<string>>
+): RoomRequirement[] {
+    const ranked = rooms
+        .map((room, index) => ({ room, index }))
+        .sort(
+            (a, b) =>
+                neighbours.get(b.room.name)!.size -
+                    neighbours.get(a.room.name)!.size ||
+                b.room.area - a.room.area ||
+                a.index - b.index
+        )
+        .map(({ room }) => room);
+
+    const order: RoomRequirement[] = [];
+    const seen = new Set<string>();
+    ranked.forEach((start) => {
+        if (seen.has(start.name)) return;
+        const queue = [start];
+        seen.add(start.name);
+        while (queue.length > 0) {
+            const room = queue.shift()!;
+            order.push(room);
+            rooms.forEach((other) => {
+                if (
+                    !seen.has(other.name) &&
+                    neighbours.get(room.name)!.has(other.name)
+                ) {
+                    seen.add(other.name);
+                    queue.push(other);
+                }
+            });
+        }
+    });
+    return order;
+}
+
+function sizeRoom(
+    room: RoomRequirement,
+    grid: number,
+    elongation: number
+): { width: number; length: number } {
+    const snap = (value: number) =>
+        Math.max(MIN_ROOM_SIDE, Math.round(value / grid) * grid);
+
+    if (room.width && room.length) {
+        return { width: snap(room.width), length: snap(room.length) };
+    }
+
+    const label = `${room.name} ${room.type || ""}`.toLowerCase();
+    if (label.includes("hall") || label.includes("corridor")) {
+        return {
+            width: HALLWAY_WIDTH,
+            length: snap(room.area / HALLWAY_WIDTH),
+        };
+    }
+
+    // Slightly elongated rooms pack better than squares
+    const width = snap(Math.sqrt(room.area * elongation));
+    return { width, length: snap(room.area / width) };
+}
+
+function bestPlacement(
+    room: ModelRoom,
+    placed: ModelRoom[],
+    wanted: Set<string>,
+    grid: number,
+    random: (() => number) | null
+): { x: number; z: number } {
+    const snap = (value: number) => Math.round(value / grid) * grid;
+    let best: { x: number; z: number; score: number } | null = null;
+
+    for (const anchor of placed) {
+        const alignX = [
+            anchor.x,
+            anchor.x + anchor.width - room.width,
+            snap(anchor.x + (anchor.width - room.width) / 2),
+        ];
+        const alignZ = [
+            anchor.z,
+            anchor.z + anchor.length - room.length,
+            snap(anchor.z + (anchor.length - room.length) / 2),
+        ];
+        const candidates = [
+            ...alignZ.map((z) => ({ x: anchor.x + anchor.width, z })),
+            ...alignZ.map((z) => ({ x: anchor.x - room.width, z })),
+            ...alignX.map((x) => ({ x, z: anchor.z + anchor.length })),
+            ...alignX.map((x) => ({ x, z: anchor.z - room.length })),
+        ];
+
+        for (const { x, z } of candidates) {
+            const candidate = { ...room, x, z };
+            if (placed.some((other) => overlaps(candidate, other))) continue;
+
+            let satisfied = 0;
+            let touching = 0;
+            placed.forEach((other) => {
+                if (sharedWall(candidate, other) < MIN_SHARED_WALL - EPSILON) {
+                    return;
+                }
+                touching++;
+                if (wanted.has(other.name)) satisfied++;
+            });
+
+            // Seeded noise reorders candidates of similar compactness but
+            // never outweighs a satisfied adjacency or a shared wall
+            const score =
+                satisfied * 1000 +
+                touching * 10 -
+                footprintArea([...placed, candidate]) +
+                (random ? random() * 9 : 0);
+            if (!best || score > best.score + 1e-9) {
+                best = { x, z, score };
+            }
+        }
+    }
+
+    // Some side of the first room is always free, so best is set
+    return best || { x: placed[0].x + placed[0].width, z: placed[0].z };
+}
+
+// Small deterministic PRNG (mulberry32), so seeded layouts repeat
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function overlaps(a: ModelRoom, b: ModelRoom): boolean {
+    return (
+        Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) > EPSILON &&
+        Math.min(a.z + a.length, b.z + b.length) - Math.max(a.z, b.z) > EPSILON
+    );
+}
+
+function sharedWall(a: ModelRoom, b: ModelRoom): number {
+    const overlapX =
+        Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const overlapZ =
+        Math.min(a.z + a.length, b.z + b.length) - Math.max(a.z, b.z);
+    const touchX =
+        Math.abs(a.x + a.width - b.x) < EPSILON ||
+        Math.abs(b.x + b.width - a.x) < EPSILON;
+    const touchZ =
+        Math.abs(a.z + a.length - b.z) < EPSILON ||
+        Math.abs(b.z + b.length - a.z) < EPSILON;
+    if (touchX && overlapZ > 0) return overlapZ;
+    if (touchZ && overlapX > 0) return overlapX;
+    return 0;
+}
+
+function footprintArea(rooms: ModelRoom[]): number {
+    const minX = Math.min(...rooms.map((room) => room.x));
+    const maxX = Math.max(...rooms.map((room) => room.x + room.width));
+    const minZ = Math.min(...rooms.map((room) => room.z));
+    const maxZ = Math.max(...rooms.map((room) => room.z + room.length));
+    return (maxX - minX) * (maxZ - minZ);
+}
+
+function readDimensions(spec: any): { width?: number; length?: number } {
+    const dims = spec.dimensions ?? spec.size;
+    if (typeof dims === "string") {
+        const match = dims.match(/([\d.]+)\s*[x×*]\s*([\d.]+)/i);
+        if (match) {
+            return { width: positive(match[1]), length: positive(match[2]) };
+        }
+    }
+    const source = dims && typeof dims === "object" ? dims : spec;
+    return {
+        width: positive(source.width),
+        length: positive(source.length ?? source.depth),
+    };
+}
+
+function readLevel(value: unknown): string | undefined {
+    if (typeof value === "string" && value.trim()) return value.trim();
+    if (typeof value === "number" && Number.isInteger(value)) {
+        return value === 0 ? DEFAULT_LEVEL_NAME : `Level ${value}`;
+    }
+    return undefined;
+}
+
+function readReferences(value: unknown): string[] {
+    if (typeof value === "string") {
+        return value
+            .split(/,|\band\b/)
+            .map((part) => part.trim())
+            .filter(Boolean);
+    }
+    if (!Array.isArray(value)) return [];
+    return value
+        .map((item) =>
+            typeof item === "string"
+                ? item
+                : item?.room ?? item?.to ?? item?.name ?? item?.target
+        )
+        .filter((item): item is string => typeof item === "string");
+}
+
+function defaultArea(label: string): number {
+    const lower = label.toLowerCase();
+    const match = DEFAULT_AREAS.find(([keyword]) => lower.includes(keyword));
+    return match ? match[1] : FALLBACK_AREA;
+}
+
+function positive(value: unknown): number | undefined {
+    const num = Number(value);
+    return Number.isFinite(num) && num > 0 ? num : undefined;
+}
@@ -0,0 +1,645 @@
+import { ModelData, ModelRoom, WALL_SIDES, WallSide } from "./model-schema";
+import { getModelLevels, getRoomLevel } from "./model-levels";
+import {
+    getRoomArea,
+    getRoomBounds,
+    getRoomPolygon,
+    isAxisAlignedRectangle,
+    polygonsOverlap,
+} from "./room-geometry";
+import { DEFAULT_DOOR_HEIGHT, DEFAULT_DOOR_WIDTH } from "./door-adjacency";
+import {
+    DEFAULT_WINDOW_HEIGHT,
+    DEFAULT_WINDOW_WIDTH,
+} from "./window-placement";
+
+// Targeted edits to an existing model, for refining a design turn by turn
+// instead of regenerating it. Edits name the rooms they touch, so every
+// other room keeps its name, size and position, and the before/after diff
+// can be reported as a change list.
+
+export const MODEL_EDIT_OPS = [
+    "add_room",
+    "remove_room",
+    "resize_room",
+    "move_room",
+    "rename_room",
+    "add_door",
+    "remove_door",
+    "add_window",
+    "remove_window",
+] as const;
+
+export type ModelEditOp = (typeof MODEL_EDIT_OPS)[number];
+
+export type ModelEdit =
+    | {
+          op: "add_room";
+          name: string;
+          type?: string;
+          width: number;
+          length: number;
+          level?: string;
+          next_to?: string; // placed against this room and joined by a door
+          x?: number;
+          z?: number;
+      }
+    | { op: "remove_room"; room: string }
+    | {
+          op: "resize_room";
+          room: string;
+          width?: number;
+          length?: number;
+          area_scale?: number; // e.g. 1.2 for "20% bigger"
+      }
+    | { op: "move_room"; room: string; x: number; z: number }
+    | { op: "rename_room"; room: string; name: string }
+    | { op: "add_door"; from: string; to: string; width?: number }
+    | { op: "remove_door"; from: string; to: string }
+    | { op: "add_window"; room: string; wall: WallSide; width?: number }
+    | { op: "remove_window"; room: string; wall?: WallSide };
+
+export interface RejectedEdit {
+    index: number;
+    edit: unknown;
+    reason: string;
+}
+
+export interface ModelEditResult {
+    model: ModelData;
+    edited: string[]; // rooms the edits touched, by their final names
+    renamed: Map<string, string>; // old name -> new name
+    rejected: RejectedEdit[];
+}
+
+export type ModelChangeKind =
+    | "room_added"
+    | "room_removed"
+    | "room_renamed"
+    | "room_resized"
+    | "room_moved"
+    | "door_added"
+    | "door_removed"
+    | "window_added"
+    | "window_removed"
+    | "window_moved";
+
+export interface ModelChange {
+    kind: ModelChangeKind;
+    room?: string;
+    message: string;
+}
+
+const EPSILON = 0.01;
+
+/**
+ * Applies edits in order to a copy of the model. Edits that do not fit the
+ * model (unknown rooms, duplicate names, bad sizes) are skipped and
+ * returned with the reason, so they can be sent back to the model.
+ */
+export function applyModelEdits(
+    model: ModelData,
+    edits: unknown[]
+): ModelEditResult {
+    const working: ModelData = JSON.parse(JSON.stringify(model));
+    const edited = new Set<string>();
+    const renamed = new Map<string, string>();
+    const rejected: RejectedEdit[] = [];
+
+    edits.forEach((edit, index) => {
+        const reason = applyEdit(working, edit, edited, renamed);
+        if (reason) rejected.push({ index, edit, reason });
+    });
+
+    return {
+        model: working,
+        edited: [...edited].filter((name) =>
+            working.rooms.some((room) => room.name === name)
+        ),
+        renamed,
+        rejected,
+    };
+}
+
+/**
+ * Lists what differs between two versions of a model. Renamed rooms are
+ * compared under their new name.
+ */
+export function describeModelChanges(
+    before: ModelData,
+    after: ModelData,
+    renamed: Map<string, string> = new Map()
+): ModelChange[] {
+    const changes: ModelChange[] = [];
+    const currentName = (name: string) => renamed.get(name) ?? name;
+    const afterRooms = new Map(after.rooms.map((room) => [room.name, room]));
+    const kept = new Set<string>();
+
+    before.rooms.forEach((old) => {
+        const name = currentName(old.name);
+        const room = afterRooms.get(name);
+        if (!room) {
+            changes.push({
+                kind: "room_removed",
+                room: old.name,
+                message: `Removed "${old.name}"`,
+            });
+            return;
+        }
+        kept.add(name);
+
+        if (name !== old.name) {
+            changes.push({
+                kind: "room_renamed",
+                room: name,
+                message: `Renamed "${old.name}" to "${name}"`,
+            });
+        }
+        if (
+            Math.abs(room.width - old.width) > EPSILON ||
+            Math.abs(room.length - old.length) > EPSILON
+        ) {
+            changes.push({
+                kind: "room_resized",
+                room: name,
+                message: `Resized "${name}" from ${short(old.width)} × ${short(old.length)} m (${short(getRoomArea(old))} m²) to ${short(room.width)} × ${short(room.length)} m (${short(getRoomArea(room))} m²)`,
+            });
+        }
+        if (
+            Math.abs(room.x - old.x) > EPSILON ||
+            Math.abs(room.z - old.z) > EPSILON ||
+            room.level !== old.level
+        ) {
+            changes.push({
+                kind: "room_moved",
+                room: name,
+                message: `Moved "${name}" from (${short(old.x)}, ${short(old.z)}) to (${short(room.x)}, ${short(room.z)})`,
+            });
+        }
+    });
+
+    after.rooms.forEach((room) => {
+        if (kept.has(room.name)) return;
+        changes.push({
+            kind: "room_added",
+            room: room.name,
+            message: `Added "${room.name}" (${short(room.width)} × ${short(room.length)} m)`,
+        });
+    });
+
+    const doorKey = (from: string, to: string) => [from, to].sort().join("|");
+    const beforeDoors = new Set(
+        before.doors.map((door) =>
+            doorKey(currentName(door.from), currentName(door.to))
+        )
+    );
+    const afterDoors = new Set(
+        after.doors.map((door) => doorKey(door.from, door.to))
+    );
+    afterDoors.forEach((key) => {
+        if (beforeDoors.has(key)) return;
+        const [a, b] = key.split("|");
+        changes.push({
+            kind: "door_added",
+            message: `Added a door between "${a}" and "${b}"`,
+        });
+    });
+    beforeDoors.forEach((key) => {
+        if (afterDoors.has(key)) return;
+        const [a, b] = key.split("|");
+        changes.push({
+            kind: "door_removed",
+            message: `Removed the door between "${a}" and "${b}"`,
+        });
+    });
+
+    // Windows are compared per room wall, since they have no names
+    const windowCounts = (data: ModelData, rename: boolean) => {
+        const counts = new Map<string, number>();
+        data.windows.forEach((window) => {
+            const room = rename ? currentName(window.room) : window.room;
+            const key = `${room}|${window.wall}`;
+            counts.set(key, (counts.get(key) || 0) + 1);
+        });
+        return counts;
+    };
+    const beforeWindows = windowCounts(before, true);
+    const afterWindows = windowCounts(after, false);
+    const wallKeys = new Set([...beforeWindows.keys(), ...afterWindows.keys()]);
+    const added: { room: string; wall: string }[] = [];
+    const removed: { room: string; wall: string }[] = [];
+    wallKeys.forEach((key) => {
+        const [room, wall] = key.split("|");
+        const diff =
+            (afterWindows.get(key) || 0) - (beforeWindows.get(key) || 0);
+        for (let i = 0; i < Math.abs(diff); i++) {
+            (diff > 0 ? added : removed).push({ room, wall });
+        }
+    });
+    // A window that left one wall of a room for another was relocated
+    removed.forEach((gone) => {
+        const index = added.findIndex((add) => add.room === gone.room);
+        if (index >= 0) {
+            const [moved] = added.splice(index, 1);
+            changes.push({
+                kind: "window_moved",
+                room: gone.room,
+                message: `Moved a window of "${gone.room}" from the ${gone.wall} to the ${moved.wall} wall`,
+            });
+        } else if (afterRooms.has(gone.room)) {
+            changes.push({
+                kind: "window_removed",
+                room: gone.room,
+                message: `Removed a window from the ${gone.wall} wall of "${gone.room}"`,
+            });
+        }
+    });
+    added.forEach((add) => {
+        changes.push({
+            kind: "window_added",
+            room: add.room,
+            message: `Added a window on the ${add.wall} wall of "${add.room}"`,
+        });
+    });
+
+    return changes;
+}
+
+// Applies one edit, or returns why it cannot be applied
+function applyEdit(
+    model: ModelData,
+    edit: any,
+    edited: Set<string>,
+    renamed: Map<string, string>
+): string | null {
+    if (!edit || typeof edit !== "object") return "must be an object";
+    if (!MODEL_EDIT_OPS.includes(edit.op)) {
+        return `unknown op "${edit.op}", expected one of: ${MODEL_EDIT_OPS.join(", ")}`;
+    }
+
+    const findRoom = (name: unknown) =>
+        model.rooms.find((room) => room.name === name);
+    const unknownRoom = (name: unknown) =>
+        `no room named "${name}" (rooms: ${model.rooms.map((room) => room.name).join(", ")})`;
+
+    switch (edit.op as ModelEditOp) {
+        case "add_room": {
+            if (typeof edit.name !== "string" || !edit.name.trim()) {
+                return "name: must be a non-empty string";
+            }
+            if (findRoom(edit.name)) {
+                return `a room named "${edit.name}" already exists`;
+            }
+            if (!isPositive(edit.width) || !isPositive(edit.length)) {
+                return "width and length: must be positive numbers";
+            }
+            const neighbour =
+                edit.next_to === undefined ? null : findRoom(edit.next_to);
+            if (edit.next_to !== undefined && !neighbour) {
+                return `next_to: ${unknownRoom(edit.next_to)}`;
+            }
+            const levels = getModelLevels(model);
+            const level =
+                edit.level !== undefined
+                    ? levels.find((l) => l.name === edit.level)
+                    : neighbour
+                      ? getRoomLevel(model, neighbour)
+                      : levels[0];
+            if (!level) {
+                return `level: no level named "${edit.level}" (levels: ${levels.map((l) => l.name).join(", ")})`;
+            }
+
+            const room: ModelRoom = {
+                name: edit.name,
+                width: edit.width,
+                length: edit.length,
+                height: neighbour?.height ?? level.height,
+                x: 0,
+                y: level.elevation,
+                z: 0,
+                connected_to: neighbour ? [neighbour.name] : [],
+            };
+            if (typeof edit.type === "string") room.type = edit.type;
+            if (model.levels) room.level = level.name;
+
+            if (isFiniteNumber(edit.x) && isFiniteNumber(edit.z)) {
+                room.x = edit.x;
+                room.z = edit.z;
+            } else {
+                const spot = findFreeSpot(model, room, neighbour);
+                room.x = spot.x;
+                room.z = spot.z;
+            }
+
+            model.rooms.push(room);
+            if (neighbour) {
+                neighbour.connected_to.push(room.name);
+                model.doors.push({
+                    from: neighbour.name,
+                    to: room.name,
+                    width: DEFAULT_DOOR_WIDTH,
+                    height: DEFAULT_DOOR_HEIGHT,
+                });
+                edited.add(neighbour.name);
+            }
+            edited.add(room.name);
+            return null;
+        }
+
+        case "remove_room": {
+            if (!findRoom(edit.room)) return unknownRoom(edit.room);
+            model.rooms = model.rooms.filter((room) => room.name !== edit.room);
+            model.rooms.forEach((room) => {
+                if (room.connected_to.includes(edit.room)) {
+                    room.connected_to = room.connected_to.filter(
+                        (name) => name !== edit.room
+                    );
+                    edited.add(room.name);
+                }
+            });
+            model.doors = model.doors.filter(
+                (door) => door.from !== edit.room && door.to !== edit.room
+            );
+            model.windows = model.windows.filter(
+                (window) => window.room !== edit.room
+            );
+            edited.delete(edit.room);
+            return null;
+        }
+
+        case "resize_room": {
+            const room = findRoom(edit.room);
+            if (!room) return unknownRoom(edit.room);
+            let width = room.width;
+            let length = room.length;
+            if (edit.area_scale !== undefined) {
+                if (!isPositive(edit.area_scale)) {
+                    return "area_scale: must be a positive number";
+                }
+                width *= Math.sqrt(edit.area_scale);
+                length *= Math.sqrt(edit.area_scale);
+            }
+            if (edit.width !== undefined) {
+                if (!isPositive(edit.width)) return "width: must be positive";
+                width = edit.width;
+            }
+            if (edit.length !== undefined) {
+                if (!isPositive(edit.length)) return "length: must be positive";
+                length = edit.length;
+            }
+            if (
+                edit.area_scale === undefined &&
+                edit.width === undefined &&
+                edit.length === undefined
+            ) {
+                return "give width, length or area_scale";
+            }
+            resizeRoom(model, room, centimetres(width), centimetres(length));
+            edited.add(room.name);
+            return null;
+        }
+
+        case "move_room": {
+            const room = findRoom(edit.room);
+            if (!room) return unknownRoom(edit.room);
+            if (!isFiniteNumber(edit.x) || !isFiniteNumber(edit.z)) {
+                return "x and z: must be numbers";
+            }
+            room.x = edit.x;
+            room.z = edit.z;
+            edited.add(room.name);
+            return null;
+        }
+
+        case "rename_room": {
+            const room = findRoom(edit.room);
+            if (!room) return unknownRoom(edit.room);
+            if (typeof edit.name !== "string" || !edit.name.trim()) {
+                return "name: must be a non-empty string";
+            }
+            if (findRoom(edit.name)) {
+                return `a room named "${edit.name}" already exists`;
+            }
+            const from: string = room.name;
+            room.name = edit.name;
+            model.rooms.forEach((other) => {
+                other.connected_to = other.connected_to.map((name) =>
+                    name === from ? edit.name : name
+                );
+            });
+            model.doors.forEach((door) => {
+                if (door.from === from) door.from = edit.name;
+                if (door.to === from) door.to = edit.name;
+            });
+            model.windows.forEach((window) => {
+                if (window.room === from) window.room = edit.name;
+            });
+
+            // Keep the map keyed by the name in the original model
+            const original =
+                [...renamed].find(([, current]) => current === from)?.[0] ??
+                from;
+            renamed.set(original, edit.name);
+            if (edited.delete(from)) edited.add(edit.name);
+            return null;
+        }
+
+        case "add_door": {
+            const from = findRoom(edit.from);
+            const to = findRoom(edit.to);
+            if (!from) return `from: ${unknownRoom(edit.from)}`;
+            if (!to) return `to: ${unknownRoom(edit.to)}`;
+            if (from === to) return "from and to: must be different rooms";
+            if (hasDoor(model, from.name, to.name)) {
+                return `"${from.name}" and "${to.name}" already have a door`;
+            }
+            if (edit.width !== undefined && !isPositive(edit.width)) {
+                return "width: must be positive";
+            }
+            model.doors.push({
+                from: from.name,
+                to: to.name,
+                width: edit.width ?? DEFAULT_DOOR_WIDTH,
+                height: DEFAULT_DOOR_HEIGHT,
+            });
+            if (!from.connected_to.includes(to.name)) {
+                from.connected_to.push(to.name);
+            }
+            edited.add(from.name);
+            edited.add(to.name);
+            return null;
+        }
+
+        case "remove_door": {
+            if (!hasDoor(model, edit.from, edit.to)) {
+                return `no door between "${edit.from}" and "${edit.to}"`;
+            }
+            const joins = (a: string, b: string) =>
+                (a === edit.from && b === edit.to) ||
+                (a === edit.to && b === edit.from);
+            model.doors = model.doors.filter(
+                (door) => !joins(door.from, door.to)
+            );
+            // connected_to would bring the door straight back
+            model.rooms.forEach((room) => {
+                room.connected_to = room.connected_to.filter(
+                    (name) => !joins(room.name, name)
+                );
+            });
+            edited.add(edit.from);
+            edited.add(edit.to);
+            return null;
+        }
+
+        case "add_window": {
+            const room = findRoom(edit.room);
+            if (!room) return unknownRoom(edit.room);
+            if (!WALL_SIDES.includes(edit.wall)) {
+                return `wall: must be one of ${WALL_SIDES.join(", ")}`;
+            }
+            if (edit.width !== undefined && !isPositive(edit.width)) {
+                return "width: must be positive";
+            }
+            model.windows.push({
+                room: room.name,
+                wall: edit.wall,
+                width: edit.width ?? DEFAULT_WINDOW_WIDTH,
+                height: DEFAULT_WINDOW_HEIGHT,
+                position: 0.5,
+            });
+            edited.add(room.name);
+            return null;
+        }
+
+        case "remove_window": {
+            const matches = model.windows.filter(
+                (window) =>
+                    window.room === edit.room &&
+                    (edit.wall === undefined || window.wall === edit.wall)
+            );
+            if (matches.length === 0) {
+                return `"${edit.room}" has no window${edit.wall ? ` on the ${edit.wall} wall` : ""}`;
+            }
+            model.windows = model.windows.filter(
+                (window) => !matches.includes(window)
+            );
+            edited.add(edit.room);
+            return null;
+        }
+    }
+}
+
+// Resizes a room, growing it away from its neighbours: the corner that is
+// kept in place is the first one that leaves the room clear of the others.
+// Footprints are stretched with the room.
+function resizeRoom(
+    model: ModelData,
+    room: ModelRoom,
+    width: number,
+    length: number
+) {
+    const scaleX = width / room.width;
+    const scaleZ = length / room.length;
+    if (room.footprint) {
+        room.footprint = room.footprint.map(([x, z]) => [
+            round(x * scaleX),
+            round(z * scaleZ),
+        ]);
+    }
+
+    const growth = { width: width - room.width, length: length - room.length };
+    room.width = width;
+    room.length = length;
+    if (!isAxisAlignedRectangle(room) || room.rotation) return;
+
+    const origin = { x: room.x, z: room.z };
+    const anchors = [
+        { x: origin.x, z: origin.z },
+        { x: origin.x - growth.width, z: origin.z },
+        { x: origin.x, z: origin.z - growth.length },
+        { x: origin.x - growth.width, z: origin.z - growth.length },
+    ];
+    const spot =
+        anchors.find((anchor) =>
+            isFree(model, { ...room, x: anchor.x, z: anchor.z })
+        ) || origin;
+    room.x = round(spot.x);
+    room.z = round(spot.z);
+}
+
+// Position for a new room against one side of its neighbour, or east of
+// everything on its level when it has none
+function findFreeSpot(
+    model: ModelData,
+    room: ModelRoom,
+    neighbour: ModelRoom | null | undefined
+): { x: number; z: number } {
+    const level = getRoomLevel(model, room).name;
+    const onLevel = model.rooms.filter(
+        (other) => getRoomLevel(model, other).name === level
+    );
+
+    if (neighbour) {
+        const n = getRoomBounds(neighbour);
+        const candidates = [
+            { x: n.maxX, z: n.minZ }, // east, flush with the north wall
+            { x: n.maxX, z: n.maxZ - room.length },
+            { x: n.minX, z: n.maxZ }, // south
+            { x: n.maxX - room.width, z: n.maxZ },
+            { x: n.minX - room.width, z: n.minZ }, // west
+            { x: n.minX - room.width, z: n.maxZ - room.length },
+            { x: n.minX, z: n.minZ - room.length }, // north
+            { x: n.maxX - room.width, z: n.minZ - room.length },
+        ];
+        const free = candidates.find((candidate) =>
+            isFree(model, { ...room, ...candidate })
+        );
+        if (free) return { x: round(free.x), z: round(free.z) };
+    }
+
+    if (onLevel.length === 0) return { x: 0, z: 0 };
+    const bounds = onLevel.map(getRoomBounds);
+    return {
+        x: round(Math.max(...bounds.map((b) => b.maxX))),
+        z: round(Math.min(...bounds.map((b) => b.minZ))),
+    };
+}
+
+function isFree(model: ModelData, room: ModelRoom): boolean {
+    const level = getRoomLevel(model, room).name;
+    const polygon = getRoomPolygon(room);
+    return !model.rooms.some(
+        (other) =>
+            other.name !== room.name &&
+            getRoomLevel(model, other).name === level &&
+            polygonsOverlap(polygon, getRoomPolygon(other))
+    );
+}
+
+function hasDoor(model: ModelData, a: unknown, b: unknown): boolean {
+    return model.doors.some(
+        (door) =>
+            (door.from === a && door.to === b) ||
+            (door.from === b && door.to === a)
+    );
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value);
+}
+
+function isPositive(value: unknown): value is number {
+    return isFiniteNumber(value) && value > 0;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+function centimetres(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function short(value: number): number {
+    return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,116 @@
+import { ModelData, ModelLevel, ModelRoom } from "./model-schema";
+
+// Helpers for working with the storeys of a model. Single-storey models
+// without a `levels` array are treated as one implicit ground level.
+
+export const DEFAULT_LEVEL_NAME = "Ground Floor";
+export const DEFAULT_FLOOR_TO_FLOOR = 3;
+
+/**
+ * Returns the model's levels sorted from the lowest to the highest storey.
+ */
+export function getModelLevels(model: ModelData): ModelLevel[] {
+    if (model.levels && model.levels.length > 0) {
+        return [...model.levels].sort((a, b) => a.elevation - b.elevation);
+    }
+
+    const tallest = model.rooms.reduce(
+        (max, room) => Math.max(max, room.height),
+        0
+    );
+    return [
+        {
+            name: DEFAULT_LEVEL_NAME,
+            elevation: 0,
+            height: tallest || DEFAULT_FLOOR_TO_FLOOR,
+        },
+    ];
+}
+
+/**
+ * Resolves the level a room sits on, falling back to the level whose
+ * elevation is closest to the room's y coordinate.
+ */
+export function getRoomLevel(
+    model: ModelData,
+    room: ModelRoom
+): ModelLevel {
+    const levels = getModelLevels(model);
+    const named = levels.find((level) => level.name === room.level);
+    if (named) return named;
+
+    return levels.reduce((closest, level) =>
+        Math.abs(level.elevation - room.y) <
+        Math.abs(closest.elevation - room.y)
+            ? level
+            : closest
+    );
+}
+
+export function getRoomsOnLevel(
+    model: ModelData,
+    levelName: string
+): ModelRoom[] {
+    return model.rooms.filter(
+        (room) => getRoomLevel(model, room).name === levelName
+    );
+}
+
+export interface LevelViewOptions {
+    hiddenLevels: string[];
+    isolatedLevel: string | null;
+    explodeGap: number; // extra vertical spacing between storeys, in meters
+}
+
+/**
+ * Produces the subset of the model that should be drawn for the given
+ * per-level view options. Hidden storeys are dropped together with their
+ * windows, doors and stairs; the remaining storeys are pushed apart by
+ * `explodeGap` per level so the stack can be inspected.
+ */
+export function buildLevelView(
+    model: ModelData,
+    options: LevelViewOptions
+): ModelData {
+    const levels = getModelLevels(model);
+    const visible = new Set(
+        levels
+            .map((level) => level.name)
+            .filter((name) =>
+                options.isolatedLevel
+                    ? name === options.isolatedLevel
+                    : !options.hiddenLevels.includes(name)
+            )
+    );
+
+    const offsets = new Map<string, number>();
+    levels.forEach((level, index) => {
+        offsets.set(level.name, index * options.explodeGap);
+    });
+
+    const rooms = model.rooms
+        .filter((room) => visible.has(getRoomLevel(model, room).name))
+        .map((room) => ({
+            ...room,
+            y: room.y + (offsets.get(getRoomLevel(model, room).name) || 0),
+        }));
+    const roomNames = new Set(rooms.map((room) => room.name));
+
+    return {
+        ...model,
+        rooms,
+        windows: model.windows.filter((window) => roomNames.has(window.room)),
+        doors: model.doors.filter(
+            (door) => roomNames.has(door.from) && roomNames.has(door.to)
+        ),
+        levels: levels
+            .filter((level) => visible.has(level.name))
+            .map((level) => ({
+                ...level,
+                elevation: level.elevation + (offsets.get(level.name) || 0),
+            })),
+        stairs: (model.stairs || []).filter((stair) =>
+            visible.has(stair.from_level)
+        ),
+    };
+}
@@ -0,0 +1,666 @@
+// Shared architectural model schema used by the agents, the multimodal
+// processor, the CAD generator route and the 3D viewer.
+
+import {
+    Point2,
+    isSimplePolygon,
+    polygonArea,
+    polygonBounds,
+} from "./room-geometry";
+
+export const WALL_SIDES = ["north", "south", "east", "west"] as const;
+
+export type WallSide = (typeof WALL_SIDES)[number];
+
+export interface ModelLevel {
+    name: string; // e.g. "Ground Floor", "First Floor"
+    elevation: number; // finished floor level above ground, in meters
+    height: number; // floor-to-floor height, in meters
+}
+
+export interface ModelRoom {
+    name: string;
+    width: number;
+    length: number;
+    height: number;
+    x: number;
+    y: number;
+    z: number;
+    connected_to: string[];
+    type?: string; // Optional type for room rendering customization
+    level?: string; // Name of the level the room sits on; y must match its elevation
+    // Polygon of [x, z] vertices relative to (x, z); width and length are
+    // its bounding box. Rectangular rooms leave it out.
+    footprint?: [number, number][];
+    rotation?: number; // degrees about the vertical axis through (x, z)
+}
+
+export interface ModelWindow {
+    room: string;
+    wall: WallSide;
+    width: number;
+    height: number;
+    position: number; // 0-1 along the wall
+}
+
+export interface ModelDoor {
+    from: string;
+    to: string;
+    width: number;
+    height: number;
+}
+
+export interface ModelStair {
+    name: string;
+    from_level: string;
+    to_level: string;
+    x: number;
+    z: number;
+    width: number;
+    length: number; // horizontal run, climbing towards +z
+}
+
+export interface ModelMetadata {
+    units?: "meters";
+    source?: string;
+    notes?: string[];
+    [key: string]: unknown;
+}
+
+export interface ModelData {
+    rooms: ModelRoom[];
+    windows: ModelWindow[];
+    doors: ModelDoor[];
+    levels?: ModelLevel[];
+    stairs?: ModelStair[];
+    metadata?: ModelMetadata;
+}
+
+export interface ModelValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type ModelValidationResult =
+    | { success: true; data: ModelData }
+    | { success: false; issues: ModelValidationIssue[] };
+
+export class ModelValidationError extends Error {
+    readonly issues: ModelValidationIssue[];
+
+    constructor(issues: ModelValidationIssue[], context?: string) {
+        super(
+            `${context ? `${context}: ` : ""}invalid model data (${formatModelIssues(
+                issues
+            )})`
+        );
+        this.name = "ModelValidationError";
+        this.issues = issues;
+    }
+}
+
+export function formatModelIssues(
+    issues: ModelValidationIssue[],
+    limit: number = 5
+): string {
+    const shown = issues
+        .slice(0, limit)
+        .map((issue) => `${issue.path}: ${issue.message}`);
+    if (issues.length > limit) {
+        shown.push(`and ${issues.length - limit} more`);
+    }
+    return shown.join("; ");
+}
+
+/**
+ * Validates an unknown value against the model schema. Never throws; every
+ * problem is reported with the path of the offending field.
+ */
+export function validateModelData(input: unknown): ModelValidationResult {
+    const issues: ModelValidationIssue[] = [];
+
+    if (!isRecord(input)) {
+        return {
+            success: false,
+            issues: [{ path: "$", message: "expected an object" }],
+        };
+    }
+
+    const rooms = checkArray(input.rooms, "rooms", issues);
+    const windows = checkArray(input.windows, "windows", issues);
+    const doors = checkArray(input.doors, "doors", issues);
+
+    if (rooms && rooms.length === 0) {
+        issues.push({ path: "rooms", message: "must contain at least one room" });
+    }
+
+    const levels = checkLevels(input.levels, issues);
+
+    const roomNames = new Set<string>();
+    (rooms || []).forEach((room, index) => {
+        const path = `rooms[${index}]`;
+        if (!isRecord(room)) {
+            issues.push({ path, message: "expected an object" });
+            return;
+        }
+
+        if (checkName(room.name, `${path}.name`, issues)) {
+            if (roomNames.has(room.name as string)) {
+                issues.push({
+                    path: `${path}.name`,
+                    message: `duplicate room name "${room.name}"`,
+                });
+            }
+            roomNames.add(room.name as string);
+        }
+        checkPositive(room.width, `${path}.width`, issues);
+        checkPositive(room.length, `${path}.length`, issues);
+        checkPositive(room.height, `${path}.height`, issues);
+        checkFinite(room.x, `${path}.x`, issues);
+        checkFinite(room.y, `${path}.y`, issues);
+        checkFinite(room.z, `${path}.z`, issues);
+
+        const connections = checkArray(
+            room.connected_to,
+            `${path}.connected_to`,
+            issues
+        );
+        (connections || []).forEach((target, i) => {
+            checkName(target, `${path}.connected_to[${i}]`, issues);
+        });
+
+        if (room.type !== undefined && typeof room.type !== "string") {
+            issues.push({ path: `${path}.type`, message: "expected a string" });
+        }
+
+        if (room.footprint !== undefined) {
+            checkFootprint(room, `${path}.footprint`, issues);
+        }
+        if (room.rotation !== undefined) {
+            checkFinite(room.rotation, `${path}.rotation`, issues);
+        }
+
+        if (room.level !== undefined) {
+            const level = levels.get(room.level as string);
+            if (!level) {
+                issues.push({
+                    path: `${path}.level`,
+                    message: `unknown level "${room.level}"`,
+                });
+            } else if (
+                typeof room.y === "number" &&
+                Math.abs(room.y - level.elevation) > LEVEL_TOLERANCE
+            ) {
+                issues.push({
+                    path: `${path}.y`,
+                    message: `must equal the elevation of level "${level.name}" (${level.elevation})`,
+                });
+            }
+        } else if (levels.size > 1) {
+            issues.push({
+                path: `${path}.level`,
+                message: "required when the model has several levels",
+            });
+        }
+    });
+
+    // Cross references are checked after all room names are known
+    (rooms || []).forEach((room, index) => {
+        if (!isRecord(room) || !Array.isArray(room.connected_to)) return;
+        room.connected_to.forEach((target: unknown, i: number) => {
+            if (typeof target === "string" && !roomNames.has(target)) {
+                issues.push({
+                    path: `rooms[${index}].connected_to[${i}]`,
+                    message: `unknown room "${target}"`,
+                });
+            }
+        });
+    });
+
+    (windows || []).forEach((window, index) => {
+        const path = `windows[${index}]`;
+        if (!isRecord(window)) {
+            issues.push({ path, message: "expected an object" });
+            return;
+        }
+
+        checkRoomReference(window.room, `${path}.room`, roomNames, issues);
+        if (!WALL_SIDES.includes(window.wall as WallSide)) {
+            issues.push({
+                path: `${path}.wall`,
+                message: `expected one of ${WALL_SIDES.join(", ")}`,
+            });
+        }
+        checkPositive(window.width, `${path}.width`, issues);
+        checkPositive(window.height, `${path}.height`, issues);
+        if (
+            checkFinite(window.position, `${path}.position`, issues) &&
+            ((window.position as number) < 0 || (window.position as number) > 1)
+        ) {
+            issues.push({
+                path: `${path}.position`,
+                message: "must be between 0 and 1",
+            });
+        }
+    });
+
+    (doors || []).forEach((door, index) => {
+        const path = `doors[${index}]`;
+        if (!isRecord(door)) {
+            issues.push({ path, message: "expected an object" });
+            return;
+        }
+
+        checkRoomReference(door.from, `${path}.from`, roomNames, issues);
+        checkRoomReference(door.to, `${path}.to`, roomNames, issues);
+        if (door.from === door.to && typeof door.from === "string") {
+            issues.push({
+                path: `${path}.to`,
+                message: "door must connect two different rooms",
+            });
+        }
+        checkPositive(door.width, `${path}.width`, issues);
+        checkPositive(door.height, `${path}.height`, issues);
+    });
+
+    if (input.stairs !== undefined) {
+        checkStairs(input.stairs, levels, issues);
+    }
+
+    if (input.metadata !== undefined) {
+        checkMetadata(input.metadata, issues);
+    }
+
+    if (issues.length > 0) {
+        return { success: false, issues };
+    }
+
+    return { success: true, data: input as unknown as ModelData };
+}
+
+/**
+ * Same as validateModelData but throws a ModelValidationError on failure.
+ */
+export function parseModelData(input: unknown, context?: string): ModelData {
+    const result = validateModelData(input);
+    if (!result.success) {
+        throw new ModelValidationError(result.issues, context);
+    }
+    return result.data;
+}
+
+// JSON schema of ModelData for providers that constrain output to a
+// schema. It mirrors the interfaces above; validateModelData stays the
+// authority on what is accepted.
+const NUMBER = { type: "number" };
+const STRING = { type: "string" };
+
+export const MODEL_DATA_JSON_SCHEMA = {
+    type: "object",
+    properties: {
+        levels: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: { name: STRING, elevation: NUMBER, height: NUMBER },
+                required: ["name", "elevation", "height"],
+            },
+        },
+        rooms: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    name: STRING,
+                    type: STRING,
+                    level: STRING,
+                    width: NUMBER,
+                    length: NUMBER,
+                    height: NUMBER,
+                    x: NUMBER,
+                    y: NUMBER,
+                    z: NUMBER,
+                    rotation: NUMBER,
+                    footprint: {
+                        type: "array",
+                        items: { type: "array", items: NUMBER },
+                    },
+                    connected_to: { type: "array", items: STRING },
+                },
+                required: [
+                    "name",
+                    "width",
+                    "length",
+                    "height",
+                    "x",
+                    "y",
+                    "z",
+                    "connected_to",
+                ],
+            },
+        },
+        stairs: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    name: STRING,
+                    from_level: STRING,
+                    to_level: STRING,
+                    x: NUMBER,
+                    z: NUMBER,
+                    width: NUMBER,
+                    length: NUMBER,
+                },
+                required: [
+                    "name",
+                    "from_level",
+                    "to_level",
+                    "x",
+                    "z",
+                    "width",
+                    "length",
+                ],
+            },
+        },
+        windows: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    room: STRING,
+                    wall: { type: "string", enum: [...WALL_SIDES] },
+                    width: NUMBER,
+                    height: NUMBER,
+                    position: NUMBER,
+                },
+                required: ["room", "wall", "width", "height", "position"],
+            },
+        },
+        doors: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    from: STRING,
+                    to: STRING,
+                    width: NUMBER,
+                    height: NUMBER,
+                },
+                required: ["from", "to", "width", "height"],
+            },
+        },
+    },
+    // Missing windows and doors are filled in by the designer's repairs
+    required: ["rooms"],
+};
+
+const LEVEL_TOLERANCE = 0.01;
+
+function checkFootprint(
+    room: Record<string, any>,
+    path: string,
+    issues: ModelValidationIssue[]
+) {
+    const points = checkArray(room.footprint, path, issues);
+    if (!points) return;
+    if (points.length < 3) {
+        issues.push({ path, message: "needs at least 3 vertices" });
+        return;
+    }
+
+    const valid = points.every((point, i) => {
+        if (
+            !Array.isArray(point) ||
+            point.length !== 2 ||
+            !point.every((c) => typeof c === "number" && Number.isFinite(c))
+        ) {
+            issues.push({
+                path: `${path}[${i}]`,
+                message: "expected an [x, z] pair of finite numbers",
+            });
+            return false;
+        }
+        return true;
+    });
+    if (!valid) return;
+
+    const polygon = points as Point2[];
+    if (polygonArea(polygon) <= 0) {
+        issues.push({ path, message: "must enclose a non-zero area" });
+    } else if (!isSimplePolygon(polygon)) {
+        issues.push({ path, message: "edges must not cross each other" });
+    }
+
+    // width and length describe the footprint's bounding box
+    const bounds = polygonBounds(polygon);
+    if (
+        typeof room.width === "number" &&
+        Math.abs(bounds.maxX - bounds.minX - room.width) > LEVEL_TOLERANCE
+    ) {
+        issues.push({
+            path: `${path.replace(/\.footprint$/, "")}.width`,
+            message: `must equal the footprint's x extent (${bounds.maxX - bounds.minX})`,
+        });
+    }
+    if (
+        typeof room.length === "number" &&
+        Math.abs(bounds.maxZ - bounds.minZ - room.length) > LEVEL_TOLERANCE
+    ) {
+        issues.push({
+            path: `${path.replace(/\.footprint$/, "")}.length`,
+            message: `must equal the footprint's z extent (${bounds.maxZ - bounds.minZ})`,
+        });
+    }
+}
+
+function checkLevels(
+    value: unknown,
+    issues: ModelValidationIssue[]
+): Map<string, ModelLevel> {
+    const levels = new Map<string, ModelLevel>();
+    if (value === undefined) return levels;
+
+    const entries = checkArray(value, "levels", issues);
+    (entries || []).forEach((level, index) => {
+        const path = `levels[${index}]`;
+        if (!isRecord(level)) {
+            issues.push({ path, message: "expected an object" });
+            return;
+        }
+
+        const named = checkName(level.name, `${path}.name`, issues);
+        const placed = checkFinite(level.elevation, `${path}.elevation`, issues);
+        const sized = checkPositive(level.height, `${path}.height`, issues);
+        if (!named) return;
+
+        if (levels.has(level.name)) {
+            issues.push({
+                path: `${path}.name`,
+                message: `duplicate level name "${level.name}"`,
+            });
+            return;
+        }
+        if (placed && sized) {
+            levels.set(level.name, level as ModelLevel);
+        }
+    });
+
+    // Storeys may not overlap vertically
+    const sorted = Array.from(levels.values()).sort(
+        (a, b) => a.elevation - b.elevation
+    );
+    for (let i = 1; i < sorted.length; i++) {
+        const below = sorted[i - 1];
+        if (sorted[i].elevation < below.elevation + below.height - LEVEL_TOLERANCE) {
+            issues.push({
+                path: `levels[${(entries || []).indexOf(sorted[i])}].elevation`,
+                message: `overlaps level "${below.name}" (${below.elevation} + ${below.height})`,
+            });
+        }
+    }
+
+    return levels;
+}
+
+function checkStairs(
+    value: unknown,
+    levels: Map<string, ModelLevel>,
+    issues: ModelValidationIssue[]
+) {
+    const stairs = checkArray(value, "stairs", issues);
+    (stairs || []).forEach((stair, index) => {
+        const path = `stairs[${index}]`;
+        if (!isRecord(stair)) {
+            issues.push({ path, message: "expected an object" });
+            return;
+        }
+
+        checkName(stair.name, `${path}.name`, issues);
+        const from = checkLevelReference(
+            stair.from_level,
+            `${path}.from_level`,
+            levels,
+            issues
+        );
+        const to = checkLevelReference(
+            stair.to_level,
+            `${path}.to_level`,
+            levels,
+            issues
+        );
+        if (from && to && to.elevation <= from.elevation) {
+            issues.push({
+                path: `${path}.to_level`,
+                message: `must be above "${from.name}"`,
+            });
+        }
+        checkFinite(stair.x, `${path}.x`, issues);
+        checkFinite(stair.z, `${path}.z`, issues);
+        checkPositive(stair.width, `${path}.width`, issues);
+        checkPositive(stair.length, `${path}.length`, issues);
+    });
+
+    // Every storey above the lowest one has to be reachable
+    const sorted = Array.from(levels.values()).sort(
+        (a, b) => a.elevation - b.elevation
+    );
+    for (let i = 1; i < sorted.length; i++) {
+        const reached = (stairs || []).some(
+            (stair) =>
+                isRecord(stair) &&
+                stair.to_level === sorted[i].name &&
+                levels.has(stair.from_level)
+        );
+        if (!reached) {
+            issues.push({
+                path: "stairs",
+                message: `no stair leads up to level "${sorted[i].name}"`,
+            });
+        }
+    }
+}
+
+function checkLevelReference(
+    value: unknown,
+    path: string,
+    levels: Map<string, ModelLevel>,
+    issues: ModelValidationIssue[]
+): ModelLevel | null {
+    if (!checkName(value, path, issues)) return null;
+    const level = levels.get(value as string);
+    if (!level) {
+        issues.push({ path, message: `unknown level "${value}"` });
+        return null;
+    }
+    return level;
+}
+
+function checkMetadata(metadata: unknown, issues: ModelValidationIssue[]) {
+    if (!isRecord(metadata)) {
+        issues.push({ path: "metadata", message: "expected an object" });
+        return;
+    }
+
+    if (metadata.units !== undefined && metadata.units !== "meters") {
+        issues.push({ path: "metadata.units", message: 'expected "meters"' });
+    }
+    if (metadata.source !== undefined && typeof metadata.source !== "string") {
+        issues.push({ path: "metadata.source", message: "expected a string" });
+    }
+    if (metadata.notes !== undefined) {
+        const notes = checkArray(metadata.notes, "metadata.notes", issues);
+        (notes || []).forEach((note, i) => {
+            if (typeof note !== "string") {
+                issues.push({
+                    path: `metadata.notes[${i}]`,
+                    message: "expected a string",
+                });
+            }
+        });
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkArray(
+    value: unknown,
+    path: string,
+    issues: ModelValidationIssue[]
+): unknown[] | null {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: "expected an array" });
+        return null;
+    }
+    return value;
+}
+
+function checkName(
+    value: unknown,
+    path: string,
+    issues: ModelValidationIssue[]
+): boolean {
+    if (typeof value !== "string" || value.trim() === "") {
+        issues.push({ path, message: "expected a non-empty string" });
+        return false;
+    }
+    return true;
+}
+
+function checkRoomReference(
+    value: unknown,
+    path: string,
+    roomNames: Set<string>,
+    issues: ModelValidationIssue[]
+) {
+    if (checkName(value, path, issues) && !roomNames.has(value as string)) {
+        issues.push({ path, message: `unknown room "${value}"` });
+    }
+}
+
+function checkFinite(
+    value: unknown,
+    path: string,
+    issues: ModelValidationIssue[]
+): boolean {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({ path, message: "expected a finite number" });
+        return false;
+    }
+    return true;
+}
+
+function checkPositive(
+    value: unknown,
+    path: string,
+    issues: ModelValidationIssue[]
+): boolean {
+    if (!checkFinite(value, path, issues)) return false;
+    if ((value as number) <= 0) {
+        issues.push({ path, message: "must be greater than 0" });
+        return false;
+    }
+    return true;
+}
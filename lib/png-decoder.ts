@@ -0,0 +1,236 @@
+import zlib from "zlib";
+
+// PNG decoding for uploaded plans and sketches. The client sends every
+// image as a PNG data URL (canvas.toDataURL), so this is the one format the
+// server reads itself; API callers sending anything else are told so. All
+// colour types and bit depths are supported; interlaced images are not,
+// canvases never write them.
+
+export class ImageFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ImageFormatError";
+    }
+}
+
+export interface RGBAImage {
+    width: number;
+    height: number;
+    data: Uint8Array; // 4 bytes per pixel, row by row
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel for each colour type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export function isPNG(bytes: Uint8Array): boolean {
+    return SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * The image in a base64 data URL, which must be a PNG: other formats are
+ * refused with an ImageFormatError naming what was sent.
+ */
+export function pngFromDataURL(url: string): Buffer {
+    const match = /^data:([\w.+-]+\/[\w.+-]+)?(;[^,]*)?,/.exec(url);
+    if (!match || !/;base64$/.test(match[2] || "")) {
+        throw new ImageFormatError("Expected a base64 data URL");
+    }
+    const bytes = Buffer.from(url.slice(match[0].length), "base64");
+    if (!isPNG(bytes)) {
+        throw new ImageFormatError(
+            `Expected a PNG image, got ${match[1] || "unknown data"}`
+        );
+    }
+    return bytes;
+}
+
+/** Decodes a non-interlaced PNG to 8-bit RGBA. */
+export function decodePNG(bytes: Uint8Array): RGBAImage {
+    if (!isPNG(bytes)) throw new ImageFormatError("Not a PNG image");
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+
+    let header: {
+        width: number;
+        height: number;
+        depth: number;
+        colorType: number;
+        interlace: number;
+    } | null = null;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const compressed: Uint8Array[] = [];
+
+    let pos = SIGNATURE.length;
+    while (pos + 8 <= bytes.length) {
+        const length = view.getUint32(pos);
+        const type = String.fromCharCode(
+            ...Array.from(bytes.subarray(pos + 4, pos + 8))
+        );
+        const start = pos + 8;
+        if (start + length > bytes.length) {
+            throw new ImageFormatError(`Truncated PNG chunk ${type}`);
+        }
+        const chunk = bytes.subarray(start, start + length);
+
+        if (type === "IHDR") {
+            header = {
+                width: view.getUint32(start),
+                height: view.getUint32(start + 4),
+                depth: chunk[8],
+                colorType: chunk[9],
+                interlace: chunk[12],
+            };
+        } else if (type === "PLTE") {
+            palette = chunk;
+        } else if (type === "tRNS") {
+            transparency = chunk;
+        } else if (type === "IDAT") {
+            compressed.push(chunk);
+        } else if (type === "IEND") {
+            break;
+        }
+        // Length, type and CRC around the data
+        pos = start + length + 4;
+    }
+
+    if (!header) throw new ImageFormatError("PNG has no header");
+    const { width, height, depth, colorType, interlace } = header;
+    const channels = CHANNELS[colorType];
+    if (!channels || ![1, 2, 4, 8, 16].includes(depth)) {
+        throw new ImageFormatError(
+            `Unsupported PNG colour type ${colorType} with depth ${depth}`
+        );
+    }
+    if (interlace !== 0) {
+        throw new ImageFormatError("Interlaced PNGs are not supported");
+    }
+    if (colorType === 3 && !palette) {
+        throw new ImageFormatError("Palette PNG has no palette");
+    }
+
+    let raw: Uint8Array;
+    try {
+        raw = zlib.inflateSync(Buffer.concat(compressed));
+    } catch {
+        throw new ImageFormatError("PNG image data is corrupt");
+    }
+
+    const bitsPerPixel = channels * depth;
+    const stride = Math.ceil((width * bitsPerPixel) / 8);
+    if (raw.length < height * (stride + 1)) {
+        throw new ImageFormatError("PNG image data is truncated");
+    }
+    const pixels = unfilter(raw, height, stride, Math.max(1, bitsPerPixel / 8));
+
+    const data = new Uint8Array(width * height * 4);
+    const maxValue = (1 << Math.min(depth, 8)) - 1;
+    for (let y = 0; y < height; y++) {
+        const row = y * stride;
+        for (let x = 0; x < width; x++) {
+            const sample = (channel: number) =>
+                readSample(pixels, row, x * channels + channel, depth);
+            const out = (y * width + x) * 4;
+
+            if (colorType === 3) {
+                const index = sample(0);
+                data.set(palette!.subarray(index * 3, index * 3 + 3), out);
+                data[out + 3] =
+                    transparency && index < transparency.length
+                        ? transparency[index]
+                        : 255;
+                continue;
+            }
+
+            // Samples scaled to 8 bits
+            const value = (channel: number) =>
+                depth === 16
+                    ? sample(channel) >> 8
+                    : Math.round((sample(channel) * 255) / maxValue);
+            if (colorType === 0 || colorType === 4) {
+                const gray = value(0);
+                data[out] = data[out + 1] = data[out + 2] = gray;
+                data[out + 3] = colorType === 4 ? value(1) : 255;
+            } else {
+                data[out] = value(0);
+                data[out + 1] = value(1);
+                data[out + 2] = value(2);
+                data[out + 3] = colorType === 6 ? value(3) : 255;
+            }
+        }
+    }
+    return { width, height, data };
+}
+
+// Reverses the per-row filters (PNG specification, section 9)
+function unfilter(
+    raw: Uint8Array,
+    height: number,
+    stride: number,
+    bytesPerPixel: number
+): Uint8Array {
+    const pixels = new Uint8Array(height * stride);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const input = y * (stride + 1) + 1;
+        const row = y * stride;
+        const previous = row - stride;
+
+        for (let i = 0; i < stride; i++) {
+            const left =
+                i >= bytesPerPixel ? pixels[row + i - bytesPerPixel] : 0;
+            const up = y > 0 ? pixels[previous + i] : 0;
+            const upLeft =
+                y > 0 && i >= bytesPerPixel
+                    ? pixels[previous + i - bytesPerPixel]
+                    : 0;
+            let predicted = 0;
+            switch (filter) {
+                case 0:
+                    break;
+                case 1:
+                    predicted = left;
+                    break;
+                case 2:
+                    predicted = up;
+                    break;
+                case 3:
+                    predicted = (left + up) >> 1;
+                    break;
+                case 4:
+                    predicted = paeth(left, up, upLeft);
+                    break;
+                default:
+                    throw new ImageFormatError(`Unknown PNG filter ${filter}`);
+            }
+            pixels[row + i] = (raw[input + i] + predicted) & 0xff;
+        }
+    }
+    return pixels;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+    const estimate = left + up - upLeft;
+    const toLeft = Math.abs(estimate - left);
+    const toUp = Math.abs(estimate - up);
+    const toUpLeft = Math.abs(estimate - upLeft);
+    if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+    return toUp <= toUpLeft ? up : upLeft;
+}
+
+// The index-th sample of a row, for any bit depth
+function readSample(
+    pixels: Uint8Array,
+    row: number,
+    index: number,
+    depth: number
+): number {
+    if (depth === 8) return pixels[row + index];
+    if (depth === 16) {
+        return (pixels[row + index * 2] << 8) | pixels[row + index * 2 + 1];
+    }
+    const bit = index * depth;
+    const byte = pixels[row + (bit >> 3)];
+    return (byte >> (8 - depth - (bit & 7))) & ((1 << depth) - 1);
+}
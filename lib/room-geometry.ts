@@ -0,0 +1,260 @@
+import { ModelRoom } from "./model-schema";
+
+// Footprint geometry of rooms. A room without a `footprint` is the
+// rectangle [0, width] x [0, length]; a footprint is a polygon of [x, z]
+// vertices in the same room-local frame. The frame is placed at (x, z) and
+// turned by `rotation` degrees from +x towards +z, which is clockwise on a
+// plan drawn with north up.
+
+export type Point2 = [number, number];
+
+export interface Bounds2 {
+    minX: number;
+    maxX: number;
+    minZ: number;
+    maxZ: number;
+}
+
+/**
+ * Room-local footprint polygon.
+ */
+export function getLocalFootprint(room: ModelRoom): Point2[] {
+    if (room.footprint && room.footprint.length >= 3) {
+        return room.footprint.map(([x, z]) => [x, z] as Point2);
+    }
+    return [
+        [0, 0],
+        [room.width, 0],
+        [room.width, room.length],
+        [0, room.length],
+    ];
+}
+
+/**
+ * World-space footprint polygon, with rotation and position applied.
+ */
+export function getRoomPolygon(room: ModelRoom): Point2[] {
+    const angle = ((room.rotation || 0) * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return getLocalFootprint(room).map(([px, pz]) => [
+        room.x + px * cos - pz * sin,
+        room.z + px * sin + pz * cos,
+    ]);
+}
+
+/**
+ * Signed polygon area; positive when the vertices turn from +x towards +z.
+ */
+export function signedPolygonArea(points: Point2[]): number {
+    let sum = 0;
+    for (let i = 0; i < points.length; i++) {
+        const [x1, z1] = points[i];
+        const [x2, z2] = points[(i + 1) % points.length];
+        sum += x1 * z2 - x2 * z1;
+    }
+    return sum / 2;
+}
+
+export function polygonArea(points: Point2[]): number {
+    return Math.abs(signedPolygonArea(points));
+}
+
+export function getRoomArea(room: ModelRoom): number {
+    return polygonArea(getLocalFootprint(room));
+}
+
+export function polygonBounds(points: Point2[]): Bounds2 {
+    return points.reduce(
+        (bounds, [x, z]) => ({
+            minX: Math.min(bounds.minX, x),
+            maxX: Math.max(bounds.maxX, x),
+            minZ: Math.min(bounds.minZ, z),
+            maxZ: Math.max(bounds.maxZ, z),
+        }),
+        { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity }
+    );
+}
+
+export function getRoomBounds(room: ModelRoom): Bounds2 {
+    return polygonBounds(getRoomPolygon(room));
+}
+
+export function polygonCentroid(points: Point2[]): Point2 {
+    const area = signedPolygonArea(points);
+    if (Math.abs(area) < 1e-9) {
+        const bounds = polygonBounds(points);
+        return [(bounds.minX + bounds.maxX) / 2, (bounds.minZ + bounds.maxZ) / 2];
+    }
+
+    let cx = 0;
+    let cz = 0;
+    for (let i = 0; i < points.length; i++) {
+        const [x1, z1] = points[i];
+        const [x2, z2] = points[(i + 1) % points.length];
+        const cross = x1 * z2 - x2 * z1;
+        cx += (x1 + x2) * cross;
+        cz += (z1 + z2) * cross;
+    }
+    return [cx / (6 * area), cz / (6 * area)];
+}
+
+export function getRoomCentroid(room: ModelRoom): Point2 {
+    return polygonCentroid(getRoomPolygon(room));
+}
+
+/**
+ * True when no two non-adjacent edges of the polygon cross.
+ */
+export function isSimplePolygon(points: Point2[]): boolean {
+    const n = points.length;
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            // Adjacent edges share a vertex
+            if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+            if (
+                segmentsIntersect(
+                    points[i],
+                    points[(i + 1) % n],
+                    points[j],
+                    points[(j + 1) % n]
+                )
+            ) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+/**
+ * True for rooms whose footprint is an unrotated axis-aligned rectangle.
+ */
+export function isAxisAlignedRectangle(room: ModelRoom): boolean {
+    if ((room.rotation || 0) % 90 !== 0) return false;
+    const polygon = getLocalFootprint(room);
+    if (polygon.length !== 4) return false;
+    const bounds = polygonBounds(polygon);
+    return polygon.every(
+        ([x, z]) =>
+            (Math.abs(x - bounds.minX) < 1e-6 || Math.abs(x - bounds.maxX) < 1e-6) &&
+            (Math.abs(z - bounds.minZ) < 1e-6 || Math.abs(z - bounds.maxZ) < 1e-6)
+    );
+}
+
+/**
+ * True when the interiors of two polygons intersect. Polygons that only
+ * share an edge or a corner do not overlap.
+ */
+export function polygonsOverlap(a: Point2[], b: Point2[]): boolean {
+    const boundsA = polygonBounds(a);
+    const boundsB = polygonBounds(b);
+    if (
+        Math.min(boundsA.maxX, boundsB.maxX) -
+            Math.max(boundsA.minX, boundsB.minX) <=
+            1e-6 ||
+        Math.min(boundsA.maxZ, boundsB.maxZ) -
+            Math.max(boundsA.minZ, boundsB.minZ) <=
+            1e-6
+    ) {
+        return false;
+    }
+
+    for (let i = 0; i < a.length; i++) {
+        for (let j = 0; j < b.length; j++) {
+            if (
+                segmentsIntersect(
+                    a[i],
+                    a[(i + 1) % a.length],
+                    b[j],
+                    b[(j + 1) % b.length]
+                )
+            ) {
+                return true;
+            }
+        }
+    }
+
+    // No proper crossings: either one polygon contains the other, they are
+    // identical, they overlap along collinear edges, or they only touch
+    if (
+        a.some((point) => isStrictlyInside(point, b)) ||
+        b.some((point) => isStrictlyInside(point, a)) ||
+        isStrictlyInside(polygonCentroid(a), b) ||
+        isStrictlyInside(polygonCentroid(b), a)
+    ) {
+        return true;
+    }
+
+    // Collinear overlaps put every tested point on a boundary; probe the
+    // centres of the grid cells spanned by all vertex coordinates instead
+    const xs = uniqueSorted([...a, ...b].map(([x]) => x));
+    const zs = uniqueSorted([...a, ...b].map(([, z]) => z));
+    for (let i = 1; i < xs.length; i++) {
+        for (let j = 1; j < zs.length; j++) {
+            const probe: Point2 = [
+                (xs[i - 1] + xs[i]) / 2,
+                (zs[j - 1] + zs[j]) / 2,
+            ];
+            if (isStrictlyInside(probe, a) && isStrictlyInside(probe, b)) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+function uniqueSorted(values: number[]): number[] {
+    return values
+        .sort((p, q) => p - q)
+        .filter((value, i, sorted) => i === 0 || value - sorted[i - 1] > 1e-6);
+}
+
+function isStrictlyInside([x, z]: Point2, polygon: Point2[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, zi] = polygon[i];
+        const [xj, zj] = polygon[j];
+        if (distanceToSegment([x, z], polygon[i], polygon[j]) < 1e-6) {
+            return false;
+        }
+        if (zi > z !== zj > z && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+function distanceToSegment(p: Point2, a: Point2, b: Point2): number {
+    const dx = b[0] - a[0];
+    const dz = b[1] - a[1];
+    const lengthSq = dx * dx + dz * dz;
+    const t =
+        lengthSq === 0
+            ? 0
+            : Math.max(
+                  0,
+                  Math.min(
+                      1,
+                      ((p[0] - a[0]) * dx + (p[1] - a[1]) * dz) / lengthSq
+                  )
+              );
+    return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dz));
+}
+
+function orientation(a: Point2, b: Point2, c: Point2): number {
+    return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+function segmentsIntersect(
+    a: Point2,
+    b: Point2,
+    c: Point2,
+    d: Point2
+): boolean {
+    const o1 = orientation(a, b, c);
+    const o2 = orientation(a, b, d);
+    const o3 = orientation(c, d, a);
+    const o4 = orientation(c, d, b);
+    return o1 * o2 < 0 && o3 * o4 < 0;
+}
@@ -0,0 +1,286 @@
+import { Point2 } from "./room-geometry";
+
+// Rooms enclosed by the walls of a vector sketch. Walls are centerlines
+// that need not meet exactly, so they are rasterized onto a fine grid as
+// bands a little wider than the gaps a hand leaves, and every region of
+// free cells that does not reach the edge of the grid is a room. Room
+// sides are then moved back onto the centerlines of the walls they run
+// along, so a room between walls drawn 4 m apart is 4 m wide.
+//
+// Coordinates are sketch pixels, y growing down.
+
+export type Segment = [Point2, Point2];
+
+export interface EnclosedRoom {
+    // Bounding box, to the wall centerlines
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    // Corners, for rooms that are not rectangles
+    outline: Point2[] | null;
+    contains(point: Point2): boolean;
+}
+
+const CELL_METERS = 0.05;
+const MAX_CELLS = 4_000_000;
+// Smaller regions are slivers between walls, not rooms
+const MIN_ROOM_AREA = 0.5;
+// Share of its bounding box a room covers to count as a rectangle
+const RECTANGULAR_FILL = 0.95;
+
+/** Rooms closed off by the given wall centerlines, in no special order. */
+export function findEnclosedRooms(
+    walls: Segment[],
+    pixelsPerMeter: number
+): EnclosedRoom[] {
+    if (walls.length < 3) return [];
+
+    const xs = walls.flatMap(([a, b]) => [a[0], b[0]]);
+    const ys = walls.flatMap(([a, b]) => [a[1], b[1]]);
+    let cell = CELL_METERS * pixelsPerMeter;
+    const spanX = Math.max(...xs) - Math.min(...xs);
+    const spanY = Math.max(...ys) - Math.min(...ys);
+    while (
+        ((spanX + 10 * cell) * (spanY + 10 * cell)) / cell ** 2 >
+        MAX_CELLS
+    ) {
+        cell *= 2;
+    }
+    // Half the width of a wall's band; it closes gaps up to about a cell
+    const band = Math.max(cell * 1.2, 3);
+    const pad = band + 2 * cell;
+    const originX = Math.min(...xs) - pad;
+    const originY = Math.min(...ys) - pad;
+    const width = Math.ceil((spanX + 2 * pad) / cell);
+    const height = Math.ceil((spanY + 2 * pad) / cell);
+    const center = (index: number, origin: number) =>
+        origin + (index + 0.5) * cell;
+
+    const blocked = new Uint8Array(width * height);
+    for (const [a, b] of walls) {
+        const from = (value: number, origin: number) =>
+            Math.max(0, Math.floor((value - band - origin) / cell));
+        const to = (value: number, origin: number, size: number) =>
+            Math.min(size - 1, Math.ceil((value + band - origin) / cell));
+        for (
+            let row = from(Math.min(a[1], b[1]), originY);
+            row <= to(Math.max(a[1], b[1]), originY, height);
+            row++
+        ) {
+            for (
+                let col = from(Math.min(a[0], b[0]), originX);
+                col <= to(Math.max(a[0], b[0]), originX, width);
+                col++
+            ) {
+                const point: Point2 = [
+                    center(col, originX),
+                    center(row, originY),
+                ];
+                if (distanceToSegment(point, a, b) <= band) {
+                    blocked[row * width + col] = 1;
+                }
+            }
+        }
+    }
+
+    // 0: not yet reached, -1: outside, n > 0: the n-th enclosed region
+    const region = new Int32Array(width * height);
+    const flood = (start: number, id: number): number[] => {
+        const cells = [start];
+        region[start] = id;
+        for (let i = 0; i < cells.length; i++) {
+            const index = cells[i];
+            const col = index % width;
+            const neighbours = [
+                col > 0 ? index - 1 : -1,
+                col < width - 1 ? index + 1 : -1,
+                index - width,
+                index + width,
+            ];
+            for (const next of neighbours) {
+                if (
+                    next >= 0 &&
+                    next < region.length &&
+                    !blocked[next] &&
+                    region[next] === 0
+                ) {
+                    region[next] = id;
+                    cells.push(next);
+                }
+            }
+        }
+        return cells;
+    };
+    for (let index = 0; index < region.length; index++) {
+        const col = index % width;
+        const row = Math.floor(index / width);
+        const onBorder =
+            col === 0 || row === 0 || col === width - 1 || row === height - 1;
+        if (onBorder && !blocked[index] && region[index] === 0) {
+            flood(index, -1);
+        }
+    }
+
+    // Room sides snap to walls running along them
+    const tolerance = band + 2 * cell;
+    const verticals = walls
+        .filter(([a, b]) => Math.abs(a[0] - b[0]) <= 1)
+        .map(([a, b]) => (a[0] + b[0]) / 2);
+    const horizontals = walls
+        .filter(([a, b]) => Math.abs(a[1] - b[1]) <= 1)
+        .map(([a, b]) => (a[1] + b[1]) / 2);
+    const snap = (value: number, lines: number[], outward: number) => {
+        let best = value + outward * band;
+        let distance = tolerance;
+        for (const line of lines) {
+            if (Math.abs(line - value) <= distance) {
+                best = line;
+                distance = Math.abs(line - value);
+            }
+        }
+        return best;
+    };
+
+    const rooms: EnclosedRoom[] = [];
+    let id = 0;
+    for (let index = 0; index < region.length; index++) {
+        if (blocked[index] || region[index] !== 0) continue;
+        const cells = flood(index, ++id);
+        const area = (cells.length * cell * cell) / pixelsPerMeter ** 2;
+        if (area < MIN_ROOM_AREA) continue;
+
+        let [minCol, maxCol, minRow, maxRow] = [width, 0, height, 0];
+        for (const at of cells) {
+            const col = at % width;
+            const row = Math.floor(at / width);
+            minCol = Math.min(minCol, col);
+            maxCol = Math.max(maxCol, col);
+            minRow = Math.min(minRow, row);
+            maxRow = Math.max(maxRow, row);
+        }
+        const boxCells = (maxCol - minCol + 1) * (maxRow - minRow + 1);
+        const outline =
+            cells.length >= RECTANGULAR_FILL * boxCells
+                ? null
+                : traceOutline(region, width, height, id, index).map(
+                      ([col, row]) => {
+                          const x = originX + col * cell;
+                          const y = originY + row * cell;
+                          return [
+                              snap(x, verticals, 0),
+                              snap(y, horizontals, 0),
+                          ] as Point2;
+                      }
+                  );
+
+        const regionId = id;
+        rooms.push({
+            minX: snap(originX + minCol * cell, verticals, -1),
+            maxX: snap(originX + (maxCol + 1) * cell, verticals, 1),
+            minY: snap(originY + minRow * cell, horizontals, -1),
+            maxY: snap(originY + (maxRow + 1) * cell, horizontals, 1),
+            outline,
+            contains: ([x, y]) => {
+                const col = Math.floor((x - originX) / cell);
+                const row = Math.floor((y - originY) / cell);
+                return (
+                    col >= 0 &&
+                    row >= 0 &&
+                    col < width &&
+                    row < height &&
+                    region[row * width + col] === regionId
+                );
+            },
+        });
+    }
+    return rooms;
+}
+
+/** Distance from a point to the segment from a to b. */
+export function distanceToSegment(
+    [px, py]: Point2,
+    [ax, ay]: Point2,
+    [bx, by]: Point2
+): number {
+    const [x, y] = closestPointOnSegment([px, py], [ax, ay], [bx, by]);
+    return Math.hypot(px - x, py - y);
+}
+
+/** The point of the segment from a to b nearest to a given point. */
+export function closestPointOnSegment(
+    [px, py]: Point2,
+    [ax, ay]: Point2,
+    [bx, by]: Point2
+): Point2 {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+        lengthSquared === 0
+            ? 0
+            : Math.max(
+                  0,
+                  Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared)
+              );
+    return [ax + t * dx, ay + t * dy];
+}
+
+// Corners of a region in grid coordinates, walking its boundary from the
+// top edge of its first cell. Boundary edges keep the region on their
+// right, so the walk goes clockwise on screen and stays on the outside.
+function traceOutline(
+    region: Int32Array,
+    width: number,
+    height: number,
+    id: number,
+    first: number
+): Point2[] {
+    const key = (x: number, y: number) => y * (width + 1) + x;
+    const inside = (col: number, row: number) =>
+        col >= 0 &&
+        row >= 0 &&
+        col < width &&
+        row < height &&
+        region[row * width + col] === id;
+
+    const edges = new Map<number, number[]>();
+    const add = (from: number, to: number) => {
+        const list = edges.get(from);
+        if (list) list.push(to);
+        else edges.set(from, [to]);
+    };
+    for (let index = first; index < region.length; index++) {
+        if (region[index] !== id) continue;
+        const col = index % width;
+        const row = Math.floor(index / width);
+        if (!inside(col, row - 1)) add(key(col, row), key(col + 1, row));
+        if (!inside(col + 1, row)) {
+            add(key(col + 1, row), key(col + 1, row + 1));
+        }
+        if (!inside(col, row + 1)) {
+            add(key(col + 1, row + 1), key(col, row + 1));
+        }
+        if (!inside(col - 1, row)) add(key(col, row + 1), key(col, row));
+    }
+
+    const start = key(first % width, Math.floor(first / width));
+    const path: Point2[] = [];
+    let at = start;
+    do {
+        path.push([at % (width + 1), Math.floor(at / (width + 1))]);
+        const next = edges.get(at)?.pop();
+        if (next === undefined) break;
+        at = next;
+    } while (at !== start);
+
+    // Only corners are kept
+    return path.filter((point, i) => {
+        const previous = path[(i + path.length - 1) % path.length];
+        const following = path[(i + 1) % path.length];
+        return !(
+            (previous[0] === point[0] && point[0] === following[0]) ||
+            (previous[1] === point[1] && point[1] === following[1])
+        );
+    });
+}
@@ -0,0 +1,947 @@
+import { MIN_ROOM_SIDE } from "./layout-solver";
+import { WallSide } from "./model-schema";
+import { Point2, polygonArea, polygonBounds } from "./room-geometry";
+import {
+    EnclosedRoom,
+    Segment,
+    distanceToSegment,
+    findEnclosedRooms,
+} from "./sketch-enclosures";
+
+// Vector sketches drawn on the design canvas. The canvas records what was
+// drawn as primitives in canvas pixels (x grows right, y grows down, which
+// is south in the model) together with its scale, so rooms can be read
+// from the drawing exactly instead of being guessed from a raster image.
+// Rectangles and large circles are rooms, closed freehand strokes are
+// rooms of their drawn shape, and so is every space closed off by walls.
+// Lines and open strokes are walls too. A rectangle drawn around other
+// rooms is an outline (the building or a zone of it), not a room itself.
+// Door and window stamps sit on walls; labels inside a room name it.
+
+export const SKETCH_PRIMITIVE_KINDS = [
+    "stroke",
+    "line",
+    "rectangle",
+    "circle",
+    "wall",
+    "door",
+    "window",
+    "label",
+] as const;
+export type SketchPrimitiveKind = (typeof SKETCH_PRIMITIVE_KINDS)[number];
+
+// Units lengths are shown and typed in; sketches are in pixels either way
+export const SKETCH_UNITS = ["m", "ft"] as const;
+export type SketchUnit = (typeof SKETCH_UNITS)[number];
+
+export const FOOT = 0.3048;
+
+export interface SketchStroke {
+    kind: "stroke";
+    points: Point2[];
+}
+
+export interface SketchLine {
+    kind: "line";
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface SketchRectangle {
+    kind: "rectangle";
+    x: number; // top left corner
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface SketchCircle {
+    kind: "circle";
+    cx: number;
+    cy: number;
+    radius: number;
+}
+
+// Centerline of a wall
+export interface SketchWallSegment {
+    kind: "wall";
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface SketchOpening {
+    kind: "door" | "window";
+    x: number; // center, on the wall
+    y: number;
+    width: number;
+    angle: number; // direction of the wall, in degrees from +x towards +y
+}
+
+export interface SketchLabel {
+    kind: "label";
+    x: number; // where the text starts, at half its height
+    y: number;
+    text: string;
+}
+
+export type SketchPrimitive =
+    | SketchStroke
+    | SketchLine
+    | SketchRectangle
+    | SketchCircle
+    | SketchWallSegment
+    | SketchOpening
+    | SketchLabel;
+
+export interface SketchScale {
+    pixelsPerMeter: number;
+    unit?: SketchUnit; // "m" unless the drawing was measured in feet
+}
+
+export interface VectorSketch {
+    width: number; // canvas size in pixels
+    height: number;
+    scale: SketchScale;
+    primitives: SketchPrimitive[];
+}
+
+// Rooms and walls below are in meters, relative to the top left corner of
+// the drawing, with z for the canvas y
+export interface SketchRoom {
+    id: number; // 1-based, in drawing order
+    // walls: closed off by wall and line primitives
+    shape: "rectangle" | "circle" | "freehand" | "walls";
+    name?: string; // from a label inside the room
+    x: number;
+    z: number;
+    width: number; // bounding box
+    length: number;
+    area: number;
+    // Polygon relative to (x, z), for rooms that are not rectangles
+    footprint?: [number, number][];
+    connected_to: number[]; // ids of rooms sharing a wall
+}
+
+export interface SketchWall {
+    x1: number;
+    z1: number;
+    x2: number;
+    z2: number;
+    length: number;
+}
+
+export interface SketchOutline {
+    x: number;
+    z: number;
+    width: number;
+    length: number;
+}
+
+// Circles too small to be rooms: columns, fixtures, trees
+export interface SketchFeature {
+    x: number; // center
+    z: number;
+    diameter: number;
+}
+
+export interface SketchDoor {
+    x: number; // center
+    z: number;
+    width: number;
+    // Ids of the rooms on either side; one for a door to the outside
+    rooms: number[];
+}
+
+export interface SketchWindow {
+    x: number; // center
+    z: number;
+    width: number;
+    room: number | null;
+    wall: WallSide | null; // of the room's bounding box
+    position: number | null; // 0-1 along that wall, from its west or north end
+}
+
+export interface SketchInterpretation {
+    source: "vector";
+    pixelsPerMeter: number;
+    unit: SketchUnit;
+    width: number; // extent of the drawing in meters
+    length: number;
+    rooms: SketchRoom[];
+    outlines: SketchOutline[];
+    walls: SketchWall[];
+    doors: SketchDoor[];
+    windows: SketchWindow[];
+    features: SketchFeature[];
+    notes: string[]; // labels outside every room
+}
+
+export class SketchFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SketchFormatError";
+    }
+}
+
+const MAX_PRIMITIVES = 2000;
+const MAX_STROKE_POINTS = 5000;
+const MAX_LABEL_LENGTH = 80;
+// Strokes are straightened to this many pixels
+const STROKE_TOLERANCE = 2;
+// Sides of the polygon standing in for a round room
+const CIRCLE_SIDES = 16;
+// Meters from a door or window at which the rooms on its sides are sought
+const OPENING_REACH = 0.3;
+
+/**
+ * Checks an untrusted sketch, as sent by a client, and returns it with
+ * rectangles normalized to a positive size.
+ */
+export function parseVectorSketch(value: unknown): VectorSketch {
+    if (!isRecord(value)) {
+        throw new SketchFormatError("Sketch must be an object");
+    }
+    const { width, height, scale, primitives } = value;
+    if (!isPositive(width) || !isPositive(height)) {
+        throw new SketchFormatError("Sketch width and height must be positive");
+    }
+    if (!isRecord(scale) || !isPositive(scale.pixelsPerMeter)) {
+        throw new SketchFormatError(
+            "Sketch scale.pixelsPerMeter must be positive"
+        );
+    }
+    const { pixelsPerMeter, unit } = scale;
+    if (unit !== undefined && !isSketchUnit(unit)) {
+        throw new SketchFormatError(
+            `Sketch scale.unit must be one of: ${SKETCH_UNITS.join(", ")}`
+        );
+    }
+    if (!Array.isArray(primitives)) {
+        throw new SketchFormatError("Sketch primitives must be an array");
+    }
+    if (primitives.length > MAX_PRIMITIVES) {
+        throw new SketchFormatError(
+            `Sketch has ${primitives.length} primitives, at most ${MAX_PRIMITIVES} are allowed`
+        );
+    }
+
+    return {
+        width,
+        height,
+        scale: { pixelsPerMeter, unit },
+        primitives: primitives.map((primitive, i) =>
+            parsePrimitive(primitive, `primitives[${i}]`)
+        ),
+    };
+}
+
+/** Whether the sketch has anything drawn on it. */
+export function isEmptySketch(sketch: VectorSketch): boolean {
+    return sketch.primitives.length === 0;
+}
+
+/** Text written on the sketch, one label per line. */
+export function sketchLabelText(sketch: VectorSketch): string {
+    return sketch.primitives
+        .flatMap((primitive) =>
+            primitive.kind === "label" ? [primitive.text] : []
+        )
+        .join("\n");
+}
+
+/**
+ * Drops the points of a path that lie within `tolerance` of the line
+ * through their neighbours (Ramer-Douglas-Peucker).
+ */
+export function simplifyPath(points: Point2[], tolerance: number): Point2[] {
+    if (points.length <= 2) return points.slice();
+
+    const keep = new Array<boolean>(points.length).fill(false);
+    keep[0] = keep[points.length - 1] = true;
+    const pending: [number, number][] = [[0, points.length - 1]];
+    while (pending.length > 0) {
+        const [first, last] = pending.pop()!;
+        let farthest = -1;
+        let distance = tolerance;
+        for (let i = first + 1; i < last; i++) {
+            const d = distanceToSegment(points[i], points[first], points[last]);
+            if (d > distance) {
+                farthest = i;
+                distance = d;
+            }
+        }
+        if (farthest >= 0) {
+            keep[farthest] = true;
+            pending.push([first, farthest], [farthest, last]);
+        }
+    }
+    return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Straight segments that doors and windows can be set into: walls, lines
+ * and the sides of rectangles.
+ */
+export function sketchWallSegments(primitives: SketchPrimitive[]): Segment[] {
+    return primitives.flatMap((primitive): Segment[] => {
+        switch (primitive.kind) {
+            case "wall":
+            case "line":
+                return [
+                    [
+                        [primitive.x1, primitive.y1],
+                        [primitive.x2, primitive.y2],
+                    ],
+                ];
+            case "rectangle": {
+                const corners = rectangleCorners(primitive);
+                return corners.map(
+                    (corner, i) => [corner, corners[(i + 1) % 4]] as Segment
+                );
+            }
+            default:
+                return [];
+        }
+    });
+}
+
+/**
+ * Reads rooms, walls, openings and outlines from a sketch, in meters at the
+ * sketch's scale.
+ */
+export function interpretVectorSketch(
+    sketch: VectorSketch
+): SketchInterpretation {
+    const ppm = sketch.scale.pixelsPerMeter;
+    const bounds = drawingBounds(sketch.primitives);
+    const toX = (x: number) => round((x - bounds.minX) / ppm);
+    const toZ = (y: number) => round((y - bounds.minZ) / ppm);
+
+    // Rooms and outlines in the making, with their extent in pixels
+    interface Candidate {
+        shape: SketchRoom["shape"];
+        box: SketchOutline;
+        footprint?: Point2[];
+        pixels: { minX: number; minY: number; maxX: number; maxY: number };
+        contains(point: Point2): boolean;
+    }
+    const candidates: Candidate[] = [];
+    const walls: SketchWall[] = [];
+    const features: SketchFeature[] = [];
+    // Centerlines that close off rooms
+    const barriers: Segment[] = [];
+    const addWall = (a: Point2, b: Point2) => {
+        const [[x1, y1], [x2, y2]] = [a, b];
+        const wall = { x1: toX(x1), z1: toZ(y1), x2: toX(x2), z2: toZ(y2) };
+        const length = round(Math.hypot(wall.x2 - wall.x1, wall.z2 - wall.z1));
+        if (length === 0) return;
+        walls.push({ ...wall, length });
+        barriers.push([a, b]);
+    };
+    const addCandidate = (
+        shape: SketchRoom["shape"],
+        pixels: Candidate["pixels"],
+        contains: Candidate["contains"],
+        outline?: Point2[]
+    ) =>
+        candidates.push({
+            shape,
+            box: {
+                x: toX(pixels.minX),
+                z: toZ(pixels.minY),
+                width: round((pixels.maxX - pixels.minX) / ppm),
+                length: round((pixels.maxY - pixels.minY) / ppm),
+            },
+            footprint: outline?.map(
+                ([x, y]) =>
+                    [
+                        round((x - pixels.minX) / ppm),
+                        round((y - pixels.minY) / ppm),
+                    ] as Point2
+            ),
+            pixels,
+            contains,
+        });
+
+    for (const primitive of sketch.primitives) {
+        switch (primitive.kind) {
+            case "rectangle": {
+                const pixels = {
+                    minX: primitive.x,
+                    minY: primitive.y,
+                    maxX: primitive.x + primitive.width,
+                    maxY: primitive.y + primitive.height,
+                };
+                addCandidate("rectangle", pixels, ([x, y]) =>
+                    isInBox([x, y], pixels)
+                );
+                break;
+            }
+            case "circle": {
+                const { cx, cy, radius } = primitive;
+                if (round((radius * 2) / ppm) < MIN_ROOM_SIDE) {
+                    features.push({
+                        x: toX(cx),
+                        z: toZ(cy),
+                        diameter: round((radius * 2) / ppm),
+                    });
+                    break;
+                }
+                addCandidate(
+                    "circle",
+                    {
+                        minX: cx - radius,
+                        minY: cy - radius,
+                        maxX: cx + radius,
+                        maxY: cy + radius,
+                    },
+                    ([x, y]) => Math.hypot(x - cx, y - cy) <= radius,
+                    Array.from({ length: CIRCLE_SIDES }, (_, i) => {
+                        const angle = (2 * Math.PI * i) / CIRCLE_SIDES;
+                        return [
+                            cx + radius * Math.cos(angle),
+                            cy + radius * Math.sin(angle),
+                        ] as Point2;
+                    })
+                );
+                break;
+            }
+            case "wall":
+            case "line":
+                addWall(
+                    [primitive.x1, primitive.y1],
+                    [primitive.x2, primitive.y2]
+                );
+                break;
+            case "stroke": {
+                const path = simplifyPath(primitive.points, STROKE_TOLERANCE);
+                const polygon = closedStrokePolygon(path, ppm);
+                if (polygon) {
+                    const box = polygonBounds(polygon);
+                    addCandidate(
+                        "freehand",
+                        {
+                            minX: box.minX,
+                            minY: box.minZ,
+                            maxX: box.maxX,
+                            maxY: box.maxZ,
+                        },
+                        (point) => isInPolygon(point, polygon),
+                        polygon
+                    );
+                } else {
+                    for (let i = 1; i < path.length; i++) {
+                        addWall(path[i - 1], path[i]);
+                    }
+                }
+                break;
+            }
+        }
+    }
+
+    // Where walls are drawn, rectangle sides close off spaces with them;
+    // a space that is just the inside of a rectangle is already a room
+    const drawn = candidates.map(({ pixels }) => pixels);
+    const sameBox = (a: EnclosedRoom, b: Candidate["pixels"]) =>
+        Math.max(
+            Math.abs(a.minX - b.minX),
+            Math.abs(a.minY - b.minY),
+            Math.abs(a.maxX - b.maxX),
+            Math.abs(a.maxY - b.maxY)
+        ) <= Math.max(3, 0.1 * ppm);
+    const rectangles = sketch.primitives.filter(
+        (primitive) => primitive.kind === "rectangle"
+    );
+    const closers = barriers.length > 0 ? sketchWallSegments(rectangles) : [];
+    findEnclosedRooms([...barriers, ...closers], ppm)
+        .filter((room) => !drawn.some((box) => sameBox(room, box)))
+        .forEach((room) =>
+            addCandidate(
+                "walls",
+                room,
+                room.contains,
+                room.outline ?? undefined
+            )
+        );
+
+    // Shapes drawn around other shapes are outlines
+    const contains = (outer: SketchOutline, inner: SketchOutline) =>
+        outer !== inner &&
+        outer.width * outer.length > inner.width * inner.length &&
+        inner.x >= outer.x - 0.01 &&
+        inner.z >= outer.z - 0.01 &&
+        inner.x + inner.width <= outer.x + outer.width + 0.01 &&
+        inner.z + inner.length <= outer.z + outer.length + 0.01;
+    const outlines = candidates.filter(
+        ({ box, shape }) =>
+            shape === "rectangle" &&
+            candidates.some((other) => contains(box, other.box))
+    );
+    const placed = candidates.filter((entry) => !outlines.includes(entry));
+
+    const rooms: SketchRoom[] = placed.map(({ box, shape, footprint }, i) => ({
+        id: i + 1,
+        shape,
+        ...box,
+        area: round(
+            footprint ? polygonArea(footprint) : box.width * box.length
+        ),
+        footprint: footprint?.map(([x, z]) => [x, z] as [number, number]),
+        connected_to: [],
+    }));
+    // Innermost room at a point
+    const roomAt = (point: Point2): SketchRoom | null => {
+        let found: SketchRoom | null = null;
+        placed.forEach((candidate, i) => {
+            if (
+                candidate.contains(point) &&
+                (!found || rooms[i].area < found.area)
+            ) {
+                found = rooms[i];
+            }
+        });
+        return found;
+    };
+
+    // Rooms whose sides lie on the same line, within a hand's slip, and
+    // overlap by at least a door's width share a wall
+    const tolerance = Math.max(0.15, 6 / ppm);
+    rooms.forEach((a, i) =>
+        rooms.slice(i + 1).forEach((b) => {
+            if (sharesWall(a, b, tolerance)) {
+                a.connected_to.push(b.id);
+                b.connected_to.push(a.id);
+            }
+        })
+    );
+
+    const doors: SketchDoor[] = [];
+    const windows: SketchWindow[] = [];
+    const notes: string[] = [];
+    for (const primitive of sketch.primitives) {
+        if (primitive.kind === "label") {
+            const room = roomAt([primitive.x, primitive.y]);
+            if (room && !room.name) room.name = primitive.text;
+            else notes.push(primitive.text);
+        } else if (primitive.kind === "door" || primitive.kind === "window") {
+            // The rooms just off either face of the wall
+            const angle = (primitive.angle * Math.PI) / 180;
+            const reach = Math.max(OPENING_REACH * ppm, 8);
+            const [nx, ny] = [-Math.sin(angle), Math.cos(angle)];
+            const sides = [1, -1].map((direction) =>
+                roomAt([
+                    primitive.x + direction * nx * reach,
+                    primitive.y + direction * ny * reach,
+                ])
+            );
+            const position = {
+                x: toX(primitive.x),
+                z: toZ(primitive.y),
+                width: round(primitive.width / ppm),
+            };
+            const found = sides.filter(
+                (room, i): room is SketchRoom =>
+                    !!room && sides.indexOf(room) === i
+            );
+            if (primitive.kind === "door") {
+                doors.push({ ...position, rooms: found.map(({ id }) => id) });
+            } else {
+                const room = found[0] ?? null;
+                windows.push({
+                    ...position,
+                    room: room?.id ?? null,
+                    ...windowWall(room, position),
+                });
+            }
+        }
+    }
+
+    return {
+        source: "vector",
+        pixelsPerMeter: ppm,
+        unit: sketch.scale.unit ?? "m",
+        width: round((bounds.maxX - bounds.minX) / ppm),
+        length: round((bounds.maxZ - bounds.minZ) / ppm),
+        rooms,
+        outlines: outlines.map(({ box }) => box),
+        walls,
+        doors,
+        windows,
+        features,
+        notes,
+    };
+}
+
+/** Distance in pixels from a point to the drawn outline of a primitive. */
+export function distanceToPrimitive(
+    primitive: SketchPrimitive,
+    point: Point2
+): number {
+    switch (primitive.kind) {
+        case "stroke": {
+            const { points } = primitive;
+            let distance = Infinity;
+            for (let i = 1; i < points.length; i++) {
+                distance = Math.min(
+                    distance,
+                    distanceToSegment(point, points[i - 1], points[i])
+                );
+            }
+            return distance;
+        }
+        case "line":
+        case "wall":
+            return distanceToSegment(
+                point,
+                [primitive.x1, primitive.y1],
+                [primitive.x2, primitive.y2]
+            );
+        case "rectangle": {
+            const corners = rectangleCorners(primitive);
+            return Math.min(
+                ...corners.map((corner, i) =>
+                    distanceToSegment(point, corner, corners[(i + 1) % 4])
+                )
+            );
+        }
+        case "circle":
+            return Math.abs(
+                Math.hypot(point[0] - primitive.cx, point[1] - primitive.cy) -
+                    primitive.radius
+            );
+        case "door":
+        case "window":
+            return distanceToSegment(point, ...openingEnds(primitive));
+        case "label":
+            // The text itself is not measured; its start stands for it
+            return Math.hypot(point[0] - primitive.x, point[1] - primitive.y);
+    }
+}
+
+/** End points of a door or window along its wall. */
+export function openingEnds(opening: SketchOpening): Segment {
+    const angle = (opening.angle * Math.PI) / 180;
+    const [dx, dy] = [
+        (Math.cos(angle) * opening.width) / 2,
+        (Math.sin(angle) * opening.width) / 2,
+    ];
+    return [
+        [opening.x - dx, opening.y - dy],
+        [opening.x + dx, opening.y + dy],
+    ];
+}
+
+/** A length for display: "4.25 m", or 13' 11" in feet. */
+export function formatSketchLength(meters: number, unit: SketchUnit): string {
+    if (unit === "m") return `${Math.round(meters * 100) / 100} m`;
+    const totalInches = Math.round(meters / (FOOT / 12));
+    const feet = Math.floor(totalInches / 12);
+    const inches = totalInches % 12;
+    return inches === 0 ? `${feet}'` : `${feet}' ${inches}"`;
+}
+
+/**
+ * Reads typed lengths, in meters: "4.5" (in the sketch's unit), "450 cm",
+ * "12'6\"", "12 ft 6 in", or two of them as "4 x 3.5". Null when any
+ * length is unreadable or not positive.
+ */
+export function parseSketchLengths(
+    text: string,
+    unit: SketchUnit
+): number[] | null {
+    const parts = text
+        .trim()
+        .split(/\s*(?:x|×|\*|by|,)\s*/i)
+        .filter(Boolean);
+    if (parts.length === 0 || parts.length > 2) return null;
+
+    const lengths = parts.map((part) => parseLength(part, unit));
+    return lengths.every((length): length is number => length !== null)
+        ? lengths
+        : null;
+}
+
+function parseLength(text: string, unit: SketchUnit): number | null {
+    const number = "(\\d+(?:\\.\\d+)?|\\.\\d+)";
+    const imperial = text.match(
+        new RegExp(
+            `^${number}\\s*(?:'|ft|feet|foot)\\s*(?:${number}\\s*(?:"|in|inch|inches)?)?$`,
+            "i"
+        )
+    );
+    const inches = text.match(
+        new RegExp(`^${number}\\s*(?:"|in|inch|inches)$`, "i")
+    );
+    const metric = text.match(new RegExp(`^${number}\\s*(mm|cm|m)?$`, "i"));
+
+    let meters: number | null = null;
+    if (imperial) {
+        const feet = parseFloat(imperial[1]);
+        meters =
+            (feet + (imperial[2] ? parseFloat(imperial[2]) / 12 : 0)) * FOOT;
+    } else if (inches) {
+        meters = (parseFloat(inches[1]) / 12) * FOOT;
+    } else if (metric) {
+        const value = parseFloat(metric[1]);
+        const suffix = metric[2]?.toLowerCase();
+        meters =
+            suffix === "mm"
+                ? value / 1000
+                : suffix === "cm"
+                  ? value / 100
+                  : suffix === "m" || unit === "m"
+                    ? value
+                    : value * FOOT;
+    }
+    return meters !== null && meters > 0 ? meters : null;
+}
+
+function parsePrimitive(value: unknown, path: string): SketchPrimitive {
+    if (!isRecord(value)) {
+        throw new SketchFormatError(`${path} must be an object`);
+    }
+    const number = (key: string): number => {
+        const field = value[key];
+        if (typeof field !== "number" || !Number.isFinite(field)) {
+            throw new SketchFormatError(`${path}.${key} must be a number`);
+        }
+        return field;
+    };
+
+    const kind = value.kind;
+    switch (kind) {
+        case "stroke": {
+            const points = value.points;
+            if (!Array.isArray(points) || points.length < 2) {
+                throw new SketchFormatError(
+                    `${path}.points must list at least two points`
+                );
+            }
+            if (points.length > MAX_STROKE_POINTS) {
+                throw new SketchFormatError(
+                    `${path} has more than ${MAX_STROKE_POINTS} points`
+                );
+            }
+            return {
+                kind: "stroke",
+                points: points.map((point: unknown, i): Point2 => {
+                    if (
+                        !Array.isArray(point) ||
+                        point.length !== 2 ||
+                        !point.every(Number.isFinite)
+                    ) {
+                        throw new SketchFormatError(
+                            `${path}.points[${i}] must be an [x, y] pair`
+                        );
+                    }
+                    return [point[0], point[1]];
+                }),
+            };
+        }
+        case "line":
+        case "wall":
+            return {
+                kind,
+                x1: number("x1"),
+                y1: number("y1"),
+                x2: number("x2"),
+                y2: number("y2"),
+            };
+        case "rectangle": {
+            const x = number("x");
+            const y = number("y");
+            const width = number("width");
+            const height = number("height");
+            return {
+                kind: "rectangle",
+                x: Math.min(x, x + width),
+                y: Math.min(y, y + height),
+                width: Math.abs(width),
+                height: Math.abs(height),
+            };
+        }
+        case "circle":
+            return {
+                kind: "circle",
+                cx: number("cx"),
+                cy: number("cy"),
+                radius: Math.abs(number("radius")),
+            };
+        case "door":
+        case "window": {
+            const opening = {
+                kind,
+                x: number("x"),
+                y: number("y"),
+                width: number("width"),
+                angle: number("angle"),
+            };
+            if (opening.width <= 0) {
+                throw new SketchFormatError(`${path}.width must be positive`);
+            }
+            return opening;
+        }
+        case "label": {
+            const x = number("x");
+            const y = number("y");
+            const text =
+                typeof value.text === "string" ? value.text.trim() : "";
+            if (!text || text.length > MAX_LABEL_LENGTH) {
+                throw new SketchFormatError(
+                    `${path}.text must be 1 to ${MAX_LABEL_LENGTH} characters`
+                );
+            }
+            return { kind: "label", x, y, text };
+        }
+        default:
+            throw new SketchFormatError(
+                `${path}.kind must be one of: ${SKETCH_PRIMITIVE_KINDS.join(", ")}`
+            );
+    }
+}
+
+function drawingBounds(primitives: SketchPrimitive[]) {
+    const points: Point2[] = primitives.flatMap((primitive): Point2[] => {
+        switch (primitive.kind) {
+            case "stroke":
+                return primitive.points;
+            case "line":
+            case "wall":
+                return [
+                    [primitive.x1, primitive.y1],
+                    [primitive.x2, primitive.y2],
+                ];
+            case "rectangle":
+                return rectangleCorners(primitive);
+            case "circle":
+                return [
+                    [
+                        primitive.cx - primitive.radius,
+                        primitive.cy - primitive.radius,
+                    ],
+                    [
+                        primitive.cx + primitive.radius,
+                        primitive.cy + primitive.radius,
+                    ],
+                ];
+            case "door":
+            case "window":
+                return openingEnds(primitive);
+            case "label":
+                return [[primitive.x, primitive.y]];
+        }
+    });
+    return points.length > 0
+        ? polygonBounds(points)
+        : { minX: 0, maxX: 0, minZ: 0, maxZ: 0 };
+}
+
+function rectangleCorners({ x, y, width, height }: SketchRectangle): Point2[] {
+    return [
+        [x, y],
+        [x + width, y],
+        [x + width, y + height],
+        [x, y + height],
+    ];
+}
+
+// A stroke that ends near where it started encloses a room, if the room is
+// large enough to be one
+function closedStrokePolygon(path: Point2[], ppm: number): Point2[] | null {
+    if (path.length < 4) return null;
+    let perimeter = 0;
+    for (let i = 1; i < path.length; i++) {
+        perimeter += Math.hypot(
+            path[i][0] - path[i - 1][0],
+            path[i][1] - path[i - 1][1]
+        );
+    }
+    const [first, last] = [path[0], path[path.length - 1]];
+    const gap = Math.hypot(last[0] - first[0], last[1] - first[1]);
+    if (gap > Math.max(10, perimeter * 0.1)) return null;
+
+    // The stroke ends where it began: the polygon closes from its last
+    // corner back to the first
+    const polygon = path.slice(0, -1);
+    const bounds = polygonBounds(polygon);
+    const side = Math.min(bounds.maxX - bounds.minX, bounds.maxZ - bounds.minZ);
+    return round(side / ppm) >= MIN_ROOM_SIDE ? polygon : null;
+}
+
+// The side of a room's bounding box a window is on, and where along it
+function windowWall(
+    room: SketchRoom | null,
+    window: { x: number; z: number }
+): { wall: WallSide | null; position: number | null } {
+    if (!room) return { wall: null, position: null };
+    const distances: [WallSide, number][] = [
+        ["north", Math.abs(window.z - room.z)],
+        ["south", Math.abs(window.z - (room.z + room.length))],
+        ["west", Math.abs(window.x - room.x)],
+        ["east", Math.abs(window.x - (room.x + room.width))],
+    ];
+    const [wall] = distances.reduce((best, entry) =>
+        entry[1] < best[1] ? entry : best
+    );
+    const along =
+        wall === "north" || wall === "south"
+            ? (window.x - room.x) / room.width
+            : (window.z - room.z) / room.length;
+    return { wall, position: round(Math.min(1, Math.max(0, along))) };
+}
+
+function sharesWall(a: SketchRoom, b: SketchRoom, tolerance: number): boolean {
+    const overlap = (from1: number, to1: number, from2: number, to2: number) =>
+        Math.min(to1, to2) - Math.max(from1, from2);
+    const near = (p: number, q: number) => Math.abs(p - q) <= tolerance;
+    const minimum = 0.6;
+
+    const vertical =
+        (near(a.x + a.width, b.x) || near(b.x + b.width, a.x)) &&
+        overlap(a.z, a.z + a.length, b.z, b.z + b.length) >= minimum;
+    const horizontal =
+        (near(a.z + a.length, b.z) || near(b.z + b.length, a.z)) &&
+        overlap(a.x, a.x + a.width, b.x, b.x + b.width) >= minimum;
+    return vertical || horizontal;
+}
+
+function isInBox(
+    [x, y]: Point2,
+    box: { minX: number; minY: number; maxX: number; maxY: number }
+): boolean {
+    return x >= box.minX && x <= box.maxX && y >= box.minY && y <= box.maxY;
+}
+
+// Even-odd rule
+function isInPolygon([x, y]: Point2, polygon: Point2[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSketchUnit(value: unknown): value is SketchUnit {
+    return SKETCH_UNITS.includes(value as SketchUnit);
+}
+
+function isPositive(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+// Centimeter precision
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
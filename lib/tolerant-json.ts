@@ -0,0 +1,320 @@
+// Incremental JSON parser for model output. Models wrap JSON in prose or
+// markdown fences, leave trailing commas and comments in, and get cut off
+// at the token limit; this parser accepts all of that and reports what it
+// cannot accept with the position it gave up at.
+//
+// Text before the first "{" or "[" and after the matching close is
+// ignored. Chunks can be pushed as they stream in, and snapshot() returns
+// the value built so far.
+
+export class JSONParseError extends Error {
+    readonly position: number;
+    readonly truncated: boolean;
+
+    constructor(message: string, position: number, truncated = false) {
+        super(`${message} at position ${position}`);
+        this.name = "JSONParseError";
+        this.position = position;
+        this.truncated = truncated;
+    }
+}
+
+export interface TolerantJSONOptions {
+    // Close whatever is still open at the end of the input instead of
+    // failing. Unfinished strings and numbers are dropped.
+    allowTruncated?: boolean;
+}
+
+type Frame =
+    | {
+          kind: "object";
+          value: Record<string, unknown>;
+          key: string | null;
+          state: "key" | "colon" | "value" | "comma";
+      }
+    | {
+          kind: "array";
+          value: unknown[];
+          state: "value" | "comma";
+      };
+
+const ESCAPES: Record<string, string> = {
+    '"': '"',
+    "\\": "\\",
+    "/": "/",
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+};
+
+const NUMBER = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+export class TolerantJSONParser {
+    private stack: Frame[] = [];
+    private root: unknown = undefined;
+    private started = false;
+    private done = false;
+    private position = 0;
+
+    // Token in progress
+    private text: string | null = null;
+    private textIsKey = false;
+    private escape: string | null = null;
+    private literal: string | null = null;
+    private comment: "line" | "block" | null = null;
+    private slash = false;
+    private star = false;
+
+    /** Feeds the next chunk of text. Throws JSONParseError on bad input. */
+    push(chunk: string): this {
+        for (const ch of chunk) {
+            this.step(ch);
+            this.position++;
+        }
+        return this;
+    }
+
+    /** True once the top-level value has been closed. */
+    get complete(): boolean {
+        return this.done;
+    }
+
+    /**
+     * The value parsed so far. Objects and arrays that are still open are
+     * included with the members finished so far; the result is live and
+     * keeps changing as more text is pushed.
+     */
+    snapshot(): unknown {
+        return this.root;
+    }
+
+    /** Ends the input and returns the parsed value. */
+    finish(options: TolerantJSONOptions = {}): unknown {
+        if (!this.started) {
+            throw new JSONParseError(
+                "no JSON object or array found",
+                this.position
+            );
+        }
+        if (this.done) return this.root;
+
+        if (!options.allowTruncated) {
+            throw new JSONParseError(
+                "unexpected end of input",
+                this.position,
+                true
+            );
+        }
+        this.text = null;
+        this.literal = null;
+        this.stack = [];
+        this.done = true;
+        return this.root;
+    }
+
+    private step(ch: string) {
+        if (this.done) return;
+
+        if (!this.started) {
+            if (ch === "{" || ch === "[") {
+                this.started = true;
+                this.open(ch);
+            }
+            return;
+        }
+
+        if (this.comment === "line") {
+            if (ch === "\n") this.comment = null;
+            return;
+        }
+        if (this.comment === "block") {
+            if (this.star && ch === "/") this.comment = null;
+            this.star = ch === "*";
+            return;
+        }
+
+        if (this.text !== null) {
+            this.stepString(ch);
+            return;
+        }
+
+        if (this.literal !== null) {
+            if (/[\w+\-.]/.test(ch)) {
+                this.literal += ch;
+                return;
+            }
+            this.finishLiteral();
+            if (this.done) return;
+        }
+
+        if (this.slash) {
+            this.slash = false;
+            if (ch === "/" || ch === "*") {
+                this.comment = ch === "/" ? "line" : "block";
+                this.star = false;
+                return;
+            }
+            this.fail(`unexpected "/"`);
+        }
+
+        if (/\s/.test(ch)) return;
+        if (ch === "/") {
+            this.slash = true;
+            return;
+        }
+
+        const top = this.stack[this.stack.length - 1];
+        if (top.kind === "object") {
+            switch (top.state) {
+                case "key":
+                    if (ch === '"') return this.startString(true);
+                    // Also accepts a trailing comma before the brace
+                    if (ch === "}") return this.close();
+                    return this.fail(`expected a property name, got "${ch}"`);
+                case "colon":
+                    if (ch === ":") {
+                        top.state = "value";
+                        return;
+                    }
+                    return this.fail(`expected ":", got "${ch}"`);
+                case "value":
+                    return this.startValue(ch);
+                case "comma":
+                    if (ch === ",") {
+                        top.state = "key";
+                        return;
+                    }
+                    if (ch === "}") return this.close();
+                    return this.fail(`expected "," or "}", got "${ch}"`);
+            }
+        }
+
+        if (top.state === "value") {
+            if (ch === "]") return this.close();
+            return this.startValue(ch);
+        }
+        if (ch === ",") {
+            top.state = "value";
+            return;
+        }
+        if (ch === "]") return this.close();
+        this.fail(`expected "," or "]", got "${ch}"`);
+    }
+
+    private stepString(ch: string) {
+        if (this.escape !== null) {
+            if (this.escape === "") {
+                if (ch === "u") {
+                    this.escape = "u";
+                    return;
+                }
+                // Unknown escapes keep the character as written
+                this.text += ESCAPES[ch] ?? ch;
+                this.escape = null;
+                return;
+            }
+            this.escape += ch;
+            if (this.escape.length === 5) {
+                const hex = this.escape.slice(1);
+                if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+                    this.fail(`invalid unicode escape "\\u${hex}"`);
+                }
+                this.text += String.fromCharCode(parseInt(hex, 16));
+                this.escape = null;
+            }
+            return;
+        }
+
+        if (ch === "\\") {
+            this.escape = "";
+        } else if (ch === '"') {
+            const text = this.text as string;
+            this.text = null;
+            if (this.textIsKey) {
+                const top = this.stack[this.stack.length - 1];
+                if (top.kind === "object") {
+                    top.key = text;
+                    top.state = "colon";
+                }
+            } else {
+                this.attach(text);
+            }
+        } else {
+            // Raw newlines and tabs inside strings are kept
+            this.text += ch;
+        }
+    }
+
+    private startString(isKey: boolean) {
+        this.text = "";
+        this.textIsKey = isKey;
+        this.escape = null;
+    }
+
+    private startValue(ch: string) {
+        if (ch === "{" || ch === "[") return this.open(ch);
+        if (ch === '"') return this.startString(false);
+        if (/[-\dtfn]/.test(ch)) {
+            this.literal = ch;
+            return;
+        }
+        this.fail(`unexpected "${ch}"`);
+    }
+
+    private finishLiteral() {
+        const literal = this.literal as string;
+        this.literal = null;
+        if (literal === "true") return this.attach(true);
+        if (literal === "false") return this.attach(false);
+        if (literal === "null") return this.attach(null);
+        if (NUMBER.test(literal)) return this.attach(Number(literal));
+        this.fail(`invalid literal "${literal}"`, literal.length);
+    }
+
+    private open(ch: string) {
+        if (ch === "{") {
+            const value: Record<string, unknown> = {};
+            this.attach(value);
+            this.stack.push({ kind: "object", value, key: null, state: "key" });
+        } else {
+            const value: unknown[] = [];
+            this.attach(value);
+            this.stack.push({ kind: "array", value, state: "value" });
+        }
+    }
+
+    private close() {
+        this.stack.pop();
+        if (this.stack.length === 0) this.done = true;
+    }
+
+    private attach(value: unknown) {
+        const top = this.stack[this.stack.length - 1];
+        if (!top) {
+            this.root = value;
+        } else if (top.kind === "object") {
+            top.value[top.key as string] = value;
+            top.key = null;
+            top.state = "comma";
+        } else {
+            top.value.push(value);
+            top.state = "comma";
+        }
+    }
+
+    private fail(message: string, back = 0): never {
+        throw new JSONParseError(message, this.position - back);
+    }
+}
+
+/**
+ * Parses the first JSON object or array in a piece of model output.
+ */
+export function parseTolerantJSON(
+    text: string,
+    options: TolerantJSONOptions = {}
+): unknown {
+    return new TolerantJSONParser().push(text).finish(options);
+}
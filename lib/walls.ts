@@ -0,0 +1,425 @@
+import { ModelData, ModelRoom, WallSide } from "./model-schema";
+import { getRoomLevel } from "./model-levels";
+import { Point2, getRoomPolygon, signedPolygonArea } from "./room-geometry";
+
+// Wall subsystem: derives wall segments from room boundaries, merges the
+// party walls two rooms share and cuts door and window openings into them.
+//
+// Coordinates follow the viewer: x grows east, z grows south, y is up.
+// Every wall lies on a line described by its angle (radians in [0, pi),
+// measured from +x towards +z) and its perpendicular offset; positions
+// along the line are measured with t = x cos(angle) + z sin(angle). For an
+// axis-aligned room the north and south walls have angle 0 and offset z,
+// so t is simply x.
+
+export const EXTERIOR_WALL_THICKNESS = 0.3;
+export const INTERIOR_WALL_THICKNESS = 0.15;
+export const DEFAULT_SILL_HEIGHT = 0.9;
+
+const EPSILON = 0.01;
+
+export interface WallOpening {
+    kind: "door" | "window";
+    index: number; // index into model.doors or model.windows
+    start: number; // distance from the wall start, in meters
+    end: number;
+    bottom: number; // height above the wall base
+    top: number;
+}
+
+export interface WallSegment {
+    id: string;
+    level: string;
+    angle: number; // direction of the wall line
+    offset: number; // perpendicular offset of the wall line
+    start: number; // extent along the line
+    end: number;
+    base: number; // elevation of the wall bottom
+    height: number;
+    thickness: number;
+    rooms: string[]; // one room for exterior walls, two for party walls
+    exterior: boolean;
+    // How far the wall is extended past start/end to close the corners
+    extendStart: number;
+    extendEnd: number;
+    openings: WallOpening[];
+}
+
+export interface UnplacedOpening {
+    kind: "door" | "window";
+    index: number;
+    reason: string;
+}
+
+export interface WallLayout {
+    walls: WallSegment[];
+    unplaced: UnplacedOpening[];
+}
+
+export interface WallOptions {
+    exteriorThickness?: number;
+    interiorThickness?: number;
+}
+
+// A solid block of a wall in wall-local coordinates: u along the wall from
+// its (extended) start, v up from its base
+export interface WallPiece {
+    u0: number;
+    u1: number;
+    v0: number;
+    v1: number;
+}
+
+export interface RoomEdge {
+    room: ModelRoom;
+    angle: number;
+    offset: number;
+    start: number;
+    end: number;
+    normal: Point2; // outward unit normal in world space
+}
+
+const SIDE_DIRECTIONS: Record<WallSide, Point2> = {
+    north: [0, -1],
+    south: [0, 1],
+    east: [1, 0],
+    west: [-1, 0],
+};
+
+/**
+ * Returns the edges of a room's footprint as wall-line intervals.
+ */
+export function getRoomEdges(room: ModelRoom): RoomEdge[] {
+    const polygon = getRoomPolygon(room);
+    const winding = signedPolygonArea(polygon) >= 0 ? 1 : -1;
+
+    return polygon.map((p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        const dx = q[0] - p[0];
+        const dz = q[1] - p[1];
+        const length = Math.hypot(dx, dz) || 1;
+
+        let angle = Math.atan2(dz, dx);
+        if (angle < 0) angle += Math.PI;
+        if (angle >= Math.PI - 1e-6) angle = 0;
+        // Snap near-axis angles so rounding noise does not split walls
+        angle = Math.round(angle * 1e4) / 1e4;
+
+        const tp = project(p, angle);
+        const tq = project(q, angle);
+        return {
+            room,
+            angle,
+            offset: perpendicular(p, angle),
+            start: Math.min(tp, tq),
+            end: Math.max(tp, tq),
+            normal: [
+                (winding * dz) / length,
+                (-winding * dx) / length,
+            ] as Point2,
+        };
+    });
+}
+
+/**
+ * Picks the footprint edge that best faces the given compass side,
+ * preferring the longest one among equally facing edges.
+ */
+export function getRoomSideEdge(
+    room: ModelRoom,
+    side: WallSide
+): RoomEdge | null {
+    const [dx, dz] = SIDE_DIRECTIONS[side];
+    let best: RoomEdge | null = null;
+    let bestScore = 0.5; // must face within 60 degrees of the side
+    for (const edge of getRoomEdges(room)) {
+        const facing = edge.normal[0] * dx + edge.normal[1] * dz;
+        const score = facing + (edge.end - edge.start) * 1e-6;
+        if (score > bestScore) {
+            best = edge;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/**
+ * Derives the wall segments of a model. Edges of different rooms lying on
+ * the same line are split at every room corner; each piece records which
+ * rooms it bounds, so a wall between two rooms is produced only once.
+ */
+export function deriveWalls(
+    model: ModelData,
+    options: WallOptions = {}
+): WallLayout {
+    const exteriorThickness =
+        options.exteriorThickness ?? EXTERIOR_WALL_THICKNESS;
+    const interiorThickness =
+        options.interiorThickness ?? INTERIOR_WALL_THICKNESS;
+
+    // Group collinear edges by level, angle and offset
+    const groups = new Map<string, (RoomEdge & { level: string })[]>();
+    model.rooms.forEach((room) => {
+        if (room.width <= 0 || room.length <= 0 || room.height <= 0) return;
+        const level = getRoomLevel(model, room).name;
+        getRoomEdges(room).forEach((edge) => {
+            const key = `${level}|${edge.angle}|${round(edge.offset)}`;
+            const group = groups.get(key) || [];
+            group.push({ ...edge, level });
+            groups.set(key, group);
+        });
+    });
+
+    const walls: WallSegment[] = [];
+    groups.forEach((edges) => {
+        const breakpoints = uniqueSorted(
+            edges.flatMap((edge) => [edge.start, edge.end])
+        );
+
+        let current: WallSegment | null = null;
+        const groupWalls: WallSegment[] = [];
+        for (let i = 0; i < breakpoints.length - 1; i++) {
+            const a = breakpoints[i];
+            const b = breakpoints[i + 1];
+            const covering = edges.filter(
+                (edge) => edge.start <= a + EPSILON && edge.end >= b - EPSILON
+            );
+            if (covering.length === 0) {
+                current = null;
+                continue;
+            }
+
+            const rooms = covering.map((edge) => edge.room.name).sort();
+            if (
+                current &&
+                Math.abs(current.end - a) < EPSILON &&
+                current.rooms.join("|") === rooms.join("|")
+            ) {
+                current.end = b;
+                continue;
+            }
+
+            const exterior = rooms.length === 1;
+            current = {
+                id: "",
+                level: covering[0].level,
+                angle: covering[0].angle,
+                offset: covering[0].offset,
+                start: a,
+                end: b,
+                base: Math.min(...covering.map((edge) => edge.room.y)),
+                height: Math.max(...covering.map((edge) => edge.room.height)),
+                thickness: exterior ? exteriorThickness : interiorThickness,
+                rooms,
+                exterior,
+                extendStart: 0,
+                extendEnd: 0,
+                openings: [],
+            };
+            groupWalls.push(current);
+        }
+
+        // Close the corners where a wall does not continue in a collinear
+        // neighbour
+        groupWalls.forEach((wall) => {
+            const continuesBefore = groupWalls.some(
+                (other) => other !== wall && Math.abs(other.end - wall.start) < EPSILON
+            );
+            const continuesAfter = groupWalls.some(
+                (other) => other !== wall && Math.abs(other.start - wall.end) < EPSILON
+            );
+            wall.extendStart = continuesBefore ? 0 : exteriorThickness / 2;
+            wall.extendEnd = continuesAfter ? 0 : exteriorThickness / 2;
+        });
+
+        walls.push(...groupWalls);
+    });
+
+    walls.forEach((wall, index) => {
+        wall.id = `${wall.level}:${round((wall.angle * 180) / Math.PI)}deg${round(
+            wall.offset
+        )}:${index}`;
+    });
+
+    const unplaced: UnplacedOpening[] = [];
+    model.doors.forEach((door, index) => {
+        const reason = placeDoor(walls, door, index);
+        if (reason) unplaced.push({ kind: "door", index, reason });
+    });
+    model.windows.forEach((window, index) => {
+        const reason = placeWindow(model, walls, window, index);
+        if (reason) unplaced.push({ kind: "window", index, reason });
+    });
+
+    return { walls, unplaced };
+}
+
+/**
+ * Returns the walls bounding a room on one of its sides.
+ */
+export function getRoomWalls(
+    walls: WallSegment[],
+    room: ModelRoom,
+    side: WallSide
+): WallSegment[] {
+    const edge = getRoomSideEdge(room, side);
+    if (!edge) return [];
+    return walls.filter(
+        (wall) =>
+            wall.rooms.includes(room.name) &&
+            Math.abs(wall.angle - edge.angle) < 1e-3 &&
+            Math.abs(wall.offset - edge.offset) < EPSILON &&
+            wall.start < edge.end - EPSILON &&
+            wall.end > edge.start + EPSILON
+    );
+}
+
+/**
+ * Splits a wall into solid blocks around its openings so that each block
+ * can be built as a closed box.
+ */
+export function buildWallPieces(wall: WallSegment): WallPiece[] {
+    const length = wall.end - wall.start + wall.extendStart + wall.extendEnd;
+    const openings = [...wall.openings]
+        .map((opening) => ({
+            ...opening,
+            start: opening.start + wall.extendStart,
+            end: opening.end + wall.extendStart,
+        }))
+        .sort((a, b) => a.start - b.start);
+
+    const pieces: WallPiece[] = [];
+    let cursor = 0;
+    openings.forEach((opening) => {
+        if (opening.start > cursor + EPSILON) {
+            pieces.push({ u0: cursor, u1: opening.start, v0: 0, v1: wall.height });
+        }
+        if (opening.bottom > EPSILON) {
+            pieces.push({ u0: opening.start, u1: opening.end, v0: 0, v1: opening.bottom });
+        }
+        if (opening.top < wall.height - EPSILON) {
+            pieces.push({ u0: opening.start, u1: opening.end, v0: opening.top, v1: wall.height });
+        }
+        cursor = Math.max(cursor, opening.end);
+    });
+    if (length > cursor + EPSILON) {
+        pieces.push({ u0: cursor, u1: length, v0: 0, v1: wall.height });
+    }
+
+    return pieces;
+}
+
+/**
+ * Converts wall-local coordinates (u along the wall, v up) into world space.
+ */
+export function wallToWorld(
+    wall: WallSegment,
+    u: number,
+    v: number
+): { x: number; y: number; z: number } {
+    const along = wall.start - wall.extendStart + u;
+    const cos = Math.cos(wall.angle);
+    const sin = Math.sin(wall.angle);
+    return {
+        x: along * cos - wall.offset * sin,
+        y: wall.base + v,
+        z: along * sin + wall.offset * cos,
+    };
+}
+
+function placeDoor(
+    walls: WallSegment[],
+    door: ModelData["doors"][0],
+    index: number
+): string | null {
+    const shared = walls
+        .filter(
+            (wall) => wall.rooms.includes(door.from) && wall.rooms.includes(door.to)
+        )
+        .sort((a, b) => b.end - b.start - (a.end - a.start));
+    const wall = shared[0];
+    if (!wall) {
+        return `rooms "${door.from}" and "${door.to}" do not share a wall`;
+    }
+
+    const length = wall.end - wall.start;
+    const width = Math.min(door.width, length - 2 * EPSILON);
+    const start = (length - width) / 2;
+    return addOpening(wall, {
+        kind: "door",
+        index,
+        start,
+        end: start + width,
+        bottom: 0,
+        top: Math.min(door.height, wall.height - EPSILON),
+    });
+}
+
+function placeWindow(
+    model: ModelData,
+    walls: WallSegment[],
+    window: ModelData["windows"][0],
+    index: number
+): string | null {
+    const room = model.rooms.find((r) => r.name === window.room);
+    if (!room) return `room "${window.room}" not found`;
+
+    const edge = getRoomSideEdge(room, window.wall);
+    if (!edge) return `room "${window.room}" has no ${window.wall} facing wall`;
+    const center = edge.start + (edge.end - edge.start) * window.position;
+    const wall = getRoomWalls(walls, room, window.wall).find(
+        (w) => w.start - EPSILON <= center && w.end + EPSILON >= center
+    );
+    if (!wall) {
+        return `no ${window.wall} wall found for room "${window.room}"`;
+    }
+
+    const height = Math.min(window.height, wall.height - 0.2);
+    const bottom = Math.min(DEFAULT_SILL_HEIGHT, wall.height - height - 0.1);
+    const half = window.width / 2;
+    const start = Math.max(center - half, wall.start + EPSILON) - wall.start;
+    const end = Math.min(center + half, wall.end - EPSILON) - wall.start;
+    return addOpening(wall, {
+        kind: "window",
+        index,
+        start,
+        end,
+        bottom,
+        top: bottom + height,
+    });
+}
+
+function addOpening(wall: WallSegment, opening: WallOpening): string | null {
+    if (opening.end - opening.start <= EPSILON || opening.top <= opening.bottom) {
+        return `wall ${wall.id} is too small for the opening`;
+    }
+
+    const clash = wall.openings.find(
+        (other) => opening.start < other.end && other.start < opening.end
+    );
+    if (clash) {
+        return `overlaps ${clash.kind} ${clash.index} on wall ${wall.id}`;
+    }
+
+    wall.openings.push(opening);
+    return null;
+}
+
+function project([x, z]: Point2, angle: number): number {
+    return x * Math.cos(angle) + z * Math.sin(angle);
+}
+
+function perpendicular([x, z]: Point2, angle: number): number {
+    return -x * Math.sin(angle) + z * Math.cos(angle);
+}
+
+function uniqueSorted(values: number[]): number[] {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted.filter(
+        (value, i) => i === 0 || Math.abs(value - sorted[i - 1]) > EPSILON
+    );
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,473 @@
+// WebM demuxer and Ogg Opus muxer for browser recordings. MediaRecorder
+// records speech as Opus in a WebM (Matroska) container; recognizers that
+// take compressed audio want Opus in Ogg instead (RFC 7845). The Opus
+// packets themselves are copied as they are, nothing is re-encoded.
+//
+// Only what recordings need is read: the first audio track, its codec and
+// format, and its blocks. MediaRecorder writes the segment and its
+// clusters with unknown sizes, so master elements are entered rather than
+// sized, and a recording cut off mid-block keeps the blocks before it.
+
+export class WebMParseError extends Error {
+    readonly position: number;
+
+    constructor(message: string, position: number) {
+        super(`${message} at byte ${position}`);
+        this.name = "WebMParseError";
+        this.position = position;
+    }
+}
+
+export interface WebMAudioTrack {
+    number: number;
+    codec: string; // Matroska codec ID, e.g. "A_OPUS"
+    codecPrivate: Uint8Array | null;
+    sampleRate: number;
+    channels: number;
+    codecDelayNs: number;
+}
+
+export interface WebMFrame {
+    time: number; // seconds from the start of the recording
+    data: Uint8Array;
+}
+
+export interface WebMAudio {
+    track: WebMAudioTrack;
+    frames: WebMFrame[];
+    durationSeconds: number | null; // from the header; recordings omit it
+}
+
+const ID = {
+    EBML: 0x1a45dfa3,
+    Segment: 0x18538067,
+    Info: 0x1549a966,
+    TimecodeScale: 0x2ad7b1,
+    Duration: 0x4489,
+    Tracks: 0x1654ae6b,
+    TrackEntry: 0xae,
+    TrackNumber: 0xd7,
+    TrackType: 0x83,
+    CodecID: 0x86,
+    CodecPrivate: 0x63a2,
+    CodecDelay: 0x56aa,
+    Audio: 0xe1,
+    SamplingFrequency: 0xb5,
+    Channels: 0x9f,
+    Cluster: 0x1f43b675,
+    Timecode: 0xe7,
+    SimpleBlock: 0xa3,
+    BlockGroup: 0xa0,
+    Block: 0xa1,
+};
+
+// Masters whose children are read in place, sized or not
+const ENTERED = new Set([
+    ID.Segment,
+    ID.Info,
+    ID.Tracks,
+    ID.TrackEntry,
+    ID.Audio,
+    ID.Cluster,
+    ID.BlockGroup,
+]);
+
+const AUDIO_TRACK_TYPE = 2;
+const OPUS_SAMPLE_RATE = 48000;
+
+/** True if the bytes start with an EBML header, as WebM files do. */
+export function isWebM(bytes: Uint8Array): boolean {
+    return readUint(bytes, 0, 4) === ID.EBML;
+}
+
+/** Reads the first audio track of a WebM file and all of its frames. */
+export function demuxWebMAudio(bytes: Uint8Array): WebMAudio {
+    if (!isWebM(bytes)) throw new WebMParseError("Not a WebM file", 0);
+
+    const tracks: Partial<WebMAudioTrack & { type: number }>[] = [];
+    const blocks: { track: number; time: number; data: Uint8Array[] }[] = [];
+    let timecodeScale = 1000000;
+    let duration: number | null = null;
+    let clusterTime = 0;
+    let track: Partial<WebMAudioTrack & { type: number }> = {};
+
+    let pos = 0;
+    while (pos < bytes.length) {
+        const id = readElementId(bytes, pos);
+        const size = id && readVint(bytes, pos + id.length);
+        // A recording cut off here keeps what came before
+        if (!id || !size) break;
+        const start = pos + id.length + size.length;
+        const end = size.value === null ? bytes.length : start + size.value;
+
+        if (ENTERED.has(id.value)) {
+            if (id.value === ID.TrackEntry) {
+                track = {};
+                tracks.push(track);
+            }
+            pos = start;
+            continue;
+        }
+        if (size.value === null) {
+            throw new WebMParseError("Element of unknown size", pos);
+        }
+        if (end > bytes.length) break;
+
+        switch (id.value) {
+            case ID.TimecodeScale:
+                timecodeScale = readUint(bytes, start, size.value);
+                break;
+            case ID.Duration:
+                duration = readFloat(bytes, start, size.value);
+                break;
+            case ID.TrackNumber:
+                track.number = readUint(bytes, start, size.value);
+                break;
+            case ID.TrackType:
+                track.type = readUint(bytes, start, size.value);
+                break;
+            case ID.CodecID:
+                track.codec = readString(bytes, start, size.value);
+                break;
+            case ID.CodecPrivate:
+                track.codecPrivate = bytes.slice(start, end);
+                break;
+            case ID.CodecDelay:
+                track.codecDelayNs = readUint(bytes, start, size.value);
+                break;
+            case ID.SamplingFrequency:
+                track.sampleRate = readFloat(bytes, start, size.value);
+                break;
+            case ID.Channels:
+                track.channels = readUint(bytes, start, size.value);
+                break;
+            case ID.Timecode:
+                clusterTime = readUint(bytes, start, size.value);
+                break;
+            case ID.SimpleBlock:
+            case ID.Block:
+                blocks.push(readBlock(bytes, start, end, clusterTime));
+                break;
+        }
+        pos = end;
+    }
+
+    const audio = tracks.find(
+        (entry) => entry.type === AUDIO_TRACK_TYPE && entry.number
+    );
+    if (!audio || !audio.codec) {
+        throw new WebMParseError("No audio track", 0);
+    }
+
+    const frames: WebMFrame[] = [];
+    for (const block of blocks) {
+        if (block.track !== audio.number) continue;
+        // Laced frames share the block's time; Opus recordings never lace
+        const time = (block.time * timecodeScale) / 1e9;
+        block.data.forEach((data) => frames.push({ time, data }));
+    }
+
+    return {
+        track: {
+            number: audio.number!,
+            codec: audio.codec,
+            codecPrivate: audio.codecPrivate || null,
+            sampleRate: audio.sampleRate || OPUS_SAMPLE_RATE,
+            channels: audio.channels || 1,
+            codecDelayNs: audio.codecDelayNs || 0,
+        },
+        frames,
+        durationSeconds:
+            duration !== null ? (duration * timecodeScale) / 1e9 : null,
+    };
+}
+
+/**
+ * Samples (at 48 kHz) one Opus packet decodes to, from its TOC byte
+ * (RFC 6716, section 3.1).
+ */
+export function opusPacketSamples(packet: Uint8Array): number {
+    if (packet.length === 0) return 0;
+    const config = packet[0] >> 3;
+    // Frame length in units of 2.5 ms
+    const frameUnits =
+        config < 12
+            ? [4, 8, 16, 24][config % 4] // SILK: 10, 20, 40, 60 ms
+            : config < 16
+              ? [4, 8][config % 2] // hybrid: 10, 20 ms
+              : [1, 2, 4, 8][config % 4]; // CELT: 2.5, 5, 10, 20 ms
+    const code = packet[0] & 3;
+    const frameCount =
+        code === 0 ? 1 : code < 3 ? 2 : packet.length > 1 ? packet[1] & 63 : 0;
+    return frameCount * frameUnits * 120;
+}
+
+/** Length of an Opus recording in seconds, from its packets. */
+export function opusDurationSeconds(frames: WebMFrame[], preSkip = 0): number {
+    const samples = frames.reduce(
+        (total, frame) => total + opusPacketSamples(frame.data),
+        0
+    );
+    return Math.max(0, samples - preSkip) / OPUS_SAMPLE_RATE;
+}
+
+/** Pre-skip of an Opus track, in 48 kHz samples. */
+export function opusPreSkip(track: WebMAudioTrack): number {
+    const head = track.codecPrivate;
+    if (head && isOpusHead(head)) return head[10] | (head[11] << 8);
+    return Math.round((track.codecDelayNs * OPUS_SAMPLE_RATE) / 1e9);
+}
+
+/** Copies the Opus packets of a WebM recording into an Ogg Opus stream. */
+export function webmOpusToOgg(audio: WebMAudio): Uint8Array {
+    if (audio.track.codec !== "A_OPUS") {
+        throw new WebMParseError(
+            `Unsupported audio codec ${audio.track.codec}`,
+            0
+        );
+    }
+
+    const head =
+        audio.track.codecPrivate && isOpusHead(audio.track.codecPrivate)
+            ? audio.track.codecPrivate
+            : buildOpusHead(audio.track);
+    const writer = new OggWriter(0x57454d42);
+    writer.writePage([head], 0, OGG_BEGIN);
+    writer.writePage([buildOpusTags()], 0, 0);
+
+    let granule = 0;
+    let page: Uint8Array[] = [];
+    let segments = 0;
+    audio.frames.forEach((frame, index) => {
+        const needed = Math.floor(frame.data.length / 255) + 1;
+        if (segments + needed > 255) {
+            writer.writePage(page, granule, 0);
+            page = [];
+            segments = 0;
+        }
+        page.push(frame.data);
+        segments += needed;
+        granule += opusPacketSamples(frame.data);
+        if (index === audio.frames.length - 1) {
+            writer.writePage(page, granule, OGG_END);
+        }
+    });
+    if (audio.frames.length === 0) writer.writePage([], 0, OGG_END);
+
+    return writer.toBytes();
+}
+
+const OGG_BEGIN = 0x02;
+const OGG_END = 0x04;
+
+class OggWriter {
+    private pages: Uint8Array[] = [];
+    private sequence = 0;
+
+    constructor(private serial: number) {}
+
+    writePage(packets: Uint8Array[], granule: number, flags: number) {
+        const lacing: number[] = [];
+        for (const packet of packets) {
+            for (let left = packet.length; ; left -= 255) {
+                lacing.push(Math.min(left, 255));
+                if (left < 255) break;
+            }
+        }
+
+        const bodyLength = packets.reduce((n, packet) => n + packet.length, 0);
+        const page = new Uint8Array(27 + lacing.length + bodyLength);
+        const view = new DataView(page.buffer);
+        page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+        page[5] = flags;
+        view.setBigUint64(6, BigInt(granule), true);
+        view.setUint32(14, this.serial, true);
+        view.setUint32(18, this.sequence++, true);
+        page[26] = lacing.length;
+        page.set(lacing, 27);
+        let offset = 27 + lacing.length;
+        for (const packet of packets) {
+            page.set(packet, offset);
+            offset += packet.length;
+        }
+        view.setUint32(22, oggChecksum(page), true);
+        this.pages.push(page);
+    }
+
+    toBytes(): Uint8Array {
+        const total = this.pages.reduce((n, page) => n + page.length, 0);
+        const bytes = new Uint8Array(total);
+        let offset = 0;
+        for (const page of this.pages) {
+            bytes.set(page, offset);
+            offset += page.length;
+        }
+        return bytes;
+    }
+}
+
+let crcTable: Uint32Array | null = null;
+
+// CRC-32 with polynomial 0x04c11db7, unreflected, as Ogg uses it
+function oggChecksum(page: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let i = 0; i < 256; i++) {
+            let crc = i << 24;
+            for (let bit = 0; bit < 8; bit++) {
+                crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+            }
+            crcTable[i] = crc >>> 0;
+        }
+    }
+
+    let crc = 0;
+    for (const byte of page) {
+        crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+    }
+    return crc;
+}
+
+function isOpusHead(bytes: Uint8Array): boolean {
+    return bytes.length >= 19 && readString(bytes, 0, 8) === "OpusHead";
+}
+
+// Identification header for tracks that do not carry one (RFC 7845, 5.1)
+function buildOpusHead(track: WebMAudioTrack): Uint8Array {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode("OpusHead"));
+    head[8] = 1; // version
+    head[9] = track.channels;
+    view.setUint16(10, opusPreSkip(track), true);
+    view.setUint32(12, Math.round(track.sampleRate), true);
+    // Output gain 0 and channel mapping family 0 (mono or stereo)
+    return head;
+}
+
+function buildOpusTags(): Uint8Array {
+    const vendor = new TextEncoder().encode("webm-opus");
+    const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+    const view = new DataView(tags.buffer);
+    tags.set(new TextEncoder().encode("OpusTags"));
+    view.setUint32(8, vendor.length, true);
+    tags.set(vendor, 12);
+    // No user comments
+    return tags;
+}
+
+function readBlock(
+    bytes: Uint8Array,
+    start: number,
+    end: number,
+    clusterTime: number
+): { track: number; time: number; data: Uint8Array[] } {
+    const track = readVint(bytes, start);
+    if (!track || track.value === null) {
+        throw new WebMParseError("Bad block track number", start);
+    }
+    let pos = start + track.length;
+    const relative = (((bytes[pos] << 8) | bytes[pos + 1]) << 16) >> 16;
+    const flags = bytes[pos + 2];
+    pos += 3;
+
+    const lacing = (flags >> 1) & 3;
+    if (lacing === 0) {
+        return {
+            track: track.value,
+            time: clusterTime + relative,
+            data: [bytes.slice(pos, end)],
+        };
+    }
+
+    const count = bytes[pos++] + 1;
+    const sizes: number[] = [];
+    if (lacing === 1) {
+        // Xiph lacing: sizes as runs of 255
+        for (let i = 0; i < count - 1; i++) {
+            let frameSize = 0;
+            while (bytes[pos] === 255) frameSize += bytes[pos++];
+            sizes.push(frameSize + bytes[pos++]);
+        }
+    } else if (lacing === 3) {
+        // EBML lacing: first size, then signed differences
+        const first = readVint(bytes, pos);
+        if (!first || first.value === null) {
+            throw new WebMParseError("Bad lace size", pos);
+        }
+        sizes.push(first.value);
+        pos += first.length;
+        for (let i = 1; i < count - 1; i++) {
+            const delta = readVint(bytes, pos);
+            if (!delta || delta.value === null) {
+                throw new WebMParseError("Bad lace size", pos);
+            }
+            const bias = 2 ** (7 * delta.length - 1) - 1;
+            sizes.push(sizes[i - 1] + delta.value - bias);
+            pos += delta.length;
+        }
+    } else {
+        // Fixed-size lacing
+        const frameSize = Math.floor((end - pos) / count);
+        for (let i = 0; i < count - 1; i++) sizes.push(frameSize);
+    }
+    sizes.push(end - pos - sizes.reduce((n, size) => n + size, 0));
+
+    const data: Uint8Array[] = [];
+    for (const frameSize of sizes) {
+        if (frameSize < 0 || pos + frameSize > end) {
+            throw new WebMParseError("Bad lace size", pos);
+        }
+        data.push(bytes.slice(pos, pos + frameSize));
+        pos += frameSize;
+    }
+    return { track: track.value, time: clusterTime + relative, data };
+}
+
+// Element IDs keep their length marker bits
+function readElementId(
+    bytes: Uint8Array,
+    pos: number
+): { value: number; length: number } | null {
+    const first = bytes[pos];
+    if (first === undefined || first === 0) return null;
+    const length = Math.clz32(first) - 23;
+    if (length > 4 || pos + length > bytes.length) return null;
+    return { value: readUint(bytes, pos, length), length };
+}
+
+// Variable-length integers; all ones is an unknown size (null)
+function readVint(
+    bytes: Uint8Array,
+    pos: number
+): { value: number | null; length: number } | null {
+    const first = bytes[pos];
+    if (first === undefined || first === 0) return null;
+    const length = Math.clz32(first) - 23;
+    if (pos + length > bytes.length) return null;
+
+    let value = first & (0xff >> length);
+    let allOnes = value === 0xff >> length;
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + bytes[pos + i];
+        allOnes = allOnes && bytes[pos + i] === 0xff;
+    }
+    return { value: allOnes ? null : value, length };
+}
+
+function readUint(bytes: Uint8Array, pos: number, length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + bytes[pos + i];
+    return value;
+}
+
+function readFloat(bytes: Uint8Array, pos: number, length: number): number {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + pos, length);
+    return length === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+function readString(bytes: Uint8Array, pos: number, length: number): string {
+    return new TextDecoder()
+        .decode(bytes.subarray(pos, pos + length))
+        .replace(/\0+$/, "");
+}
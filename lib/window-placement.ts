@@ -0,0 +1,347 @@
+import {
+    ModelData,
+    ModelRoom,
+    ModelValidationIssue,
+    ModelWindow,
+    WallSide,
+} from "./model-schema";
+import {
+    WallSegment,
+    deriveWalls,
+    getRoomSideEdge,
+    getRoomWalls,
+} from "./walls";
+
+// Windows belong on exterior walls. This pass works out which stretches of
+// each room side face outside, keeps windows that sit there, moves the ones
+// on party walls or over doors to the nearest free exterior stretch, and
+// records the reasoning for every window it looked at.
+
+export const WINDOW_CORNER_CLEARANCE = 0.2; // wall kept next to corners
+export const DEFAULT_WINDOW_WIDTH = 1.2;
+export const DEFAULT_WINDOW_HEIGHT = 1.0;
+
+// Sides tried when a window has to move or be added; sun-facing first
+const SIDE_PREFERENCE: WallSide[] = ["south", "east", "west", "north"];
+const EPSILON = 0.01;
+
+export type WindowResolution =
+    | "kept"
+    | "relocated"
+    | "added"
+    | "removed"
+    | "unplaced"; // a required window that fits nowhere
+
+export interface WindowPlacement {
+    room: string;
+    wall: WallSide;
+    position: number | null; // null when no window ended up on the wall
+    resolution: WindowResolution;
+    reason: string;
+}
+
+export interface WindowPlacementResult {
+    model: ModelData;
+    placements: WindowPlacement[];
+}
+
+export interface WindowPlacementOptions {
+    // Rooms that must end up with at least one window
+    requireWindow?: (room: ModelRoom) => boolean;
+}
+
+interface Span {
+    start: number;
+    end: number;
+}
+
+/**
+ * Reports windows that sit on interior walls, run past the exterior part of
+ * their wall or overlap a door.
+ */
+export function checkWindowPlacement(model: ModelData): ModelValidationIssue[] {
+    const walls = deriveWalls({ ...model, windows: [] }).walls;
+    const issues: ModelValidationIssue[] = [];
+    model.windows.forEach((window, i) => {
+        const room = model.rooms.find((r) => r.name === window.room);
+        if (!room) return;
+        const problem = getWindowProblem(walls, room, window);
+        if (problem) issues.push({ path: `windows[${i}]`, message: problem });
+    });
+    return issues;
+}
+
+/**
+ * Keeps windows on free exterior wall, relocates the others, and adds a
+ * window to required rooms that have none. Windows that fit nowhere are
+ * removed. Every decision is returned with its reason.
+ */
+export function resolveWindowPlacement(
+    model: ModelData,
+    options: WindowPlacementOptions = {}
+): WindowPlacementResult {
+    const walls = deriveWalls({ ...model, windows: [] }).walls;
+    const placements: WindowPlacement[] = [];
+    const windows: ModelWindow[] = [];
+
+    // Windows already accepted, per room side, in wall-line coordinates
+    const taken = new Map<string, Span[]>();
+    const take = (room: ModelRoom, side: WallSide, span: Span) => {
+        const key = `${room.name}|${side}`;
+        taken.set(key, [...(taken.get(key) || []), span]);
+    };
+    const freeSpans = (room: ModelRoom, side: WallSide) =>
+        subtractSpans(
+            getFreeSpans(walls, room, side),
+            taken.get(`${room.name}|${side}`) || []
+        );
+
+    model.windows.forEach((window) => {
+        const room = model.rooms.find((r) => r.name === window.room);
+        if (!room) {
+            windows.push(window);
+            return;
+        }
+
+        const edge = getRoomSideEdge(room, window.wall);
+        const problem = getWindowProblem(walls, room, window);
+        if (edge && !problem) {
+            const center =
+                edge.start + (edge.end - edge.start) * window.position;
+            const span = {
+                start: center - window.width / 2,
+                end: center + window.width / 2,
+            };
+            const others = taken.get(`${room.name}|${window.wall}`) || [];
+            const clash = others.some(
+                (other) => span.start < other.end && other.start < span.end
+            );
+            if (!clash) {
+                take(room, window.wall, span);
+                windows.push(window);
+                placements.push({
+                    room: room.name,
+                    wall: window.wall,
+                    position: window.position,
+                    resolution: "kept",
+                    reason: `${window.wall} wall of "${room.name}" is exterior`,
+                });
+                return;
+            }
+        }
+
+        const reason = problem || `overlaps another window of "${room.name}"`;
+        const spot = findWindowSpot(
+            room,
+            window.width,
+            freeSpans,
+            window.wall
+        );
+        if (!spot) {
+            placements.push({
+                room: room.name,
+                wall: window.wall,
+                position: null,
+                resolution: "removed",
+                reason: `${reason}; "${room.name}" has no free exterior wall for a ${window.width} m window`,
+            });
+            return;
+        }
+
+        take(room, spot.side, spot.span);
+        windows.push({ ...window, wall: spot.side, position: spot.position });
+        placements.push({
+            room: room.name,
+            wall: spot.side,
+            position: spot.position,
+            resolution: "relocated",
+            reason: `${reason}; moved from the ${window.wall} wall to the exterior ${spot.side} wall`,
+        });
+    });
+
+    if (options.requireWindow) {
+        model.rooms.forEach((room) => {
+            if (!options.requireWindow!(room)) return;
+            if (windows.some((window) => window.room === room.name)) return;
+
+            const spot = findWindowSpot(room, DEFAULT_WINDOW_WIDTH, freeSpans);
+            if (!spot) {
+                placements.push({
+                    room: room.name,
+                    wall: "south",
+                    position: null,
+                    resolution: "unplaced",
+                    reason: `"${room.name}" needs a window but has no free exterior wall`,
+                });
+                return;
+            }
+
+            take(room, spot.side, spot.span);
+            windows.push({
+                room: room.name,
+                wall: spot.side,
+                width: DEFAULT_WINDOW_WIDTH,
+                height: DEFAULT_WINDOW_HEIGHT,
+                position: spot.position,
+            });
+            placements.push({
+                room: room.name,
+                wall: spot.side,
+                position: spot.position,
+                resolution: "added",
+                reason: `"${room.name}" had no window; placed on the exterior ${spot.side} wall`,
+            });
+        });
+    }
+
+    return { model: { ...model, windows }, placements };
+}
+
+// Why a window cannot stay where it is, or null when it can
+function getWindowProblem(
+    walls: WallSegment[],
+    room: ModelRoom,
+    window: ModelWindow
+): string | null {
+    const edge = getRoomSideEdge(room, window.wall);
+    if (!edge) return `"${room.name}" has no ${window.wall} wall`;
+
+    const center = edge.start + (edge.end - edge.start) * window.position;
+    const start = center - window.width / 2;
+    const end = center + window.width / 2;
+
+    const sideWalls = getRoomWalls(walls, room, window.wall);
+    const door = sideWalls
+        .flatMap((wall) =>
+            wall.openings.map((opening) => ({
+                wall,
+                start: wall.start + opening.start,
+                end: wall.start + opening.end,
+            }))
+        )
+        .find((opening) => start < opening.end && opening.start < end);
+    if (door) {
+        const other = door.wall.rooms.find((name) => name !== room.name);
+        return other
+            ? `overlaps the door to "${other}" on the ${window.wall} wall`
+            : `overlaps a door on the ${window.wall} wall`;
+    }
+
+    const party = sideWalls.find(
+        (wall) => !wall.exterior && start < wall.end && wall.start < end
+    );
+    if (party) {
+        const other = party.rooms.find((name) => name !== room.name);
+        return `${window.wall} wall of "${room.name}" is interior (shared with "${other}")`;
+    }
+
+    const fits = getFreeSpans(walls, room, window.wall).some(
+        (span) => span.start <= start + EPSILON && span.end >= end - EPSILON
+    );
+    return fits
+        ? null
+        : `runs past the exterior part of the ${window.wall} wall of "${room.name}"`;
+}
+
+// Exterior stretches of a room side in wall-line coordinates, trimmed at
+// the corners and around door openings
+function getFreeSpans(
+    walls: WallSegment[],
+    room: ModelRoom,
+    side: WallSide
+): Span[] {
+    const edge = getRoomSideEdge(room, side);
+    if (!edge) return [];
+
+    const sideWalls = getRoomWalls(walls, room, side);
+    const exterior = sideWalls
+        .filter((wall) => wall.exterior)
+        .map((wall) => ({
+            start: Math.max(wall.start, edge.start + WINDOW_CORNER_CLEARANCE),
+            end: Math.min(wall.end, edge.end - WINDOW_CORNER_CLEARANCE),
+        }));
+    const doors = sideWalls.flatMap((wall) =>
+        wall.openings.map((opening) => ({
+            start: wall.start + opening.start - WINDOW_CORNER_CLEARANCE,
+            end: wall.start + opening.end + WINDOW_CORNER_CLEARANCE,
+        }))
+    );
+
+    return subtractSpans(mergeSpans(exterior), doors);
+}
+
+// Closest free spot for a window, trying the preferred side first
+function findWindowSpot(
+    room: ModelRoom,
+    width: number,
+    freeSpans: (room: ModelRoom, side: WallSide) => Span[],
+    preferred?: WallSide
+): { side: WallSide; position: number; span: Span } | null {
+    const sides = preferred
+        ? [preferred, ...SIDE_PREFERENCE.filter((side) => side !== preferred)]
+        : SIDE_PREFERENCE;
+
+    for (const side of sides) {
+        const edge = getRoomSideEdge(room, side);
+        if (!edge) continue;
+        const length = edge.end - edge.start;
+        const target = edge.start + length / 2;
+
+        let best: number | null = null;
+        for (const span of freeSpans(room, side)) {
+            if (span.end - span.start < width - EPSILON) continue;
+            const center = Math.min(
+                Math.max(target, span.start + width / 2),
+                span.end - width / 2
+            );
+            if (
+                best === null ||
+                Math.abs(center - target) < Math.abs(best - target)
+            ) {
+                best = center;
+            }
+        }
+
+        if (best !== null) {
+            const position = (best - edge.start) / length;
+            return {
+                side,
+                position: Math.round(position * 1000) / 1000,
+                span: { start: best - width / 2, end: best + width / 2 },
+            };
+        }
+    }
+    return null;
+}
+
+function mergeSpans(spans: Span[]): Span[] {
+    const sorted = spans
+        .filter((span) => span.end - span.start > EPSILON)
+        .sort((a, b) => a.start - b.start);
+    const merged: Span[] = [];
+    sorted.forEach((span) => {
+        const last = merged[merged.length - 1];
+        if (last && span.start <= last.end + EPSILON) {
+            last.end = Math.max(last.end, span.end);
+        } else {
+            merged.push({ ...span });
+        }
+    });
+    return merged;
+}
+
+function subtractSpans(spans: Span[], holes: Span[]): Span[] {
+    return holes.reduce(
+        (remaining, hole) =>
+            remaining.flatMap((span) => {
+                if (hole.end <= span.start || hole.start >= span.end) {
+                    return [span];
+                }
+                return [
+                    { start: span.start, end: hole.start },
+                    { start: hole.end, end: span.end },
+                ].filter((part) => part.end - part.start > EPSILON);
+            }),
+        spans
+    );
+}
@@ -0,0 +1,18 @@
+// Standalone CAD job worker: runs the jobs web instances queue in the shared
+// job store (JOB_STORE file or sqlite), and serves nothing. Start it with
+// `npm run worker` next to web instances running JOB_WORKER_MODE=external.
+import { loadEnvConfig } from "@next/env";
+
+// The same .env files as the web server; read before the services load
+// their configuration
+loadEnvConfig(process.cwd());
+
+async function main() {
+    const { startJobWorker } = await import("@/services/job-queue");
+    startJobWorker({ standalone: true });
+}
+
+main().catch((error) => {
+    console.error("CAD job worker failed to start:", error);
+    process.exit(1);
+});
@@ -1,30 +1,132 @@
 import { InterpreterAgent } from "./agents/interpreter-agent";
 import { DesignerAgent } from "./agents/designer-agent";
 import { RendererAgent } from "./agents/renderer-agent";
+import { CriticAgent } from "./agents/critic-agent";
+import { RefinementTurn, RefinerAgent } from "./agents/refiner-agent";
+import { AGENT_CONFIG, DESIGN_VARIANT_STRATEGIES } from "./agents/agent-config";
+import { AgentAttempt, AgentOutput } from "./agents/base-agent";
+import { ModelData, ModelValidationError } from "@/lib/model-schema";
+import {
+    DesignMode,
+    RoomRequirement,
+    extractRoomRequirements,
+} from "@/lib/layout-solver";
+import { Critique } from "@/lib/design-review";
+import { DesignMetrics, computeDesignMetrics } from "@/lib/design-metrics";
+import { LayoutCorrection } from "@/lib/layout-repair";
+import { DoorDiagnostic } from "@/lib/door-adjacency";
+import { WindowPlacement } from "@/lib/window-placement";
+import { VectorSketch } from "@/lib/sketch-vector";
+import { StructuredOutputError } from "./structured-output";
+import {
+    PartialResultListener,
+    ProgressListener,
+    reportPartialResult,
+    reportProgress,
+} from "./progress";
+import { PipelineLogLine, pipelineLog } from "./pipeline-log";
+import { CancelledError, throwIfCancelled } from "./cancellation";
+
+export interface DesignRequestOptions {
+    // How the designer lays out rooms: with the LLM, with the local
+    // constraint solver, or with the LLM and the solver as a repair step
+    designMode?: DesignMode;
+    // Critic-driven designer revisions; AGENT_CONFIG.maxRevisionRounds by
+    // default, 0 to only score the first design
+    maxRevisionRounds?: number;
+    // Candidate layouts to generate, each with its own strategy; 1 by
+    // default, at most AGENT_CONFIG.maxVariants
+    variants?: number;
+    // Primitives of a sketch drawn on the canvas; the interpreter takes
+    // the sketched rooms from them at their drawn size
+    sketchVector?: VectorSketch;
+    // Receives stage events as the request moves through the agents
+    onProgress?: ProgressListener;
+    // Receives the requirements, layouts and code as soon as they exist
+    onPartialResult?: PartialResultListener;
+    // Cancels the request: agents stop before their next step and abort
+    // the model calls in flight
+    signal?: AbortSignal;
+}
+
+export interface ReviewRound {
+    round: number; // 0 is the first design
+    score: number;
+    errors: number;
+    warnings: number;
+    kept: boolean; // false when the revision scored worse and was dropped
+}
+
+export interface DesignReviewSummary {
+    score: number;
+    approved: boolean;
+    critiques: Critique[];
+    rounds: ReviewRound[];
+}
+
+// One of several candidate designs for the same request
+export interface DesignCandidate {
+    id: string;
+    strategy: string;
+    modelData: ModelData;
+    code: string;
+    // Why the renderer failed, in which case code is a plain fallback scene
+    renderError?: string;
+    designMode: DesignMode;
+    metrics: DesignMetrics;
+    review: DesignReviewSummary;
+    attempts: {
+        designer: AgentAttempt[];
+        critic: AgentAttempt[];
+        renderer: AgentAttempt[];
+    };
+    layoutCorrections: LayoutCorrection[];
+    doorDiagnostics: DoorDiagnostic[];
+    windowPlacements: WindowPlacement[];
+}
+
+// A variant's reviewed design, before it is rendered
+interface VariantDesign {
+    index: number;
+    strategy: string;
+    designerResult: AgentOutput;
+    criticResult: AgentOutput;
+    review: DesignReviewSummary;
+}
 
 export class AgentOrchestrator {
     private interpreterAgent: InterpreterAgent;
     private designerAgent: DesignerAgent;
     private rendererAgent: RendererAgent;
+    private criticAgent: CriticAgent;
+    private refinerAgent: RefinerAgent;
 
     constructor() {
         this.interpreterAgent = new InterpreterAgent();
         this.designerAgent = new DesignerAgent();
         this.rendererAgent = new RendererAgent();
+        this.criticAgent = new CriticAgent();
+        this.refinerAgent = new RefinerAgent();
     }
 
     async processDesignRequest(
         prompt: string,
-        sketchData?: string | null
+        sketchData?: string | null,
+        options: DesignRequestOptions = {}
     ): Promise<any> {
-        console.log("Agent Orchestrator processing design request...");
+        log("Agent Orchestrator processing design request...");
+        const { onProgress, signal } = options;
 
         try {
             // Step 1: Interpret the requirements
-            console.log("Step 1: Interpreting requirements...");
+            log("Step 1: Interpreting requirements...");
+            throwIfCancelled(signal);
             const interpreterResult = await this.interpreterAgent.execute({
                 prompt,
                 sketchData,
+                sketchVector: options.sketchVector,
+                onProgress,
+                signal,
             });
 
             if (interpreterResult.error) {
@@ -32,36 +134,203 @@ export class AgentOrchestrator {
                     `Interpreter agent failed: ${interpreterResult.error}`
                 );
             }
-
-            // Step 2: Generate architectural design
-            console.log("Step 2: Generating architectural design...");
-            const designerResult = await this.designerAgent.execute({
+            reportProgress(
+                onProgress,
+                "interpreting",
+                1,
+                "Requirements interpreted"
+            );
+            reportPartialResult(options.onPartialResult, {
+                kind: "requirements",
                 requirements: interpreterResult.requirements,
             });
 
-            if (designerResult.error) {
-                throw new Error(
-                    `Designer agent failed: ${designerResult.error}`
+            // Steps 2-4: Design and review every variant, then render the
+            // ones that worked; a variant that fails is reported as long as
+            // another one works
+            const requirements = interpreterResult.requirements;
+            const programme = extractRoomRequirements(requirements, {
+                useDefaultProgramme: false,
+            });
+            const count = Math.min(
+                Math.max(Math.floor(options.variants ?? 1), 1),
+                AGENT_CONFIG.maxVariants
+            );
+            const designs: VariantDesign[] = [];
+            const candidates: DesignCandidate[] = [];
+            const failures: { variant: number; error: string }[] = [];
+            let firstError: unknown = null;
+            const fail = (index: number, error: unknown) => {
+                // Cancelling stops every variant, not just this one
+                if (count === 1 || error instanceof CancelledError) throw error;
+                log(
+                    `Design variant ${index} failed: ${describe(error)}`,
+                    "warn"
+                );
+                firstError = firstError || error;
+                failures.push({
+                    variant: index,
+                    error: describe(error),
+                });
+            };
+
+            for (let index = 0; index < count; index++) {
+                try {
+                    designs.push(
+                        await this.designVariant(
+                            index,
+                            count,
+                            requirements,
+                            options
+                        )
+                    );
+                } catch (error) {
+                    fail(index, error);
+                }
+            }
+
+            for (let position = 0; position < designs.length; position++) {
+                const design = designs[position];
+                reportProgress(
+                    onProgress,
+                    "rendering",
+                    position / designs.length,
+                    count > 1
+                        ? `Rendering variant ${design.index + 1} of ${count}`
+                        : "Rendering 3D model"
                 );
+                try {
+                    candidates.push(
+                        await this.renderVariant(
+                            design,
+                            requirements,
+                            programme,
+                            options
+                        )
+                    );
+                } catch (error) {
+                    fail(design.index, error);
+                }
             }
+            if (candidates.length === 0) throw firstError;
+            throwIfCancelled(signal);
+            reportProgress(onProgress, "rendering", 1, "Rendering complete");
+            failures.sort((a, b) => a.variant - b.variant);
+            const primary = candidates[0];
 
-            // Step 3: Generate Three.js visualization code
-            console.log("Step 3: Generating visualization code...");
+            // Return the complete result; the top-level design is the first
+            // variant that succeeded
+            return {
+                requirements,
+                modelData: primary.modelData,
+                designMode: primary.designMode,
+                review: primary.review,
+                // Every model answer per agent, with the validation issues
+                // that caused a retry
+                attempts: {
+                    interpreter: interpreterResult.attempts || [],
+                    ...primary.attempts,
+                },
+                layoutCorrections: primary.layoutCorrections,
+                doorDiagnostics: primary.doorDiagnostics,
+                windowPlacements: primary.windowPlacements,
+                code: primary.code,
+                renderError: primary.renderError,
+                variants: count > 1 ? candidates : undefined,
+                variantFailures: failures.length > 0 ? failures : undefined,
+                originalPrompt: prompt,
+                sketchAnalysisPerformed: !!sketchData || !!options.sketchVector,
+            };
+        } catch (error) {
+            console.error("Agent Orchestrator error:", error);
+            if (
+                error instanceof ModelValidationError ||
+                error instanceof StructuredOutputError ||
+                error instanceof CancelledError
+            ) {
+                throw error;
+            }
+            throw new Error(
+                `Agent Orchestrator failed: ${
+                    error instanceof Error ? error.message : String(error)
+                }`
+            );
+        }
+    }
+
+    /**
+     * Refinement mode: changes an existing model as the instruction asks
+     * instead of designing from scratch. Rooms the instruction does not
+     * touch keep their geometry; the result lists every change.
+     */
+    async processRefinementRequest(
+        modelData: unknown,
+        instruction: string,
+        history: RefinementTurn[] = [],
+        signal?: AbortSignal
+    ): Promise<any> {
+        log("Agent Orchestrator processing refinement request...");
+
+        try {
+            // Step 1: Turn the instruction into edits and apply them
+            log("Step 1: Refining design...");
+            throwIfCancelled(signal);
+            const refinerResult = await this.refinerAgent.execute({
+                modelData,
+                instruction,
+                history,
+                signal,
+            });
+
+            if (refinerResult.validationIssues) {
+                throw new ModelValidationError(
+                    refinerResult.validationIssues,
+                    "Refiner agent"
+                );
+            }
+
+            if (refinerResult.error) {
+                throw new Error(`Refiner agent failed: ${refinerResult.error}`);
+            }
+
+            // Step 2: Generate Three.js visualization code
+            log("Step 2: Generating visualization code...");
+            throwIfCancelled(signal);
             const rendererResult = await this.rendererAgent.execute({
-                design: designerResult.design,
-                requirements: interpreterResult.requirements,
+                design: refinerResult.design,
+                requirements: { instruction },
+                signal,
             });
+            if (rendererResult.error) {
+                log(
+                    `Rendering failed, using a fallback scene: ${rendererResult.error}`,
+                    "warn"
+                );
+            }
 
-            // Return the complete result
             return {
-                requirements: interpreterResult.requirements,
-                modelData: designerResult.design,
+                modelData: refinerResult.design,
+                changes: refinerResult.changes,
+                summary: refinerResult.summary,
+                edits: refinerResult.edits,
+                rejectedEdits: refinerResult.rejectedEdits,
+                attempts: {
+                    refiner: refinerResult.attempts || [],
+                    renderer: rendererResult.attempts || [],
+                },
                 code: rendererResult.code,
-                originalPrompt: prompt,
-                sketchAnalysisPerformed: !!sketchData,
+                renderError: rendererResult.error,
+                instruction,
             };
         } catch (error) {
-            console.error("Agent Orchestrator error:", error);
+            console.error("Agent Orchestrator refinement error:", error);
+            if (
+                error instanceof ModelValidationError ||
+                error instanceof StructuredOutputError ||
+                error instanceof CancelledError
+            ) {
+                throw error;
+            }
             throw new Error(
                 `Agent Orchestrator failed: ${
                     error instanceof Error ? error.message : String(error)
@@ -70,19 +339,240 @@ export class AgentOrchestrator {
         }
     }
 
+    // One candidate design: the designer's layout for the variant's
+    // strategy, revised under the critic
+    private async designVariant(
+        index: number,
+        count: number,
+        requirements: any,
+        options: DesignRequestOptions
+    ): Promise<VariantDesign> {
+        const strategy =
+            DESIGN_VARIANT_STRATEGIES[index % DESIGN_VARIANT_STRATEGIES.length];
+        const label = index > 0 ? ` (variant ${index}: ${strategy.name})` : "";
+        const title =
+            count > 1
+                ? `variant ${index + 1} of ${count} (${strategy.name})`
+                : "layout";
+        // Sub-progress of the designing stage, spread evenly over variants
+        const report = (share: number, message: string) =>
+            reportProgress(
+                options.onProgress,
+                "designing",
+                (index + share) / count,
+                message
+            );
+
+        // Step 2: Generate architectural design
+        log(`Step 2: Generating architectural design${label}...`);
+        throwIfCancelled(options.signal);
+        report(0, `Designing ${title}`);
+        const firstDesign = await this.designerAgent.execute({
+            requirements,
+            mode: options.designMode || "llm",
+            variant: { index, strategy },
+            signal: options.signal,
+        });
+
+        if (firstDesign.validationIssues) {
+            throw new ModelValidationError(
+                firstDesign.validationIssues,
+                "Designer agent"
+            );
+        }
+
+        if (firstDesign.error) {
+            throw new Error(`Designer agent failed: ${firstDesign.error}`);
+        }
+
+        // Step 3: Review the design and let the designer revise it
+        log(`Step 3: Reviewing design${label}...`);
+        report(0.4, `Reviewing ${title}`);
+        const { designerResult, criticResult, review } =
+            await this.reviewAndRevise(
+                firstDesign,
+                requirements,
+                options,
+                (round, maxRounds) =>
+                    report(
+                        0.4 + (0.6 * round) / (maxRounds + 1),
+                        `Revising ${title}, round ${round} of ${maxRounds}`
+                    )
+            );
+        report(1, `Finished ${title}`);
+        reportPartialResult(options.onPartialResult, {
+            kind: "layout",
+            variant: `variant-${index}`,
+            modelData: designerResult.design,
+        });
+
+        return {
+            index,
+            strategy: strategy.name,
+            designerResult,
+            criticResult,
+            review,
+        };
+    }
+
+    // Step 4: Generate Three.js visualization code for a reviewed design
+    private async renderVariant(
+        variant: VariantDesign,
+        requirements: any,
+        programme: RoomRequirement[],
+        options: DesignRequestOptions
+    ): Promise<DesignCandidate> {
+        const { index, designerResult, criticResult, review } = variant;
+        const label =
+            index > 0 ? ` (variant ${index}: ${variant.strategy})` : "";
+
+        log(`Step 4: Generating visualization code${label}...`);
+        throwIfCancelled(options.signal);
+        const rendererResult = await this.rendererAgent.execute({
+            design: designerResult.design,
+            requirements,
+            signal: options.signal,
+        });
+        if (rendererResult.error) {
+            log(
+                `Rendering failed${label}, using a fallback scene: ${rendererResult.error}`,
+                "warn"
+            );
+        }
+        reportPartialResult(options.onPartialResult, {
+            kind: "code",
+            variant: `variant-${index}`,
+            code: rendererResult.code,
+        });
+
+        return {
+            id: `variant-${index}`,
+            strategy: variant.strategy,
+            modelData: designerResult.design,
+            code: rendererResult.code,
+            renderError: rendererResult.error,
+            designMode: designerResult.designMode,
+            metrics: computeDesignMetrics(designerResult.design, programme),
+            review,
+            attempts: {
+                designer: designerResult.attempts || [],
+                critic: criticResult.attempts || [],
+                renderer: rendererResult.attempts || [],
+            },
+            layoutCorrections: designerResult.layoutCorrections,
+            doorDiagnostics: designerResult.doorDiagnostics,
+            windowPlacements: designerResult.windowPlacements,
+        };
+    }
+
+    // Alternates critic reviews and designer revisions until the critic
+    // approves, the round budget is spent or a revision makes things worse.
+    // The best-scoring design wins. A revision that fails, is invalid or
+    // cannot be reviewed ends the rounds with the design before it. The
+    // solver lays rooms out the same way every time, so solver designs are
+    // only reviewed.
+    private async reviewAndRevise(
+        firstDesign: AgentOutput,
+        requirements: any,
+        options: DesignRequestOptions,
+        onRevision?: (round: number, maxRounds: number) => void
+    ): Promise<{
+        designerResult: AgentOutput;
+        criticResult: AgentOutput;
+        review: DesignReviewSummary;
+    }> {
+        const { signal } = options;
+        const mode = options.designMode || "llm";
+        const maxRounds =
+            mode === "solver"
+                ? 0
+                : (options.maxRevisionRounds ?? AGENT_CONFIG.maxRevisionRounds);
+
+        let designerResult = firstDesign;
+        let criticResult = await this.criticAgent.execute({
+            design: designerResult.design,
+            requirements,
+            signal,
+        });
+        const rounds: ReviewRound[] = [roundOf(0, criticResult, true)];
+
+        for (let round = 1; round <= maxRounds; round++) {
+            if (criticResult.error || criticResult.approved) break;
+
+            log(
+                `Revision round ${round}: ${criticResult.critiques.length} critique(s), score ${criticResult.score}`
+            );
+            throwIfCancelled(signal);
+            onRevision?.(round, maxRounds);
+            const revised = await this.designerAgent.execute({
+                requirements,
+                mode,
+                revision: {
+                    design: designerResult.design,
+                    critiques: criticResult.critiques,
+                },
+                signal,
+            });
+            if (revised.error || revised.validationIssues || !revised.design) {
+                const issues = revised.validationIssues?.length;
+                log(
+                    `Revision round ${round} failed${issues ? ` with ${issues} validation issue(s)` : ""}: ${revised.error ?? "no design"}; keeping the previous design`,
+                    "warn"
+                );
+                break;
+            }
+
+            const revisedReview = await this.criticAgent.execute({
+                design: revised.design,
+                requirements,
+                signal,
+            });
+            if (revisedReview.error) {
+                log(
+                    `Review of revision round ${round} failed: ${revisedReview.error}; keeping the previous design`,
+                    "warn"
+                );
+                break;
+            }
+            const kept = revisedReview.score >= criticResult.score;
+            rounds.push(roundOf(round, revisedReview, kept));
+            if (!kept) break;
+
+            designerResult = revised;
+            criticResult = revisedReview;
+        }
+
+        return {
+            designerResult,
+            criticResult,
+            // A critic that failed leaves a review with no critiques
+            review: {
+                score: criticResult.score ?? 0,
+                approved: !!criticResult.approved,
+                critiques: criticResult.critiques ?? [],
+                rounds,
+            },
+        };
+    }
+
     // Additional method for more detailed logging and debugging
     async processDesignRequestWithTracing(
         prompt: string,
-        sketchData?: string | null
+        sketchData?: string | null,
+        options: DesignRequestOptions = {}
     ): Promise<any> {
-        console.log("Starting traced agent workflow...");
+        log("Starting traced agent workflow...");
         const startTime = Date.now();
 
         try {
-            const result = await this.processDesignRequest(prompt, sketchData);
+            const result = await this.processDesignRequest(
+                prompt,
+                sketchData,
+                options
+            );
 
             const endTime = Date.now();
-            console.log(`Agent workflow completed in ${endTime - startTime}ms`);
+            log(`Agent workflow completed in ${endTime - startTime}ms`);
 
             return {
                 ...result,
@@ -98,3 +588,28 @@ export class AgentOrchestrator {
         }
     }
 }
+
+function roundOf(
+    round: number,
+    review: AgentOutput,
+    kept: boolean
+): ReviewRound {
+    const critiques: Critique[] = review.critiques || [];
+    const errors = critiques.filter((c) => c.severity === "error").length;
+    return {
+        round,
+        score: review.score,
+        errors,
+        warnings: critiques.length - errors,
+        kept,
+    };
+}
+
+// Orchestrator log lines also reach the log of the job being processed
+function log(message: string, level?: PipelineLogLine["level"]) {
+    pipelineLog("Orchestrator", message, level);
+}
+
+function describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -11,14 +11,180 @@ export const AZURE_SERVICES_CONFIG = {
         key: process.env.AZURE_VISION_KEY || "",
         endpoint: process.env.AZURE_VISION_ENDPOINT || "",
     },
+    speech: {
+        key: process.env.AZURE_SPEECH_KEY || "",
+        region: process.env.AZURE_SPEECH_REGION || "eastus",
+    },
+    contentSafety: {
+        key: process.env.AZURE_CONTENT_SAFETY_KEY || "",
+        endpoint: process.env.AZURE_CONTENT_SAFETY_ENDPOINT || "",
+    },
     // Add other Azure service configurations as needed
 };
 
+// LLM provider selection. Every agent (and the multimodal processor) uses
+// the default provider and deployment unless overridden with
+// LLM_<AGENT>_PROVIDER / LLM_<AGENT>_DEPLOYMENT, e.g. LLM_DESIGNER_PROVIDER.
+// Providers: "azure" (Azure OpenAI), "openai" (any OpenAI-compatible
+// endpoint, including local Ollama or llama.cpp servers) and "scripted"
+// (canned in-process responses for offline runs and tests).
+export const LLM_PROVIDER_CONFIG = {
+    defaultProvider: process.env.LLM_PROVIDER || "azure",
+    defaultDeployment:
+        process.env.LLM_DEPLOYMENT || AZURE_SERVICES_CONFIG.openai.deployment,
+    openai: {
+        baseURL: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.OPENAI_API_KEY || "",
+    },
+    scripted: {
+        scriptPath: process.env.LLM_SCRIPT_PATH || "",
+    },
+    // json_schema, json_object or none; empty picks per provider
+    structuredOutput: process.env.LLM_STRUCTURED_OUTPUT || "",
+};
+
+// Speech recognition for voice input. Recognizers: "azure" (Azure Speech),
+// "whisper" (any OpenAI-compatible transcription endpoint, including local
+// whisper.cpp or faster-whisper servers) and "fixture" (canned transcripts
+// from a JSON file, keyed by the audio's SHA-256 or "*").
+export const SPEECH_CONFIG = {
+    recognizer: process.env.SPEECH_RECOGNIZER || "azure",
+    language: process.env.SPEECH_LANGUAGE || "en-US",
+    whisper: {
+        baseURL: process.env.WHISPER_BASE_URL || "http://localhost:8000/v1",
+        apiKey: process.env.WHISPER_API_KEY || "",
+        model: process.env.WHISPER_MODEL || "whisper-1",
+    },
+    fixture: {
+        path: process.env.SPEECH_FIXTURE_PATH || "",
+    },
+    // Largest recording the speech-to-text route accepts
+    maxAudioBytes: 25 * 1024 * 1024,
+};
+
+// Screening of design briefs, speech transcripts and sketch labels before
+// any agent sees them. Moderators: "local" (rules and a prompt-injection
+// classifier, no network), "azure" (Azure AI Content Safety and Prompt
+// Shields on top of the local rules) and "off". Inputs with a finding of
+// blockSeverity or worse are rejected.
+export const MODERATION_CONFIG = {
+    moderator: process.env.CONTENT_MODERATOR || "local",
+    blockSeverity: process.env.MODERATION_BLOCK_SEVERITY || "medium",
+};
+
+// Record/replay of AI service calls. "record" saves every LLM, vision,
+// speech and moderation response under dir; "replay" serves them back
+// without touching the network, so the pipeline can run offline and
+// deterministically.
+export const FIXTURE_CONFIG = {
+    mode: process.env.AI_FIXTURE_MODE || "off",
+    dir: process.env.AI_FIXTURE_DIR || "fixtures/ai",
+};
+
+// Where CAD generation jobs are kept: "memory", "file" (one JSON file per
+// job under dir) or "sqlite" (database at sqlitePath). Finished jobs are
+// deleted retentionHours after they last changed; 0 keeps them forever.
+// Running jobs check the store every cancelPollMs for a cancellation made
+// by another instance.
+export const JOB_STORE_CONFIG = {
+    backend: process.env.JOB_STORE || "memory",
+    dir: process.env.JOB_STORE_DIR || ".data/jobs",
+    sqlitePath: process.env.JOB_STORE_SQLITE_PATH || ".data/jobs.sqlite",
+    retentionHours: envNumber("JOB_RETENTION_HOURS", 24, { min: 0 }),
+    pruneIntervalMs: 60000,
+    cancelPollMs: 2000,
+};
+
+// Job queue. Each instance that runs jobs runs at most maxConcurrentJobs at
+// once, and a client may have at most maxQueuedPerClient jobs waiting.
+// JOB_WORKER_MODE "inline" runs jobs in the web server, "external" only
+// queues them for standalone workers (npm run worker); these need a file
+// or sqlite job store to share.
+export const JOB_QUEUE_CONFIG = {
+    workerMode: process.env.JOB_WORKER_MODE || "inline",
+    maxConcurrentJobs: envNumber("MAX_CONCURRENT_JOBS", 2, {
+        min: 1,
+        integer: true,
+    }),
+    maxQueuedPerClient: envNumber("MAX_QUEUED_JOBS_PER_CLIENT", 10, {
+        min: 1,
+        integer: true,
+    }),
+    // Proxies in front of the app that append to X-Forwarded-For; clients
+    // are told apart by the address the outermost of them saw, or with none
+    // by the address they connect from
+    trustedProxies: envNumber("TRUSTED_PROXY_COUNT", 0, {
+        min: 0,
+        integer: true,
+    }),
+    // Requests must send it in X-Priority-Key to queue "high" priority
+    // jobs; without it nobody can
+    priorityKey: process.env.JOB_PRIORITY_KEY || "",
+    // How often workers look for queued jobs in the store
+    pollMs: 1000,
+    // Running jobs are touched every heartbeatMs; one left untouched for
+    // abandonedAfterMs lost its worker, e.g. to a crash, and is recovered
+    heartbeatMs: 10000,
+    abandonedAfterMs: 60000,
+};
+
 // Agent system configuration
 export const AGENT_CONFIG = {
     maxRetries: 2,
+    // Designer revisions driven by the critic after the first design
+    maxRevisionRounds: 2,
+    // Upper bound on design variants per request
+    maxVariants: 4,
+    // Earlier refinement turns shown to the refiner for context
+    refinementHistoryTurns: 5,
     defaultTemperature: 0.2,
     interpreterSystemPrompt: `You are an Architectural Interpreter Agent. Your role is to analyze sketches and textual descriptions to extract precise architectural requirements. Extract room types, dimensions, relationships, and design preferences. Format your output as structured JSON.`,
     designerSystemPrompt: `You are an Architectural Designer Agent. Your role is to create detailed architectural layouts based on requirements. You must follow building codes and design principles. Create layouts with proper dimensions and spatial relationships.`,
+    criticSystemPrompt: `You are an Architectural Critic Agent. Your role is to review floor plans against the client's requirements and point out concrete, fixable problems: missing rooms, wrong sizes, poor adjacencies and circulation. Be specific and brief. Format your output as structured JSON.`,
+    refinerSystemPrompt: `You are an Architectural Refiner Agent. Your role is to change an existing floor plan as the client asks, with the smallest set of edits that does what they asked. Never redesign rooms the request does not mention. Format your output as structured JSON.`,
     rendererSystemPrompt: `You are a 3D Rendering Agent. Your role is to generate Three.js code that accurately visualizes architectural designs. Create clean, optimized code with appropriate lighting, materials, and camera positioning.`,
 };
+
+// Layout strategies for design variants. Variant 0 is the plain design;
+// further variants ask the designer for a different approach and give the
+// solver a different seed.
+export const DESIGN_VARIANT_STRATEGIES = [
+    { name: "balanced", hint: "" },
+    {
+        name: "compact",
+        hint: "Keep the footprint as compact as possible, close to a square, with minimal circulation space.",
+    },
+    {
+        name: "open-plan",
+        hint: "Favour open-plan living: merge living, dining and kitchen into connected spaces and keep private rooms together.",
+    },
+    {
+        name: "zoned",
+        hint: "Separate day and night zones: group living spaces on one side and bedrooms and bathrooms on the other, joined by a hallway.",
+    },
+];
+
+// A number from the environment. Unset or blank gives the default, and so
+// does anything out of range, with a warning, rather than a NaN or 0 that
+// would quietly stop jobs from running.
+function envNumber(
+    name: string,
+    fallback: number,
+    { min, integer = false }: { min: number; integer?: boolean }
+): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === "") return fallback;
+
+    const value = Number(raw);
+    if (
+        Number.isFinite(value) &&
+        value >= min &&
+        (!integer || Number.isInteger(value))
+    ) {
+        return value;
+    }
+    console.warn(
+        `Ignoring ${name}="${raw}", expected a ${integer ? "whole number" : "number"} of at least ${min}; using ${fallback}`
+    );
+    return fallback;
+}
@@ -1,5 +1,20 @@
-import { AzureOpenAI } from "openai";
-import { AZURE_SERVICES_CONFIG } from "./agent-config";
+import { withFixture } from "../ai-fixtures";
+import { PipelineLogLine, pipelineLog } from "../pipeline-log";
+import { rethrowCancellation, throwIfCancelled } from "../cancellation";
+import {
+    StructuredOutputError,
+    parseStructuredOutput,
+} from "../structured-output";
+import { ModelValidationError } from "@/lib/model-schema";
+import { AGENT_CONFIG } from "./agent-config";
+import {
+    ChatMessage,
+    JSONSchemaFormat,
+    LLMProvider,
+    LLMSettings,
+    getLLMProvider,
+    getLLMSettings,
+} from "../llm-provider";
 
 export type AgentInput = {
     [key: string]: any;
@@ -9,43 +24,108 @@ export type AgentOutput = {
     [key: string]: any;
 };
 
+export interface LLMCallOptions {
+    responseFormat?: JSONSchemaFormat;
+    // Aborts the call; the agent's input.signal
+    signal?: AbortSignal;
+}
+
+export interface AgentLLMOptions {
+    // Use this provider instead of the configured one
+    provider?: LLMProvider;
+    deployment?: string;
+    // Re-prompts after a rejected answer; AGENT_CONFIG.maxRetries by default
+    maxRetries?: number;
+}
+
+// One model answer and what validation made of it
+export interface AgentAttempt {
+    attempt: number; // 1-based
+    accepted: boolean;
+    issues: string[]; // why the answer was rejected; empty when accepted
+}
+
+export interface ValidatedOutput<T> {
+    output: T;
+    attempts: AgentAttempt[];
+}
+
 export abstract class BaseAgent {
-    protected client: AzureOpenAI;
+    protected llm: LLMProvider | null;
+    protected deployment: string;
     protected name: string;
     protected systemPrompt: string;
+    protected maxRetries: number;
 
-    constructor(name: string, systemPrompt: string) {
+    constructor(
+        name: string,
+        systemPrompt: string,
+        options: AgentLLMOptions = {}
+    ) {
         this.name = name;
         this.systemPrompt = systemPrompt;
 
-        // Initialize Azure OpenAI client
-        this.client = new AzureOpenAI({
-            apiKey: AZURE_SERVICES_CONFIG.openai.key,
-            apiVersion: AZURE_SERVICES_CONFIG.openai.apiVersion,
-            endpoint: AZURE_SERVICES_CONFIG.openai.endpoint,
-        });
+        // Each agent picks its provider and deployment through config
+        const settings: LLMSettings = getLLMSettings(name);
+        this.llm = options.provider || getLLMProvider(settings.provider);
+        this.deployment = options.deployment || settings.deployment;
+        this.maxRetries = options.maxRetries ?? AGENT_CONFIG.maxRetries;
+        if (!this.llm) {
+            console.warn(
+                `${name} agent: LLM provider "${settings.provider}" is not configured`
+            );
+        }
+    }
+
+    // Logs a line, which also reaches the log of the job being processed
+    protected log(message: string, level: PipelineLogLine["level"] = "info") {
+        pipelineLog(this.name, message, level);
     }
 
     // All agents must implement an execute method
     abstract execute(input: AgentInput): Promise<AgentOutput>;
 
-    // Common method to call Azure OpenAI
+    // Common method to call the configured LLM provider
     protected async callLLM(
         prompt: string,
-        temperature: number = 0.2
+        temperature: number = 0.2,
+        options: LLMCallOptions = {}
     ): Promise<string> {
+        const { responseFormat, signal } = options;
+        throwIfCancelled(signal);
         try {
-            const response = await this.client.chat.completions.create({
-                model: AZURE_SERVICES_CONFIG.openai.deployment,
-                messages: [
-                    { role: "system", content: this.systemPrompt },
-                    { role: "user", content: prompt },
-                ],
-                temperature,
-            });
-
-            return response.choices[0].message?.content || "";
+            const messages: ChatMessage[] = [
+                { role: "system", content: this.systemPrompt },
+                { role: "user", content: prompt },
+            ];
+
+            // Recorded and replayed by prompt, independent of the provider
+            return await withFixture(
+                {
+                    kind: "llm",
+                    label: this.name,
+                    request: {
+                        messages,
+                        temperature,
+                        format: responseFormat?.name,
+                    },
+                },
+                async () => {
+                    if (!this.llm) {
+                        throw new Error("no LLM provider configured");
+                    }
+                    const response = await this.llm.chat({
+                        model: this.deployment,
+                        messages,
+                        temperature,
+                        responseFormat,
+                        signal,
+                    });
+                    return response.content;
+                }
+            );
         } catch (error) {
+            rethrowCancellation(error, signal);
             console.error(`Error in ${this.name} agent LLM call:`, error);
             throw new Error(
                 `${this.name} agent failed: ${
@@ -55,21 +135,75 @@ export abstract class BaseAgent {
         }
     }
 
-    // Common method to parse JSON from LLM responses safely
-    protected safeParseJSON(text: string): any {
-        try {
-            // Try to find JSON in the response
-            const jsonMatch = text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                return JSON.parse(jsonMatch[0]);
+    // Requests JSON following the schema and parses it. Throws a
+    // StructuredOutputError when the response cannot be used.
+    protected async callLLMForJSON(
+        prompt: string,
+        responseFormat: JSONSchemaFormat,
+        temperature: number = 0.2,
+        signal?: AbortSignal
+    ): Promise<any> {
+        const text = await this.callLLM(prompt, temperature, {
+            responseFormat,
+            signal,
+        });
+        return parseStructuredOutput(text, responseFormat, `${this.name} agent`);
+    }
+
+    /**
+     * Asks the model, validates the answer and re-prompts with the problems
+     * found until an answer passes or the retry budget is spent. Unparseable
+     * answers and schema violations count as rejections. When the budget
+     * runs out the last answer is returned anyway, with its issues recorded
+     * in the final attempt, unless it could not be parsed at all.
+     */
+    protected async generateValidated<T>(
+        prompt: string,
+        generate: (prompt: string) => Promise<T>,
+        validate: (output: T) => string[]
+    ): Promise<ValidatedOutput<T>> {
+        const attempts: AgentAttempt[] = [];
+        let current = prompt;
+
+        for (let attempt = 1; ; attempt++) {
+            const lastAttempt = attempt > this.maxRetries;
+            let output: T | undefined;
+            let issues: string[];
+            try {
+                output = await generate(current);
+                issues = validate(output);
+            } catch (error) {
+                const rejection = describeRejection(error);
+                if (!rejection || lastAttempt) throw error;
+                output = undefined;
+                issues = rejection;
             }
-            // If no JSON pattern found, attempt to parse the whole text
-            return JSON.parse(text);
-        } catch (error) {
-            console.error(`Error parsing JSON in ${this.name} agent:`, error);
-            console.debug("Raw text:", text);
-            // Return a minimal valid object
-            return { error: "Failed to parse response", raw: text };
+
+            attempts.push({ attempt, accepted: issues.length === 0, issues });
+            if (output !== undefined && (issues.length === 0 || lastAttempt)) {
+                return { output, attempts };
+            }
+
+            this.log(
+                `${this.name} agent attempt ${attempt} rejected: ${issues.join("; ")}`,
+                "warn"
+            );
+            current = `${prompt}
+
+Your previous response was rejected for these reasons:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Respond again with a complete, corrected answer that fixes every problem above.`;
         }
     }
 }
+
+// Issues for errors that mean "the model answered badly", or null for
+// errors a retry cannot fix
+function describeRejection(error: unknown): string[] | null {
+    if (error instanceof StructuredOutputError) return [error.message];
+    if (error instanceof ModelValidationError) {
+        return error.issues.map((issue) => `${issue.path}: ${issue.message}`);
+    }
+    return null;
+}
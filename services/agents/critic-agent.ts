@@ -0,0 +1,160 @@
+import {
+    BaseAgent,
+    AgentAttempt,
+    AgentInput,
+    AgentLLMOptions,
+    AgentOutput,
+} from "./base-agent";
+import { AGENT_CONFIG } from "./agent-config";
+import { ModelData } from "@/lib/model-schema";
+import { Critique, reviewDesign } from "@/lib/design-review";
+import { extractRoomRequirements } from "@/lib/layout-solver";
+import { isReplayingFixtures } from "../ai-fixtures";
+import { JSONSchemaFormat } from "../llm-provider";
+import { CancelledError } from "../cancellation";
+
+const CRITIQUE_FORMAT: JSONSchemaFormat = {
+    name: "design_critique",
+    schema: {
+        type: "object",
+        properties: {
+            critiques: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        rooms: { type: "array", items: { type: "string" } },
+                        message: { type: "string" },
+                        suggestion: { type: "string" },
+                    },
+                    required: ["rooms", "message", "suggestion"],
+                },
+            },
+        },
+        required: ["critiques"],
+    },
+};
+
+export class CriticAgent extends BaseAgent {
+    constructor(options: AgentLLMOptions = {}) {
+        super("Critic", AGENT_CONFIG.criticSystemPrompt, options);
+    }
+
+    async execute(input: AgentInput): Promise<AgentOutput> {
+        this.log("Critic Agent reviewing design against requirements");
+
+        try {
+            const design: ModelData = input.design;
+
+            // Step 1: Read the programme the design was meant to satisfy;
+            // without listed rooms only the model's own review applies
+            const programme = extractRoomRequirements(input.requirements, {
+                useDefaultProgramme: false,
+            });
+
+            // Step 2: Ask the LLM for problems the rule checks cannot see
+            const { critiques, attempts } = await this.reviewWithLLM(
+                design,
+                input.requirements,
+                input.signal
+            );
+
+            // Step 3: Check rooms, sizes and adjacencies and score the result
+            const review = reviewDesign(design, programme, critiques);
+
+            return {
+                score: review.score,
+                approved: review.approved,
+                critiques: review.critiques,
+                matches: review.matches,
+                attempts,
+            };
+        } catch (error) {
+            console.error("Critic Agent error:", error);
+            if (error instanceof CancelledError) throw error;
+            return {
+                error: `Critic Agent failed: ${
+                    error instanceof Error ? error.message : String(error)
+                }`,
+                score: 0,
+                approved: false,
+                critiques: [],
+            };
+        }
+    }
+
+    // The LLM's review is advisory: its critiques count as warnings, and
+    // when it is unavailable or answers badly the rule checks stand alone
+    private async reviewWithLLM(
+        design: ModelData,
+        requirements: any,
+        signal?: AbortSignal
+    ): Promise<{ critiques: Critique[]; attempts: AgentAttempt[] }> {
+        if (!this.llm && !isReplayingFixtures()) {
+            return { critiques: [], attempts: [] };
+        }
+
+        try {
+            const { output, attempts } = await this.generateValidated(
+                this.preparePrompt(design, requirements),
+                (current) =>
+                    this.callLLMForJSON(
+                        current,
+                        CRITIQUE_FORMAT,
+                        AGENT_CONFIG.defaultTemperature,
+                        signal
+                    ),
+                (review) =>
+                    Array.isArray(review?.critiques)
+                        ? []
+                        : ["critiques: must be an array"]
+            );
+
+            const critiques: Critique[] = output.critiques
+                .filter((c: any) => typeof c?.message === "string")
+                .map((c: any) => ({
+                    kind: "other",
+                    severity: "warning",
+                    rooms: Array.isArray(c.rooms)
+                        ? c.rooms.filter((r: unknown) => typeof r === "string")
+                        : [],
+                    message: c.message,
+                    suggestion:
+                        typeof c.suggestion === "string" ? c.suggestion : "",
+                }));
+            return { critiques, attempts };
+        } catch (error) {
+            if (error instanceof CancelledError) throw error;
+            this.log(
+                `Critic Agent LLM review skipped: ${
+                    error instanceof Error ? error.message : String(error)
+                }`,
+                "warn"
+            );
+            return { critiques: [], attempts: [] };
+        }
+    }
+
+    private preparePrompt(design: ModelData, requirements: any): string {
+        return `Review this floor plan against the client's requirements.
+
+REQUIREMENTS:
+${JSON.stringify(requirements, null, 2)}
+
+DESIGN (meters; x grows east, z grows south):
+${JSON.stringify(design, null, 2)}
+
+Missing rooms, room sizes and required adjacencies are checked separately, so do not report those. Report only other concrete problems a designer can fix, such as poor circulation, bedrooms opening onto the kitchen, rooms without daylight or awkward proportions. Report nothing if the design is sound.
+
+Your response must be a valid JSON object with the following structure:
+{
+  "critiques": [
+    {
+      "rooms": ["string (names of the rooms involved)"],
+      "message": "string (the problem)",
+      "suggestion": "string (the change that fixes it)"
+    }
+  ]
+}`;
+    }
+}
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DesignerAgent } from "./designer-agent";
+
+describe("DesignerAgent", () => {
+    it("keeps sketched rooms where they were drawn when a door joins them", async () => {
+        const output = await new DesignerAgent().execute({
+            mode: "solver",
+            requirements: {
+                rooms: [
+                    {
+                        name: "Kitchen",
+                        sketch_room: 1,
+                        count: 1,
+                        width: 4,
+                        length: 4,
+                        x: 0,
+                        z: 0,
+                        adjacent_to: ["Living"],
+                    },
+                    {
+                        name: "Living",
+                        sketch_room: 2,
+                        count: 1,
+                        width: 5,
+                        length: 4,
+                        x: 8,
+                        z: 0,
+                        adjacent_to: ["Kitchen"],
+                    },
+                ],
+            },
+        });
+
+        assert.equal(output.error, undefined);
+        const room = (name: string) =>
+            output.design.rooms.find((room: any) => room.name === name);
+        assert.deepEqual(
+            [room("Kitchen").x, room("Kitchen").z],
+            [0, 0],
+            "Kitchen moved"
+        );
+        assert.deepEqual(
+            [room("Living").x, room("Living").z],
+            [8, 0],
+            "Living moved"
+        );
+        assert.ok(
+            output.doorDiagnostics.every(
+                (diagnostic: any) => diagnostic.resolution !== "moved"
+            )
+        );
+    });
+});
@@ -1,70 +1,369 @@
-import { BaseAgent, AgentInput, AgentOutput } from "./base-agent";
-import { AGENT_CONFIG } from "./agent-config";
+import {
+    BaseAgent,
+    AgentAttempt,
+    AgentInput,
+    AgentLLMOptions,
+    AgentOutput,
+    ValidatedOutput,
+} from "./base-agent";
+import { AGENT_CONFIG, DESIGN_VARIANT_STRATEGIES } from "./agent-config";
+import {
+    MODEL_DATA_JSON_SCHEMA,
+    ModelData,
+    ModelLevel,
+    ModelRoom,
+    ModelStair,
+    ModelValidationError,
+    parseModelData,
+} from "@/lib/model-schema";
+import { Point2, polygonArea, polygonBounds } from "@/lib/room-geometry";
+import {
+    LayoutCorrection,
+    detectLayoutProblems,
+    repairLayout,
+} from "@/lib/layout-repair";
+import {
+    DoorDiagnostic,
+    checkDoorAdjacency,
+    resolveDoorAdjacency,
+} from "@/lib/door-adjacency";
+import {
+    WindowPlacement,
+    resolveWindowPlacement,
+} from "@/lib/window-placement";
+import {
+    DesignMode,
+    RoomRequirement,
+    extractRoomRequirements,
+    getModelRequirements,
+    isDesignMode,
+    solveLayout,
+} from "@/lib/layout-solver";
+import { Critique } from "@/lib/design-review";
+import { JSONSchemaFormat } from "../llm-provider";
+import { StructuredOutputError } from "../structured-output";
+import { CancelledError } from "../cancellation";
+
+export interface DesignVariant {
+    index: number; // 0 for the first design of a request
+    strategy: (typeof DESIGN_VARIANT_STRATEGIES)[number];
+}
+
+const MODEL_DATA_FORMAT: JSONSchemaFormat = {
+    name: "model_data",
+    schema: MODEL_DATA_JSON_SCHEMA,
+};
+
+// A room drawn on the sketch, at the place and size it was drawn with
+interface SketchedRoom {
+    name: string;
+    x: number;
+    z: number;
+    width: number;
+    length: number;
+    footprint?: [number, number][];
+}
+
+// Meters a sketched room may be off before it counts as moved; the sketch
+// is read to the centimeter
+const SKETCH_TOLERANCE = 0.05;
 
 export class DesignerAgent extends BaseAgent {
-    constructor() {
-        super("Designer", AGENT_CONFIG.designerSystemPrompt);
+    constructor(options: AgentLLMOptions = {}) {
+        super("Designer", AGENT_CONFIG.designerSystemPrompt, options);
     }
 
     async execute(input: AgentInput): Promise<AgentOutput> {
-        console.log("Designer Agent processing requirements");
+        const mode: DesignMode = isDesignMode(input.mode) ? input.mode : "llm";
+        // A revision reworks an earlier design to answer the critic
+        const revision: { design: ModelData; critiques: Critique[] } | null =
+            input.revision || null;
+        // Variants after the first take another approach and solver seed
+        const variant: DesignVariant = input.variant || {
+            index: 0,
+            strategy: DESIGN_VARIANT_STRATEGIES[0],
+        };
+        this.log(
+            `Designer Agent ${revision ? "revising design" : "processing requirements"} (mode: ${mode})`
+        );
 
         try {
-            // Step 1: Prepare the prompt with the requirements
-            const prompt = this.preparePrompt(input.requirements);
-
-            // Step 2: Call the LLM to generate a design
-            const llmResponse = await this.callLLM(prompt, 0.4); // Higher temperature for creativity
+            // Steps 1-4: Lay out the rooms with the LLM, the local solver,
+            // or the LLM with the solver as a fallback
+            const { output: enhancedDesign, attempts } =
+                mode === "solver"
+                    ? {
+                          output: this.solveDesign(
+                              extractRoomRequirements(input.requirements),
+                              "solver",
+                              undefined,
+                              variant.index
+                          ),
+                          attempts: [],
+                      }
+                    : await this.designWithLLM(
+                          revision
+                              ? this.prepareRevisionPrompt(
+                                    revision.design,
+                                    revision.critiques,
+                                    input.requirements
+                                )
+                              : this.preparePrompt(
+                                    input.requirements,
+                                    variant.strategy.hint
+                                ),
+                          input.requirements,
+                          mode === "llm+solver-repair",
+                          variant.index,
+                          input.signal
+                      );
 
-            // Step 3: Parse and validate the design
-            const rawDesign = this.safeParseJSON(llmResponse);
-
-            // Step 4: Enhance and validate the design
-            const enhancedDesign = this.enhanceDesign(
-                rawDesign,
-                input.requirements
+            // Step 5: Put rooms drawn on a sketch back where they were
+            // drawn, whatever the model or the solver made of them
+            const sketched = pinSketchedRooms(
+                enhancedDesign,
+                getSketchedRooms(input.requirements)
             );
+            sketched.notes.forEach((note) => this.log(note, "warn"));
+
+            // Step 6: Resolve overlapping rooms, doors between rooms that
+            // do not share a wall and windows on interior walls, moving the
+            // other rooms rather than the sketched ones
+            const { design, corrections, doorDiagnostics, windowPlacements } =
+                this.repairDesign(sketched.design, sketched.pinned);
 
             return {
                 requirements: input.requirements,
-                design: enhancedDesign,
+                design,
+                designMode: mode,
+                variant: variant.strategy.name,
+                attempts,
+                layoutCorrections: corrections,
+                doorDiagnostics,
+                windowPlacements,
             };
         } catch (error) {
             console.error("Designer Agent error:", error);
+            if (
+                error instanceof StructuredOutputError ||
+                error instanceof CancelledError
+            ) {
+                throw error;
+            }
             return {
                 error: `Designer Agent failed: ${
                     error instanceof Error ? error.message : String(error)
                 }`,
+                validationIssues:
+                    error instanceof ModelValidationError
+                        ? error.issues
+                        : undefined,
                 requirements: input.requirements,
                 designCreated: false,
             };
         }
     }
 
-    private preparePrompt(requirements: any): string {
+    private async designWithLLM(
+        prompt: string,
+        requirements: any,
+        repairWithSolver: boolean,
+        seed: number,
+        signal?: AbortSignal
+    ): Promise<ValidatedOutput<ModelData>> {
+        let design: ModelData;
+        let attempts: AgentAttempt[] = [];
+        const sketched = getSketchedRooms(requirements);
+        try {
+            // Steps 1-3: Call the LLM for a design following the model
+            // schema (higher temperature for creativity), re-prompting with
+            // the problems found until the design passes or the retry
+            // budget runs out
+            const result = await this.generateValidated(
+                prompt,
+                (current) =>
+                    this.callLLMForJSON(
+                        current,
+                        MODEL_DATA_FORMAT,
+                        0.4,
+                        signal
+                    ),
+                (rawDesign) => this.checkDesign(rawDesign, sketched)
+            );
+            attempts = result.attempts;
+
+            // Step 4: Enhance and validate the design
+            design = this.enhanceDesign(result.output);
+        } catch (error) {
+            if (!repairWithSolver || error instanceof CancelledError) {
+                throw error;
+            }
+            this.log(
+                `LLM design unusable, laying out the requirements with the solver: ${
+                    error instanceof Error ? error.message : String(error)
+                }`,
+                "warn"
+            );
+            return {
+                output: this.solveDesign(
+                    extractRoomRequirements(requirements),
+                    "llm+solver-repair",
+                    undefined,
+                    seed
+                ),
+                attempts,
+            };
+        }
+
+        if (!repairWithSolver) return { output: design, attempts };
+
+        // Re-pack the LLM's rooms when their geometry is still broken
+        const problems = this.findGeometryProblems(design);
+        if (problems.length === 0) return { output: design, attempts };
+
+        this.log(
+            `Re-packing LLM layout with the solver: ${problems.join("; ")}`,
+            "warn"
+        );
+        const repaired = this.solveDesign(
+            getModelRequirements(design),
+            "llm+solver-repair",
+            design,
+            seed
+        );
+        return {
+            output: {
+                ...repaired,
+                metadata: {
+                    ...repaired.metadata,
+                    notes: [
+                        ...(repaired.metadata?.notes || []),
+                        `Re-packed the LLM layout: ${problems.join("; ")}`,
+                    ],
+                },
+            },
+            attempts,
+        };
+    }
+
+    // Problems worth sending back to the model: fields it left out (which
+    // enhancement would otherwise paper over with defaults), schema
+    // violations, broken geometry and sketched rooms it moved
+    private checkDesign(rawDesign: any, sketched: SketchedRoom[]): string[] {
+        const issues: string[] = [];
+        const rooms = Array.isArray(rawDesign?.rooms) ? rawDesign.rooms : [];
+        rooms.forEach((room: any, i: number) => {
+            ["width", "length", "x", "z"].forEach((field) => {
+                if (typeof room?.[field] !== "number" || !isFinite(room[field])) {
+                    issues.push(`rooms[${i}].${field}: missing or not a number`);
+                }
+            });
+        });
+
+        let design: ModelData;
+        try {
+            // Enhancement edits in place; check a copy
+            design = this.enhanceDesign(JSON.parse(JSON.stringify(rawDesign)));
+        } catch (error) {
+            if (!(error instanceof ModelValidationError)) throw error;
+            return [
+                ...issues,
+                ...error.issues.map((issue) => `${issue.path}: ${issue.message}`),
+            ];
+        }
+        return [
+            ...issues,
+            ...this.findGeometryProblems(design),
+            ...checkSketchedRooms(design, sketched),
+        ];
+    }
+
+    // Rooms that overlap and doors between rooms that do not touch; a door
+    // and the matching connected_to entries report the same problem once
+    private findGeometryProblems(design: ModelData): string[] {
+        const problems = [
+            ...detectLayoutProblems(design)
+                .filter((problem) => problem.kind === "overlap")
+                .map(
+                    (problem) =>
+                        `"${problem.rooms[0]}" overlaps "${problem.rooms[1]}"`
+                ),
+            ...checkDoorAdjacency(design).map((issue) => issue.message),
+        ];
+        return problems.filter((problem, i) => problems.indexOf(problem) === i);
+    }
+
+    // Lays out a room programme with the deterministic solver. When it
+    // re-packs an LLM design, that design's storeys, windows and metadata
+    // are carried over and only the room geometry is replaced.
+    private solveDesign(
+        programme: RoomRequirement[],
+        source: DesignMode,
+        original?: ModelData,
+        seed: number = 0
+    ): ModelData {
+        const { design, notes } = solveLayout(programme, { seed });
+        const raw: any = {
+            ...design,
+            windows: original ? original.windows : design.windows,
+            metadata: {
+                ...original?.metadata,
+                designSource: source,
+                notes: [...(original?.metadata?.notes || []), ...notes],
+            },
+        };
+        if (original?.levels) raw.levels = original.levels;
+        if (original?.stairs) raw.stairs = original.stairs;
+
+        return this.enhanceDesign(raw);
+    }
+
+    private preparePrompt(requirements: any, approach: string = ""): string {
         return `Create a detailed architectural design based on these requirements:
 ${JSON.stringify(requirements, null, 2)}
-
+${approach ? `\nDESIGN APPROACH: ${approach}\n` : ""}
 Generate a complete 3D model with:
 1. Multiple rooms with appropriate dimensions and positions
 2. Proper connections between rooms (doors)
 3. Windows placed appropriately on walls
 4. Logical spatial relationships
+5. One entry in "levels" per storey, and stairs linking each storey to the one below
 
 Your response must be a valid JSON object with the following structure:
 {
+  "levels": [
+    {
+      "name": "string (e.g. Ground Floor, First Floor)",
+      "elevation": number (floor level above ground),
+      "height": number (floor-to-floor height)
+    }
+  ],
   "rooms": [
     {
       "name": "string",
+      "level": "string (name of the level the room is on)",
       "width": number,
       "length": number,
       "height": number,
       "x": number,
-      "y": number,
+      "y": number (equal to the elevation of the room's level),
       "z": number,
+      "rotation": number (optional, degrees from +x towards +z),
+      "footprint": [[x, z], ...] (optional polygon for non-rectangular rooms),
       "connected_to": ["string"]
     }
   ],
+  "stairs": [
+    {
+      "name": "string",
+      "from_level": "string",
+      "to_level": "string",
+      "x": number,
+      "z": number,
+      "width": number,
+      "length": number
+    }
+  ],
   "windows": [
     {
       "room": "string",
@@ -87,13 +386,46 @@ Your response must be a valid JSON object with the following structure:
 IMPORTANT:
 - Ensure all measurements are in meters.
 - Position rooms logically with proper spatial relationships.
-- Include at least one window per living space.
-- Ensure doors connect adjacent rooms correctly.
+- Include at least one window per living space, on a wall that faces outside (not a wall shared with another room).
+- Ensure doors connect adjacent rooms correctly: rooms joined by a door must share a wall at least 1.1m long. Add corridors as real rooms instead of linking distant rooms.
 - Use standard dimensions (doors: ~0.9m width, windows: ~1.2m width).
-- Make each room's dimensions appropriate for its function.`;
+- Keep any doors and windows listed in the requirements, with their rooms, walls, widths and positions.
+- Rooms with a "sketch_room" in the requirements were drawn by the user: keep their name, x, z, width, length and footprint exactly, unrotated, and fit the other rooms around them.
+- Make each room's dimensions appropriate for its function.
+- Leave out "footprint" for rectangular rooms; for L-shaped or angled rooms give the outline in room-local meters starting at [0, 0], with width and length equal to its extents.
+- Single-storey designs use one level named "Ground Floor" at elevation 0.
+- Rooms on upper storeys should sit within the footprint of the storey below.
+- Place stairs inside a room or hallway that exists on both connected levels (stairs: ~1m width, ~3.5m run per 3m rise).`;
+    }
+
+    private prepareRevisionPrompt(
+        design: ModelData,
+        critiques: Critique[],
+        requirements: any
+    ): string {
+        return `Revise this architectural design to address the reviewer's critiques.
+
+CURRENT DESIGN:
+${JSON.stringify(design, null, 2)}
+
+ORIGINAL REQUIREMENTS:
+${JSON.stringify(requirements, null, 2)}
+
+CRITIQUES:
+${critiques
+    .map(
+        (critique) =>
+            `- [${critique.severity}] ${critique.message}. Suggested fix: ${critique.suggestion}`
+    )
+    .join("\n")}
+
+IMPORTANT:
+- Change only what the critiques require. Rooms no critique mentions keep their name, size and position.
+- Rooms joined by a door must share a wall at least 1.1m long.
+- Respond with the complete revised design as a JSON object with the same structure as the current design ("levels", "rooms", "stairs", "windows", "doors"), in meters.`;
     }
 
-    private enhanceDesign(design: any, requirements: any): any {
+    private enhanceDesign(design: any): ModelData {
         // Validate and enhance the design
         if (
             !design ||
@@ -101,10 +433,14 @@ IMPORTANT:
             !Array.isArray(design.rooms) ||
             design.rooms.length === 0
         ) {
-            console.warn("Invalid design structure, creating fallback design");
-            return this.createFallbackDesign(requirements);
+            throw new ModelValidationError(
+                [{ path: "rooms", message: "must contain at least one room" }],
+                "Designer agent"
+            );
         }
 
+        const levels = this.normalizeLevels(design);
+
         // Ensure all required properties exist
         design.rooms.forEach((room: any) => {
             room.name = room.name || "unnamedRoom";
@@ -117,32 +453,34 @@ IMPORTANT:
             room.connected_to = Array.isArray(room.connected_to)
                 ? room.connected_to
                 : [];
+            this.normalizeFootprint(room);
+
+            // Snap each room onto its storey
+            if (levels.length > 0) {
+                const level =
+                    levels.find((l) => l.name === room.level) ||
+                    levels.reduce((closest, l) =>
+                        Math.abs(l.elevation - Number(room.y)) <
+                        Math.abs(closest.elevation - Number(room.y))
+                            ? l
+                            : closest
+                    );
+                room.level = level.name;
+                room.y = level.elevation;
+            }
         });
 
+        this.ensureStairs(design, levels);
+
         // Ensure windows array exists
         if (!design.windows || !Array.isArray(design.windows)) {
             design.windows = [];
         }
 
-        // Add windows if missing for living spaces
-        const livingSpaces = ["living", "bedroom", "kitchen", "dining"];
-        design.rooms.forEach((room: any) => {
-            const roomType = room.name.toLowerCase();
-            const hasLivingSpaceKeyword = livingSpaces.some((space) =>
-                roomType.includes(space)
-            );
-            const hasWindow = design.windows.some(
-                (window: any) => window.room === room.name
-            );
-
-            if (hasLivingSpaceKeyword && !hasWindow) {
-                design.windows.push({
-                    room: room.name,
-                    wall: "south", // Default to south wall
-                    width: 1.2,
-                    height: 1.0,
-                    position: 0.5,
-                });
+        // Models tend to capitalise wall names ("South")
+        design.windows.forEach((window: any) => {
+            if (typeof window.wall === "string") {
+                window.wall = window.wall.toLowerCase();
             }
         });
 
@@ -172,87 +510,341 @@ IMPORTANT:
             });
         });
 
-        return design;
+        // Anything still wrong at this point is reported field by field
+        return parseModelData(design, "Designer output");
+    }
+
+    // Runs the layout repair, door adjacency and window placement passes
+    // and records what they changed in the design metadata, so every moved
+    // room, added hallway, dropped door and placed window can be traced in
+    // the result
+    private repairDesign(
+        design: ModelData,
+        fixed: string[] = []
+    ): {
+        design: ModelData;
+        corrections: LayoutCorrection[];
+        doorDiagnostics: DoorDiagnostic[];
+        windowPlacements: WindowPlacement[];
+    } {
+        const {
+            model: laidOut,
+            corrections,
+            unresolved,
+        } = repairLayout(design, { fixed });
+        corrections.forEach((correction) => {
+            this.log(`Layout repair: ${correction.message}`);
+        });
+
+        const overlaps = unresolved.filter(
+            (problem) => problem.kind === "overlap"
+        );
+        overlaps.forEach((problem) => {
+            this.log(
+                `Layout repair could not separate "${problem.rooms[0]}" and "${problem.rooms[1]}"`,
+                "warn"
+            );
+        });
+
+        const { model: connected, diagnostics } = resolveDoorAdjacency(
+            laidOut,
+            { fixed }
+        );
+        diagnostics.forEach((diagnostic) => {
+            this.log(`Door check: ${diagnostic.message}`);
+        });
+
+        // Living spaces get a window on an exterior wall if they have none
+        const livingSpaces = ["living", "bedroom", "kitchen", "dining"];
+        const { model, placements } = resolveWindowPlacement(connected, {
+            requireWindow: (room) =>
+                livingSpaces.some((space) =>
+                    room.name.toLowerCase().includes(space)
+                ),
+        });
+        const unplacedWindows = placements.filter(
+            (placement) =>
+                placement.resolution === "removed" ||
+                placement.resolution === "unplaced"
+        );
+        unplacedWindows.forEach((placement) => {
+            this.log(`Window placement: ${placement.reason}`, "warn");
+        });
+
+        return {
+            design: {
+                ...model,
+                metadata: {
+                    ...model.metadata,
+                    layoutCorrections: corrections,
+                    doorDiagnostics: diagnostics,
+                    windowPlacements: placements,
+                    notes: [
+                        ...(model.metadata?.notes || []),
+                        ...overlaps.map(
+                            (problem) =>
+                                `Rooms "${problem.rooms[0]}" and "${problem.rooms[1]}" still overlap by ${problem.amount} m`
+                        ),
+                        ...diagnostics
+                            .filter(
+                                (diagnostic) =>
+                                    diagnostic.resolution === "rejected"
+                            )
+                            .map((diagnostic) => diagnostic.message),
+                        ...unplacedWindows.map((placement) => placement.reason),
+                    ],
+                },
+            },
+            corrections,
+            doorDiagnostics: diagnostics,
+            windowPlacements: placements,
+        };
+    }
+
+    // Fills in missing level fields and stacks storeys without an explicit
+    // elevation on top of the previous one
+    private normalizeLevels(design: any): ModelLevel[] {
+        if (!Array.isArray(design.levels) || design.levels.length === 0) {
+            delete design.levels;
+            return [];
+        }
+
+        let nextElevation = 0;
+        design.levels = design.levels.map((level: any, index: number) => {
+            const height = this.ensurePositiveNumber(level?.height, 3);
+            const elevation = Number.isFinite(Number(level?.elevation))
+                ? Number(level.elevation)
+                : nextElevation;
+            nextElevation = elevation + height;
+            return {
+                name: level?.name || `Level ${index}`,
+                elevation,
+                height,
+            };
+        });
+        design.levels.sort(
+            (a: ModelLevel, b: ModelLevel) => a.elevation - b.elevation
+        );
+
+        return design.levels;
+    }
+
+    // Drops unusable footprints, moves the polygon so its bounding box starts
+    // at the local origin and makes width/length match its extents
+    private normalizeFootprint(room: any) {
+        const rotation = Number(room.rotation);
+        if (Number.isFinite(rotation) && rotation % 360 !== 0) {
+            room.rotation = ((rotation % 360) + 360) % 360;
+        } else {
+            delete room.rotation;
+        }
+
+        const points: Point2[] = Array.isArray(room.footprint)
+            ? room.footprint
+                  .filter(
+                      (point: any) =>
+                          Array.isArray(point) &&
+                          point.length === 2 &&
+                          point.every((v: any) => Number.isFinite(Number(v)))
+                  )
+                  .map((point: any[]) => [Number(point[0]), Number(point[1])])
+            : [];
+        if (points.length < 3 || polygonArea(points) <= 0) {
+            delete room.footprint;
+            return;
+        }
+
+        const bounds = polygonBounds(points);
+        const angle = ((room.rotation || 0) * Math.PI) / 180;
+        room.x += bounds.minX * Math.cos(angle) - bounds.minZ * Math.sin(angle);
+        room.z += bounds.minX * Math.sin(angle) + bounds.minZ * Math.cos(angle);
+        room.footprint = points.map(([x, z]) => [
+            x - bounds.minX,
+            z - bounds.minZ,
+        ]);
+        room.width = bounds.maxX - bounds.minX;
+        room.length = bounds.maxZ - bounds.minZ;
+    }
+
+    // Makes sure every upper storey is reached by at least one stair
+    private ensureStairs(design: any, levels: ModelLevel[]) {
+        if (levels.length < 2) {
+            if (Array.isArray(design.stairs) && design.stairs.length === 0) {
+                delete design.stairs;
+            }
+            return;
+        }
+
+        design.stairs = (Array.isArray(design.stairs) ? design.stairs : []).map(
+            (stair: any, index: number) => ({
+                name: stair.name || `stair${index + 1}`,
+                from_level: stair.from_level,
+                to_level: stair.to_level,
+                x: Number.isFinite(Number(stair.x)) ? Number(stair.x) : 0,
+                z: Number.isFinite(Number(stair.z)) ? Number(stair.z) : 0,
+                width: this.ensurePositiveNumber(stair.width, 1),
+                length: this.ensurePositiveNumber(stair.length, 3.5),
+            })
+        );
+
+        for (let i = 1; i < levels.length; i++) {
+            const below = levels[i - 1];
+            const above = levels[i];
+            const reached = design.stairs.some(
+                (stair: ModelStair) => stair.to_level === above.name
+            );
+            if (reached) continue;
+
+            // Start the flight in the first room of the lower storey
+            const host = design.rooms.find(
+                (room: any) => room.level === below.name
+            );
+            design.stairs.push({
+                name: `stair${design.stairs.length + 1}`,
+                from_level: below.name,
+                to_level: above.name,
+                x: host ? host.x : 0,
+                z: host ? host.z : 0,
+                width: 1,
+                length: 3.5,
+            });
+        }
     }
 
     private ensurePositiveNumber(value: any, defaultValue: number): number {
         const num = Number(value);
         return !isNaN(num) && num > 0 ? num : defaultValue;
     }
+}
 
-    private createFallbackDesign(requirements: any): any {
-        // Create a simple fallback design if the LLM fails
-        return {
-            rooms: [
-                {
-                    name: "living",
-                    width: 5,
-                    length: 7,
-                    height: 3,
-                    x: 0,
-                    y: 0,
-                    z: 0,
-                    connected_to: ["kitchen", "hallway"],
-                },
-                {
-                    name: "kitchen",
-                    width: 4,
-                    length: 4,
-                    height: 3,
-                    x: 5,
-                    y: 0,
-                    z: 0,
-                    connected_to: ["living"],
-                },
-                {
-                    name: "hallway",
-                    width: 2,
-                    length: 5,
-                    height: 3,
-                    x: 0,
-                    y: 0,
-                    z: 7,
-                    connected_to: ["living", "bedroom"],
-                },
-                {
-                    name: "bedroom",
-                    width: 4,
-                    length: 4,
-                    height: 3,
-                    x: 2,
-                    y: 0,
-                    z: 7,
-                    connected_to: ["hallway"],
-                },
-            ],
-            windows: [
-                {
-                    room: "living",
-                    wall: "south",
-                    width: 2,
-                    height: 1.5,
-                    position: 0.5,
-                },
-                {
-                    room: "kitchen",
-                    wall: "east",
-                    width: 1.5,
-                    height: 1.2,
-                    position: 0.5,
-                },
-                {
-                    room: "bedroom",
-                    wall: "east",
-                    width: 1.5,
-                    height: 1.2,
-                    position: 0.5,
-                },
-            ],
-            doors: [
-                { from: "living", to: "kitchen", width: 1.2, height: 2.1 },
-                { from: "living", to: "hallway", width: 1.2, height: 2.1 },
-                { from: "hallway", to: "bedroom", width: 0.9, height: 2.1 },
-            ],
+// Rooms the interpreter took from the sketch (those with a sketch_room),
+// with the place and size they were drawn at
+function getSketchedRooms(requirements: any): SketchedRoom[] {
+    const rooms = Array.isArray(requirements?.rooms) ? requirements.rooms : [];
+    return rooms.flatMap((room: any): SketchedRoom[] => {
+        const { name, x, z, width, length, footprint } = room ?? {};
+        if (
+            typeof room?.sketch_room !== "number" ||
+            typeof name !== "string" ||
+            ![x, z, width, length].every(Number.isFinite)
+        ) {
+            return [];
+        }
+        return [
+            {
+                name,
+                x,
+                z,
+                width,
+                length,
+                ...(Array.isArray(footprint) ? { footprint } : {}),
+            },
+        ];
+    });
+}
+
+function findSketchedRoom<T extends { name: string }>(
+    rooms: T[],
+    sketched: SketchedRoom
+): T | undefined {
+    const name = sketched.name.trim().toLowerCase();
+    return rooms.find((room) => room.name.trim().toLowerCase() === name);
+}
+
+function describeSketchedRoom(sketched: SketchedRoom): string {
+    return `x ${sketched.x}, z ${sketched.z}, ${sketched.width} x ${sketched.length} m`;
+}
+
+function movedFromSketch(room: ModelRoom, sketched: SketchedRoom): boolean {
+    return (
+        !!room.rotation ||
+        (["x", "z", "width", "length"] as const).some(
+            (field) =>
+                Math.abs(room[field] - sketched[field]) > SKETCH_TOLERANCE
+        )
+    );
+}
+
+// Sketched rooms the design left out, moved, resized or turned
+function checkSketchedRooms(
+    design: ModelData,
+    sketched: SketchedRoom[]
+): string[] {
+    return sketched.flatMap((drawn) => {
+        const room = findSketchedRoom(design.rooms, drawn);
+        if (!room) {
+            return [
+                `rooms: "${drawn.name}" is drawn on the sketch (${describeSketchedRoom(drawn)}) but missing`,
+            ];
+        }
+        return movedFromSketch(room, drawn)
+            ? [
+                  `rooms: "${room.name}" must stay as drawn on the sketch, unrotated at ${describeSketchedRoom(drawn)}`,
+              ]
+            : [];
+    });
+}
+
+// Gives sketched rooms their drawn place, size and shape back, and adds
+// the ones the design left out on the lowest storey. Returns the names of
+// the sketched rooms in the design and a note for every change.
+function pinSketchedRooms(
+    design: ModelData,
+    sketched: SketchedRoom[]
+): { design: ModelData; pinned: string[]; notes: string[] } {
+    if (sketched.length === 0) return { design, pinned: [], notes: [] };
+
+    const rooms = [...design.rooms];
+    const pinned: string[] = [];
+    const notes: string[] = [];
+    const ground = design.levels?.[0];
+    sketched.forEach((drawn) => {
+        const room = findSketchedRoom(rooms, drawn);
+        if (room && !movedFromSketch(room, drawn)) {
+            pinned.push(room.name);
+            return;
+        }
+
+        const kept: Omit<ModelRoom, "x" | "z" | "width" | "length"> = room ?? {
+            name: drawn.name,
+            height: 3,
+            y: ground?.elevation ?? 0,
+            connected_to: [],
+            ...(ground ? { level: ground.name } : {}),
         };
-    }
+        const { rotation, footprint, ...rest } = kept;
+        const placed: ModelRoom = {
+            ...rest,
+            x: drawn.x,
+            z: drawn.z,
+            width: drawn.width,
+            length: drawn.length,
+            ...(drawn.footprint ? { footprint: drawn.footprint } : {}),
+        };
+        if (room) {
+            rooms[rooms.indexOf(room)] = placed;
+            notes.push(
+                `Put "${room.name}" back where it is drawn on the sketch (${describeSketchedRoom(drawn)})`
+            );
+        } else {
+            rooms.push(placed);
+            notes.push(
+                `Added "${drawn.name}" from the sketch (${describeSketchedRoom(drawn)})`
+            );
+        }
+        pinned.push(placed.name);
+    });
+
+    return {
+        design: {
+            ...design,
+            rooms,
+            metadata: {
+                ...design.metadata,
+                notes: [...(design.metadata?.notes || []), ...notes],
+            },
+        },
+        pinned,
+        notes,
+    };
 }
@@ -1,13 +1,69 @@
-import { BaseAgent, AgentInput, AgentOutput } from "./base-agent";
+import {
+    BaseAgent,
+    AgentInput,
+    AgentLLMOptions,
+    AgentOutput,
+} from "./base-agent";
 import { AGENT_CONFIG, AZURE_SERVICES_CONFIG } from "./agent-config";
-import { ComputerVisionClient } from "@azure/cognitiveservices-computervision";
-import { ApiKeyCredentials } from "@azure/ms-rest-js";
+import {
+    ComputerVisionClient,
+    ComputerVisionModels,
+} from "@azure/cognitiveservices-computervision";
+import { AbortSignalLike, ApiKeyCredentials } from "@azure/ms-rest-js";
+import { digest, withFixture } from "../ai-fixtures";
+import { JSONSchemaFormat } from "../llm-provider";
+import { StructuredOutputError } from "../structured-output";
+import { reportProgress } from "../progress";
+import { CancelledError, rethrowCancellation } from "../cancellation";
+import { roomTypeFromLabel } from "@/lib/floor-plan-recognition";
+import {
+    SketchInterpretation,
+    SketchRoom,
+    interpretVectorSketch,
+} from "@/lib/sketch-vector";
+
+// Loose on purpose: requirements feed the designer's prompt and the
+// solver's tolerant reader, so extra fields are welcome
+const REQUIREMENTS_FORMAT: JSONSchemaFormat = {
+    name: "architectural_requirements",
+    schema: {
+        type: "object",
+        properties: {
+            rooms: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        name: { type: "string" },
+                        type: { type: "string" },
+                        count: { type: "number" },
+                        width: { type: "number" },
+                        length: { type: "number" },
+                        area: { type: "number" },
+                        level: { type: "string" },
+                        // Id of the drawn room this entry describes
+                        sketch_room: { type: "number" },
+                        adjacent_to: {
+                            type: "array",
+                            items: { type: "string" },
+                        },
+                    },
+                    required: ["name"],
+                },
+            },
+            designPreferences: { type: "object" },
+            specialFeatures: { type: "array", items: { type: "string" } },
+            constraints: { type: "array", items: { type: "string" } },
+        },
+        required: ["rooms"],
+    },
+};
 
 export class InterpreterAgent extends BaseAgent {
     private visionClient: ComputerVisionClient;
 
-    constructor() {
-        super("Interpreter", AGENT_CONFIG.interpreterSystemPrompt);
+    constructor(options: AgentLLMOptions = {}) {
+        super("Interpreter", AGENT_CONFIG.interpreterSystemPrompt, options);
 
         // Initialize Computer Vision client
         const credentials = new ApiKeyCredentials({
@@ -22,35 +78,98 @@ export class InterpreterAgent extends BaseAgent {
     }
 
     async execute(input: AgentInput): Promise<AgentOutput> {
-        console.log(
+        this.log(
             `Interpreter Agent processing input with ${
                 input.prompt ? "text prompt" : "no prompt"
-            } and ${input.sketchData ? "sketch data" : "no sketch data"}`
+            } and ${
+                input.sketchVector
+                    ? "a drawn sketch"
+                    : input.sketchData
+                      ? "sketch data"
+                      : "no sketch data"
+            }`
         );
 
         try {
-            // Step 1: Pre-process the sketch if available
+            // Step 1: Pre-process the sketch if available. A sketch drawn
+            // on the canvas is read from its primitives; an image goes to
+            // Computer Vision
             let sketchAnalysis = null;
-            if (input.sketchData) {
-                sketchAnalysis = await this.analyzeSketch(input.sketchData);
+            let drawing: SketchInterpretation | null = null;
+            if (input.sketchVector) {
+                drawing = interpretVectorSketch(input.sketchVector);
+                sketchAnalysis = drawing;
+                this.log(
+                    `Sketch has ${drawing.rooms.length} rooms and ${drawing.walls.length} walls`
+                );
+                reportProgress(
+                    input.onProgress,
+                    "sketch_analysis",
+                    1,
+                    "Sketch read"
+                );
+            } else if (input.sketchData) {
+                reportProgress(
+                    input.onProgress,
+                    "sketch_analysis",
+                    0,
+                    "Analyzing sketch"
+                );
+                sketchAnalysis = await this.analyzeSketch(
+                    input.sketchData,
+                    input.signal
+                );
+                reportProgress(
+                    input.onProgress,
+                    "sketch_analysis",
+                    1,
+                    "Sketch analyzed"
+                );
             }
 
             // Step 2: Prepare the prompt for the LLM
             const prompt = this.preparePrompt(input.prompt, sketchAnalysis);
+            reportProgress(
+                input.onProgress,
+                "interpreting",
+                0.2,
+                "Interpreting requirements"
+            );
 
-            // Step 3: Call the LLM to interpret requirements
-            const llmResponse = await this.callLLM(prompt);
-
-            // Step 4: Parse and validate the response
-            const requirements = this.safeParseJSON(llmResponse);
+            // Step 3: Call the LLM to interpret requirements as JSON,
+            // re-prompting while the room list is unusable
+            const { output: requirements, attempts } =
+                await this.generateValidated(
+                    prompt,
+                    (current) =>
+                        this.callLLMForJSON(
+                            current,
+                            REQUIREMENTS_FORMAT,
+                            AGENT_CONFIG.defaultTemperature,
+                            input.signal
+                        ),
+                    (output) =>
+                        this.checkRequirements(output, drawing?.rooms ?? [])
+                );
+            if (drawing) {
+                applySketchRooms(requirements, drawing.rooms);
+                applySketchOpenings(requirements, drawing);
+            }
 
             return {
                 originalPrompt: input.prompt,
                 sketchAnalysisAvailable: !!sketchAnalysis,
                 requirements,
+                attempts,
             };
         } catch (error) {
             console.error("Interpreter Agent error:", error);
+            if (
+                error instanceof StructuredOutputError ||
+                error instanceof CancelledError
+            ) {
+                throw error;
+            }
             return {
                 error: `Interpreter Agent failed: ${
                     error instanceof Error ? error.message : String(error)
@@ -65,7 +184,10 @@ export class InterpreterAgent extends BaseAgent {
     /**
      * Analyzes a sketch using Azure Computer Vision
      */
-    async analyzeSketch(sketchDataUrl: string): Promise<any> {
+    async analyzeSketch(
+        sketchDataUrl: string,
+        signal?: AbortSignal
+    ): Promise<any> {
         try {
             // Remove the data URL prefix to get the base64 content
             const base64Image = sketchDataUrl.replace(
@@ -74,17 +196,27 @@ export class InterpreterAgent extends BaseAgent {
             );
 
             // Analyze the image with Computer Vision - using only supported features
-            const result = await this.visionClient.analyzeImageInStream(
-                Buffer.from(base64Image, "base64"),
+            const image = Buffer.from(base64Image, "base64");
+            const options: ComputerVisionModels.ComputerVisionClientAnalyzeImageInStreamOptionalParams = {
+                visualFeatures: [
+                    "Objects",
+                    "Categories",
+                    "Tags",
+                    "Description",
+                ],
+                // "Lines" is not supported, so we removed it
+            };
+            const result = await withFixture(
                 {
-                    visualFeatures: [
-                        "Objects",
-                        "Categories",
-                        "Tags",
-                        "Description",
-                    ],
-                    // "Lines" is not supported, so we removed it
-                }
+                    kind: "vision",
+                    label: this.name,
+                    request: { image: digest(image), options },
+                },
+                () =>
+                    this.visionClient.analyzeImageInStream(image, {
+                        ...options,
+                        abortSignal: signal as AbortSignalLike | undefined,
+                    })
             );
 
             // Extract lines from detected objects
@@ -104,6 +236,7 @@ export class InterpreterAgent extends BaseAgent {
 
             return enhancedAnalysis;
         } catch (error) {
+            rethrowCancellation(error, signal);
             console.error("Error in sketch analysis:", error);
             throw new Error(
                 `Sketch analysis failed: ${
@@ -249,6 +382,55 @@ export class InterpreterAgent extends BaseAgent {
         };
     }
 
+    // The designer needs at least one named room with sane dimensions, and
+    // one entry for every room drawn on a sketch
+    private checkRequirements(
+        requirements: any,
+        sketchRooms: SketchRoom[]
+    ): string[] {
+        const rooms = requirements?.rooms;
+        if (!Array.isArray(rooms) || rooms.length === 0) {
+            return ["rooms: list at least one room"];
+        }
+
+        const issues: string[] = [];
+        rooms.forEach((room: any, i: number) => {
+            if (typeof room?.name !== "string" || !room.name.trim()) {
+                issues.push(`rooms[${i}].name: missing`);
+            }
+            ["width", "length", "area", "count"].forEach((field) => {
+                const value = room?.[field];
+                if (
+                    value !== undefined &&
+                    value !== null &&
+                    !(typeof value === "number" && value > 0)
+                ) {
+                    issues.push(
+                        `rooms[${i}].${field}: must be a positive number`
+                    );
+                }
+            });
+            const sketched = room?.sketch_room;
+            if (
+                sketched !== undefined &&
+                sketched !== null &&
+                !sketchRooms.some((drawn) => drawn.id === sketched)
+            ) {
+                issues.push(
+                    `rooms[${i}].sketch_room: no sketch room has id ${sketched}`
+                );
+            }
+        });
+        sketchRooms.forEach((drawn) => {
+            if (!rooms.some((room: any) => room?.sketch_room === drawn.id)) {
+                issues.push(
+                    `rooms: no entry for sketch room ${drawn.id}${drawn.name ? ` "${drawn.name}"` : ""} (${drawn.width} x ${drawn.length} m), list it with "sketch_room": ${drawn.id}`
+                );
+            }
+        });
+        return issues;
+    }
+
     private preparePrompt(textPrompt: string, sketchAnalysis: any): string {
         let prompt =
             "Extract architectural requirements from the following information:\n\n";
@@ -257,7 +439,14 @@ export class InterpreterAgent extends BaseAgent {
             prompt += `TEXT DESCRIPTION:\n${textPrompt}\n\n`;
         }
 
-        if (sketchAnalysis) {
+        if (sketchAnalysis?.source === "vector") {
+            prompt += `SKETCH GEOMETRY (drawn to scale, in meters; x grows east, z grows south):\n${JSON.stringify(
+                sketchAnalysis,
+                null,
+                2
+            )}\n\n`;
+            prompt += `Every room in the sketch geometry is a room of the building: list each one with its id as "sketch_room" and its exact width and length, and name it as labelled in the sketch (name), or else from the text description where it says what the room is for. Rooms sharing a wall in the sketch (connected_to) are adjacent. Doors and windows in the sketch are kept where they were drawn; notes are labels written outside the rooms.\n\n`;
+        } else if (sketchAnalysis) {
             prompt += `SKETCH ANALYSIS:\n${JSON.stringify(
                 sketchAnalysis,
                 null,
@@ -271,8 +460,116 @@ export class InterpreterAgent extends BaseAgent {
 3. Special features: windows, doors, etc.
 4. Constraints: budget, accessibility, etc.
 
-Format your response as a valid JSON object with these elements.`;
+Format your response as a valid JSON object with these elements:
+{
+  "rooms": [
+    {
+      "name": "string",
+      "type": "string",
+      "count": number (optional),
+      "width": number (optional, meters),
+      "length": number (optional, meters),
+      "area": number (optional, square meters),
+      "level": "string (optional)",
+      "sketch_room": number (optional, id of the sketched room),
+      "adjacent_to": ["string"]
+    }
+  ],
+  "designPreferences": { ... },
+  "specialFeatures": ["string"],
+  "constraints": ["string"]
+}`;
 
         return prompt;
     }
 }
+
+// Drawn rooms keep the size and place they were drawn with, whatever the
+// model made of them; ones it left out are added under their label, or
+// unnamed
+function applySketchRooms(requirements: any, sketchRooms: SketchRoom[]) {
+    if (sketchRooms.length === 0) return;
+    if (!Array.isArray(requirements.rooms)) requirements.rooms = [];
+    const rooms: any[] = requirements.rooms;
+
+    const names = new Map<number, string>();
+    sketchRooms.forEach((drawn) => {
+        let matching = rooms.filter((room) => room?.sketch_room === drawn.id);
+        if (matching.length === 0) {
+            const type = drawn.name && roomTypeFromLabel(drawn.name);
+            const room = {
+                name: drawn.name || `Room ${drawn.id}`,
+                ...(type ? { type } : {}),
+                sketch_room: drawn.id,
+            };
+            rooms.push(room);
+            matching = [room];
+        }
+        matching.forEach((room) => {
+            Object.assign(room, {
+                count: 1,
+                width: drawn.width,
+                length: drawn.length,
+                area: drawn.area,
+                x: drawn.x,
+                z: drawn.z,
+            });
+            if (drawn.footprint) room.footprint = drawn.footprint;
+        });
+        names.set(drawn.id, String(matching[0].name));
+    });
+
+    sketchRooms.forEach((drawn) => {
+        const room = rooms.find((entry) => entry?.sketch_room === drawn.id);
+        const adjacent: string[] = Array.isArray(room.adjacent_to)
+            ? room.adjacent_to
+            : [];
+        drawn.connected_to.forEach((id) => {
+            const name = names.get(id);
+            if (name && !adjacent.includes(name)) adjacent.push(name);
+        });
+        room.adjacent_to = adjacent;
+    });
+}
+
+// Doors and windows drawn on the sketch, in the designer's terms: doors
+// between two rooms and windows on a room's wall. Doors to the outside
+// have no room to lead to, so they are noted as entrances.
+function applySketchOpenings(requirements: any, drawing: SketchInterpretation) {
+    const rooms: any[] = requirements.rooms;
+    const nameOf = (id: number): string =>
+        String(rooms.find((room) => room?.sketch_room === id)?.name);
+
+    const doors = drawing.doors
+        .filter((door) => door.rooms.length === 2)
+        .map((door) => ({
+            from: nameOf(door.rooms[0]),
+            to: nameOf(door.rooms[1]),
+            width: door.width,
+        }));
+    const windows = drawing.windows
+        .filter((window) => window.room !== null && window.wall !== null)
+        .map((window) => ({
+            room: nameOf(window.room!),
+            wall: window.wall,
+            width: window.width,
+            position: window.position,
+        }));
+    const entrances = drawing.doors
+        .filter((door) => door.rooms.length === 1)
+        .map(
+            (door) =>
+                `Entrance door (${door.width} m wide) into ${nameOf(door.rooms[0])}`
+        );
+
+    if (doors.length > 0) requirements.doors = doors;
+    if (windows.length > 0) requirements.windows = windows;
+    if (entrances.length > 0) {
+        requirements.specialFeatures = [
+            ...(Array.isArray(requirements.specialFeatures)
+                ? requirements.specialFeatures
+                : []),
+            ...entrances,
+        ];
+    }
+}
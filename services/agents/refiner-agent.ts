@@ -0,0 +1,243 @@
+import {
+    BaseAgent,
+    AgentInput,
+    AgentLLMOptions,
+    AgentOutput,
+} from "./base-agent";
+import { AGENT_CONFIG } from "./agent-config";
+import {
+    ModelData,
+    ModelValidationError,
+    parseModelData,
+} from "@/lib/model-schema";
+import {
+    MODEL_EDIT_OPS,
+    ModelChange,
+    RejectedEdit,
+    applyModelEdits,
+    describeModelChanges,
+} from "@/lib/model-edits";
+import { repairLayout } from "@/lib/layout-repair";
+import { resolveDoorAdjacency } from "@/lib/door-adjacency";
+import { resolveWindowPlacement } from "@/lib/window-placement";
+import { JSONSchemaFormat } from "../llm-provider";
+import { StructuredOutputError } from "../structured-output";
+import { CancelledError } from "../cancellation";
+
+const NUMBER = { type: "number" };
+const STRING = { type: "string" };
+
+const EDITS_FORMAT: JSONSchemaFormat = {
+    name: "model_edits",
+    schema: {
+        type: "object",
+        properties: {
+            summary: STRING,
+            edits: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        op: { type: "string", enum: [...MODEL_EDIT_OPS] },
+                        room: STRING,
+                        name: STRING,
+                        type: STRING,
+                        level: STRING,
+                        next_to: STRING,
+                        from: STRING,
+                        to: STRING,
+                        wall: {
+                            type: "string",
+                            enum: ["north", "south", "east", "west"],
+                        },
+                        width: NUMBER,
+                        length: NUMBER,
+                        area_scale: NUMBER,
+                        x: NUMBER,
+                        z: NUMBER,
+                    },
+                    required: ["op"],
+                },
+            },
+        },
+        required: ["summary", "edits"],
+    },
+};
+
+// An earlier turn of the same conversation
+export interface RefinementTurn {
+    instruction: string;
+    summary?: string;
+}
+
+export class RefinerAgent extends BaseAgent {
+    constructor(options: AgentLLMOptions = {}) {
+        super("Refiner", AGENT_CONFIG.refinerSystemPrompt, options);
+    }
+
+    async execute(input: AgentInput): Promise<AgentOutput> {
+        this.log(`Refiner Agent applying "${input.instruction}"`);
+
+        try {
+            const current = parseModelData(input.modelData, "Refiner input");
+            const history: RefinementTurn[] = input.history || [];
+
+            // Steps 1-2: Ask the LLM for edits, re-prompting while some of
+            // them do not fit the model
+            const { output, attempts } = await this.generateValidated(
+                this.preparePrompt(current, input.instruction, history),
+                (prompt) =>
+                    this.callLLMForJSON(
+                        prompt,
+                        EDITS_FORMAT,
+                        AGENT_CONFIG.defaultTemperature,
+                        input.signal
+                    ),
+                (answer) => this.checkEdits(current, answer)
+            );
+            const edits: unknown[] = Array.isArray(output.edits)
+                ? output.edits
+                : [];
+
+            // Step 3: Apply the edits; any that still do not fit are skipped
+            const applied = applyModelEdits(current, edits);
+
+            // Step 4: Repair the geometry around the edited rooms only
+            const design = this.settleEdits(applied.model, applied.edited);
+
+            // Step 5: Report everything that differs from the input
+            const changes: ModelChange[] = describeModelChanges(
+                current,
+                design,
+                applied.renamed
+            );
+
+            return {
+                design,
+                changes,
+                edits,
+                rejectedEdits: applied.rejected,
+                summary:
+                    typeof output.summary === "string" ? output.summary : "",
+                attempts,
+            };
+        } catch (error) {
+            console.error("Refiner Agent error:", error);
+            if (
+                error instanceof StructuredOutputError ||
+                error instanceof CancelledError
+            ) {
+                throw error;
+            }
+            return {
+                error: `Refiner Agent failed: ${
+                    error instanceof Error ? error.message : String(error)
+                }`,
+                validationIssues:
+                    error instanceof ModelValidationError
+                        ? error.issues
+                        : undefined,
+            };
+        }
+    }
+
+    private checkEdits(model: ModelData, answer: any): string[] {
+        if (!Array.isArray(answer?.edits)) return ["edits: must be an array"];
+        return applyModelEdits(model, answer.edits).rejected.map(
+            (rejection: RejectedEdit) =>
+                `edits[${rejection.index}] (${editOp(rejection.edit)}): ${rejection.reason}`
+        );
+    }
+
+    // Layout, door and window repair in which rooms the edits did not touch
+    // stay fixed: overlaps and detached doors are resolved by moving edited
+    // rooms, and only edited living spaces get a missing window added
+    private settleEdits(model: ModelData, edited: string[]): ModelData {
+        const fixed = model.rooms
+            .map((room) => room.name)
+            .filter((name) => !edited.includes(name));
+
+        // No grid snapping: a resized room's edges are where the edit put
+        // them, against rooms that may sit off the grid
+        const { model: laidOut, corrections } = repairLayout(model, {
+            fixed,
+            gridSize: 0,
+        });
+        corrections.forEach((correction) => {
+            this.log(`Refinement layout repair: ${correction.message}`);
+        });
+
+        const { model: connected, diagnostics } = resolveDoorAdjacency(
+            laidOut,
+            { fixed }
+        );
+        diagnostics.forEach((diagnostic) => {
+            this.log(`Refinement door check: ${diagnostic.message}`);
+        });
+
+        const livingSpaces = ["living", "bedroom", "kitchen", "dining"];
+        const { model: glazed } = resolveWindowPlacement(connected, {
+            requireWindow: (room) =>
+                edited.includes(room.name) &&
+                livingSpaces.some((space) =>
+                    room.name.toLowerCase().includes(space)
+                ),
+        });
+
+        return parseModelData(glazed, "Refined design");
+    }
+
+    private preparePrompt(
+        model: ModelData,
+        instruction: string,
+        history: RefinementTurn[]
+    ): string {
+        const earlier = history.slice(-AGENT_CONFIG.refinementHistoryTurns);
+        return `Change this floor plan as the client asks.
+
+CURRENT DESIGN (meters; x grows east, z grows south; x/z is a room's north-west corner):
+${JSON.stringify(model, null, 2)}
+${
+    earlier.length > 0
+        ? `
+EARLIER REQUESTS IN THIS CONVERSATION (oldest first, already applied):
+${earlier
+    .map(
+        (turn) =>
+            `- "${turn.instruction}"${turn.summary ? ` (${turn.summary})` : ""}`
+    )
+    .join("\n")}
+`
+        : ""
+}
+CLIENT REQUEST:
+"${instruction}"
+
+Answer with the edits that carry out the request, applied in order. Available edits:
+- {"op": "add_room", "name", "type"?, "width", "length", "level"?, "next_to"?, "x"?, "z"?}: new room; with "next_to" it is placed against that room and joined to it by a door, otherwise give x and z
+- {"op": "remove_room", "room"}
+- {"op": "resize_room", "room", "width"?, "length"?, "area_scale"?}: "area_scale" multiplies the floor area, e.g. 1.2 for 20% bigger
+- {"op": "move_room", "room", "x", "z"}
+- {"op": "rename_room", "room", "name"}
+- {"op": "add_door", "from", "to", "width"?} and {"op": "remove_door", "from", "to"}
+- {"op": "add_window", "room", "wall", "width"?} and {"op": "remove_window", "room", "wall"?}
+
+Your response must be a valid JSON object with the following structure:
+{
+  "summary": "string (one sentence describing the change)",
+  "edits": [{ "op": "string", ... }]
+}
+
+IMPORTANT:
+- Refer to rooms by their exact names in the current design.
+- Only edit what the request asks for; rooms it does not mention must not appear in any edit.
+- Respond with an empty "edits" list if the request does not ask for a change to the plan.`;
+    }
+}
+
+// The op of an edit as the model wrote it, which may not be an edit at all
+function editOp(edit: unknown): string {
+    return typeof edit === "object" && edit !== null && "op" in edit
+        ? String(edit.op)
+        : "no op";
+}
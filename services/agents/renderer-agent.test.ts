@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ChatRequest, LLMProvider } from "../llm-provider";
+import { RendererAgent } from "./renderer-agent";
+
+// Answers every prompt with the same text
+function stubProvider(content: string): LLMProvider & { calls: number } {
+    return {
+        kind: "openai",
+        structuredOutput: "json_object",
+        calls: 0,
+        async chat(_request: ChatRequest) {
+            this.calls++;
+            return { content };
+        },
+    };
+}
+
+const design = {
+    rooms: [
+        {
+            name: "Kitchen",
+            width: 4,
+            length: 4,
+            height: 3,
+            x: 0,
+            y: 0,
+            z: 0,
+            connected_to: [],
+        },
+    ],
+    windows: [],
+    doors: [],
+};
+
+describe("RendererAgent", () => {
+    it("reports the fallback scene when every answer fails the checks", async () => {
+        const provider = stubProvider("console.log('no scene here');");
+        const output = await new RendererAgent({
+            provider,
+            maxRetries: 1,
+        }).execute({ design, requirements: {} });
+
+        assert.equal(provider.calls, 2);
+        assert.match(output.error, /failed sanity checks: .*creates no Scene/);
+        assert.match(output.code, /^\/\/ Fallback Three\.js code/);
+    });
+
+    it("reports no error for code that passes the checks", async () => {
+        const output = await new RendererAgent({
+            provider: stubProvider(
+                "const scene = new THREE.Scene(); const camera = new THREE.PerspectiveCamera(); const renderer = new THREE.WebGLRenderer();"
+            ),
+        }).execute({ design, requirements: {} });
+
+        assert.equal(output.error, undefined);
+        assert.match(output.code, /new THREE\.Scene\(\)/);
+    });
+});
@@ -1,30 +1,56 @@
-import { BaseAgent, AgentInput, AgentOutput } from "./base-agent";
+import {
+    BaseAgent,
+    AgentInput,
+    AgentLLMOptions,
+    AgentOutput,
+} from "./base-agent";
 import { AGENT_CONFIG } from "./agent-config";
+import { CancelledError } from "../cancellation";
 
 export class RendererAgent extends BaseAgent {
-    constructor() {
-        super("Renderer", AGENT_CONFIG.rendererSystemPrompt);
+    constructor(options: AgentLLMOptions = {}) {
+        super("Renderer", AGENT_CONFIG.rendererSystemPrompt, options);
     }
 
     async execute(input: AgentInput): Promise<AgentOutput> {
-        console.log("Renderer Agent generating Three.js code");
+        this.log("Renderer Agent generating Three.js code");
 
         try {
             // Step 1: Prepare the prompt with the architectural design
             const prompt = this.preparePrompt(input.design, input.requirements);
 
-            // Step 2: Call the LLM to generate Three.js code
-            const code = await this.callLLM(prompt, 0.1); // Lower temperature for code generation
+            // Step 2: Call the LLM to generate Three.js code (lower
+            // temperature for code generation), re-prompting while the code
+            // fails the sanity checks
+            const { output: code, attempts } = await this.generateValidated(
+                prompt,
+                async (current) =>
+                    this.stripCodeFences(
+                        await this.callLLM(current, 0.1, {
+                            signal: input.signal,
+                        })
+                    ),
+                (output) => this.checkCode(output)
+            );
 
-            // Step 3: Post-process and validate the code
-            const enhancedCode = this.enhanceCode(code, input.design);
+            // Step 3: Post-process and validate the code; code that still
+            // fails the checks is replaced by the fallback scene, which the
+            // caller is told about
+            const { code: enhancedCode, error } = this.enhanceCode(
+                code,
+                input.design
+            );
 
             return {
                 design: input.design,
                 code: enhancedCode,
+                attempts,
+                ...(error ? { error } : {}),
             };
         } catch (error) {
             console.error("Renderer Agent error:", error);
+            // A cancelled job gets no fallback scene
+            if (error instanceof CancelledError) throw error;
             return {
                 error: `Renderer Agent failed: ${
                     error instanceof Error ? error.message : String(error)
@@ -58,18 +84,81 @@ The code should be complete, runnable, and well-commented.
 DO NOT include any HTML, just the JavaScript code for Three.js.`;
     }
 
-    private enhanceCode(code: string, design: any): string {
-        // Basic validation - ensure the code mentions key Three.js components
-        const hasThreeImport = code.includes("THREE") || code.includes("three");
-        const hasScene = code.includes("Scene");
-        const hasCamera = code.includes("Camera");
-        const hasRenderer = code.includes("Renderer");
+    // Sanity checks on generated code: the key Three.js components are
+    // there, it is plain JavaScript and its brackets balance
+    private checkCode(code: string): string[] {
+        const issues: string[] = [];
+        if (!code.includes("THREE") && !code.includes("three")) {
+            issues.push("does not use Three.js");
+        }
+        ["Scene", "Camera", "Renderer"].forEach((component) => {
+            if (!code.includes(component)) {
+                issues.push(`creates no ${component}`);
+            }
+        });
+        if (/<\/?(html|head|body|script)\b/i.test(code)) {
+            issues.push("contains HTML; return only JavaScript");
+        }
+        const bracket = this.findUnbalancedBracket(code);
+        if (bracket) issues.push(bracket);
+        return issues;
+    }
 
-        if (!hasThreeImport || !hasScene || !hasCamera || !hasRenderer) {
-            console.warn(
-                "Generated code missing essential Three.js components"
-            );
-            return this.generateFallbackCode(design);
+    // Scans the code outside strings and comments for brackets that do not
+    // pair up
+    private findUnbalancedBracket(code: string): string | null {
+        const pairs: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+        const open: string[] = [];
+        let quote: string | null = null;
+        let comment: "line" | "block" | null = null;
+
+        for (let i = 0; i < code.length; i++) {
+            const ch = code[i];
+            if (comment === "line") {
+                if (ch === "\n") comment = null;
+            } else if (comment === "block") {
+                if (ch === "*" && code[i + 1] === "/") {
+                    comment = null;
+                    i++;
+                }
+            } else if (quote) {
+                if (ch === "\\") i++;
+                else if (ch === quote) quote = null;
+            } else if (ch === "/" && code[i + 1] === "/") {
+                comment = "line";
+            } else if (ch === "/" && code[i + 1] === "*") {
+                comment = "block";
+            } else if (ch === '"' || ch === "'" || ch === "`") {
+                quote = ch;
+            } else if ("([{".includes(ch)) {
+                open.push(ch);
+            } else if (ch in pairs) {
+                if (open.pop() !== pairs[ch]) {
+                    return `unbalanced "${ch}" at character ${i}`;
+                }
+            }
+        }
+        return open.length > 0
+            ? `${open.length} unclosed bracket(s); the code looks truncated`
+            : null;
+    }
+
+    // Models tend to wrap code in markdown fences despite the instructions
+    private stripCodeFences(code: string): string {
+        const fenced = code.match(/```[\w-]*\n([\s\S]*?)```/);
+        return fenced ? fenced[1] : code;
+    }
+
+    private enhanceCode(
+        code: string,
+        design: any
+    ): { code: string; error?: string } {
+        // Basic validation - ensure the code has the key Three.js components
+        const issues = this.checkCode(code);
+        if (issues.length > 0) {
+            const error = `Renderer Agent failed: generated code failed sanity checks: ${issues.join("; ")}`;
+            this.log(error, "warn");
+            return { code: this.generateFallbackCode(design), error };
         }
 
         // Add additional comments to enhance readability
@@ -77,7 +166,7 @@ DO NOT include any HTML, just the JavaScript code for Three.js.`;
 // Generated by RealVision AI platform
 ${code}`;
 
-        return enhancedCode;
+        return { code: enhancedCode };
     }
 
     private generateFallbackCode(design: any): string {
@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { FIXTURE_CONFIG } from "./agents/agent-config";
+
+// Record/replay of calls to external AI services. Each call is keyed by a
+// hash of its request, so a replayed pipeline gets exactly the response the
+// recorded one got for the same input.
+
+export const FIXTURE_MODES = ["off", "record", "replay"] as const;
+export type FixtureMode = (typeof FIXTURE_MODES)[number];
+
+export type FixtureKind = "llm" | "vision" | "speech" | "moderation";
+
+export interface FixtureCall {
+    kind: FixtureKind;
+    label: string; // caller, e.g. the agent name; only used in file names
+    request: unknown; // everything the response depends on
+}
+
+export interface FixtureFile {
+    kind: FixtureKind;
+    label: string;
+    key: string;
+    request: unknown;
+    response: unknown;
+    recordedAt: string;
+}
+
+export class FixtureNotFoundError extends Error {
+    readonly call: FixtureCall;
+    readonly file: string;
+
+    constructor(call: FixtureCall, file: string) {
+        super(
+            `No recorded ${call.kind} fixture for ${call.label} (${file}); record one with AI_FIXTURE_MODE=record`
+        );
+        this.name = "FixtureNotFoundError";
+        this.call = call;
+        this.file = file;
+    }
+}
+
+export function getFixtureMode(): FixtureMode {
+    const mode = FIXTURE_CONFIG.mode;
+    if (!FIXTURE_MODES.includes(mode as FixtureMode)) {
+        throw new Error(
+            `Unknown AI_FIXTURE_MODE "${mode}", expected one of: ${FIXTURE_MODES.join(", ")}`
+        );
+    }
+    return mode as FixtureMode;
+}
+
+/**
+ * True when responses come from fixtures, so callers should not skip a call
+ * just because the live service is not configured.
+ */
+export function isReplayingFixtures(): boolean {
+    return getFixtureMode() === "replay";
+}
+
+/**
+ * Runs an AI service call through the fixture store: passes straight
+ * through when fixtures are off, saves the response when recording and
+ * returns the saved response without calling the service when replaying.
+ */
+export async function withFixture<T>(
+    call: FixtureCall,
+    invoke: () => Promise<T>
+): Promise<T> {
+    const mode = getFixtureMode();
+    if (mode === "off") return invoke();
+
+    const key = getFixtureKey(call);
+    const file = getFixturePath(call, key);
+
+    if (mode === "replay") {
+        if (!fs.existsSync(file)) throw new FixtureNotFoundError(call, file);
+        const fixture: FixtureFile = JSON.parse(fs.readFileSync(file, "utf8"));
+        return fixture.response as T;
+    }
+
+    const response = await invoke();
+    const fixture: FixtureFile = {
+        kind: call.kind,
+        label: call.label,
+        key,
+        request: call.request,
+        response,
+        recordedAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, stripTransport, 2));
+    return response;
+}
+
+/**
+ * Short content hash for binary inputs such as images and audio, so
+ * fixture requests stay small.
+ */
+export function digest(data: Buffer | Uint8Array | string): string {
+    return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+export function getFixtureKey(call: FixtureCall): string {
+    return digest(
+        JSON.stringify({ kind: call.kind, request: call.request })
+    ).slice(0, 16);
+}
+
+function getFixturePath(call: FixtureCall, key: string): string {
+    const label = call.label.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    return path.resolve(FIXTURE_CONFIG.dir, call.kind, `${label}-${key}.json`);
+}
+
+// Azure SDK results carry the raw HTTP response, which is neither needed
+// for replay nor serializable
+function stripTransport(key: string, value: unknown) {
+    return key === "_response" ? undefined : value;
+}
@@ -1,7 +1,9 @@
 import { AzureOpenAI } from "openai";
 import { AzureKeyCredential } from "@azure/core-auth";
 import { ComputerVisionClient } from "@azure/cognitiveservices-computervision";
-import { ApiKeyCredentials } from "@azure/ms-rest-js";
+import { AbortSignalLike, ApiKeyCredentials } from "@azure/ms-rest-js";
+import { digest, withFixture } from "./ai-fixtures";
+import { rethrowCancellation } from "./cancellation";
 
 // Azure OpenAI Configuration
 const AZURE_OPENAI_KEY = process.env.AZURE_OPENAI_KEY || "";
@@ -17,7 +19,10 @@ const AZURE_VISION_ENDPOINT = process.env.AZURE_VISION_ENDPOINT || "";
 /**
  * Analyzes a sketch image using Azure Computer Vision and extracts spatial information
  */
-export async function analyzeSketch(sketchDataUrl: string) {
+export async function analyzeSketch(
+    sketchDataUrl: string,
+    signal?: AbortSignal
+) {
     try {
         // Remove the data URL prefix to get the base64 content
         const base64Image = sketchDataUrl.replace(
@@ -36,11 +41,19 @@ export async function analyzeSketch(sketchDataUrl: string) {
 
         // Analyze the image with string literals for feature types
         // This avoids the import issues with VisualFeatureTypes
-        const result = await client.analyzeImageInStream(
-            Buffer.from(base64Image, "base64"),
+        const image = Buffer.from(base64Image, "base64");
+        const visualFeatures = ["Objects", "Categories", "Tags", "Lines"];
+        const result = await withFixture(
             {
-                visualFeatures: ["Objects", "Categories", "Tags", "Lines"],
-            }
+                kind: "vision",
+                label: "sketch",
+                request: { image: digest(image), visualFeatures },
+            },
+            () =>
+                client.analyzeImageInStream(image, {
+                    visualFeatures,
+                    abortSignal: signal as AbortSignalLike | undefined,
+                })
         );
 
         // Extract useful information from the analysis
@@ -55,6 +68,7 @@ export async function analyzeSketch(sketchDataUrl: string) {
 
         return processedResult;
     } catch (error) {
+        rethrowCancellation(error, signal);
         console.error("Error analyzing sketch:", error);
         throw new Error(
             `Failed to analyze sketch: ${
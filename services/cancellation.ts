@@ -0,0 +1,29 @@
+// Cancellation of running design requests. Callers pass an AbortSignal down
+// the pipeline; each step checks it before starting work and hands it to the
+// LLM, vision and speech calls it makes, which then abort in flight.
+
+export class CancelledError extends Error {
+    constructor(message = "The request was cancelled") {
+        super(message);
+        this.name = "CancelledError";
+    }
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+    if (signal?.aborted) throw new CancelledError();
+}
+
+/**
+ * True when the error means the request was cancelled, including SDK abort
+ * errors raised because the signal fired. Steps that otherwise recover from
+ * errors (fallbacks, skipped modalities) must rethrow these.
+ */
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+    return error instanceof CancelledError || !!signal?.aborted;
+}
+
+/** Rethrows a cancellation as a CancelledError, for callers that wrap errors. */
+export function rethrowCancellation(error: unknown, signal?: AbortSignal) {
+    if (error instanceof CancelledError) throw error;
+    if (signal?.aborted) throw new CancelledError();
+}
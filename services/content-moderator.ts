@@ -0,0 +1,319 @@
+import {
+    AZURE_SERVICES_CONFIG,
+    MODERATION_CONFIG,
+} from "./agents/agent-config";
+import { withFixture } from "./ai-fixtures";
+import { rethrowCancellation, throwIfCancelled } from "./cancellation";
+import {
+    MODERATION_SEVERITIES,
+    ModerationCategory,
+    ModerationSeverity,
+    ScreeningFinding,
+    isAtLeast,
+    isModerationSeverity,
+    screenText,
+} from "@/lib/content-screening";
+
+// Content moderation for design requests. Every piece of user text (the
+// brief, the speech transcript, sketch labels) is screened before the
+// agents see it, for harmful content and for prompt injection aimed at
+// their system prompts. The local moderator always runs; Azure AI Content
+// Safety can be added on top of it.
+
+export const CONTENT_MODERATOR_KINDS = ["local", "azure", "off"] as const;
+export type ContentModeratorKind = (typeof CONTENT_MODERATOR_KINDS)[number];
+
+export interface ModerationInput {
+    source: string; // where the text came from, e.g. "prompt" or "speech"
+    text: string;
+}
+
+export interface ModerationFinding extends ScreeningFinding {
+    source: string;
+    moderator: ContentModeratorKind;
+}
+
+export interface ModerationResult {
+    allowed: boolean;
+    moderator: ContentModeratorKind;
+    findings: ModerationFinding[];
+}
+
+export interface ContentModerator {
+    readonly kind: ContentModeratorKind;
+    screen(
+        inputs: ModerationInput[],
+        signal?: AbortSignal
+    ): Promise<ModerationFinding[]>;
+}
+
+// Rules and the injection classifier from lib/content-screening
+export class LocalContentModerator implements ContentModerator {
+    readonly kind = "local";
+
+    async screen(inputs: ModerationInput[]): Promise<ModerationFinding[]> {
+        return inputs.flatMap(({ source, text }) =>
+            screenText(text).map((finding) => ({
+                ...finding,
+                source,
+                moderator: this.kind,
+            }))
+        );
+    }
+}
+
+// Azure AI Content Safety: text analysis for the harm categories and
+// Prompt Shields for injection attempts
+const CONTENT_SAFETY_API_VERSION = "2024-09-01";
+// Longest text either endpoint takes in one request
+const CONTENT_SAFETY_MAX_CHARS = 10000;
+const AZURE_CATEGORIES: Record<string, ModerationCategory> = {
+    Hate: "hate",
+    Violence: "violence",
+    Sexual: "sexual",
+    SelfHarm: "self_harm",
+};
+
+interface AnalyzeResponse {
+    categoriesAnalysis: { category: string; severity: number }[];
+}
+
+interface ShieldResponse {
+    userPromptAnalysis: { attackDetected: boolean };
+}
+
+export class AzureContentSafetyModerator implements ContentModerator {
+    readonly kind = "azure";
+
+    constructor(private options: { key: string; endpoint: string }) {}
+
+    async screen(
+        inputs: ModerationInput[],
+        signal?: AbortSignal
+    ): Promise<ModerationFinding[]> {
+        const findings: ModerationFinding[] = [];
+        for (const { source, text } of inputs) {
+            for (const chunk of chunks(text, CONTENT_SAFETY_MAX_CHARS)) {
+                throwIfCancelled(signal);
+                const [analysis, shield] = await Promise.all([
+                    this.call<AnalyzeResponse>(
+                        "text:analyze",
+                        { text: chunk, outputType: "FourSeverityLevels" },
+                        signal
+                    ),
+                    this.call<ShieldResponse>(
+                        "text:shieldPrompt",
+                        { userPrompt: chunk, documents: [] },
+                        signal
+                    ),
+                ]);
+
+                for (const result of analysis.categoriesAnalysis) {
+                    // 0 safe, 2 low, 4 medium, 6 high
+                    const { category, severity } = result;
+                    const level = MODERATION_SEVERITIES[severity / 2 - 1];
+                    const mapped = AZURE_CATEGORIES[category];
+                    if (!level || !mapped) continue;
+                    findings.push({
+                        category: mapped,
+                        severity: level,
+                        score: Math.round((severity / 7) * 100) / 100,
+                        evidence: `Azure severity ${severity}`,
+                        source,
+                        moderator: this.kind,
+                    });
+                }
+                if (shield.userPromptAnalysis?.attackDetected) {
+                    findings.push({
+                        category: "prompt_injection",
+                        severity: "high",
+                        score: 1,
+                        evidence: "Azure Prompt Shields detected an attack",
+                        source,
+                        moderator: this.kind,
+                    });
+                }
+            }
+        }
+        return findings;
+    }
+
+    private call<T>(
+        operation: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal
+    ): Promise<T> {
+        return withFixture(
+            {
+                kind: "moderation",
+                label: `content-safety-${operation.replace("text:", "")}`,
+                request: body,
+            },
+            async () => {
+                const url = `${this.options.endpoint.replace(/\/+$/, "")}/contentsafety/${operation}?api-version=${CONTENT_SAFETY_API_VERSION}`;
+                const response = await fetch(url, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        "Ocp-Apim-Subscription-Key": this.options.key,
+                    },
+                    body: JSON.stringify(body),
+                    signal,
+                });
+                if (!response.ok) {
+                    throw new Error(
+                        `Azure Content Safety ${operation} failed (${response.status}): ${await response.text()}`
+                    );
+                }
+                return (await response.json()) as T;
+            }
+        );
+    }
+}
+
+const moderators = new Map<ContentModeratorKind, ContentModerator>();
+
+/**
+ * Replaces the shared instance of a moderator kind, e.g. to install a
+ * stub for a test run.
+ */
+export function registerContentModerator(moderator: ContentModerator) {
+    moderators.set(moderator.kind, moderator);
+}
+
+/**
+ * Returns the shared moderator of the given kind, creating it from the
+ * environment on first use. Returns null when it is not configured, and
+ * for "off".
+ */
+export function getContentModerator(
+    kind: ContentModeratorKind
+): ContentModerator | null {
+    const existing = moderators.get(kind);
+    if (existing) return existing;
+
+    let moderator: ContentModerator | null = null;
+    switch (kind) {
+        case "local":
+            moderator = new LocalContentModerator();
+            break;
+        case "azure": {
+            const { key, endpoint } = AZURE_SERVICES_CONFIG.contentSafety;
+            if (key && endpoint) {
+                moderator = new AzureContentSafetyModerator({ key, endpoint });
+            }
+            break;
+        }
+    }
+
+    if (moderator) moderators.set(kind, moderator);
+    return moderator;
+}
+
+/** CONTENT_MODERATOR, checked. */
+export function getContentModeratorKind(): ContentModeratorKind {
+    const kind = MODERATION_CONFIG.moderator;
+    if (!isContentModeratorKind(kind)) {
+        throw new Error(
+            `Unknown CONTENT_MODERATOR "${kind}", expected one of: ${CONTENT_MODERATOR_KINDS.join(", ")}`
+        );
+    }
+    return kind;
+}
+
+export function isContentModeratorKind(
+    value: unknown
+): value is ContentModeratorKind {
+    return CONTENT_MODERATOR_KINDS.includes(value as ContentModeratorKind);
+}
+
+/**
+ * Screens the given texts with the configured moderator; blank and
+ * missing texts are skipped. Azure failures are logged and leave the
+ * decision to the local rules, so an outage never lets input through
+ * unscreened.
+ */
+export async function moderateInputs(
+    inputs: { source: string; text?: unknown }[],
+    signal?: AbortSignal
+): Promise<ModerationResult> {
+    const kind = getContentModeratorKind();
+    const texts = inputs.filter(
+        (input): input is ModerationInput =>
+            typeof input.text === "string" && input.text.trim() !== ""
+    );
+    if (kind === "off" || texts.length === 0) {
+        return { allowed: true, moderator: kind, findings: [] };
+    }
+
+    const local = getContentModerator("local")!;
+    const findings = await local.screen(texts, signal);
+    if (kind === "azure") {
+        const azure = getContentModerator("azure");
+        if (!azure) {
+            console.warn(
+                "Azure Content Safety not configured, screening with the local rules only"
+            );
+        } else {
+            try {
+                findings.push(...(await azure.screen(texts, signal)));
+            } catch (error) {
+                rethrowCancellation(error, signal);
+                console.error(
+                    "Azure Content Safety failed, screening with the local rules only:",
+                    error
+                );
+            }
+        }
+    }
+
+    const threshold = getBlockSeverity();
+    return {
+        allowed: !findings.some((finding) =>
+            isAtLeast(finding.severity, threshold)
+        ),
+        moderator: kind,
+        findings,
+    };
+}
+
+const CATEGORY_NAMES: Record<ModerationCategory, string> = {
+    hate: "hateful content",
+    violence: "violent content",
+    sexual: "sexual content",
+    self_harm: "self-harm",
+    prompt_injection: "prompt injection",
+};
+
+/** What a rejected request is told, naming the most severe problem. */
+export function describeRejection(result: ModerationResult): string {
+    const [worst] = [...result.findings].sort(
+        (a, b) =>
+            MODERATION_SEVERITIES.indexOf(b.severity) -
+            MODERATION_SEVERITIES.indexOf(a.severity)
+    );
+    if (!worst) return "Input was rejected by content moderation";
+    if (worst.category === "prompt_injection") {
+        return `The ${worst.source} was rejected: it contains instructions aimed at the design assistant itself rather than a description of a building`;
+    }
+    return `The ${worst.source} was rejected by content moderation (${CATEGORY_NAMES[worst.category]})`;
+}
+
+/** MODERATION_BLOCK_SEVERITY, checked. */
+function getBlockSeverity(): ModerationSeverity {
+    const severity = MODERATION_CONFIG.blockSeverity;
+    if (!isModerationSeverity(severity)) {
+        throw new Error(
+            `Unknown MODERATION_BLOCK_SEVERITY "${severity}", expected one of: ${MODERATION_SEVERITIES.join(", ")}`
+        );
+    }
+    return severity;
+}
+
+function chunks(text: string, size: number): string[] {
+    const parts: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+        parts.push(text.slice(i, i + size));
+    }
+    return parts;
+}
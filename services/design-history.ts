@@ -0,0 +1,93 @@
+import { ModelData } from "@/lib/model-schema";
+import { ModelChange } from "@/lib/model-edits";
+
+// Turn history of designs refined through conversation. Turn 0 is the
+// design as it was first handed in; each refinement appends a turn with the
+// instruction, the resulting model and what changed. Kept in memory (use a
+// database in production); the least recently used designs are dropped
+// once MAX_DESIGNS is reached.
+
+const MAX_DESIGNS = 200;
+const MAX_TURNS = 100;
+
+export interface DesignTurn {
+    turn: number;
+    instruction: string | null; // null for turn 0
+    summary?: string;
+    changes: ModelChange[];
+    modelData: ModelData;
+    createdAt: string;
+}
+
+export class DesignHistory {
+    private designs = new Map<string, DesignTurn[]>();
+
+    /** Starts a history whose turn 0 is the given model. */
+    startDesign(modelData: ModelData): string {
+        const designId = `design_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        this.designs.set(designId, [
+            {
+                turn: 0,
+                instruction: null,
+                changes: [],
+                modelData,
+                createdAt: new Date().toISOString(),
+            },
+        ]);
+        this.evict();
+        return designId;
+    }
+
+    has(designId: string): boolean {
+        return this.designs.has(designId);
+    }
+
+    getTurns(designId: string): DesignTurn[] | null {
+        return this.designs.get(designId) || null;
+    }
+
+    getLatest(designId: string): DesignTurn | null {
+        const turns = this.designs.get(designId);
+        return turns ? turns[turns.length - 1] : null;
+    }
+
+    /**
+     * Appends a turn. A design dropped while the turn was being worked out,
+     * e.g. evicted during a long refinement, is put back from the turns it
+     * had then, so the caller's turn is not lost.
+     */
+    addTurn(
+        designId: string,
+        turn: Omit<DesignTurn, "turn" | "createdAt">,
+        previous?: DesignTurn[]
+    ): DesignTurn {
+        const turns = this.designs.get(designId) ?? previous;
+        if (!turns) throw new Error(`Unknown design "${designId}"`);
+
+        const entry: DesignTurn = {
+            ...turn,
+            turn: turns[turns.length - 1].turn + 1,
+            createdAt: new Date().toISOString(),
+        };
+        // Keep turn 0 so the original design can always be restored
+        const kept =
+            turns.length >= MAX_TURNS
+                ? [turns[0], ...turns.slice(turns.length - MAX_TURNS + 2)]
+                : turns;
+
+        // Re-inserting marks the design as most recently used
+        this.designs.delete(designId);
+        this.designs.set(designId, [...kept, entry]);
+        this.evict();
+        return entry;
+    }
+
+    private evict() {
+        while (this.designs.size > MAX_DESIGNS) {
+            const oldest = this.designs.keys().next().value as string;
+            this.designs.delete(oldest);
+        }
+    }
+}
+
+export const designHistory = new DesignHistory();
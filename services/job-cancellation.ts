@@ -0,0 +1,91 @@
+import { JOB_STORE_CONFIG } from "./agents/agent-config";
+import {
+    CADJob,
+    FINISHED_JOB_STATUSES,
+    JobStore,
+    getJobStore,
+} from "./job-store";
+
+// Cancellation of CAD jobs. A cancelled job is marked "cancelled" in the
+// job store, which is what every instance sees; the instance running the
+// job aborts its signal, stopping the pipeline and the model calls in
+// flight. Jobs running here are aborted at once, jobs running elsewhere
+// when their instance next checks the store.
+
+export interface TrackedJob {
+    // Aborted once the job is cancelled
+    signal: AbortSignal;
+    /** Checks the store now; true if the job has been cancelled. */
+    checkCancelled(): Promise<boolean>;
+    /** Stops watching the job; call when it has finished. */
+    release(): void;
+}
+
+export type CancelOutcome =
+    | { outcome: "cancelled"; job: CADJob }
+    | { outcome: "finished"; job: CADJob }
+    | { outcome: "not_found" };
+
+const running = new Map<string, AbortController>();
+
+/** Registers a job that is about to run here and watches it for cancellation. */
+export function trackJob(
+    jobId: string,
+    store: JobStore = getJobStore()
+): TrackedJob {
+    const controller = new AbortController();
+    running.set(jobId, controller);
+
+    const checkCancelled = async () => {
+        if (!controller.signal.aborted) {
+            const job = await store.get(jobId);
+            if (job?.status === "cancelled") controller.abort();
+        }
+        return controller.signal.aborted;
+    };
+
+    const timer = setInterval(() => {
+        checkCancelled().catch((error) => {
+            console.error(`Failed to check CAD job ${jobId}:`, error);
+        });
+    }, JOB_STORE_CONFIG.cancelPollMs);
+
+    return {
+        signal: controller.signal,
+        checkCancelled,
+        release() {
+            clearInterval(timer);
+            if (running.get(jobId) === controller) running.delete(jobId);
+        },
+    };
+}
+
+/**
+ * Marks a job cancelled and aborts it if it runs here. Jobs that already
+ * finished are left as they are.
+ */
+export async function cancelJob(
+    jobId: string,
+    store: JobStore = getJobStore()
+): Promise<CancelOutcome> {
+    const job = await store.get(jobId);
+    if (!job) return { outcome: "not_found" };
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+        return { outcome: "finished", job };
+    }
+
+    const cancelled = await store.update(jobId, {
+        status: "cancelled",
+        message: "Cancelled",
+        payload: undefined,
+    });
+    if (!cancelled) {
+        // Finished (or removed) since it was read
+        const current = await store.get(jobId);
+        return current
+            ? { outcome: "finished", job: current }
+            : { outcome: "not_found" };
+    }
+    running.get(jobId)?.abort();
+    return { outcome: "cancelled", job: cancelled };
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { JOB_QUEUE_CONFIG } from "./agents/agent-config";
+import { getClientId } from "./job-queue";
+import { recordRemoteAddresses } from "./remote-address";
+
+describe("getClientId", () => {
+    let server: http.Server;
+    let received: http.IncomingHttpHeaders;
+
+    // Sends a request through a real server, as Next.js would receive it,
+    // and returns the client it is put down to
+    async function clientOf(headers: Record<string, string> = {}) {
+        const { port } = server.address() as AddressInfo;
+        await fetch(`http://127.0.0.1:${port}/`, { headers });
+        const request = new Request("http://localhost/", {
+            headers: Object.entries(received).flatMap(
+                ([name, value]): [string, string][] =>
+                    typeof value === "string" ? [[name, value]] : []
+            ),
+        });
+        return getClientId(request);
+    }
+
+    before(async () => {
+        recordRemoteAddresses();
+        server = http.createServer((req, res) => {
+            received = req.headers;
+            res.end();
+        });
+        await new Promise<void>((resolve) =>
+            server.listen(0, "127.0.0.1", resolve)
+        );
+    });
+
+    after(() => {
+        server.close();
+        JOB_QUEUE_CONFIG.trustedProxies = 0;
+    });
+
+    it("uses the connection's address without proxies", async () => {
+        JOB_QUEUE_CONFIG.trustedProxies = 0;
+        assert.equal(await clientOf(), "127.0.0.1");
+    });
+
+    it("ignores a forwarded address sent without proxies", async () => {
+        JOB_QUEUE_CONFIG.trustedProxies = 0;
+        assert.equal(
+            await clientOf({ "X-Forwarded-For": "203.0.113.9" }),
+            "127.0.0.1"
+        );
+    });
+
+    it("ignores a recorded address the client sent itself", async () => {
+        JOB_QUEUE_CONFIG.trustedProxies = 0;
+        const request = new Request("http://localhost/", {
+            headers: { "X-Archifusion-Remote-Address": "203.0.113.9" },
+        });
+        assert.equal(getClientId(request), "anonymous");
+    });
+
+    it("uses the address the proxy saw behind one proxy", async () => {
+        JOB_QUEUE_CONFIG.trustedProxies = 1;
+        assert.equal(
+            await clientOf({ "X-Forwarded-For": "198.51.100.7" }),
+            "198.51.100.7"
+        );
+    });
+
+    it("ignores entries the client added in front of the proxy's", async () => {
+        JOB_QUEUE_CONFIG.trustedProxies = 1;
+        assert.equal(
+            await clientOf({
+                "X-Forwarded-For": "203.0.113.9, 198.51.100.7",
+            }),
+            "198.51.100.7"
+        );
+    });
+
+    it("uses the connection's address when no proxy added an entry", async () => {
+        JOB_QUEUE_CONFIG.trustedProxies = 1;
+        assert.equal(await clientOf(), "127.0.0.1");
+    });
+});
@@ -0,0 +1,265 @@
+import crypto from "crypto";
+import os from "os";
+import { JOB_QUEUE_CONFIG, JOB_STORE_CONFIG } from "./agents/agent-config";
+import { CADJob, JobPriority, JobStore, getJobStore } from "./job-store";
+import { runCADJob } from "./job-runner";
+import { getRemoteAddress } from "./remote-address";
+
+// Queue of CAD jobs. Jobs wait in the job store as "queued" until a worker
+// with a free slot claims them; the claim is atomic, so several instances
+// sharing a file or SQLite store never run the same job. Higher priorities
+// go first; within a priority, jobs take turns between clients, so one
+// client's burst cannot hold everyone else up. Running jobs are touched
+// regularly; one whose worker stopped touching it, e.g. because its
+// instance crashed, is queued again by the next worker to notice.
+
+export const JOB_WORKER_MODES = ["inline", "external"] as const;
+export type JobWorkerMode = (typeof JOB_WORKER_MODES)[number];
+
+const PRIORITY_RANK: Record<JobPriority, number> = {
+    high: 0,
+    normal: 1,
+    low: 2,
+};
+
+/**
+ * Queued jobs in the order workers will start them: by priority, then by
+ * turn, so every client's next job goes before anyone's job after that,
+ * then oldest first.
+ */
+export function orderQueue(queued: CADJob[]): CADJob[] {
+    return queued
+        .slice()
+        .sort(
+            (a, b) =>
+                rankOf(a) - rankOf(b) ||
+                (a.turn || 0) - (b.turn || 0) ||
+                a.startTime - b.startTime
+        );
+}
+
+/** 1 for the job that starts next; null when the job is not queued. */
+export async function getQueuePosition(
+    jobId: string,
+    store: JobStore = getJobStore()
+): Promise<number | null> {
+    const queued = await store.list({ status: "queued" });
+    const index = orderQueue(queued).findIndex((job) => job.id === jobId);
+    return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * A client's jobs that are waiting and running: the first is held to the
+ * per-client limit, and together they give a new job its turn.
+ */
+export async function getClientLoad(
+    clientId: string,
+    store: JobStore = getJobStore()
+): Promise<{ queued: number; processing: number }> {
+    const [queued, processing] = await Promise.all([
+        store.list({ status: "queued" }),
+        store.list({ status: "processing" }),
+    ]);
+    const isClients = (job: CADJob) => job.clientId === clientId;
+    return {
+        queued: queued.filter(isClients).length,
+        processing: processing.filter(isClients).length,
+    };
+}
+
+/**
+ * The client a request comes from, for turns and the per-client limit.
+ * Behind trustedProxies proxies, it is the address the outermost of them
+ * saw: the trustedProxies-th X-Forwarded-For entry from the right. Without
+ * proxies (0), or when the header has fewer entries, it is the address of
+ * the connection itself. Entries further left, and headers such as
+ * X-Client-Id, are whatever the client chose to send.
+ */
+export function getClientId(req: Request): string {
+    const trusted = JOB_QUEUE_CONFIG.trustedProxies;
+    const hops = (req.headers.get("x-forwarded-for") ?? "")
+        .split(",")
+        .map((hop) => hop.trim())
+        .filter(Boolean);
+    return (
+        (trusted > 0 && hops[hops.length - trusted]) ||
+        getRemoteAddress(req) ||
+        "anonymous"
+    );
+}
+
+/** Whether a request carries JOB_PRIORITY_KEY, which "high" needs. */
+export function mayQueueHighPriority(req: Request): boolean {
+    const key = JOB_QUEUE_CONFIG.priorityKey;
+    const given = req.headers.get("x-priority-key");
+    if (!key || !given) return false;
+
+    const expected = Buffer.from(key);
+    const actual = Buffer.from(given);
+    return (
+        actual.length === expected.length &&
+        crypto.timingSafeEqual(actual, expected)
+    );
+}
+
+/**
+ * Runs queued jobs from the store, at most maxConcurrentJobs at a time.
+ * Slots are filled when a job is queued or finishes, and on every poll for
+ * jobs queued by other instances. Abandoned jobs are recovered on the first
+ * poll and then every abandonedAfterMs.
+ */
+export class JobQueue {
+    private running = new Set<string>();
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private filling: Promise<void> | null = null;
+    private refill = false;
+    private lastRecovery = 0;
+
+    constructor(
+        private store: JobStore,
+        private run: (job: CADJob) => Promise<void>,
+        readonly workerId: string,
+        private maxConcurrentJobs: number,
+        private abandonedAfterMs: number
+    ) {}
+
+    get activeJobs(): number {
+        return this.running.size;
+    }
+
+    start(pollMs: number) {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.kick(), pollMs);
+        this.kick();
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /** Starts queued jobs while there are free slots. */
+    kick(): Promise<void> {
+        if (this.filling) {
+            this.refill = true;
+            return this.filling;
+        }
+
+        this.filling = this.fill()
+            .catch((error) => {
+                console.error("Failed to start queued CAD jobs:", error);
+            })
+            .finally(() => {
+                this.filling = null;
+                if (this.refill) {
+                    this.refill = false;
+                    this.kick();
+                }
+            });
+        return this.filling;
+    }
+
+    private async fill() {
+        if (Date.now() - this.lastRecovery >= this.abandonedAfterMs) {
+            this.lastRecovery = Date.now();
+            await this.recoverAbandoned();
+        }
+
+        // Jobs another worker claimed first are not tried again this round
+        const taken = new Set<string>();
+
+        while (this.running.size < this.maxConcurrentJobs) {
+            const queued = await this.store.list({ status: "queued" });
+            const next = orderQueue(queued).find((job) => !taken.has(job.id));
+            if (!next) return;
+
+            const claimed = await this.store.claim(next.id, this.workerId);
+            if (!claimed) {
+                taken.add(next.id);
+                continue;
+            }
+
+            this.running.add(claimed.id);
+            this.run(claimed).finally(() => {
+                this.running.delete(claimed.id);
+                this.kick();
+            });
+        }
+    }
+
+    private async recoverAbandoned() {
+        const before = Date.now() - this.abandonedAfterMs;
+        const processing = await this.store.list({ status: "processing" });
+        for (const job of processing) {
+            if (this.running.has(job.id)) continue;
+            const recovered = await this.store.recoverAbandoned(job.id, before);
+            if (recovered) {
+                console.warn(
+                    `CAD job ${job.id} lost its worker ${job.workerId}, ${recovered.status === "queued" ? "queued again" : "failed"}`
+                );
+            }
+        }
+    }
+}
+
+export function isJobWorkerMode(value: unknown): value is JobWorkerMode {
+    return JOB_WORKER_MODES.includes(value as JobWorkerMode);
+}
+
+/**
+ * JOB_WORKER_MODE, checked: standalone workers only see the jobs of other
+ * instances through a shared store.
+ */
+export function getJobWorkerMode(): JobWorkerMode {
+    const mode = JOB_QUEUE_CONFIG.workerMode;
+    if (!isJobWorkerMode(mode)) {
+        throw new Error(
+            `Unknown JOB_WORKER_MODE "${mode}", expected one of: ${JOB_WORKER_MODES.join(", ")}`
+        );
+    }
+    if (mode === "external") requireSharedStore("JOB_WORKER_MODE external");
+    return mode;
+}
+
+let jobQueue: JobQueue | null = null;
+
+/**
+ * Starts running queued jobs in this process. A web server does not when
+ * it only queues them (JOB_WORKER_MODE external); a standalone worker
+ * (scripts/job-worker.ts) always does. Returns the running queue, or null.
+ */
+export function startJobWorker(
+    options: { standalone?: boolean } = {}
+): JobQueue | null {
+    if (options.standalone) {
+        requireSharedStore("A standalone job worker");
+    } else if (getJobWorkerMode() === "external") {
+        return null;
+    }
+
+    if (!jobQueue) {
+        jobQueue = new JobQueue(
+            getJobStore(),
+            runCADJob,
+            `${os.hostname()}:${process.pid}`,
+            JOB_QUEUE_CONFIG.maxConcurrentJobs,
+            JOB_QUEUE_CONFIG.abandonedAfterMs
+        );
+        jobQueue.start(JOB_QUEUE_CONFIG.pollMs);
+        console.log(
+            `CAD job worker ${jobQueue.workerId} running up to ${JOB_QUEUE_CONFIG.maxConcurrentJobs} jobs at a time`
+        );
+    }
+    return jobQueue;
+}
+
+// Other instances only see a file or SQLite store
+function requireSharedStore(what: string) {
+    if (JOB_STORE_CONFIG.backend === "memory") {
+        throw new Error(`${what} needs a shared JOB_STORE (file or sqlite)`);
+    }
+}
+
+function rankOf(job: CADJob): number {
+    return PRIORITY_RANK[job.priority || "normal"] ?? PRIORITY_RANK.normal;
+}
@@ -0,0 +1,114 @@
+import { CADJob, JobEvent, JobEventType, JobStore } from "./job-store";
+import { PartialResult, ProgressEvent, getOverallProgress } from "./progress";
+import { PipelineLogLine } from "./pipeline-log";
+
+// Events recorded per job; once there are this many, further log lines are
+// left out (status, stage and partial events are always recorded)
+const MAX_JOB_EVENTS = 500;
+
+/**
+ * Writes a running job's progress, partial results and log lines to the
+ * job store as they happen. Writes go out one at a time and in order;
+ * events are appended to the job's event stream, and only changes to the
+ * job itself rewrite it. The recorder must be the only writer of the job
+ * while it runs, and stops writing once the job has finished elsewhere,
+ * e.g. been cancelled.
+ */
+export class JobRecorder {
+    private eventCount = 0;
+    private nextEventId: number;
+    private progress = 0;
+    private finished = false;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(
+        private store: JobStore,
+        private jobId: string,
+        // Ids the job's stream already used, e.g. in an earlier run
+        lastEventId = 0
+    ) {
+        this.nextEventId = lastEventId + 1;
+    }
+
+    /**
+     * Queues an update of the job, with an event for its stream if given.
+     * The event is recorded after the update, and not at all when the job
+     * had already finished. Resolves once written; a failed write is
+     * logged, not thrown.
+     */
+    update(
+        patch: Partial<CADJob>,
+        event?: { type: JobEventType; data: any }
+    ): Promise<void> {
+        const recorded = event && this.createEvent(event.type, event.data);
+
+        this.writes = this.writes
+            .then(async () => {
+                if (this.finished) return;
+                if (Object.keys(patch).length > 0) {
+                    const updated = await this.store.update(this.jobId, patch);
+                    if (!updated) {
+                        this.finished = true;
+                        return;
+                    }
+                }
+                if (recorded) {
+                    await this.store.appendEvents(this.jobId, [recorded]);
+                }
+            })
+            .then(
+                () => undefined,
+                (error) => {
+                    console.error(
+                        `Failed to record CAD job ${this.jobId}:`,
+                        error
+                    );
+                }
+            );
+        return this.writes;
+    }
+
+    setStatus(status: string, patch: Partial<CADJob> = {}): Promise<void> {
+        return this.update(
+            { ...patch, status },
+            { type: "status", data: { status } }
+        );
+    }
+
+    // The overall percentage never goes backwards, even when a later step
+    // reports an earlier stage again
+    onProgress = (event: ProgressEvent) => {
+        this.progress = Math.max(this.progress, getOverallProgress(event));
+        const data = {
+            progress: this.progress,
+            stage: event.stage,
+            stageProgress: event.progress,
+            message: event.message,
+        };
+        this.update(data, { type: "stage", data });
+    };
+
+    onPartialResult = (result: PartialResult) => {
+        this.update({}, { type: "partial", data: result });
+    };
+
+    onLog = (line: PipelineLogLine) => {
+        this.update({}, { type: "log", data: line });
+    };
+
+    /** Marks the job as still running, without changing it. */
+    touch(): Promise<void> {
+        return this.update({ updatedAt: Date.now() });
+    }
+
+    /** Resolves once every queued write is done. */
+    flush(): Promise<void> {
+        return this.writes;
+    }
+
+    private createEvent(type: JobEventType, data: any): JobEvent | null {
+        if (type === "log" && this.eventCount >= MAX_JOB_EVENTS) return null;
+        this.eventCount++;
+        return { id: this.nextEventId++, type, data, time: Date.now() };
+    }
+}
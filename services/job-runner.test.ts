@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { DesignerAgent } from "./agents/designer-agent";
+import { InterpreterAgent } from "./agents/interpreter-agent";
+import { runCADJob } from "./job-runner";
+import { CADJob, getJobStore } from "./job-store";
+
+describe("runCADJob", () => {
+    afterEach(() => mock.restoreAll());
+
+    it("fails a job whose designer throws", async () => {
+        mock.method(InterpreterAgent.prototype, "execute", async () => ({
+            requirements: { rooms: [{ name: "Kitchen", count: 1 }] },
+        }));
+        mock.method(DesignerAgent.prototype, "execute", async () => {
+            throw new Error("designer broke");
+        });
+        const store = getJobStore();
+        const now = Date.now();
+        const job: CADJob = {
+            id: "job-designer-throws",
+            status: "queued",
+            startTime: now,
+            updatedAt: now,
+            payload: { prompt: "A kitchen", designMode: "llm", variants: 1 },
+        };
+        await store.save(job);
+
+        await runCADJob(job);
+
+        const finished = await store.get(job.id);
+        assert.equal(finished?.status, "failed");
+        assert.match(finished?.error ?? "", /designer broke/);
+        assert.equal(finished?.result, undefined);
+    });
+});
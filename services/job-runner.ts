@@ -0,0 +1,130 @@
+import { ModelValidationError, parseModelData } from "@/lib/model-schema";
+import { JOB_QUEUE_CONFIG } from "./agents/agent-config";
+import { StructuredOutputError } from "./structured-output";
+import { CADJob, getJobStore } from "./job-store";
+import { JobRecorder } from "./job-recorder";
+import { withPipelineLog } from "./pipeline-log";
+import { trackJob } from "./job-cancellation";
+import { CancelledError, isCancellation } from "./cancellation";
+
+/**
+ * Runs a claimed CAD job from its stored payload and records the outcome.
+ * Never throws; failures and cancellations end up in the job.
+ */
+export async function runCADJob(job: CADJob): Promise<void> {
+    const jobId = job.id;
+    const data = job.payload;
+    const store = getJobStore();
+    // Stage changes, partial results and agent log lines are written to
+    // the job as they happen, for its event stream. A job queued again
+    // after its worker stopped carries on from the events of that run.
+    const lastEventId = await store.listEvents(jobId).then(
+        (events) => events[events.length - 1]?.id,
+        (error) => {
+            console.error(`Failed to read CAD job ${jobId} events:`, error);
+            return undefined;
+        }
+    );
+    const recorder = new JobRecorder(store, jobId, lastEventId);
+    // Shows other workers that the job is still running
+    const heartbeat = setInterval(
+        () => recorder.touch(),
+        JOB_QUEUE_CONFIG.heartbeatMs
+    );
+    // Cancelling the job (POST /api/cad-generator/cancel) aborts the signal
+    const tracked = trackJob(jobId);
+    const { signal } = tracked;
+
+    try {
+        if (!data) throw new Error("Job has no inputs to run");
+
+        // Cancelled before it started
+        if (await tracked.checkCancelled()) {
+            throw new CancelledError();
+        }
+        console.log(`Processing CAD job ${jobId}...`);
+        await recorder.setStatus("processing", {
+            progress: 1,
+            message: "Starting CAD generation",
+        });
+
+        // Loaded on first use to avoid initialization during build
+        const { generateCadModel } = await import("./llm-service");
+        const textPrompt =
+            data.prompt || "Generate a CAD model based on the provided inputs";
+
+        const result: any = await withPipelineLog(recorder.onLog, () =>
+            generateCadModel(
+                textPrompt,
+                data.sketchData,
+                data.speechData,
+                data.photoData,
+                {
+                    designMode: data.designMode,
+                    variants: data.variants,
+                    sketchVector: data.sketchVector,
+                    onProgress: recorder.onProgress,
+                    onPartialResult: recorder.onPartialResult,
+                    signal,
+                }
+            )
+        );
+        // A cancellation that came in as the pipeline finished still wins
+        if (await tracked.checkCancelled()) {
+            throw new CancelledError();
+        }
+
+        // Never hand an off-schema model to the viewer
+        result.modelData = parseModelData(result.modelData, "CAD job result");
+        result.variants?.forEach((variant: any) => {
+            variant.modelData = parseModelData(
+                variant.modelData,
+                `CAD job ${variant.id}`
+            );
+        });
+
+        console.log(`CAD job ${jobId} completed successfully`);
+        // Expired jobs are removed by pruneExpiredJobs
+        await recorder.setStatus("completed", {
+            progress: 100,
+            stage: undefined,
+            stageProgress: undefined,
+            message: undefined,
+            payload: undefined,
+            result,
+        });
+    } catch (error) {
+        if (isCancellation(error, signal)) {
+            console.log(`CAD job ${jobId} cancelled`);
+            await recorder.setStatus("cancelled", {
+                stage: undefined,
+                stageProgress: undefined,
+                message: "Cancelled",
+                payload: undefined,
+            });
+            return;
+        }
+
+        console.error(`CAD job ${jobId} failed:`, error);
+        await recorder.setStatus("failed", {
+            payload: undefined,
+            error: error instanceof Error ? error.message : String(error),
+            issues:
+                error instanceof ModelValidationError
+                    ? error.issues
+                    : undefined,
+            outputError:
+                error instanceof StructuredOutputError
+                    ? {
+                          source: error.source,
+                          format: error.format,
+                          reason: error.reason,
+                          position: error.position,
+                      }
+                    : undefined,
+        });
+    } finally {
+        clearInterval(heartbeat);
+        tracked.release();
+    }
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { isBuiltin } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { CADJob, SQLiteJobStore, createJobStore } from "./job-store";
+
+// node:sqlite: Node 22.13+, or 22.5+ with --experimental-sqlite
+const hasSQLite = isBuiltin("node:sqlite");
+
+function queuedJob(id: string): CADJob {
+    const now = Date.now();
+    return { id, status: "queued", startTime: now, updatedAt: now };
+}
+
+describe("createJobStore", () => {
+    it("refuses sqlite without node:sqlite", { skip: hasSQLite }, () => {
+        assert.throws(
+            () => createJobStore("sqlite"),
+            /JOB_STORE "sqlite" needs node:sqlite.*JOB_STORE=file/
+        );
+    });
+
+    it("creates sqlite with node:sqlite", { skip: !hasSQLite }, () => {
+        assert.ok(createJobStore("sqlite") instanceof SQLiteJobStore);
+    });
+});
+
+describe("SQLiteJobStore", { skip: !hasSQLite }, () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "job-store-"));
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it("keeps concurrent updates from two instances", async () => {
+        const file = path.join(dir, "jobs.sqlite");
+        const first = new SQLiteJobStore(file);
+        const second = new SQLiteJobStore(file);
+        await first.save(queuedJob("job-1"));
+        // Both open, so neither update waits for its connection
+        await second.get("job-1");
+
+        await Promise.all([
+            first.update("job-1", { message: "Designing" }),
+            second.update("job-1", { progress: 40 }),
+        ]);
+
+        const job = await first.get("job-1");
+        assert.equal(job?.message, "Designing");
+        assert.equal(job?.progress, 40);
+    });
+
+    it("leaves a finished job as it is", async () => {
+        const store = new SQLiteJobStore(path.join(dir, "finished.sqlite"));
+        await store.save({ ...queuedJob("job-2"), status: "cancelled" });
+
+        assert.equal(await store.update("job-2", { progress: 90 }), null);
+        assert.equal((await store.get("job-2"))?.status, "cancelled");
+    });
+});
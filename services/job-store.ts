@@ -0,0 +1,738 @@
+import fs from "fs";
+import { isBuiltin } from "module";
+import path from "path";
+import type { DatabaseSync } from "node:sqlite";
+import { ModelValidationIssue } from "@/lib/model-schema";
+import { DesignMode } from "@/lib/layout-solver";
+import { VectorSketch } from "@/lib/sketch-vector";
+import { JOB_STORE_CONFIG } from "./agents/agent-config";
+import { StructuredOutputFailure } from "./structured-output";
+import { ProgressStage } from "./progress";
+
+// Storage for CAD generation jobs. "memory" keeps them in the process (lost
+// on restart), "file" writes one JSON file per job and "sqlite" keeps them
+// in a SQLite database (node:sqlite: Node 22.13+, or 22.5+ with
+// --experimental-sqlite). The last two survive restarts and can be shared
+// by several instances through a common volume. Finished jobs are removed
+// once they are older than the retention period. Queued jobs carry their
+// inputs, so any instance sharing the store can claim and run them. Events
+// for a job's stream are appended next to the job rather than rewritten
+// with it. A finished job is final: later updates, such as the progress of
+// a job that was just cancelled, leave it as it is.
+
+export const JOB_STORE_KINDS = ["memory", "file", "sqlite"] as const;
+export type JobStoreKind = (typeof JOB_STORE_KINDS)[number];
+
+export const FINISHED_JOB_STATUSES = ["completed", "failed", "cancelled"];
+
+// How long a file store update waits between tries for a job's lock, and
+// after how long a lock is taken to belong to an instance that died
+const LOCK_RETRY_MS = 20;
+const LOCK_STALE_MS = 10000;
+
+// Queued jobs of higher priority run first
+export const JOB_PRIORITIES = ["low", "normal", "high"] as const;
+export type JobPriority = (typeof JOB_PRIORITIES)[number];
+
+// Kinds of event a job's event stream replays: status changes, pipeline
+// stages, partial results and agent log lines
+export type JobEventType = "status" | "stage" | "partial" | "log";
+
+export interface JobEvent {
+    id: number; // increasing per job, starting at 1
+    type: JobEventType;
+    data: any;
+    time: number;
+}
+
+// Everything needed to run a job; dropped once it finishes
+export interface CADJobPayload {
+    prompt?: string;
+    sketchData?: string;
+    sketchVector?: VectorSketch;
+    speechData?: string;
+    photoData?: string;
+    designMode: DesignMode;
+    variants: number;
+}
+
+export interface CADJob {
+    id: string;
+    status: string;
+    // Who asked, for fair scheduling between clients
+    clientId?: string;
+    priority?: JobPriority;
+    // The client's jobs already queued or running when this one was queued;
+    // lower turns start first within a priority
+    turn?: number;
+    // The instance running the job
+    workerId?: string;
+    // Times the job was queued again after its worker stopped
+    requeued?: number;
+    progress?: number; // 0-100 over the whole run
+    // Where a processing job is, from the pipeline's progress events
+    stage?: ProgressStage;
+    stageProgress?: number; // 0-1
+    message?: string;
+    // What was asked for, for listings; image and audio data are not kept
+    input?: {
+        prompt?: string;
+        designMode?: string;
+        variants?: number;
+        hasSketch?: boolean;
+        hasSpeech?: boolean;
+        hasPhoto?: boolean;
+    };
+    // Left out of status responses and listings
+    payload?: CADJobPayload;
+    result?: any;
+    error?: string;
+    issues?: ModelValidationIssue[];
+    outputError?: {
+        source: string;
+        format: string;
+        reason: StructuredOutputFailure;
+        position?: number;
+    };
+    startTime: number;
+    updatedAt: number;
+}
+
+export interface JobQuery {
+    status?: string;
+    clientId?: string;
+    limit?: number;
+}
+
+export interface JobStore {
+    get(id: string): Promise<CADJob | null>;
+    save(job: CADJob): Promise<void>;
+    /**
+     * Merges the patch into a stored job. Null, and nothing written, when
+     * there is no such job or it has already finished.
+     */
+    update(id: string, patch: Partial<CADJob>): Promise<CADJob | null>;
+    /**
+     * Moves a queued job to "processing" for the given worker. Null when
+     * the job is gone, no longer queued or another worker claimed it first.
+     */
+    claim(id: string, workerId: string): Promise<CADJob | null>;
+    /**
+     * Recovers a processing job whose worker stopped, i.e. one not updated
+     * since the given time: queues it again, or fails it if that already
+     * happened once. Null when the job is gone, not processing or alive.
+     */
+    recoverAbandoned(id: string, before: number): Promise<CADJob | null>;
+    /** Jobs, most recently started first. */
+    list(query?: JobQuery): Promise<CADJob[]>;
+    /** Adds events to a job's stream; ignored if there is no such job. */
+    appendEvents(id: string, events: JobEvent[]): Promise<void>;
+    /** A job's events with ids above afterId, oldest first. */
+    listEvents(id: string, afterId?: number): Promise<JobEvent[]>;
+    /** Removes a job and its events. */
+    delete(id: string): Promise<boolean>;
+    /** Removes finished jobs last updated before the given time. */
+    deleteFinishedBefore(time: number): Promise<number>;
+}
+
+export class MemoryJobStore implements JobStore {
+    private jobs = new Map<string, CADJob>();
+    private events = new Map<string, JobEvent[]>();
+
+    async get(id: string): Promise<CADJob | null> {
+        return this.jobs.get(id) || null;
+    }
+
+    async save(job: CADJob): Promise<void> {
+        this.jobs.set(job.id, job);
+    }
+
+    async update(id: string, patch: Partial<CADJob>): Promise<CADJob | null> {
+        const job = this.jobs.get(id);
+        if (!job || isFinished(job)) return null;
+        const updated = mergeJob(job, patch);
+        this.jobs.set(id, updated);
+        return updated;
+    }
+
+    async claim(id: string, workerId: string): Promise<CADJob | null> {
+        const job = this.jobs.get(id);
+        if (job?.status !== "queued") return null;
+        return this.update(id, claimPatch(workerId));
+    }
+
+    async recoverAbandoned(id: string, before: number): Promise<CADJob | null> {
+        const job = this.jobs.get(id);
+        if (!job || !isAbandoned(job, before)) return null;
+        return this.update(id, recoveryPatch(job));
+    }
+
+    async list(query: JobQuery = {}): Promise<CADJob[]> {
+        return selectJobs(Array.from(this.jobs.values()), query);
+    }
+
+    async appendEvents(id: string, events: JobEvent[]): Promise<void> {
+        if (!this.jobs.has(id)) return;
+        const stream = this.events.get(id);
+        if (stream) stream.push(...events);
+        else this.events.set(id, events.slice());
+    }
+
+    async listEvents(id: string, afterId = 0): Promise<JobEvent[]> {
+        return (this.events.get(id) || []).filter(
+            (event) => event.id > afterId
+        );
+    }
+
+    async delete(id: string): Promise<boolean> {
+        this.events.delete(id);
+        return this.jobs.delete(id);
+    }
+
+    async deleteFinishedBefore(time: number): Promise<number> {
+        let removed = 0;
+        this.jobs.forEach((job, id) => {
+            if (isExpired(job, time)) {
+                this.delete(id);
+                removed++;
+            }
+        });
+        return removed;
+    }
+}
+
+export class FileJobStore implements JobStore {
+    private readonly dir: string;
+
+    constructor(dir: string) {
+        this.dir = path.resolve(dir);
+    }
+
+    async get(id: string): Promise<CADJob | null> {
+        const file = this.fileFor(id);
+        if (!file) return null;
+        try {
+            return JSON.parse(await fs.promises.readFile(file, "utf8"));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+            throw error;
+        }
+    }
+
+    async save(job: CADJob): Promise<void> {
+        const file = this.fileFor(job.id);
+        if (!file) throw new Error(`Invalid job id "${job.id}"`);
+
+        // Write then rename, so readers never see a half-written job
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(job));
+        await fs.promises.rename(temp, file);
+    }
+
+    // Under the job's lock, so a job another instance finishes meanwhile
+    // is not overwritten with what was read before
+    async update(id: string, patch: Partial<CADJob>): Promise<CADJob | null> {
+        const file = this.fileFor(id);
+        if (!file) return null;
+        return this.withLock(file, async () => {
+            const job = await this.get(id);
+            if (!job || isFinished(job)) return null;
+            const updated = mergeJob(job, patch);
+            await this.save(updated);
+            return updated;
+        });
+    }
+
+    // Creating the job's claim marker succeeds for one instance only
+    async claim(id: string, workerId: string): Promise<CADJob | null> {
+        const file = this.fileFor(id);
+        if (!file) return null;
+        try {
+            await fs.promises.writeFile(`${file}.claim`, workerId, {
+                flag: "wx",
+            });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+                return null;
+            }
+            throw error;
+        }
+
+        const job = await this.get(id);
+        if (job?.status !== "queued") return null;
+        return this.update(id, claimPatch(workerId));
+    }
+
+    // A requeued job loses its claim marker, so it can be claimed again
+    async recoverAbandoned(id: string, before: number): Promise<CADJob | null> {
+        const file = this.fileFor(id);
+        if (!file) return null;
+        return this.withLock(file, async () => {
+            const job = await this.get(id);
+            if (!job || !isAbandoned(job, before)) return null;
+            const recovered = mergeJob(job, recoveryPatch(job));
+            if (recovered.status === "queued") {
+                await fs.promises.rm(`${file}.claim`, { force: true });
+            }
+            await this.save(recovered);
+            return recovered;
+        });
+    }
+
+    async list(query: JobQuery = {}): Promise<CADJob[]> {
+        return selectJobs(await this.readAll(), query);
+    }
+
+    // One JSON line per event, appended to the job's .events file
+    async appendEvents(id: string, events: JobEvent[]): Promise<void> {
+        const file = this.fileFor(id);
+        if (!file || events.length === 0) return;
+        if (!(await fs.promises.stat(file).catch(() => null))) return;
+        await fs.promises.appendFile(
+            `${file}.events`,
+            events.map((event) => `${JSON.stringify(event)}\n`).join("")
+        );
+    }
+
+    async listEvents(id: string, afterId = 0): Promise<JobEvent[]> {
+        const file = this.fileFor(id);
+        if (!file) return [];
+        let text: string;
+        try {
+            text = await fs.promises.readFile(`${file}.events`, "utf8");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw error;
+        }
+
+        // Whatever follows the last newline may still be being written
+        return text
+            .split("\n")
+            .slice(0, -1)
+            .map((line): JobEvent => JSON.parse(line))
+            .filter((event) => event.id > afterId);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const file = this.fileFor(id);
+        if (!file) return false;
+        try {
+            await fs.promises.rm(`${file}.events`, { force: true });
+            await fs.promises.rm(`${file}.claim`, { force: true });
+            await fs.promises.rm(`${file}.lock`, { force: true });
+            await fs.promises.unlink(file);
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async deleteFinishedBefore(time: number): Promise<number> {
+        let removed = 0;
+        for (const job of await this.readAll()) {
+            if (isExpired(job, time) && (await this.delete(job.id))) {
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    private async readAll(): Promise<CADJob[]> {
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(this.dir);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw error;
+        }
+
+        const jobs: CADJob[] = [];
+        for (const name of names) {
+            if (!name.endsWith(".json")) continue;
+            // Another instance may delete the job between readdir and get
+            const job = await this.get(name.slice(0, -".json".length));
+            if (job) jobs.push(job);
+        }
+        return jobs;
+    }
+
+    // The lock is a marker file only one instance can create; one left by
+    // an instance that died holding it is taken over once it is stale
+    private async withLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+        const lock = `${file}.lock`;
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        for (;;) {
+            try {
+                await fs.promises.writeFile(lock, `${process.pid}`, {
+                    flag: "wx",
+                });
+                break;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+                    throw error;
+                }
+            }
+            const held = await fs.promises.stat(lock).catch(() => null);
+            if (held && Date.now() - held.mtimeMs > LOCK_STALE_MS) {
+                await fs.promises.rm(lock, { force: true });
+                continue;
+            }
+            await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+        }
+
+        try {
+            return await fn();
+        } finally {
+            await fs.promises.rm(lock, { force: true });
+        }
+    }
+
+    // Job ids become file names, so anything but a plain id is refused
+    private fileFor(id: string): string | null {
+        return /^[\w-]+$/.test(id) ? path.join(this.dir, `${id}.json`) : null;
+    }
+}
+
+export class SQLiteJobStore implements JobStore {
+    private readonly file: string;
+    private db: Promise<DatabaseSync> | null = null;
+
+    constructor(file: string) {
+        this.file = path.resolve(file);
+    }
+
+    async get(id: string): Promise<CADJob | null> {
+        return readJob(await this.open(), id);
+    }
+
+    async save(job: CADJob): Promise<void> {
+        const db = await this.open();
+        db.prepare(
+            `INSERT INTO jobs (id, status, start_time, updated_at, data)
+             VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT (id) DO UPDATE SET
+                status = excluded.status,
+                updated_at = excluded.updated_at,
+                data = excluded.data`
+        ).run(
+            job.id,
+            job.status,
+            job.startTime,
+            job.updatedAt,
+            JSON.stringify(job)
+        );
+    }
+
+    // Read and written in one write transaction, so another instance can
+    // neither finish the job nor update it in between
+    async update(id: string, patch: Partial<CADJob>): Promise<CADJob | null> {
+        const db = await this.open();
+        return inWriteTransaction(db, () => {
+            const job = readJob(db, id);
+            if (!job || isFinished(job)) return null;
+
+            const updated = mergeJob(job, patch);
+            db.prepare(
+                "UPDATE jobs SET status = ?, updated_at = ?, data = ? WHERE id = ?"
+            ).run(
+                updated.status,
+                updated.updatedAt,
+                JSON.stringify(updated),
+                id
+            );
+            return updated;
+        });
+    }
+
+    // A single conditional UPDATE, so only one instance wins
+    async claim(id: string, workerId: string): Promise<CADJob | null> {
+        const db = await this.open();
+        const patch = { ...claimPatch(workerId), updatedAt: Date.now() };
+        const { changes } = db
+            .prepare(
+                `UPDATE jobs SET
+                    status = ?,
+                    updated_at = ?,
+                    data = json_patch(data, ?)
+                 WHERE id = ? AND status = 'queued'`
+            )
+            .run(patch.status, patch.updatedAt, JSON.stringify(patch), id);
+        return Number(changes) > 0 ? this.get(id) : null;
+    }
+
+    // Conditional on the job not having been touched since it was read
+    async recoverAbandoned(id: string, before: number): Promise<CADJob | null> {
+        const db = await this.open();
+        const job = await this.get(id);
+        if (!job || !isAbandoned(job, before)) return null;
+
+        const recovered = mergeJob(job, recoveryPatch(job));
+        const { changes } = db
+            .prepare(
+                `UPDATE jobs SET status = ?, updated_at = ?, data = ?
+                 WHERE id = ? AND status = 'processing' AND updated_at = ?`
+            )
+            .run(
+                recovered.status,
+                recovered.updatedAt,
+                JSON.stringify(recovered),
+                id,
+                job.updatedAt
+            );
+        return Number(changes) > 0 ? recovered : null;
+    }
+
+    async list(query: JobQuery = {}): Promise<CADJob[]> {
+        const db = await this.open();
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+        if (query.status) {
+            conditions.push("status = ?");
+            params.push(query.status);
+        }
+        if (query.clientId) {
+            conditions.push("json_extract(data, '$.clientId') = ?");
+            params.push(query.clientId);
+        }
+        const where = conditions.length
+            ? `WHERE ${conditions.join(" AND ")}`
+            : "";
+        const limit = query.limit ?? -1; // -1: no limit
+        const rows = db
+            .prepare(
+                `SELECT data FROM jobs ${where} ORDER BY start_time DESC LIMIT ?`
+            )
+            .all(...params, limit) as { data: string }[];
+        return rows.map((row) => JSON.parse(row.data));
+    }
+
+    async appendEvents(id: string, events: JobEvent[]): Promise<void> {
+        const db = await this.open();
+        const insert = db.prepare(
+            `INSERT OR IGNORE INTO job_events (job_id, id, type, time, data)
+             SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM jobs WHERE id = ?)`
+        );
+        for (const event of events) {
+            insert.run(
+                id,
+                event.id,
+                event.type,
+                event.time,
+                JSON.stringify(event.data),
+                id
+            );
+        }
+    }
+
+    async listEvents(id: string, afterId = 0): Promise<JobEvent[]> {
+        const db = await this.open();
+        const rows = db
+            .prepare(
+                "SELECT id, type, time, data FROM job_events WHERE job_id = ? AND id > ? ORDER BY id"
+            )
+            .all(id, afterId) as {
+            id: number;
+            type: JobEventType;
+            time: number;
+            data: string;
+        }[];
+        return rows.map((row) => ({ ...row, data: JSON.parse(row.data) }));
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const db = await this.open();
+        db.prepare("DELETE FROM job_events WHERE job_id = ?").run(id);
+        const { changes } = db.prepare("DELETE FROM jobs WHERE id = ?").run(id);
+        return Number(changes) > 0;
+    }
+
+    async deleteFinishedBefore(time: number): Promise<number> {
+        const db = await this.open();
+        const statuses = FINISHED_JOB_STATUSES.map(() => "?").join(", ");
+        const expired = `status IN (${statuses}) AND updated_at < ?`;
+        db.prepare(
+            `DELETE FROM job_events WHERE job_id IN (SELECT id FROM jobs WHERE ${expired})`
+        ).run(...FINISHED_JOB_STATUSES, time);
+        const { changes } = db
+            .prepare(`DELETE FROM jobs WHERE ${expired}`)
+            .run(...FINISHED_JOB_STATUSES, time);
+        return Number(changes);
+    }
+
+    // node:sqlite is loaded on first use, so the other stores work on Node
+    // versions without it
+    private open(): Promise<DatabaseSync> {
+        if (!this.db) {
+            this.db = import("node:sqlite").then(({ DatabaseSync }) => {
+                fs.mkdirSync(path.dirname(this.file), { recursive: true });
+                const db = new DatabaseSync(this.file);
+                // Several instances may share the file
+                db.exec(
+                    "PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000;"
+                );
+                db.exec(
+                    `CREATE TABLE IF NOT EXISTS jobs (
+                        id TEXT PRIMARY KEY,
+                        status TEXT NOT NULL,
+                        start_time INTEGER NOT NULL,
+                        updated_at INTEGER NOT NULL,
+                        data TEXT NOT NULL
+                    );
+                    CREATE INDEX IF NOT EXISTS jobs_start_time ON jobs (start_time);
+                    CREATE TABLE IF NOT EXISTS job_events (
+                        job_id TEXT NOT NULL,
+                        id INTEGER NOT NULL,
+                        type TEXT NOT NULL,
+                        time INTEGER NOT NULL,
+                        data TEXT NOT NULL,
+                        PRIMARY KEY (job_id, id)
+                    );`
+                );
+                return db;
+            });
+            this.db.catch(() => {
+                this.db = null; // retry on the next call
+            });
+        }
+        return this.db;
+    }
+}
+
+export function isJobStoreKind(value: unknown): value is JobStoreKind {
+    return JOB_STORE_KINDS.includes(value as JobStoreKind);
+}
+
+export function createJobStore(kind: JobStoreKind): JobStore {
+    switch (kind) {
+        case "file":
+            return new FileJobStore(JOB_STORE_CONFIG.dir);
+        case "sqlite":
+            // Fails here, when the instance starts, rather than on the first
+            // job
+            if (!isBuiltin("node:sqlite")) {
+                throw new Error(
+                    `JOB_STORE "sqlite" needs node:sqlite, which Node ${process.version} does not have: use Node 22.13 or later (22.5 or later with --experimental-sqlite), or JOB_STORE=file`
+                );
+            }
+            return new SQLiteJobStore(JOB_STORE_CONFIG.sqlitePath);
+        default:
+            return new MemoryJobStore();
+    }
+}
+
+let jobStore: JobStore | null = null;
+let lastPrune = 0;
+
+/** The store configured with JOB_STORE, created on first use. */
+export function getJobStore(): JobStore {
+    if (!jobStore) {
+        const kind = JOB_STORE_CONFIG.backend;
+        if (!isJobStoreKind(kind)) {
+            throw new Error(
+                `Unknown JOB_STORE "${kind}", expected one of: ${JOB_STORE_KINDS.join(", ")}`
+            );
+        }
+        jobStore = createJobStore(kind);
+    }
+    return jobStore;
+}
+
+/**
+ * Removes finished jobs older than the retention period, at most once per
+ * JOB_STORE_CONFIG.pruneIntervalMs. A retention of 0 keeps jobs forever.
+ */
+export async function pruneExpiredJobs(
+    store: JobStore = getJobStore()
+): Promise<number> {
+    const retentionMs = JOB_STORE_CONFIG.retentionHours * 3600000;
+    const now = Date.now();
+    if (
+        retentionMs <= 0 ||
+        now - lastPrune < JOB_STORE_CONFIG.pruneIntervalMs
+    ) {
+        return 0;
+    }
+    lastPrune = now;
+
+    const removed = await store.deleteFinishedBefore(now - retentionMs);
+    if (removed > 0) console.log(`Cleaned up ${removed} expired CAD jobs`);
+    return removed;
+}
+
+function claimPatch(workerId: string) {
+    return { status: "processing", workerId };
+}
+
+// The first time a job's worker stops it is queued again; a job that
+// stops its worker twice is more likely the cause than the victim
+function recoveryPatch(job: CADJob): Partial<CADJob> {
+    if (job.requeued) {
+        return {
+            status: "failed",
+            error: "Its worker stopped twice while running the job",
+            payload: undefined,
+        };
+    }
+    return {
+        status: "queued",
+        workerId: undefined,
+        stage: undefined,
+        stageProgress: undefined,
+        message: "Queued again after its worker stopped",
+        requeued: 1,
+    };
+}
+
+function readJob(db: DatabaseSync, id: string): CADJob | null {
+    const row = db.prepare("SELECT data FROM jobs WHERE id = ?").get(id) as
+        { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+}
+
+// BEGIN IMMEDIATE takes the write lock up front, so other connections wait
+// (up to busy_timeout) instead of writing between the reads and writes of
+// fn, which must not await
+function inWriteTransaction<T>(db: DatabaseSync, fn: () => T): T {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+        const result = fn();
+        db.exec("COMMIT");
+        return result;
+    } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+    }
+}
+
+function mergeJob(job: CADJob, patch: Partial<CADJob>): CADJob {
+    return { ...job, ...patch, id: job.id, updatedAt: Date.now() };
+}
+
+function isFinished(job: CADJob): boolean {
+    return FINISHED_JOB_STATUSES.includes(job.status);
+}
+
+function isAbandoned(job: CADJob, before: number): boolean {
+    return job.status === "processing" && job.updatedAt < before;
+}
+
+function isExpired(job: CADJob, time: number): boolean {
+    return isFinished(job) && job.updatedAt < time;
+}
+
+function selectJobs(jobs: CADJob[], query: JobQuery): CADJob[] {
+    const selected = jobs
+        .filter(
+            (job) =>
+                (!query.status || job.status === query.status) &&
+                (!query.clientId || job.clientId === query.clientId)
+        )
+        .sort((a, b) => b.startTime - a.startTime);
+    return query.limit !== undefined
+        ? selected.slice(0, query.limit)
+        : selected;
+}
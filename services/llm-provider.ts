@@ -0,0 +1,311 @@
+import fs from "fs";
+import OpenAI, { AzureOpenAI } from "openai";
+import {
+    AZURE_SERVICES_CONFIG,
+    LLM_PROVIDER_CONFIG,
+} from "./agents/agent-config";
+import { throwIfCancelled } from "./cancellation";
+
+// Chat-completion providers used by the agents and the multimodal
+// processor. Callers ask for the provider configured for them by name and
+// never construct SDK clients themselves.
+
+export const LLM_PROVIDER_KINDS = ["azure", "openai", "scripted"] as const;
+export type LLMProviderKind = (typeof LLM_PROVIDER_KINDS)[number];
+
+// How a provider constrains responses to a JSON schema: enforce the schema
+// itself, only guarantee syntactically valid JSON, or not at all (the
+// schema is then only described in the prompt)
+export const STRUCTURED_OUTPUT_MODES = [
+    "json_schema",
+    "json_object",
+    "none",
+] as const;
+export type StructuredOutputMode = (typeof STRUCTURED_OUTPUT_MODES)[number];
+
+export interface ChatMessage {
+    role: "system" | "user" | "assistant";
+    content: string;
+}
+
+export interface ChatRequest {
+    model: string; // deployment or model name
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    responseFormat?: JSONSchemaFormat;
+    // Aborts the request in flight
+    signal?: AbortSignal;
+}
+
+export interface JSONSchemaFormat {
+    name: string; // [a-zA-Z0-9_-], shown to the model
+    schema: Record<string, unknown>;
+}
+
+export interface ChatResponse {
+    content: string;
+    model?: string;
+}
+
+export interface LLMProvider {
+    readonly kind: LLMProviderKind;
+    readonly structuredOutput: StructuredOutputMode;
+    chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+export interface LLMSettings {
+    provider: LLMProviderKind;
+    deployment: string;
+}
+
+export class AzureOpenAIProvider implements LLMProvider {
+    readonly kind = "azure";
+    readonly structuredOutput: StructuredOutputMode;
+    private client: AzureOpenAI;
+
+    constructor(options: {
+        apiKey: string;
+        endpoint: string;
+        apiVersion: string;
+        structuredOutput?: StructuredOutputMode;
+    }) {
+        const { structuredOutput, ...clientOptions } = options;
+        this.client = new AzureOpenAI(clientOptions);
+        // json_schema arrived with the 2024-08-01-preview API
+        this.structuredOutput =
+            structuredOutput ||
+            (options.apiVersion >= "2024-08-01" ? "json_schema" : "json_object");
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const response = await this.client.chat.completions.create(
+            {
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                response_format: toResponseFormat(
+                    this.structuredOutput,
+                    request.responseFormat
+                ),
+            },
+            { signal: request.signal }
+        );
+        return {
+            content: response.choices[0].message?.content || "",
+            model: response.model,
+        };
+    }
+}
+
+// Any server speaking the OpenAI chat completions API: api.openai.com,
+// Ollama (http://localhost:11434/v1), llama.cpp server, vLLM and so on
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly kind = "openai";
+    readonly structuredOutput: StructuredOutputMode;
+    private client: OpenAI;
+
+    constructor(options: {
+        baseURL: string;
+        apiKey?: string;
+        structuredOutput?: StructuredOutputMode;
+    }) {
+        this.client = new OpenAI({
+            baseURL: options.baseURL,
+            // Local servers ignore the key but the SDK requires one
+            apiKey: options.apiKey || "not-needed",
+        });
+        // OpenAI, Ollama, llama.cpp and vLLM all accept json_schema
+        this.structuredOutput = options.structuredOutput || "json_schema";
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const response = await this.client.chat.completions.create(
+            {
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                response_format: toResponseFormat(
+                    this.structuredOutput,
+                    request.responseFormat
+                ),
+            },
+            { signal: request.signal }
+        );
+        return {
+            content: response.choices[0].message?.content || "",
+            model: response.model,
+        };
+    }
+}
+
+export interface ScriptedResponse {
+    // Substring or /regex/ matched against the last user message; entries
+    // without one match any request
+    match?: string;
+    response: string;
+    // Reuse the entry instead of consuming it
+    repeat?: boolean;
+}
+
+// In-process provider returning canned responses, for offline runs and
+// tests. Entries are consumed in order, first match wins.
+export class ScriptedLLMProvider implements LLMProvider {
+    readonly kind = "scripted";
+    readonly structuredOutput = "none";
+    private script: ScriptedResponse[];
+    readonly requests: ChatRequest[] = [];
+
+    constructor(
+        script: (ScriptedResponse | string)[] = [],
+        private handler?: (request: ChatRequest) => string | null
+    ) {
+        this.script = script.map((entry) =>
+            typeof entry === "string" ? { response: entry } : { ...entry }
+        );
+    }
+
+    static fromFile(path: string): ScriptedLLMProvider {
+        const entries = JSON.parse(fs.readFileSync(path, "utf8"));
+        if (!Array.isArray(entries)) {
+            throw new Error(`LLM script ${path} must contain a JSON array`);
+        }
+        return new ScriptedLLMProvider(entries);
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        throwIfCancelled(request.signal);
+        this.requests.push(request);
+        const prompt =
+            [...request.messages].reverse().find((m) => m.role === "user")
+                ?.content || "";
+
+        const index = this.script.findIndex((entry) =>
+            matchesScript(entry.match, prompt)
+        );
+        if (index >= 0) {
+            const entry = this.script[index];
+            if (!entry.repeat) this.script.splice(index, 1);
+            return { content: entry.response, model: "scripted" };
+        }
+
+        const handled = this.handler?.(request);
+        if (handled != null) return { content: handled, model: "scripted" };
+
+        throw new Error(
+            `Scripted LLM provider has no response for: ${prompt.slice(0, 80)}`
+        );
+    }
+}
+
+const providers = new Map<LLMProviderKind, LLMProvider>();
+
+/**
+ * Replaces the shared instance of a provider kind, e.g. to install a
+ * scripted provider for a test run.
+ */
+export function registerLLMProvider(provider: LLMProvider) {
+    providers.set(provider.kind, provider);
+}
+
+/**
+ * Returns the shared provider of the given kind, creating it from the
+ * environment on first use. Returns null when it is not configured.
+ */
+export function getLLMProvider(kind: LLMProviderKind): LLMProvider | null {
+    const existing = providers.get(kind);
+    if (existing) return existing;
+
+    const structuredOutput = getStructuredOutputOverride();
+    let provider: LLMProvider | null = null;
+    switch (kind) {
+        case "azure": {
+            const { key, endpoint, apiVersion } = AZURE_SERVICES_CONFIG.openai;
+            if (key && endpoint) {
+                provider = new AzureOpenAIProvider({
+                    apiKey: key,
+                    endpoint,
+                    apiVersion,
+                    structuredOutput,
+                });
+            }
+            break;
+        }
+        case "openai":
+            provider = new OpenAICompatibleProvider({
+                ...LLM_PROVIDER_CONFIG.openai,
+                structuredOutput,
+            });
+            break;
+        case "scripted":
+            provider = LLM_PROVIDER_CONFIG.scripted.scriptPath
+                ? ScriptedLLMProvider.fromFile(
+                      LLM_PROVIDER_CONFIG.scripted.scriptPath
+                  )
+                : new ScriptedLLMProvider();
+            break;
+    }
+
+    if (provider) providers.set(kind, provider);
+    return provider;
+}
+
+/**
+ * Provider and deployment configured for an agent, from
+ * LLM_<NAME>_PROVIDER / LLM_<NAME>_DEPLOYMENT with the global defaults as
+ * fallback.
+ */
+export function getLLMSettings(name: string): LLMSettings {
+    const prefix = `LLM_${name.toUpperCase()}_`;
+    const provider =
+        process.env[`${prefix}PROVIDER`] || LLM_PROVIDER_CONFIG.defaultProvider;
+    if (!isLLMProviderKind(provider)) {
+        throw new Error(
+            `Unknown LLM provider "${provider}" for ${name}, expected one of: ${LLM_PROVIDER_KINDS.join(", ")}`
+        );
+    }
+    return {
+        provider,
+        deployment:
+            process.env[`${prefix}DEPLOYMENT`] ||
+            LLM_PROVIDER_CONFIG.defaultDeployment,
+    };
+}
+
+export function isLLMProviderKind(value: unknown): value is LLMProviderKind {
+    return LLM_PROVIDER_KINDS.includes(value as LLMProviderKind);
+}
+
+function getStructuredOutputOverride(): StructuredOutputMode | undefined {
+    const mode = LLM_PROVIDER_CONFIG.structuredOutput;
+    if (!mode) return undefined;
+    if (!STRUCTURED_OUTPUT_MODES.includes(mode as StructuredOutputMode)) {
+        throw new Error(
+            `Unknown LLM_STRUCTURED_OUTPUT "${mode}", expected one of: ${STRUCTURED_OUTPUT_MODES.join(", ")}`
+        );
+    }
+    return mode as StructuredOutputMode;
+}
+
+function toResponseFormat(
+    mode: StructuredOutputMode,
+    format: JSONSchemaFormat | undefined
+): OpenAI.ChatCompletionCreateParams["response_format"] {
+    if (!format || mode === "none") return undefined;
+    if (mode === "json_object") return { type: "json_object" };
+    return {
+        type: "json_schema",
+        // Not strict: strict mode rejects optional properties
+        json_schema: { name: format.name, schema: format.schema, strict: false },
+    };
+}
+
+function matchesScript(match: string | undefined, prompt: string): boolean {
+    if (!match) return true;
+    const regex = match.match(/^\/(.+)\/([a-z]*)$/);
+    return regex
+        ? new RegExp(regex[1], regex[2]).test(prompt)
+        : prompt.includes(match);
+}
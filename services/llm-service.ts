@@ -1,5 +1,9 @@
-import { AgentOrchestrator } from "./agent-orchestrator";
+import {
+    AgentOrchestrator,
+    DesignRequestOptions,
+} from "./agent-orchestrator";
 import { multimodalProcessor } from "./multimodal-processor";
+import { parseModelData } from "@/lib/model-schema";
 // Keep existing imports
 
 // Initialize the agent orchestrator
@@ -13,14 +17,21 @@ export async function generateCadModel(
     prompt: string,
     sketchData?: string | null,
     speechData?: string | null,
-    photoData?: string | null
+    photoData?: string | null,
+    options: DesignRequestOptions = {}
 ) {
+    const designMode = options.designMode || "llm";
+    const variants = options.variants ?? 1;
+    const { sketchVector } = options;
     try {
         console.log(`Generating CAD model with multimodal inputs:
       - Text prompt: ${prompt ? "provided" : "none"}
       - Sketch data: ${sketchData ? "provided" : "none"}
+      - Sketch primitives: ${sketchVector?.primitives.length ?? "none"}
       - Speech data: ${speechData ? "provided" : "none"}
-      - Photo data: ${photoData ? "provided" : "none"}`);
+      - Photo data: ${photoData ? "provided" : "none"}
+      - Design mode: ${designMode}
+      - Variants: ${variants}`);
 
         // If we have any multimodal inputs (sketch, speech, or photo), use the multimodal processor
         if (sketchData || speechData || photoData) {
@@ -28,15 +39,28 @@ export async function generateCadModel(
 
             // Process multiple input modalities
             const processorResult =
-                await multimodalProcessor.processMultimodalInput({
-                    text: prompt,
-                    sketch: sketchData || undefined,
-                    speech: speechData || undefined,
-                    photo: photoData || undefined,
-                });
-
-            // Use the extracted model directly if valid
-            if (processorResult.modelData && processorResult.modelData.rooms) {
+                await multimodalProcessor.processMultimodalInput(
+                    {
+                        text: prompt,
+                        sketch: sketchData || undefined,
+                        sketchVector,
+                        speech: speechData || undefined,
+                        photo: photoData || undefined,
+                    },
+                    options.onProgress,
+                    options.signal
+                );
+
+            // Use the extracted model directly if it passed schema
+            // validation; other design modes, variant requests and drawn
+            // sketches (whose rooms the interpreter sizes exactly) lay it
+            // out through the agents
+            if (
+                processorResult.modelData &&
+                designMode === "llm" &&
+                variants === 1 &&
+                !sketchVector
+            ) {
                 return {
                     modelData: processorResult.modelData,
                     code: processorResult.code || generateMockCode(prompt),
@@ -51,86 +75,44 @@ export async function generateCadModel(
         // For single-modality inputs or as a fallback, use the agent orchestrator
         const result = await agentOrchestrator.processDesignRequest(
             prompt,
-            sketchData
+            sketchData,
+            {
+                designMode,
+                variants,
+                sketchVector,
+                onProgress: options.onProgress,
+                onPartialResult: options.onPartialResult,
+                signal: options.signal,
+            }
         );
 
         // Return the processed result
         return {
-            modelData: result.modelData,
+            modelData: parseModelData(result.modelData, "Agent pipeline"),
             code: result.code,
+            renderError: result.renderError,
+            review: result.review,
+            attempts: result.attempts,
+            variants: result.variants,
+            variantFailures: result.variantFailures,
             metadata: {
+                designMode,
                 inputModalities: {
                     text: !!prompt,
-                    sketch: !!sketchData,
+                    sketch: !!sketchData || !!sketchVector,
                     speech: !!speechData,
                     photo: !!photoData,
                 },
             },
         };
     } catch (error) {
+        // Every failure is the caller's to report, so a job fails rather
+        // than completing with a design nobody asked for
         console.error("Error in enhanced generateCadModel:", error);
-
-        // Use fallback method if processing fails
-        console.log("Using fallback model generation...");
-        return generateFallbackCadModel(prompt, sketchData);
+        throw error;
     }
 }
 
-// Make sure to keep your existing fallback methods below
-// Your existing generateFallbackCadModel implementation should be here
-// If it's not in this file, you need to import it
-
-// If you need to implement it, here's a simple version:
-function generateFallbackCadModel(prompt: string, sketchData?: string | null) {
-    // This is a simple implementation - replace with your actual implementation
-    return {
-        modelData: {
-            rooms: [
-                {
-                    name: "living",
-                    width: 5,
-                    length: 7,
-                    height: 3,
-                    x: 0,
-                    y: 0,
-                    z: 0,
-                    connected_to: ["kitchen", "hallway"],
-                },
-                {
-                    name: "kitchen",
-                    width: 4,
-                    length: 4,
-                    height: 3,
-                    x: 5,
-                    y: 0,
-                    z: 0,
-                    connected_to: ["living"],
-                },
-            ],
-            windows: [
-                {
-                    room: "living",
-                    wall: "south",
-                    width: 2,
-                    height: 1.5,
-                    position: 0.5,
-                },
-            ],
-            doors: [{ from: "living", to: "kitchen", width: 1.2, height: 2.1 }],
-        },
-        code: generateMockCode(prompt),
-        metadata: {
-            inputModalities: {
-                text: !!prompt,
-                sketch: !!sketchData,
-                speech: false,
-                photo: false,
-            },
-            note: "Fallback model generated due to processing error",
-        },
-    };
-}
-
 // Make sure you also have the generateMockCode function
 function generateMockCode(prompt: string): string {
     // This is a simple implementation - replace with your actual implementation
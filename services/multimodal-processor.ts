@@ -1,52 +1,63 @@
-import { AzureOpenAI } from "openai";
 import {
-    SpeechConfig,
-    AudioConfig,
-    SpeechRecognizer,
-} from "microsoft-cognitiveservices-speech-sdk";
-import { ComputerVisionClient } from "@azure/cognitiveservices-computervision";
-import { ApiKeyCredentials } from "@azure/ms-rest-js";
-// Note: ContentModerationClient has import issues in newer versions
-// import { ContentModerationClient } from "@azure/cognitiveservices-contentmoderator";
+    ComputerVisionClient,
+    ComputerVisionModels,
+} from "@azure/cognitiveservices-computervision";
+import { AbortSignalLike, ApiKeyCredentials } from "@azure/ms-rest-js";
 
 // Import existing sketch analysis functionality
 import { analyzeSketch } from "./azure-service";
+import { digest, isReplayingFixtures, withFixture } from "./ai-fixtures";
+import { transcribeAudio } from "./speech-recognizer";
+import {
+    StructuredOutputError,
+    parseStructuredOutput,
+} from "./structured-output";
+import { MODEL_DATA_JSON_SCHEMA, validateModelData } from "@/lib/model-schema";
+import { getRoomArea } from "@/lib/room-geometry";
+import {
+    ImageFormatError,
+    decodePNG,
+    pngFromDataURL,
+} from "@/lib/png-decoder";
+import { VectorSketch, interpretVectorSketch } from "@/lib/sketch-vector";
+import {
+    DetectedRoom,
+    FloorPlanRecognition,
+    PlanLabel,
+    recognizeFloorPlan,
+    toGrayscale,
+} from "@/lib/floor-plan-recognition";
+import {
+    ChatMessage,
+    JSONSchemaFormat,
+    LLMProvider,
+    getLLMProvider,
+    getLLMSettings,
+} from "./llm-provider";
+import { ProgressListener, reportProgress } from "./progress";
+import { rethrowCancellation, throwIfCancelled } from "./cancellation";
 
 // Import Azure configurations
-const AZURE_OPENAI_KEY = process.env.AZURE_OPENAI_KEY || "";
-const AZURE_OPENAI_ENDPOINT = process.env.AZURE_OPENAI_ENDPOINT || "";
-const AZURE_OPENAI_DEPLOYMENT =
-    process.env.AZURE_OPENAI_DEPLOYMENT || "gpt-35-turbo";
-const AZURE_OPENAI_API_VERSION =
-    process.env.AZURE_OPENAI_API_VERSION || "2023-12-01-preview";
-
 const AZURE_VISION_KEY = process.env.AZURE_VISION_KEY || "";
 const AZURE_VISION_ENDPOINT = process.env.AZURE_VISION_ENDPOINT || "";
 
-const AZURE_SPEECH_KEY = process.env.AZURE_SPEECH_KEY || "";
-const AZURE_SPEECH_REGION = process.env.AZURE_SPEECH_REGION || "eastus";
-
-const AZURE_CONTENT_MODERATOR_KEY =
-    process.env.AZURE_CONTENT_MODERATOR_KEY || "";
-const AZURE_CONTENT_MODERATOR_ENDPOINT =
-    process.env.AZURE_CONTENT_MODERATOR_ENDPOINT || "";
+const MODEL_DATA_FORMAT: JSONSchemaFormat = {
+    name: "model_data",
+    schema: MODEL_DATA_JSON_SCHEMA,
+};
 
 export class MultimodalProcessor {
-    private openAIClient: AzureOpenAI;
+    private llm: LLMProvider | null;
+    private deployment: string;
     private visionClient: ComputerVisionClient;
-    private moderationClient: any | null = null; // Disabled due to package issues
-    private speechConfig: SpeechConfig | null = null;
 
     constructor() {
-        // Initialize Azure OpenAI client only if credentials are available
-        if (AZURE_OPENAI_KEY && AZURE_OPENAI_ENDPOINT) {
-            this.openAIClient = new AzureOpenAI({
-                apiKey: AZURE_OPENAI_KEY,
-                apiVersion: AZURE_OPENAI_API_VERSION,
-                endpoint: AZURE_OPENAI_ENDPOINT,
-            });
-        } else {
-            console.warn("Azure OpenAI credentials not found, some features will be limited");
+        // Use the LLM provider configured for the processor, if any
+        const settings = getLLMSettings("multimodal");
+        this.llm = getLLMProvider(settings.provider);
+        this.deployment = settings.deployment;
+        if (!this.llm) {
+            console.warn(`LLM provider "${settings.provider}" not configured, some features will be limited`);
         }
 
         // Initialize Computer Vision client only if credentials are available
@@ -61,144 +72,130 @@ export class MultimodalProcessor {
         } else {
             console.warn("Azure Vision credentials not found, photo analysis will use fallback");
         }
-
-        // Initialize Content Moderation client if keys are available
-        // Temporarily disabled due to package import issues
-        if (AZURE_CONTENT_MODERATOR_KEY && AZURE_CONTENT_MODERATOR_ENDPOINT) {
-            console.log("Content Moderation configured but disabled due to package issues");
-            // this.moderationClient = new ContentModerationClient(
-            //     AZURE_CONTENT_MODERATOR_ENDPOINT,
-            //     new ApiKeyCredentials({
-            //         inHeader: {
-            //             "Ocp-Apim-Subscription-Key":
-            //                 AZURE_CONTENT_MODERATOR_KEY,
-            //         },
-            //     })
-            // );
-        }
-
-        // Initialize Speech Service if key is available
-        if (AZURE_SPEECH_KEY && AZURE_SPEECH_REGION) {
-            this.speechConfig = SpeechConfig.fromSubscription(
-                AZURE_SPEECH_KEY,
-                AZURE_SPEECH_REGION
-            );
-        }
     }
 
-    async processMultimodalInput(inputs: {
-        text?: string;
-        sketch?: string;
-        speech?: string;
-        photo?: string;
-    }): Promise<any> {
+    async processMultimodalInput(
+        inputs: {
+            text?: string;
+            sketch?: string;
+            // Primitives of a canvas drawing; read instead of the image
+            sketchVector?: VectorSketch;
+            speech?: string;
+            photo?: string;
+        },
+        onProgress?: ProgressListener,
+        signal?: AbortSignal
+    ): Promise<any> {
         console.log("Processing multimodal input with Azure AI services");
         console.log("Input types received:", {
             text: !!inputs.text,
             sketch: !!inputs.sketch,
+            sketchVector: !!inputs.sketchVector,
             speech: !!inputs.speech,
             photo: !!inputs.photo,
             photoLength: inputs.photo?.length || 0
         });
 
-        // Use Responsible AI tools to validate inputs if available
-        if (this.moderationClient) {
-            await this.validateInputsWithResponsibleAI(inputs);
-        }
+        // Text and speech were screened by content moderation in the API
+        // routes, before the request got here
 
-        // Process sketch with Computer Vision (if provided)
+        // Sketch and photo analysis share the sketch analysis stage
+        const images = [inputs.sketch && !inputs.sketchVector, inputs.photo].filter(Boolean).length;
+        let analyzed = 0;
+
+        // A drawn sketch is read from its primitives, which give its rooms
+        // exactly; only an uploaded image goes to Computer Vision
         let sketchAnalysis = null;
-        if (inputs.sketch) {
+        if (inputs.sketchVector) {
+            sketchAnalysis = interpretVectorSketch(inputs.sketchVector);
+        } else if (inputs.sketch) {
+            reportProgress(onProgress, "sketch_analysis", 0, "Analyzing sketch");
             try {
-                sketchAnalysis = await analyzeSketch(inputs.sketch);
+                sketchAnalysis = await analyzeSketch(inputs.sketch, signal);
             } catch (error) {
+                rethrowCancellation(error, signal);
                 console.error("Error in sketch analysis:", error);
                 // Continue with other modalities if one fails
             }
+            analyzed++;
         }
 
         // Process photo of real building/space (if provided)
         let photoAnalysis = null;
         if (inputs.photo) {
+            reportProgress(
+                onProgress,
+                "sketch_analysis",
+                analyzed / images,
+                "Analyzing photo"
+            );
             try {
                 console.log("Starting photo analysis...");
-                photoAnalysis = await this.processPhoto(inputs.photo);
+                photoAnalysis = await this.processPhoto(inputs.photo, signal);
                 console.log("Photo analysis completed:", !!photoAnalysis);
             } catch (error) {
+                rethrowCancellation(error, signal);
+                if (error instanceof ImageFormatError) throw error;
                 console.error("Error in photo analysis:", error);
                 // Continue with other modalities if one fails
             }
         }
 
+        if (images > 0) {
+            reportProgress(onProgress, "sketch_analysis", 1, "Images analyzed");
+        }
+
         // Create a unified analysis by combining all input modalities
         console.log("Combining inputs with GPT-4V...");
-        const unifiedAnalysis = await this.combineInputsWithGPT4V({
-            text: inputs.text || "",
-            speechText: inputs.speech || "",
-            sketchAnalysis,
-            photoAnalysis,
-        });
+        reportProgress(onProgress, "interpreting", 0, "Combining your inputs");
+        throwIfCancelled(signal);
+        const unifiedAnalysis = await this.combineInputsWithGPT4V(
+            {
+                text: inputs.text || "",
+                speechText: inputs.speech || "",
+                sketchAnalysis,
+                photoAnalysis,
+            },
+            signal
+        );
+        reportProgress(onProgress, "interpreting", 1, "Inputs combined");
 
         console.log("Multimodal processing completed successfully");
         return unifiedAnalysis;
     }
 
-    private async validateInputsWithResponsibleAI(inputs: any): Promise<void> {
-        if (!this.moderationClient) {
-            console.log("Content moderation skipped (not configured or disabled)");
-            return;
-        }
-
-        // Apply content moderation to text inputs
-        if (inputs.text) {
-            try {
-                // Temporarily disabled due to package issues
-                console.log("Content moderation would be applied here if enabled");
-                // const textScreen =
-                //     await this.moderationClient.textModeration.screenText(
-                //         "text/plain",
-                //         Buffer.from(inputs.text),
-                //         { classify: true }
-                //     );
-
-                // // Check for inappropriate content
-                // if (textScreen.classification?.reviewRecommended) {
-                //     throw new Error(
-                //         "Input contains potentially inappropriate content."
-                //     );
-                // }
-            } catch (error) {
-                console.error("Error in content moderation:", error);
-                // Continue with caution if moderation fails
-            }
-        }
-
-        // Could add image moderation here for sketch/photo if needed
-    }
-
-    private async processPhoto(photoDataUrl: string): Promise<any> {
+    private async processPhoto(
+        photoDataUrl: string,
+        signal?: AbortSignal
+    ): Promise<any> {
         try {
-            // Extract base64 image data
-            const base64Image = photoDataUrl.replace(
-                /^data:image\/\w+;base64,/,
-                ""
-            );
-
+            // Plans are read locally, which takes a PNG
+            const image = pngFromDataURL(photoDataUrl);
             let basicResult: any = {};
+            const hasVision = !!this.visionClient || isReplayingFixtures();
 
             // Try to analyze with Computer Vision if available
-            if (this.visionClient) {
-                basicResult = await this.visionClient.analyzeImageInStream(
-                    Buffer.from(base64Image, "base64"),
+            if (hasVision) {
+                const options: ComputerVisionModels.ComputerVisionClientAnalyzeImageInStreamOptionalParams = {
+                    visualFeatures: [
+                        "Objects",
+                        "Tags",
+                        "Categories",
+                        "Description",
+                    ],
+                    details: ["Landmarks"],
+                };
+                basicResult = await withFixture(
                     {
-                        visualFeatures: [
-                            "Objects",
-                            "Tags",
-                            "Categories",
-                            "Description",
-                        ],
-                        details: ["Landmarks"],
-                    }
+                        kind: "vision",
+                        label: "photo",
+                        request: { image: digest(image), options },
+                    },
+                    () =>
+                        this.visionClient.analyzeImageInStream(image, {
+                            ...options,
+                            abortSignal: signal as AbortSignalLike | undefined,
+                        })
                 );
             } else {
                 // Fallback when Azure Vision is not available
@@ -210,10 +207,13 @@ export class MultimodalProcessor {
             const architecturalElements =
                 this.extractArchitecturalElements(basicResult);
 
-            // Enhanced floor plan detection - specialized for detecting rooms and layouts
-            const floorPlanAnalysis = this.visionClient 
-                ? await this.analyzeFloorPlan(Buffer.from(base64Image, "base64"))
-                : this.generateFallbackFloorPlan();
+            // Floor plan recognition runs locally; Azure Vision, when
+            // available, only reads the room labels
+            const floorPlanAnalysis = await this.analyzeFloorPlan(
+                image,
+                hasVision,
+                signal
+            );
 
             // Combine all analyses and create a comprehensive model
             return {
@@ -234,6 +234,8 @@ export class MultimodalProcessor {
                     this.generateRoomSpecifications(floorPlanAnalysis),
             };
         } catch (error) {
+            rethrowCancellation(error, signal);
+            if (error instanceof ImageFormatError) throw error;
             console.error("Error in enhanced photo analysis:", error);
             throw new Error(
                 `Enhanced photo analysis failed: ${
@@ -258,26 +260,6 @@ export class MultimodalProcessor {
         };
     }
 
-    private generateFallbackFloorPlan(): any {
-        return {
-            rooms: [
-                { type: "living room", approximate_area: "20x15", confidence: 0.6 },
-                { type: "kitchen", approximate_area: "12x10", confidence: 0.6 },
-                { type: "bedroom", approximate_area: "14x12", confidence: 0.5 }
-            ],
-            doors: [
-                { location: "between living room and kitchen" },
-                { location: "entrance" }
-            ],
-            windows: [
-                { location: "living room - front wall" },
-                { location: "bedroom - side wall" }
-            ],
-            overall_layout: "rectangular",
-            estimated_total_area: "moderate residential space"
-        };
-    }
-
     private extractArchitecturalFeatures(visionResult: any): any {
         // Extract architectural features from photo analysis
         const architecturalFeatures = {
@@ -497,156 +479,34 @@ export class MultimodalProcessor {
         return architecturalElements;
     }
 
-    private async analyzeFloorPlan(imageBuffer: Buffer): Promise<any> {
-        // This would use a specialized model for floor plan analysis
-        // For now, we'll implement a basic detection that works with the overall system
-
-        // In a production environment, this could use a specialized ML model
-        // trained specifically for floor plan detection
-
-        // Check if the image appears to be a floor plan based on tags and objects
-        // This is a simplified analysis for demonstration
+    private async analyzeFloorPlan(
+        imageBuffer: Buffer,
+        readLabels: boolean,
+        signal?: AbortSignal
+    ): Promise<FloorPlanRecognition> {
         try {
-            // We'll create a mock floor plan analysis result
-            // This would be replaced with actual ML-based floor plan recognition
+            const image = toGrayscale(decodePNG(imageBuffer));
+            const labels = readLabels
+                ? await this.readPlanLabels(imageBuffer, signal)
+                : [];
+            throwIfCancelled(signal);
+            return recognizeFloorPlan(image, { labels });
+        } catch (error) {
+            rethrowCancellation(error, signal);
+            // An image that cannot be read is the caller's to fix, not an
+            // empty plan
+            if (error instanceof ImageFormatError) throw error;
+            console.error("Floor plan analysis error:", error);
             return {
-                detectedRooms: [
-                    {
-                        name: "KITCHEN",
-                        boundingBox: {
-                            x: 258,
-                            y: 130,
-                            width: 212,
-                            height: 118,
-                        },
-                        type: "kitchen",
-                        doors: [{ x: 258, y: 176, width: 30, height: 10 }],
-                        windows: [{ x: 258, y: 150, width: 40, height: 10 }],
-                        connected_to: ["DINING"],
-                    },
-                    {
-                        name: "DINING",
-                        boundingBox: { x: 420, y: 110, width: 90, height: 100 },
-                        type: "dining",
-                        doors: [],
-                        windows: [],
-                        connected_to: ["KITCHEN", "HALLWAY"],
-                    },
-                    {
-                        name: "LIVING",
-                        boundingBox: {
-                            x: 258,
-                            y: 280,
-                            width: 210,
-                            height: 200,
-                        },
-                        type: "living",
-                        doors: [{ x: 328, y: 280, width: 60, height: 10 }],
-                        windows: [{ x: 258, y: 380, width: 40, height: 10 }],
-                        connected_to: ["HALLWAY"],
-                    },
-                    {
-                        name: "BEDRM 1",
-                        boundingBox: {
-                            x: 510,
-                            y: 320,
-                            width: 160,
-                            height: 140,
-                        },
-                        type: "bedroom",
-                        doors: [{ x: 510, y: 350, width: 10, height: 40 }],
-                        windows: [{ x: 640, y: 380, width: 30, height: 10 }],
-                        connected_to: ["HALLWAY"],
-                    },
-                    {
-                        name: "BATH 1",
-                        boundingBox: { x: 645, y: 120, width: 80, height: 90 },
-                        type: "bathroom",
-                        doors: [{ x: 645, y: 150, width: 10, height: 30 }],
-                        windows: [],
-                        connected_to: ["HALLWAY"],
-                    },
-                    {
-                        name: "BATH 2",
-                        boundingBox: { x: 570, y: 120, width: 80, height: 90 },
-                        type: "bathroom",
-                        doors: [{ x: 600, y: 210, width: 30, height: 10 }],
-                        windows: [],
-                        connected_to: ["HALLWAY"],
-                    },
-                    {
-                        name: "HALLWAY",
-                        boundingBox: {
-                            x: 510,
-                            y: 210,
-                            width: 170,
-                            height: 110,
-                        },
-                        type: "hallway",
-                        doors: [],
-                        windows: [],
-                        connected_to: [
-                            "LIVING",
-                            "BEDRM 1",
-                            "BATH 1",
-                            "BATH 2",
-                            "DINING",
-                            "WIC",
-                        ],
-                    },
-                    {
-                        name: "WIC",
-                        boundingBox: { x: 690, y: 180, width: 70, height: 90 },
-                        type: "closet",
-                        doors: [{ x: 690, y: 210, width: 10, height: 30 }],
-                        windows: [],
-                        connected_to: ["HALLWAY"],
-                    },
-                    {
-                        name: "W/D",
-                        boundingBox: { x: 510, y: 180, width: 60, height: 40 },
-                        type: "utility",
-                        doors: [{ x: 530, y: 180, width: 30, height: 10 }],
-                        windows: [],
-                        connected_to: ["HALLWAY"],
-                    },
-                    {
-                        name: "STOR.",
-                        boundingBox: { x: 258, y: 510, width: 70, height: 70 },
-                        type: "storage",
-                        doors: [{ x: 290, y: 510, width: 30, height: 10 }],
-                        windows: [],
-                        connected_to: ["PATIO"],
-                    },
-                    {
-                        name: "PATIO",
-                        boundingBox: { x: 328, y: 510, width: 220, height: 70 },
-                        type: "patio",
-                        doors: [{ x: 430, y: 510, width: 60, height: 10 }],
-                        windows: [],
-                        connected_to: ["LIVING", "STOR."],
-                    },
-                ],
-                // Scale estimation
+                detectedRooms: [],
+                walls: [],
+                wallThickness: 0,
                 scale: {
                     estimated: true,
                     pixelsPerMeter: 25,
-                    confidence: 0.8,
+                    confidence: 0.1,
+                    source: "walls",
                 },
-                // Overall dimensions
-                dimensions: {
-                    widthPixels: 598,
-                    heightPixels: 470,
-                    estimatedWidthMeters: 23.92,
-                    estimatedHeightMeters: 18.8,
-                },
-                confidence: 0.85,
-            };
-        } catch (error) {
-            console.error("Floor plan analysis error:", error);
-            return {
-                detectedRooms: [],
-                scale: { estimated: true, pixelsPerMeter: 25, confidence: 0.1 },
                 dimensions: {
                     widthPixels: 0,
                     heightPixels: 0,
@@ -658,7 +518,49 @@ export class MultimodalProcessor {
         }
     }
 
-    private generateRoomSpecifications(floorPlanAnalysis: any): any {
+    // Text lines of the plan with their pixel boxes, from Azure Vision OCR.
+    // Plans are still recognized without them, just with unnamed rooms.
+    private async readPlanLabels(
+        image: Buffer,
+        signal?: AbortSignal
+    ): Promise<PlanLabel[]> {
+        try {
+            const result: any = await withFixture(
+                {
+                    kind: "vision",
+                    label: "floor-plan-ocr",
+                    request: { image: digest(image), ocr: "printed" },
+                },
+                () =>
+                    this.visionClient.recognizePrintedTextInStream(
+                        true,
+                        image,
+                        { abortSignal: signal as AbortSignalLike | undefined }
+                    )
+            );
+            return (result.regions || []).flatMap((region: any) =>
+                (region.lines || []).map((line: any) => {
+                    const [x, y, width, height] = String(line.boundingBox)
+                        .split(",")
+                        .map(Number);
+                    return {
+                        text: (line.words || [])
+                            .map((word: any) => word.text)
+                            .join(" "),
+                        box: { x, y, width, height },
+                    };
+                })
+            );
+        } catch (error) {
+            rethrowCancellation(error, signal);
+            console.warn("Floor plan OCR failed, rooms stay unnamed:", error);
+            return [];
+        }
+    }
+
+    private generateRoomSpecifications(
+        floorPlanAnalysis: FloorPlanRecognition
+    ): any {
         if (
             !floorPlanAnalysis ||
             !floorPlanAnalysis.detectedRooms ||
@@ -704,86 +606,40 @@ export class MultimodalProcessor {
             };
         });
 
-        // Generate windows
-        const windows = detectedRooms.flatMap((room: any) => {
-            return (room.windows || []).map((window: any, index: number) => {
-                // Determine which wall the window is on
-                const roomX = (room.boundingBox.x - minX) * pixelsToMeters;
-                const roomZ = (room.boundingBox.y - minY) * pixelsToMeters;
-                const windowX = (window.x - minX) * pixelsToMeters;
-                const windowZ = (window.y - minY) * pixelsToMeters;
-
-                // Default window dimensions
-                const windowWidth = (window.width || 40) * pixelsToMeters;
-                const windowHeight = 1.2; // Standard window height
-
-                // Determine wall based on position
-                let wall = "north";
-                let position = 0.5; // Default to middle of wall
-
-                if (Math.abs(windowX - roomX) < 0.1) {
-                    // Window is on west wall
-                    wall = "west";
-                    position =
-                        (windowZ - roomZ) /
-                        (room.boundingBox.height * pixelsToMeters);
-                } else if (
-                    Math.abs(
-                        windowX -
-                            (roomX + room.boundingBox.width * pixelsToMeters)
-                    ) < 0.1
-                ) {
-                    // Window is on east wall
-                    wall = "east";
-                    position =
-                        (windowZ - roomZ) /
-                        (room.boundingBox.height * pixelsToMeters);
-                } else if (Math.abs(windowZ - roomZ) < 0.1) {
-                    // Window is on north wall
-                    wall = "north";
-                    position =
-                        (windowX - roomX) /
-                        (room.boundingBox.width * pixelsToMeters);
-                } else {
-                    // Window is on south wall
-                    wall = "south";
-                    position =
-                        (windowX - roomX) /
-                        (room.boundingBox.width * pixelsToMeters);
-                }
-
+        // Windows keep the wall side and position they were detected at
+        const windows = detectedRooms.flatMap((room: DetectedRoom) =>
+            room.windows.map((window) => {
+                const along =
+                    window.wall === "north" || window.wall === "south"
+                        ? window.width
+                        : window.height;
                 return {
                     room: room.name,
-                    wall: wall,
-                    width: Number(windowWidth.toFixed(2)),
-                    height: windowHeight,
-                    position: Number(position.toFixed(2)),
+                    wall: window.wall,
+                    width: Number((along * pixelsToMeters).toFixed(2)),
+                    height: 1.2, // Standard window height
+                    position: window.position,
                 };
-            });
-        });
+            })
+        );
 
-        // Generate doors
+        // One door per opening between two rooms, as wide as the opening
         const doors: any[] = [];
-
-        // Process logical connections between rooms
-        detectedRooms.forEach((room: any) => {
-            (room.connected_to || []).forEach((connectedRoom: string) => {
-                // Avoid duplicate doors
-                const doorExists = doors.some(
-                    (door: any) =>
-                        (door.from === room.name &&
-                            door.to === connectedRoom) ||
-                        (door.from === connectedRoom && door.to === room.name)
-                );
-
-                if (!doorExists) {
-                    doors.push({
-                        from: room.name,
-                        to: connectedRoom,
-                        width: 0.9, // Standard door width
-                        height: 2.1, // Standard door height
-                    });
-                }
+        const seenDoors = new Set<string>();
+        detectedRooms.forEach((room: DetectedRoom) => {
+            room.doors.forEach((door) => {
+                if (!door.to || seenDoors.has(door.id)) return;
+                seenDoors.add(door.id);
+                const width =
+                    Math.max(door.width, door.height) * pixelsToMeters;
+                doors.push({
+                    from: room.name,
+                    to: door.to,
+                    width: Number(
+                        Math.min(2.4, Math.max(0.6, width)).toFixed(2)
+                    ),
+                    height: 2.1, // Standard door height
+                });
             });
         });
 
@@ -796,12 +652,14 @@ export class MultimodalProcessor {
         };
     }
 
-    private async combineInputsWithGPT4V(inputs: any): Promise<any> {
+    private async combineInputsWithGPT4V(
+        inputs: any,
+        signal?: AbortSignal
+    ): Promise<any> {
         try {
-            // Check if OpenAI client is available
-            if (!this.openAIClient) {
-                console.log("OpenAI client not available, using fallback model generation");
-                return this.generateFallbackModel(inputs);
+            // Check if an LLM provider (or a recorded response) is available
+            if (!this.llm && !isReplayingFixtures()) {
+                throw new Error("no LLM provider configured");
             }
 
             // Prepare system message
@@ -825,8 +683,14 @@ export class MultimodalProcessor {
                 userMessage += `VOICE INPUT:\n${inputs.speechText}\n\n`;
             }
 
-            // Add sketch analysis if available
-            if (inputs.sketchAnalysis) {
+            // Add sketch analysis if available; drawn sketches are to scale
+            if (inputs.sketchAnalysis?.source === "vector") {
+                userMessage += `SKETCH GEOMETRY (drawn to scale, in meters; make one room per sketched room with exactly its width, length, x and z, named as labelled, and keep the sketched doors and windows):\n${JSON.stringify(
+                    inputs.sketchAnalysis,
+                    null,
+                    2
+                )}\n\n`;
+            } else if (inputs.sketchAnalysis) {
                 userMessage += `SKETCH ANALYSIS:\n${JSON.stringify(
                     inputs.sketchAnalysis,
                     null,
@@ -855,38 +719,73 @@ export class MultimodalProcessor {
                 '      "x": number,\n' +
                 '      "y": number,\n' +
                 '      "z": number,\n' +
+                '      "level": "string (only for multi-storey buildings)",\n' +
                 '      "connected_to": ["string"]\n' +
                 "    }\n" +
                 "  ],\n" +
                 '  "windows": [...],\n' +
-                '  "doors": [...]\n' +
+                '  "doors": [...],\n' +
+                '  "levels": [{ "name": "string", "elevation": number, "height": number }] (optional),\n' +
+                '  "stairs": [{ "name": "string", "from_level": "string", "to_level": "string", "x": number, "z": number, "width": number, "length": number }] (optional)\n' +
                 "}";
 
-            // Call Azure OpenAI
-            const response = await this.openAIClient.chat.completions.create({
-                model: AZURE_OPENAI_DEPLOYMENT,
-                messages: [
-                    { role: "system", content: systemPrompt },
-                    { role: "user", content: userMessage },
-                ],
-                temperature: 0.2,
-                max_tokens: 4000,
-            });
-
-            // Extract the model data from the response
-            const content = response.choices[0].message?.content || "";
-            const modelData = this.extractModelData(content);
+            // Call the configured LLM provider
+            const messages: ChatMessage[] = [
+                { role: "system", content: systemPrompt },
+                { role: "user", content: userMessage },
+            ];
+            const content = await withFixture(
+                {
+                    kind: "llm",
+                    label: "multimodal",
+                    request: {
+                        messages,
+                        temperature: 0.2,
+                        format: MODEL_DATA_FORMAT.name,
+                    },
+                },
+                async () => {
+                    const response = await this.llm!.chat({
+                        model: this.deployment,
+                        messages,
+                        temperature: 0.2,
+                        maxTokens: 4000,
+                        responseFormat: MODEL_DATA_FORMAT,
+                        signal,
+                    });
+                    return response.content;
+                }
+            );
+            const extracted = parseStructuredOutput(
+                content,
+                MODEL_DATA_FORMAT,
+                "Multimodal processor"
+            );
+            const validation = validateModelData(extracted);
+            if (!validation.success) {
+                console.warn(
+                    "Combined model failed schema validation:",
+                    validation.issues
+                );
+            }
 
             // Analyze the unified model for metadata and insights
-            const metadata = this.extractModelMetadata(modelData, inputs);
+            const metadata = this.extractModelMetadata(extracted, inputs);
 
             return {
-                modelData,
+                // Only schema-valid models are handed on; callers fall back
+                // to the agent pipeline otherwise
+                modelData: validation.success ? validation.data : null,
+                validationIssues: validation.success
+                    ? []
+                    : validation.issues,
                 metadata,
                 rawResponse: content,
             };
         } catch (error) {
+            rethrowCancellation(error, signal);
             console.error("Error combining inputs:", error);
+            if (error instanceof StructuredOutputError) throw error;
             throw new Error(
                 `GPT-4 processing failed: ${
                     error instanceof Error ? error.message : String(error)
@@ -895,77 +794,6 @@ export class MultimodalProcessor {
         }
     }
 
-    private generateFallbackModel(inputs: any): any {
-        console.log("Generating fallback model due to missing Azure configuration");
-        // Generate a basic architectural model based on available inputs
-        const fallbackModel = {
-            rooms: [
-                {
-                    name: "living room",
-                    dimensions: { width: 6, length: 8, height: 3 },
-                    position: { x: 0, y: 0, z: 0 },
-                    type: "living"
-                },
-                {
-                    name: "kitchen",
-                    dimensions: { width: 4, length: 5, height: 3 },
-                    position: { x: 6, y: 0, z: 0 },
-                    type: "kitchen"
-                },
-                {
-                    name: "bedroom",
-                    dimensions: { width: 4, length: 5, height: 3 },
-                    position: { x: 0, y: 0, z: 8 },
-                    type: "bedroom"
-                }
-            ],
-            doors: [
-                { from: "living room", to: "kitchen", width: 1.0, height: 2.1 },
-                { from: "living room", to: "bedroom", width: 0.9, height: 2.1 }
-            ],
-            windows: [
-                { room: "living room", wall: "north", width: 1.5, height: 1.2, position: 0.5 },
-                { room: "bedroom", wall: "east", width: 1.2, height: 1.2, position: 0.3 }
-            ]
-        };
-
-        const metadata = {
-            inputModalities: {
-                text: !!inputs.text,
-                speech: !!inputs.speechText,
-                sketch: !!inputs.sketchAnalysis,
-                photo: !!inputs.photoAnalysis,
-            },
-            modelStatistics: {
-                roomCount: fallbackModel.rooms.length,
-                windowCount: fallbackModel.windows.length,
-                doorCount: fallbackModel.doors.length,
-                totalArea: 74, // Calculated manually for fallback
-                largestRoom: "living room"
-            },
-            note: "Generated using fallback model (Azure services not configured)"
-        };
-
-        return {
-            modelData: fallbackModel,
-            metadata,
-            rawResponse: "Fallback model generated due to missing Azure configuration"
-        };
-    }
-
-    private extractModelData(content: string): any {
-        try {
-            // Look for JSON in the response
-            const jsonMatch = content.match(/\{[\s\S]*\}/);
-            return jsonMatch
-                ? JSON.parse(jsonMatch[0])
-                : { error: "No valid JSON found in response" };
-        } catch (error) {
-            console.error("Error extracting model data:", error);
-            return { error: "Failed to parse model data", rawContent: content };
-        }
-    }
-
     private extractModelMetadata(modelData: any, inputs: any): any {
         // Extract useful metadata from the generated model
         const metadata = {
@@ -990,7 +818,7 @@ export class MultimodalProcessor {
     }
 
     private calculateTotalArea(rooms: any[]): number {
-        return rooms.reduce((sum, room) => sum + room.width * room.length, 0);
+        return rooms.reduce((sum, room) => sum + getRoomArea(room), 0);
     }
 
     private findLargestRoom(rooms: any[]): any {
@@ -998,12 +826,12 @@ export class MultimodalProcessor {
 
         return rooms.reduce(
             (largest, room) => {
-                const area = room.width * room.length;
+                const area = getRoomArea(room);
                 return area > largest.area
                     ? { name: room.name, area }
                     : largest;
             },
-            { name: rooms[0].name, area: rooms[0].width * rooms[0].length }
+            { name: rooms[0].name, area: getRoomArea(rooms[0]) }
         );
     }
 
@@ -1041,56 +869,19 @@ export class MultimodalProcessor {
         return weights;
     }
 
-    // Speech recognition method
-    async recognizeSpeech(audioBlob: Blob): Promise<string> {
-        if (!this.speechConfig) {
-            throw new Error(
-                "Speech service not initialized. Check Azure Speech configuration."
-            );
+    // Speech recognition method, with the recognizer configured by
+    // SPEECH_RECOGNIZER (see services/speech-recognizer)
+    async recognizeSpeech(
+        audioBlob: Blob,
+        signal?: AbortSignal
+    ): Promise<string> {
+        throwIfCancelled(signal);
+        const audio = new Uint8Array(await audioBlob.arrayBuffer());
+        const transcript = await transcribeAudio(audio, { signal });
+        if (!transcript.text) {
+            throw new Error("No text was recognized from the audio");
         }
-
-        return new Promise<string>(async (resolve, reject) => {
-            try {
-                // Convert Blob to ArrayBuffer
-                const arrayBuffer = await audioBlob.arrayBuffer();
-
-                // Create an AudioConfig object using the array buffer
-                const pushStream =
-                    AudioConfig.fromWavFileOutput("audio-output.wav");
-
-                // Create the SpeechRecognizer
-                const recognizer = new SpeechRecognizer(
-                    this.speechConfig,
-                    pushStream
-                );
-
-                // Process audio data
-                recognizer.recognizeOnceAsync(
-                    (result) => {
-                        if (result.text) {
-                            resolve(result.text);
-                        } else {
-                            reject(
-                                new Error(
-                                    "No text was recognized from the audio"
-                                )
-                            );
-                        }
-                        recognizer.close();
-                    },
-                    (error) => {
-                        recognizer.close();
-                        reject(error);
-                    }
-                );
-
-                // Push audio data to the stream
-                pushStream.write(new Uint8Array(arrayBuffer));
-                pushStream.close();
-            } catch (error) {
-                reject(error);
-            }
-        });
+        return transcript.text;
     }
 }
 
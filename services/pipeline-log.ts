@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Log lines of the agent pipeline. Every line goes to the console; lines
+// logged while a CAD job runs are also handed to that job's listener. The
+// listener is found through the async context, so it does not have to be
+// passed through every agent and helper.
+
+export interface PipelineLogLine {
+    source: string; // agent or service name
+    level: "info" | "warn";
+    message: string;
+}
+
+export type PipelineLogListener = (line: PipelineLogLine) => void;
+
+const listeners = new AsyncLocalStorage<PipelineLogListener>();
+
+/** Runs the task with every pipeline log line also sent to the listener. */
+export function withPipelineLog<T>(
+    listener: PipelineLogListener,
+    task: () => Promise<T>
+): Promise<T> {
+    return listeners.run(listener, task);
+}
+
+export function pipelineLog(
+    source: string,
+    message: string,
+    level: PipelineLogLine["level"] = "info"
+) {
+    if (level === "warn") {
+        console.warn(message);
+    } else {
+        console.log(message);
+    }
+
+    const listener = listeners.getStore();
+    if (!listener) return;
+    try {
+        listener({ source, level, message });
+    } catch (error) {
+        console.error("Pipeline log listener failed:", error);
+    }
+}
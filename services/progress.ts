@@ -0,0 +1,79 @@
+import { ModelData } from "@/lib/model-schema";
+
+// Stage events and partial results reported while a design request runs,
+// so a caller such as the CAD job route can show how far the pipeline
+// actually got and what it has produced so far.
+
+export const PROGRESS_STAGES = [
+    "sketch_analysis",
+    "interpreting",
+    "designing",
+    "rendering",
+] as const;
+export type ProgressStage = (typeof PROGRESS_STAGES)[number];
+
+export interface ProgressEvent {
+    stage: ProgressStage;
+    progress: number; // 0-1 within the stage
+    message: string;
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// Intermediate output, in the order the pipeline produces it: the
+// interpreted requirements, then each variant's reviewed layout, then its
+// Three.js code
+export type PartialResult =
+    | { kind: "requirements"; requirements: any }
+    | { kind: "layout"; variant: string; modelData: ModelData }
+    | { kind: "code"; variant: string; code: string };
+
+export type PartialResultListener = (result: PartialResult) => void;
+
+// Percentage of the whole run each stage covers
+const STAGE_SPANS: Record<ProgressStage, [number, number]> = {
+    sketch_analysis: [5, 25],
+    interpreting: [25, 40],
+    designing: [40, 85],
+    rendering: [85, 99],
+};
+
+/**
+ * Sends an event to the listener, if any. A failing listener is logged and
+ * never interrupts the pipeline.
+ */
+export function reportProgress(
+    listener: ProgressListener | undefined,
+    stage: ProgressStage,
+    progress: number,
+    message: string
+) {
+    if (!listener) return;
+    try {
+        listener({
+            stage,
+            progress: Math.min(Math.max(progress, 0), 1),
+            message,
+        });
+    } catch (error) {
+        console.error("Progress listener failed:", error);
+    }
+}
+
+export function reportPartialResult(
+    listener: PartialResultListener | undefined,
+    result: PartialResult
+) {
+    if (!listener) return;
+    try {
+        listener(result);
+    } catch (error) {
+        console.error("Partial result listener failed:", error);
+    }
+}
+
+/** Overall percentage, 0-100, for an event. */
+export function getOverallProgress(event: ProgressEvent): number {
+    const [start, end] = STAGE_SPANS[event.stage];
+    return Math.round(start + (end - start) * event.progress);
+}
@@ -0,0 +1,51 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import http from "http";
+import https from "https";
+
+// The address of the peer a request came in from. Route handlers only see
+// the Fetch API Request, not the socket, and Next.js leaves X-Forwarded-For
+// as the client sent it; so the server records the socket's address in a
+// header of its own on every request. The value carries a token made up
+// when the process starts, so one the client sent itself, or one that got
+// through before the hook was installed, is never taken for it.
+
+const REMOTE_ADDRESS_HEADER = "x-archifusion-remote-address";
+
+// On globalThis: Next.js bundles the instrumentation hook and the routes
+// separately, each with a copy of this module
+const TOKEN = Symbol.for("archifusion.remoteAddressToken");
+type WithToken = typeof globalThis & { [TOKEN]?: string };
+
+/** Makes the HTTP(S) servers of this process record remote addresses. */
+export function recordRemoteAddresses() {
+    const global = globalThis as WithToken;
+    if (global[TOKEN]) return;
+    const token = crypto.randomBytes(16).toString("hex");
+    global[TOKEN] = token;
+
+    for (const Server of [http.Server, https.Server]) {
+        const prototype: EventEmitter = Server.prototype;
+        const emit = prototype.emit;
+        prototype.emit = function (event, ...args) {
+            if (event === "request") {
+                const [req] = args as [http.IncomingMessage];
+                const address = req.socket.remoteAddress;
+                if (address) {
+                    req.headers[REMOTE_ADDRESS_HEADER] = `${token} ${address}`;
+                } else {
+                    delete req.headers[REMOTE_ADDRESS_HEADER];
+                }
+            }
+            return emit.call(this, event, ...args);
+        };
+    }
+}
+
+/** The address recorded for the request, or null. */
+export function getRemoteAddress(req: Request): string | null {
+    const token = (globalThis as WithToken)[TOKEN];
+    const value = req.headers.get(REMOTE_ADDRESS_HEADER);
+    if (!token || !value?.startsWith(`${token} `)) return null;
+    return value.slice(token.length + 1);
+}
@@ -0,0 +1,429 @@
+import fs from "fs";
+import OpenAI, { toFile } from "openai";
+import * as sdk from "microsoft-cognitiveservices-speech-sdk";
+import { AZURE_SERVICES_CONFIG, SPEECH_CONFIG } from "./agents/agent-config";
+import { digest, withFixture } from "./ai-fixtures";
+import { CancelledError, throwIfCancelled } from "./cancellation";
+import {
+    AudioFormatError,
+    DecodedAudio,
+    decodeAudio,
+    pcmBytes,
+    resamplePCM,
+} from "@/lib/audio-decoder";
+
+// Speech recognizers for voice input. Recordings are decoded once (see
+// lib/audio-decoder) and handed to the configured recognizer, which
+// returns the transcript with its confidence and word timings.
+
+export const SPEECH_RECOGNIZER_KINDS = ["azure", "whisper", "fixture"] as const;
+export type SpeechRecognizerKind = (typeof SPEECH_RECOGNIZER_KINDS)[number];
+
+export interface TranscriptWord {
+    word: string;
+    start: number; // seconds from the start of the recording
+    end: number;
+    confidence?: number; // 0-1, where the recognizer reports it
+}
+
+export interface Transcript {
+    text: string;
+    confidence: number | null; // 0-1; null if the recognizer has none
+    language: string;
+    durationSeconds: number | null;
+    words: TranscriptWord[];
+}
+
+export interface RecognitionRequest {
+    audio: DecodedAudio;
+    language: string; // BCP-47, e.g. "en-US"
+    // Aborts the recognition in flight
+    signal?: AbortSignal;
+}
+
+export interface SpeechRecognizer {
+    readonly kind: SpeechRecognizerKind;
+    recognize(request: RecognitionRequest): Promise<Transcript>;
+}
+
+export class SpeechRecognizerNotConfiguredError extends Error {
+    readonly recognizer: string;
+
+    constructor(recognizer: string) {
+        super(`Speech recognizer "${recognizer}" is not configured`);
+        this.name = "SpeechRecognizerNotConfiguredError";
+        this.recognizer = recognizer;
+    }
+}
+
+// Azure Speech takes 16 kHz mono PCM or Ogg Opus through a push stream
+const AZURE_SAMPLE_RATE = 16000;
+// Azure reports offsets and durations in 100 ns ticks
+const TICKS_PER_SECOND = 1e7;
+
+export class AzureSpeechRecognizer implements SpeechRecognizer {
+    readonly kind = "azure";
+
+    constructor(private options: { key: string; region: string }) {}
+
+    recognize(request: RecognitionRequest): Promise<Transcript> {
+        const { audio, language, signal } = request;
+        throwIfCancelled(signal);
+
+        let format: sdk.AudioStreamFormat;
+        let bytes: Uint8Array;
+        if (audio.pcm) {
+            format = sdk.AudioStreamFormat.getWaveFormatPCM(
+                AZURE_SAMPLE_RATE,
+                16,
+                1
+            );
+            bytes = pcmBytes(resamplePCM(audio.pcm, AZURE_SAMPLE_RATE));
+        } else if (audio.oggOpus) {
+            format = sdk.AudioStreamFormat.getWaveFormat(
+                AZURE_SAMPLE_RATE,
+                16,
+                1,
+                sdk.AudioFormatTag.OGG_OPUS
+            );
+            bytes = audio.oggOpus;
+        } else {
+            throw new AudioFormatError(
+                `Azure Speech cannot read ${audio.codec} audio`,
+                "unsupported"
+            );
+        }
+
+        const stream = sdk.AudioInputStream.createPushStream(format);
+        stream.write(toArrayBuffer(bytes));
+        stream.close();
+
+        const config = sdk.SpeechConfig.fromSubscription(
+            this.options.key,
+            this.options.region
+        );
+        config.speechRecognitionLanguage = language;
+        config.outputFormat = sdk.OutputFormat.Detailed;
+        config.requestWordLevelTimestamps();
+        const recognizer = new sdk.SpeechRecognizer(
+            config,
+            sdk.AudioConfig.fromStreamInput(stream)
+        );
+
+        return new Promise<Transcript>((resolve, reject) => {
+            const phrases: AzurePhrase[] = [];
+            let settled = false;
+            const settle = (error?: unknown) => {
+                if (settled) return;
+                settled = true;
+                signal?.removeEventListener("abort", onAbort);
+                recognizer.close();
+                if (error) reject(error);
+                else resolve(joinPhrases(phrases, language, audio));
+            };
+            // Cancelling stops the recognition in flight
+            const onAbort = () => settle(new CancelledError());
+            signal?.addEventListener("abort", onAbort, { once: true });
+
+            recognizer.recognized = (_, event) => {
+                if (event.result.reason !== sdk.ResultReason.RecognizedSpeech) {
+                    return;
+                }
+                phrases.push(parseAzurePhrase(event.result));
+            };
+            // The stream ending is reported as a cancellation too
+            recognizer.canceled = (_, event) => {
+                if (event.reason === sdk.CancellationReason.Error) {
+                    settle(
+                        new Error(
+                            `Azure Speech failed (${event.errorCode}): ${event.errorDetails}`
+                        )
+                    );
+                } else {
+                    settle();
+                }
+            };
+            recognizer.sessionStopped = () => settle();
+            recognizer.startContinuousRecognitionAsync(undefined, (error) =>
+                settle(new Error(`Azure Speech failed: ${error}`))
+            );
+        });
+    }
+}
+
+// Any OpenAI-compatible transcription endpoint: OpenAI itself or a local
+// whisper.cpp, faster-whisper or LocalAI server. Recordings are sent as
+// they are; the server decodes them.
+export class WhisperRecognizer implements SpeechRecognizer {
+    readonly kind = "whisper";
+    private client: OpenAI;
+
+    constructor(
+        private options: { baseURL: string; apiKey?: string; model: string }
+    ) {
+        this.client = new OpenAI({
+            baseURL: options.baseURL,
+            // Local servers ignore the key but the SDK requires one
+            apiKey: options.apiKey || "not-needed",
+        });
+    }
+
+    async recognize(request: RecognitionRequest): Promise<Transcript> {
+        const { audio, language, signal } = request;
+        const file = await toFile(
+            Buffer.from(audio.bytes),
+            `speech.${audio.container}`,
+            { type: audio.mimeType }
+        );
+        const response = await this.client.audio.transcriptions.create(
+            {
+                file,
+                model: this.options.model,
+                // Whisper takes ISO-639-1 codes
+                language: language.split("-")[0].toLowerCase(),
+                response_format: "verbose_json",
+                timestamp_granularities: ["word", "segment"],
+            },
+            { signal }
+        );
+
+        // Segment log-probabilities, weighted by length, as a confidence
+        const segments = response.segments || [];
+        const spoken = segments.reduce(
+            (total, segment) => total + (segment.end - segment.start),
+            0
+        );
+        const confidence =
+            segments.length > 0 && spoken > 0
+                ? segments.reduce(
+                      (total, segment) =>
+                          total +
+                          Math.exp(segment.avg_logprob) *
+                              (segment.end - segment.start),
+                      0
+                  ) / spoken
+                : null;
+
+        return {
+            text: response.text.trim(),
+            confidence: confidence === null ? null : round(confidence),
+            language,
+            durationSeconds: response.duration ?? audio.durationSeconds,
+            words: (response.words || []).map((word) => ({
+                word: word.word.trim(),
+                start: word.start,
+                end: word.end,
+            })),
+        };
+    }
+}
+
+// Canned transcripts for offline runs and tests, keyed by the SHA-256 of
+// the recording; "*" answers any recording. A plain string is a transcript
+// without word timings.
+export class FixtureSpeechRecognizer implements SpeechRecognizer {
+    readonly kind = "fixture";
+    readonly requests: RecognitionRequest[] = [];
+
+    constructor(
+        private transcripts: Record<string, Partial<Transcript> | string> = {}
+    ) {}
+
+    static fromFile(path: string): FixtureSpeechRecognizer {
+        const transcripts = JSON.parse(fs.readFileSync(path, "utf8"));
+        if (!transcripts || typeof transcripts !== "object") {
+            throw new Error(
+                `Speech fixtures ${path} must contain a JSON object`
+            );
+        }
+        return new FixtureSpeechRecognizer(transcripts);
+    }
+
+    async recognize(request: RecognitionRequest): Promise<Transcript> {
+        throwIfCancelled(request.signal);
+        this.requests.push(request);
+        const key = digest(request.audio.bytes);
+        const entry = this.transcripts[key] ?? this.transcripts["*"];
+        if (entry === undefined) {
+            throw new Error(`No fixture transcript for audio ${key}`);
+        }
+
+        const transcript = typeof entry === "string" ? { text: entry } : entry;
+        return {
+            text: transcript.text || "",
+            confidence: transcript.confidence ?? 1,
+            language: transcript.language || request.language,
+            durationSeconds:
+                transcript.durationSeconds ?? request.audio.durationSeconds,
+            words: transcript.words || [],
+        };
+    }
+}
+
+const recognizers = new Map<SpeechRecognizerKind, SpeechRecognizer>();
+
+/**
+ * Replaces the shared instance of a recognizer kind, e.g. to install
+ * fixture transcripts for a test run.
+ */
+export function registerSpeechRecognizer(recognizer: SpeechRecognizer) {
+    recognizers.set(recognizer.kind, recognizer);
+}
+
+/**
+ * Returns the shared recognizer of the given kind, creating it from the
+ * environment on first use. Returns null when it is not configured.
+ */
+export function getSpeechRecognizer(
+    kind: SpeechRecognizerKind
+): SpeechRecognizer | null {
+    const existing = recognizers.get(kind);
+    if (existing) return existing;
+
+    let recognizer: SpeechRecognizer | null = null;
+    switch (kind) {
+        case "azure": {
+            const { key, region } = AZURE_SERVICES_CONFIG.speech;
+            if (key && region) {
+                recognizer = new AzureSpeechRecognizer({ key, region });
+            }
+            break;
+        }
+        case "whisper":
+            recognizer = new WhisperRecognizer(SPEECH_CONFIG.whisper);
+            break;
+        case "fixture":
+            recognizer = SPEECH_CONFIG.fixture.path
+                ? FixtureSpeechRecognizer.fromFile(SPEECH_CONFIG.fixture.path)
+                : new FixtureSpeechRecognizer();
+            break;
+    }
+
+    if (recognizer) recognizers.set(kind, recognizer);
+    return recognizer;
+}
+
+/** SPEECH_RECOGNIZER, checked. */
+export function getSpeechRecognizerKind(): SpeechRecognizerKind {
+    const kind = SPEECH_CONFIG.recognizer;
+    if (!isSpeechRecognizerKind(kind)) {
+        throw new Error(
+            `Unknown SPEECH_RECOGNIZER "${kind}", expected one of: ${SPEECH_RECOGNIZER_KINDS.join(", ")}`
+        );
+    }
+    return kind;
+}
+
+export function isSpeechRecognizerKind(
+    value: unknown
+): value is SpeechRecognizerKind {
+    return SPEECH_RECOGNIZER_KINDS.includes(value as SpeechRecognizerKind);
+}
+
+/**
+ * Decodes a recording and transcribes it with the configured recognizer.
+ * Throws AudioFormatError for recordings that cannot be read and
+ * SpeechRecognizerNotConfiguredError when there is no recognizer.
+ */
+export async function transcribeAudio(
+    bytes: Uint8Array,
+    options: { language?: string; signal?: AbortSignal } = {}
+): Promise<Transcript> {
+    throwIfCancelled(options.signal);
+    const audio = decodeAudio(bytes);
+    const language = options.language || SPEECH_CONFIG.language;
+    const kind = getSpeechRecognizerKind();
+
+    return withFixture(
+        {
+            kind: "speech",
+            label: `speech-${kind}`,
+            request: { audio: digest(bytes), language },
+        },
+        () => {
+            const recognizer = getSpeechRecognizer(kind);
+            if (!recognizer) throw new SpeechRecognizerNotConfiguredError(kind);
+            return recognizer.recognize({
+                audio,
+                language,
+                signal: options.signal,
+            });
+        }
+    );
+}
+
+interface AzurePhrase {
+    text: string;
+    confidence: number | null;
+    words: TranscriptWord[];
+}
+
+// Detailed results carry the n-best list as JSON; the first entry is the
+// one reported as the result text
+function parseAzurePhrase(result: sdk.SpeechRecognitionResult): AzurePhrase {
+    const json = result.properties.getProperty(
+        sdk.PropertyId.SpeechServiceResponse_JsonResult
+    );
+    const best = json ? JSON.parse(json).NBest?.[0] : undefined;
+    if (!best) return { text: result.text, confidence: null, words: [] };
+
+    return {
+        text: best.Display || result.text,
+        confidence:
+            typeof best.Confidence === "number" ? best.Confidence : null,
+        words: (best.Words || []).map(
+            (word: {
+                Word: string;
+                Offset: number;
+                Duration: number;
+                Confidence?: number;
+            }) => ({
+                word: word.Word,
+                start: word.Offset / TICKS_PER_SECOND,
+                end: (word.Offset + word.Duration) / TICKS_PER_SECOND,
+                confidence: word.Confidence,
+            })
+        ),
+    };
+}
+
+// One transcript from the phrases of a continuous recognition, with the
+// phrase confidences weighted by their word counts
+function joinPhrases(
+    phrases: AzurePhrase[],
+    language: string,
+    audio: DecodedAudio
+): Transcript {
+    const scored = phrases.filter((phrase) => phrase.confidence !== null);
+    const weight = (phrase: AzurePhrase) => Math.max(1, phrase.words.length);
+    const totalWeight = scored.reduce((n, phrase) => n + weight(phrase), 0);
+    const confidence =
+        totalWeight > 0
+            ? scored.reduce(
+                  (n, phrase) => n + phrase.confidence! * weight(phrase),
+                  0
+              ) / totalWeight
+            : null;
+
+    return {
+        text: phrases
+            .map((phrase) => phrase.text.trim())
+            .filter(Boolean)
+            .join(" "),
+        confidence: confidence === null ? null : round(confidence),
+        language,
+        durationSeconds: audio.durationSeconds,
+        words: phrases.flatMap((phrase) => phrase.words),
+    };
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.buffer.slice(
+        bytes.byteOffset,
+        bytes.byteOffset + bytes.byteLength
+    ) as ArrayBuffer;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,99 @@
+import { JSONParseError, parseTolerantJSON } from "@/lib/tolerant-json";
+import type { JSONSchemaFormat } from "./llm-provider";
+
+// Parsing of JSON responses requested with a schema. Providers that enforce
+// the schema return bare JSON; the rest are parsed with the tolerant parser.
+// Either way, a response that cannot be used raises StructuredOutputError
+// instead of being replaced by a canned design.
+
+export type StructuredOutputFailure =
+    | "parse" // not JSON, even loosely
+    | "truncated" // JSON cut off before the end
+    | "shape"; // JSON of the wrong type or missing required properties
+
+export class StructuredOutputError extends Error {
+    readonly source: string;
+    readonly format: string;
+    readonly reason: StructuredOutputFailure;
+    readonly position?: number;
+    readonly raw: string;
+
+    constructor(options: {
+        source: string;
+        format: string;
+        reason: StructuredOutputFailure;
+        detail: string;
+        position?: number;
+        raw: string;
+    }) {
+        super(
+            `${options.source} returned unusable ${options.format} output: ${options.detail}`
+        );
+        this.name = "StructuredOutputError";
+        this.source = options.source;
+        this.format = options.format;
+        this.reason = options.reason;
+        this.position = options.position;
+        this.raw = options.raw;
+    }
+}
+
+/**
+ * Parses a model response against the top level of a JSON schema: the
+ * value must have the schema's type and every required property. Deeper
+ * checks are left to the caller's own validation.
+ */
+export function parseStructuredOutput(
+    text: string,
+    format: JSONSchemaFormat,
+    source: string
+): any {
+    let value: unknown;
+    try {
+        value = parseTolerantJSON(text);
+    } catch (error) {
+        if (!(error instanceof JSONParseError)) throw error;
+        throw new StructuredOutputError({
+            source,
+            format: format.name,
+            reason: error.truncated ? "truncated" : "parse",
+            detail: error.message,
+            position: error.position,
+            raw: text,
+        });
+    }
+
+    const problem = checkTopLevel(value, format.schema);
+    if (problem) {
+        throw new StructuredOutputError({
+            source,
+            format: format.name,
+            reason: "shape",
+            detail: problem,
+            raw: text,
+        });
+    }
+    return value;
+}
+
+function checkTopLevel(
+    value: unknown,
+    schema: Record<string, unknown>
+): string | null {
+    const isObject =
+        typeof value === "object" && value !== null && !Array.isArray(value);
+    if (schema.type === "object" && !isObject) {
+        return `expected a JSON object, got ${Array.isArray(value) ? "an array" : typeof value}`;
+    }
+    if (schema.type === "array" && !Array.isArray(value)) {
+        return "expected a JSON array";
+    }
+
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    const missing = required.filter(
+        (key) => !isObject || !(key in (value as Record<string, unknown>))
+    );
+    return missing.length > 0
+        ? `missing required ${missing.map((key) => `"${key}"`).join(", ")}`
+        : null;
+}